@@ -2,6 +2,8 @@ const axios = require('axios');
 const linkedInConfig = require('../../config/linkedin');
 const supabase = require('../../config/supabase');
 const jwt = require('jsonwebtoken');
+const { recordPublishedPost, recordPublishedPostEdit } = require('../monitor/postPerformanceController');
+const { downloadStoredMedia } = require('../create/draftMediaController');
 
 // Generate LinkedIn OAuth URL
 async function getLinkedInAuthUrl(req, res) {
@@ -573,73 +575,347 @@ async function getCompanyPages(req, res) {
   }
 }
 
+// Draft mention token: @[Display Name](urn:li:person:ID) or @[Page](urn:li:organization:ID)
+const MENTION_TOKEN_PATTERN = /@\[([^\]\n]+)\]\((urn:li:(person|organization):[\w-]+)\)/g;
+
+// Turn draft mention tokens into ugcPosts commentary: the names as plain text
+// plus an attribute per mention (start/length are UTF-16 offsets into the text)
+function buildShareCommentary(content) {
+  const attributes = [];
+  let text = '';
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_TOKEN_PATTERN)) {
+    const [token, name, urn, kind] = match;
+    text += content.slice(lastIndex, match.index);
+    attributes.push({
+      start: text.length,
+      length: name.length,
+      value: kind === 'person'
+        ? { 'com.linkedin.common.MemberAttributedEntity': { member: urn } }
+        : { 'com.linkedin.common.CompanyAttributedEntity': { company: urn } }
+    });
+    text += name;
+    lastIndex = match.index + token.length;
+  }
+  text += content.slice(lastIndex);
+
+  return attributes.length > 0 ? { text, attributes } : { text };
+}
+
+// Post text as it reads on LinkedIn, with mention tokens reduced to the names
+function mentionsToText(content) {
+  return content.replace(MENTION_TOKEN_PATTERN, '$1');
+}
+
+// Build the ugcPosts share content (text-only or with image assets)
+function buildShareContent(content, imageAssets) {
+  if (imageAssets && Array.isArray(imageAssets) && imageAssets.length > 0) {
+    // Post with images
+    return {
+      shareCommentary: buildShareCommentary(content),
+      shareMediaCategory: 'IMAGE',
+      media: imageAssets.map(asset => ({
+        status: 'READY',
+        media: asset
+      }))
+    };
+  }
+
+  // Text-only post
+  return {
+    shareCommentary: buildShareCommentary(content),
+    shareMediaCategory: 'NONE'
+  };
+}
+
+// Send a post to the LinkedIn ugcPosts API
+// Returns { success, post, postUrn } or { success: false, status, error, details }
+async function createUgcPost(accessToken, authorUrn, content, imageAssets) {
+  const payload = {
+    author: authorUrn,
+    lifecycleState: 'PUBLISHED',
+    specificContent: {
+      'com.linkedin.ugc.ShareContent': buildShareContent(content, imageAssets)
+    },
+    visibility: {
+      'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC'
+    }
+  };
+
+  try {
+    const response = await axios.post('https://api.linkedin.com/v2/ugcPosts', payload, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'X-Restli-Protocol-Version': '2.0.0',
+        'LinkedIn-Version': '202511',
+        'Content-Type': 'application/json'
+      }
+    });
+
+    // The new post URN comes back as the body id and the x-restli-id header
+    const postUrn = response.data?.id || response.headers?.['x-restli-id'] || null;
+    return { success: true, post: response.data, postUrn };
+  } catch (postError) {
+    const raw = postError.response?.data;
+    const status = postError.response?.status || 500;
+    const friendlyMessage = raw?.message || raw?.messageText || postError.message || 'Failed to post to LinkedIn';
+    console.error('Error posting to LinkedIn:', raw || postError.message);
+    return { success: false, status, error: friendlyMessage, details: raw || postError.message };
+  }
+}
+
+// Characters the Posts API's "little text" commentary format reserves
+const LITTLE_TEXT_RESERVED_PATTERN = /[\\|{}@\[\]()<>#*_~]/g;
+
+function escapeLittleText(text) {
+  return text.replace(LITTLE_TEXT_RESERVED_PATTERN, '\\$&');
+}
+
+// Escape plain text for little text, keeping #hashtags as hashtags
+function textToLittleText(text) {
+  let output = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(/#([\p{L}\p{N}_]+)/gu)) {
+    // A # inside a word (C#, &#39;) is plain text
+    if (match.index > 0 && /[\p{L}\p{N}_&]/u.test(text[match.index - 1])) continue;
+    output += escapeLittleText(text.slice(lastIndex, match.index)) + `{hashtag|\\#|${match[1]}}`;
+    lastIndex = match.index + match[0].length;
+  }
+  return output + escapeLittleText(text.slice(lastIndex));
+}
+
+// Convert post text to Posts API commentary
+// Mention tokens are already little text's mention syntax, so they pass through as they are
+// https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/little-text-format
+function toLittleText(content) {
+  let output = '';
+  let lastIndex = 0;
+  for (const match of content.matchAll(MENTION_TOKEN_PATTERN)) {
+    output += textToLittleText(content.slice(lastIndex, match.index)) + match[0];
+    lastIndex = match.index + match[0].length;
+  }
+  return output + textToLittleText(content.slice(lastIndex));
+}
+
+// Send a video or document post to the LinkedIn Posts API (ugcPosts can't publish documents)
+// media: { kind: 'video' | 'document', urn, title? }
+// Returns { success, post, postUrn } or { success: false, status, error, details }
+async function createMediaPost(accessToken, authorUrn, content, media) {
+  const payload = {
+    author: authorUrn,
+    commentary: toLittleText(content),
+    visibility: 'PUBLIC',
+    distribution: {
+      feedDistribution: 'MAIN_FEED',
+      targetEntities: [],
+      thirdPartyDistributionChannels: []
+    },
+    content: {
+      media: {
+        id: media.urn,
+        // Documents need a title; it's shown above the carousel
+        ...(media.title ? { title: media.title } : {})
+      }
+    },
+    lifecycleState: 'PUBLISHED',
+    isReshareDisabledByAuthor: false
+  };
+
+  try {
+    const response = await axios.post('https://api.linkedin.com/rest/posts', payload, {
+      headers: restHeaders(accessToken)
+    });
+
+    // The Posts API answers 201 with the new post URN in the x-restli-id header
+    const postUrn = response.headers?.['x-restli-id'] || response.data?.id || null;
+    return { success: true, post: response.data || null, postUrn };
+  } catch (postError) {
+    const raw = postError.response?.data;
+    const status = postError.response?.status || 500;
+    const friendlyMessage = raw?.message || raw?.messageText || postError.message || 'Failed to post to LinkedIn';
+    console.error(`Error posting ${media.kind} to LinkedIn:`, raw || postError.message);
+    return { success: false, status, error: friendlyMessage, details: raw || postError.message };
+  }
+}
+
+// Validate the optional video/document attachment of a publish request
+// Returns an error message, or null when the attachment is usable (or absent)
+function validatePostMedia(media, imageAssets) {
+  if (!media) return null;
+  if (!['video', 'document'].includes(media.kind) || typeof media.urn !== 'string') {
+    return 'media must be { kind: "video" | "document", urn, title? }';
+  }
+  if (Array.isArray(imageAssets) && imageAssets.length > 0) {
+    return 'A post can have images or a video or a document, not several kinds';
+  }
+  if (media.kind === 'document' && !media.title) {
+    return 'Documents need a title';
+  }
+  return null;
+}
+
+// Pick the draft links out of a publish request body
+function publishSource(body) {
+  const { threadId, draftId, draftVersionId, draftVersion, scheduledDraftId } = body;
+  return { threadId, draftId, draftVersionId, draftVersion, scheduledDraftId };
+}
+
+// Publish a post as an organization
+// Shared by the POST /linkedin/post route and the scheduled post publisher
+// source links the post to the thread/draft/version it came from for performance tracking
+// media (a processed video or document) is published through the Posts API instead of ugcPosts
+// firstComment is commented on the new post; the outcome comes back as result.firstComment
+async function publishOrganizationPost({ clerkUserId, organizationId, content, imageAssets, media, firstComment, source }) {
+  // Get access token (validates expiry)
+  const tokenResult = await getLinkedInAccessToken(clerkUserId);
+  if (!tokenResult.success) {
+    return { success: false, status: 400, error: tokenResult.error || 'LinkedIn not connected' };
+  }
+
+  const authorUrn = `urn:li:organization:${organizationId}`;
+  const result = media
+    ? await createMediaPost(tokenResult.accessToken, authorUrn, content, media)
+    : await createUgcPost(tokenResult.accessToken, authorUrn, content, imageAssets);
+  if (result.success) {
+    await recordPublishedPost({ clerkUserId, organizationId, postUrn: result.postUrn, content: mentionsToText(content), commentary: content, source });
+    if (firstComment) {
+      result.firstComment = await postFirstComment(tokenResult.accessToken, authorUrn, result.postUrn, firstComment);
+    }
+  }
+  return result;
+}
+
+// Publish a post as the user's personal profile
+// Shared by the POST /linkedin/post/personal route and the scheduled post publisher
+async function publishPersonalPost({ clerkUserId, content, imageAssets, media, firstComment, source }) {
+  // Get user data including linkedin_user_id
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('linkedin_access_token, linkedin_token_expires_at, linkedin_user_id')
+    .eq('clerk_user_id', clerkUserId)
+    .single();
+
+  if (userError || !user) {
+    return { success: false, status: 400, error: 'User not found' };
+  }
+
+  if (!user.linkedin_access_token) {
+    return { success: false, status: 400, error: 'LinkedIn not connected' };
+  }
+
+  if (!user.linkedin_user_id) {
+    return { success: false, status: 400, error: 'LinkedIn user ID not found. Please reconnect your LinkedIn account.' };
+  }
+
+  // Check if token is expired
+  if (user.linkedin_token_expires_at && new Date(user.linkedin_token_expires_at) < new Date()) {
+    return { success: false, status: 400, error: 'LinkedIn token expired. Please reconnect your LinkedIn account.' };
+  }
+
+  const authorUrn = `urn:li:person:${user.linkedin_user_id}`;
+  const result = media
+    ? await createMediaPost(user.linkedin_access_token, authorUrn, content, media)
+    : await createUgcPost(user.linkedin_access_token, authorUrn, content, imageAssets);
+  if (result.success) {
+    await recordPublishedPost({ clerkUserId, postUrn: result.postUrn, content: mentionsToText(content), commentary: content, source });
+    if (firstComment) {
+      result.firstComment = await postFirstComment(user.linkedin_access_token, authorUrn, result.postUrn, firstComment);
+    }
+  }
+  return result;
+}
+
+// LinkedIn's limit for comment text
+const MAX_COMMENT_LENGTH = 1250;
+// A comment right after publishing can fail while the post propagates, so try a few times
+const FIRST_COMMENT_ATTEMPTS = 3;
+const FIRST_COMMENT_RETRY_DELAY_MS = 2000;
+
+// Comment on a post as the given member or organization
+// Comments API: https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/comments-api
+// Returns { success, commentUrn } or { success: false, status, error }
+async function createComment(accessToken, actorUrn, postUrn, text) {
+  try {
+    const response = await axios.post(
+      `https://api.linkedin.com/rest/socialActions/${encodeURIComponent(postUrn)}/comments`,
+      { actor: actorUrn, object: postUrn, message: { text } },
+      { headers: restHeaders(accessToken) }
+    );
+    const commentUrn = response.headers?.['x-restli-id'] || response.data?.commentUrn || null;
+    return { success: true, commentUrn };
+  } catch (commentError) {
+    const raw = commentError.response?.data;
+    return {
+      success: false,
+      status: commentError.response?.status || 500,
+      error: raw?.message || commentError.message || 'Failed to comment on the post'
+    };
+  }
+}
+
+// Post a draft's first comment on its new post, retrying while LinkedIn may still be catching up
+// Returns { status: 'posted', urn } or { status: 'failed', error, httpStatus }
+async function postFirstComment(accessToken, actorUrn, postUrn, text) {
+  if (!postUrn) {
+    return { status: 'failed', error: 'LinkedIn did not return the post id', httpStatus: 500 };
+  }
+
+  let result;
+  for (let attempt = 1; attempt <= FIRST_COMMENT_ATTEMPTS; attempt++) {
+    // Comments take plain text, so mention tokens are reduced to the names
+    result = await createComment(accessToken, actorUrn, postUrn, mentionsToText(text));
+    if (result.success) {
+      console.log(`💬 First comment posted on ${postUrn}`);
+      return { status: 'posted', urn: result.commentUrn };
+    }
+    // Only a missing post (not visible yet), rate limits and server errors are worth retrying
+    const retryable = result.status === 404 || result.status === 429 || result.status >= 500;
+    if (!retryable || attempt === FIRST_COMMENT_ATTEMPTS) break;
+    await new Promise(resolve => setTimeout(resolve, FIRST_COMMENT_RETRY_DELAY_MS * attempt));
+  }
+
+  console.error(`❌ First comment on ${postUrn} failed:`, result.error);
+  return { status: 'failed', error: result.error, httpStatus: result.status };
+}
+
+// Comment on an already published post as its author (the scheduled post publisher's retries)
+// Returns the same outcome as postFirstComment
+async function commentOnPublishedPost({ clerkUserId, organizationId, postUrn, text }) {
+  const author = await resolveUploadOwner({ clerkUserId, organizationId, isPersonal: !organizationId });
+  if (!author.success) {
+    return { status: 'failed', error: author.error, httpStatus: author.status };
+  }
+  return postFirstComment(author.accessToken, author.ownerUrn, postUrn, text);
+}
+
 // Post content to LinkedIn as an organization
 async function postOrganizationUpdate(req, res) {
   try {
-    const { clerkUserId, organizationId, content, imageAssets } = req.body || {};
+    const { clerkUserId, organizationId, content, imageAssets, media, firstComment } = req.body || {};
 
     if (!clerkUserId || !organizationId || !content) {
       return res.status(400).json({ error: 'clerkUserId, organizationId, and content are required' });
     }
 
-    // Get access token (validates expiry)
-    const tokenResult = await getLinkedInAccessToken(clerkUserId);
-    if (!tokenResult.success) {
-      return res.status(400).json({ error: tokenResult.error || 'LinkedIn not connected' });
+    const mediaError = validatePostMedia(media, imageAssets);
+    if (mediaError) {
+      return res.status(400).json({ error: mediaError });
     }
 
-    const accessToken = tokenResult.accessToken;
-    const authorUrn = `urn:li:organization:${organizationId}`;
-
-    // Build the payload based on whether we have images
-    let shareContent;
-    if (imageAssets && Array.isArray(imageAssets) && imageAssets.length > 0) {
-      // Post with images
-      shareContent = {
-        shareCommentary: { text: content },
-        shareMediaCategory: 'IMAGE',
-        media: imageAssets.map(asset => ({
-          status: 'READY',
-          media: asset
-        }))
-      };
-    } else {
-      // Text-only post
-      shareContent = {
-        shareCommentary: { text: content },
-        shareMediaCategory: 'NONE'
-      };
+    // Counted in characters: Unicode bold and italic letters are two UTF-16 units each
+    if (firstComment && (typeof firstComment !== 'string' || [...firstComment].length > MAX_COMMENT_LENGTH)) {
+      return res.status(400).json({ error: `firstComment must be text of up to ${MAX_COMMENT_LENGTH} characters` });
     }
 
-    const payload = {
-      author: authorUrn,
-      lifecycleState: 'PUBLISHED',
-      specificContent: {
-        'com.linkedin.ugc.ShareContent': shareContent
-      },
-      visibility: {
-        'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC'
-      }
-    };
-
-    try {
-      const response = await axios.post('https://api.linkedin.com/v2/ugcPosts', payload, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'X-Restli-Protocol-Version': '2.0.0',
-          'LinkedIn-Version': '202511',
-          'Content-Type': 'application/json'
-        }
-      });
-
-      return res.status(200).json({ success: true, post: response.data });
-    } catch (postError) {
-      const raw = postError.response?.data;
-      const status = postError.response?.status || 500;
-      const friendlyMessage = raw?.message || raw?.messageText || postError.message || 'Failed to post to LinkedIn';
-      console.error('Error posting to LinkedIn:', raw || postError.message);
-      return res.status(status).json({ error: friendlyMessage, details: raw || postError.message });
+    const result = await publishOrganizationPost({
+      clerkUserId, organizationId, content, imageAssets, media, firstComment: firstComment?.trim() || undefined, source: publishSource(req.body)
+    });
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error, details: result.details });
     }
+
+    return res.status(200).json({ success: true, post: result.post, postUrn: result.postUrn, firstComment: result.firstComment });
   } catch (error) {
     console.error('Error in postOrganizationUpdate:', error);
     res.status(500).json({ error: 'Internal server error', details: error.message });
@@ -649,196 +925,279 @@ async function postOrganizationUpdate(req, res) {
 // Post content to LinkedIn as the user's personal profile
 async function postPersonalUpdate(req, res) {
   try {
-    const { clerkUserId, content, imageAssets } = req.body || {};
+    const { clerkUserId, content, imageAssets, media, firstComment } = req.body || {};
 
     if (!clerkUserId || !content) {
       return res.status(400).json({ error: 'clerkUserId and content are required' });
     }
 
-    // Get user data including linkedin_user_id
-    const { data: user, error: userError } = await supabase
-      .from('users')
-      .select('linkedin_access_token, linkedin_token_expires_at, linkedin_user_id')
-      .eq('clerk_user_id', clerkUserId)
-      .single();
-
-    if (userError || !user) {
-      return res.status(400).json({ error: 'User not found' });
+    const mediaError = validatePostMedia(media, imageAssets);
+    if (mediaError) {
+      return res.status(400).json({ error: mediaError });
     }
 
-    if (!user.linkedin_access_token) {
-      return res.status(400).json({ error: 'LinkedIn not connected' });
+    // Counted in characters: Unicode bold and italic letters are two UTF-16 units each
+    if (firstComment && (typeof firstComment !== 'string' || [...firstComment].length > MAX_COMMENT_LENGTH)) {
+      return res.status(400).json({ error: `firstComment must be text of up to ${MAX_COMMENT_LENGTH} characters` });
     }
 
-    if (!user.linkedin_user_id) {
-      return res.status(400).json({ error: 'LinkedIn user ID not found. Please reconnect your LinkedIn account.' });
+    const result = await publishPersonalPost({
+      clerkUserId, content, imageAssets, media, firstComment: firstComment?.trim() || undefined, source: publishSource(req.body)
+    });
+    if (!result.success) {
+      return res.status(result.status).json({ error: result.error, details: result.details });
     }
 
-    // Check if token is expired
-    if (user.linkedin_token_expires_at && new Date(user.linkedin_token_expires_at) < new Date()) {
-      return res.status(400).json({ error: 'LinkedIn token expired. Please reconnect your LinkedIn account.' });
-    }
+    return res.status(200).json({ success: true, post: result.post, postUrn: result.postUrn, firstComment: result.firstComment });
+  } catch (error) {
+    console.error('Error in postPersonalUpdate:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+}
 
-    const authorUrn = `urn:li:person:${user.linkedin_user_id}`;
+// LinkedIn's limit for post text
+const MAX_POST_LENGTH = 3000;
+
+// A published post of the user's, with a token for the account it was posted as
+// Returns { success, post, accessToken } or { success: false, status, error }
+async function loadManagedPost(postId, clerkUserId) {
+  const { data: post, error } = await supabase
+    .from('published_posts')
+    .select('*')
+    .eq('id', postId)
+    .eq('user_clerk_id', clerkUserId)
+    .maybeSingle();
+
+  if (error || !post) {
+    return { success: false, status: 404, error: 'Published post not found' };
+  }
+  if (post.deleted_at) {
+    return { success: false, status: 409, error: 'This post was deleted from LinkedIn' };
+  }
 
-    // Build the payload based on whether we have images
-    let shareContent;
-    if (imageAssets && Array.isArray(imageAssets) && imageAssets.length > 0) {
-      // Post with images
-      shareContent = {
-        shareCommentary: { text: content },
-        shareMediaCategory: 'IMAGE',
-        media: imageAssets.map(asset => ({
-          status: 'READY',
-          media: asset
-        }))
-      };
-    } else {
-      // Text-only post
-      shareContent = {
-        shareCommentary: { text: content },
-        shareMediaCategory: 'NONE'
-      };
+  const author = await resolveUploadOwner({ clerkUserId, organizationId: post.organization_id, isPersonal: !post.organization_id });
+  if (!author.success) {
+    return author;
+  }
+  return { success: true, post, accessToken: author.accessToken };
+}
+
+// Error response for a failed Posts API call
+function postsApiError(res, apiError, action) {
+  const raw = apiError.response?.data;
+  console.error(`Error trying to ${action} on LinkedIn:`, raw || apiError.message);
+  return res.status(apiError.response?.status || 500).json({
+    error: raw?.message || `Failed to ${action} on LinkedIn`,
+    details: raw || apiError.message
+  });
+}
+
+// Replace the text of a published post
+// Body: { clerkUserId, content } - content is the new text, with mention tokens
+// Posts API partial update: https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/posts-api#update-posts
+async function updatePublishedPost(req, res) {
+  try {
+    const { postId } = req.params;
+    const { clerkUserId, content } = req.body || {};
+
+    if (!clerkUserId || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ error: 'clerkUserId and content are required' });
+    }
+    if ([...mentionsToText(content)].length > MAX_POST_LENGTH) {
+      return res.status(400).json({ error: `Posts can be at most ${MAX_POST_LENGTH} characters` });
     }
 
-    const payload = {
-      author: authorUrn,
-      lifecycleState: 'PUBLISHED',
-      specificContent: {
-        'com.linkedin.ugc.ShareContent': shareContent
-      },
-      visibility: {
-        'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC'
-      }
-    };
+    const managed = await loadManagedPost(postId, clerkUserId);
+    if (!managed.success) {
+      return res.status(managed.status).json({ error: managed.error });
+    }
 
     try {
-      const response = await axios.post('https://api.linkedin.com/v2/ugcPosts', payload, {
-        headers: {
-          Authorization: `Bearer ${user.linkedin_access_token}`,
-          'X-Restli-Protocol-Version': '2.0.0',
-          'LinkedIn-Version': '202511',
-          'Content-Type': 'application/json'
-        }
-      });
-
-      return res.status(200).json({ success: true, post: response.data });
-    } catch (postError) {
-      const raw = postError.response?.data;
-      const status = postError.response?.status || 500;
-      const friendlyMessage = raw?.message || raw?.messageText || postError.message || 'Failed to post to LinkedIn';
-      console.error('Error posting personal update to LinkedIn:', raw || postError.message);
-      return res.status(status).json({ error: friendlyMessage, details: raw || postError.message });
+      await axios.post(
+        `https://api.linkedin.com/rest/posts/${encodeURIComponent(managed.post.linkedin_post_urn)}`,
+        { patch: { $set: { commentary: toLittleText(content) } } },
+        { headers: { ...restHeaders(managed.accessToken), 'X-RestLi-Method': 'PARTIAL_UPDATE' } }
+      );
+    } catch (apiError) {
+      return postsApiError(res, apiError, 'update the post');
     }
+
+    const { post, version } = await recordPublishedPostEdit(managed.post, {
+      content: mentionsToText(content),
+      commentary: content
+    });
+
+    return res.json({
+      success: true,
+      post: {
+        content: post.content,
+        commentary: post.commentary,
+        editedAt: post.edited_at,
+        draftVersionId: post.draft_version_id,
+        draftVersion: post.draft_version
+      },
+      version
+    });
   } catch (error) {
-    console.error('Error in postPersonalUpdate:', error);
+    console.error('Error in updatePublishedPost:', error);
     res.status(500).json({ error: 'Internal server error', details: error.message });
   }
 }
 
-// Upload image to LinkedIn and get asset URN
-// LinkedIn Images API: https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/images-api
-async function uploadImage(req, res) {
+// Take a published post down from LinkedIn
+// The record stays (marked deleted) so the draft's history and metrics remain
+async function deletePublishedPost(req, res) {
   try {
-    const { clerkUserId, organizationId, isPersonal } = req.body || {};
-    const imageFile = req.file; // Expects multer middleware for file upload
+    const { postId } = req.params;
+    const { clerkUserId } = req.query;
 
     if (!clerkUserId) {
       return res.status(400).json({ error: 'clerkUserId is required' });
     }
 
-    if (!imageFile) {
-      return res.status(400).json({ error: 'Image file is required' });
+    const managed = await loadManagedPost(postId, clerkUserId);
+    if (!managed.success) {
+      return res.status(managed.status).json({ error: managed.error });
     }
 
-    // Get user data including access token and linkedin_user_id
-    const { data: user, error: userError } = await supabase
-      .from('users')
-      .select('linkedin_access_token, linkedin_token_expires_at, linkedin_user_id')
-      .eq('clerk_user_id', clerkUserId)
-      .single();
-
-    if (userError || !user) {
-      return res.status(400).json({ error: 'User not found' });
+    try {
+      await axios.delete(
+        `https://api.linkedin.com/rest/posts/${encodeURIComponent(managed.post.linkedin_post_urn)}`,
+        { headers: { ...restHeaders(managed.accessToken), 'X-RestLi-Method': 'DELETE' } }
+      );
+    } catch (apiError) {
+      // Already gone from LinkedIn (deleted there): just record it
+      if (apiError.response?.status !== 404) {
+        return postsApiError(res, apiError, 'delete the post');
+      }
     }
 
-    if (!user.linkedin_access_token) {
-      return res.status(400).json({ error: 'LinkedIn not connected' });
-    }
+    const deletedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('published_posts')
+      .update({ deleted_at: deletedAt })
+      .eq('id', postId);
 
-    // Check if token is expired
-    if (user.linkedin_token_expires_at && new Date(user.linkedin_token_expires_at) < new Date()) {
-      return res.status(400).json({ error: 'LinkedIn token expired. Please reconnect your LinkedIn account.' });
+    if (error) {
+      console.error('Error recording deleted post:', error);
+      return res.status(500).json({ error: 'The post was deleted from LinkedIn but could not be marked deleted' });
     }
 
-    const accessToken = user.linkedin_access_token;
+    console.log(`🗑️ Deleted ${managed.post.linkedin_post_urn} from LinkedIn`);
+    return res.json({ success: true, deletedAt });
+  } catch (error) {
+    console.error('Error in deletePublishedPost:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+}
 
-    // Determine the owner URN based on personal or organization
-    let ownerUrn;
-    if (isPersonal || !organizationId) {
-      if (!user.linkedin_user_id) {
-        return res.status(400).json({ error: 'LinkedIn user ID not found. Please reconnect your LinkedIn account.' });
-      }
-      ownerUrn = `urn:li:person:${user.linkedin_user_id}`;
-    } else {
-      ownerUrn = `urn:li:organization:${organizationId}`;
-    }
+// Access token and owner URN for a media upload, comment or post edit (the personal profile or the organization)
+// Returns { success, accessToken, ownerUrn } or { success: false, status, error }
+async function resolveUploadOwner({ clerkUserId, organizationId, isPersonal }) {
+  // Get user data including access token and linkedin_user_id
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('linkedin_access_token, linkedin_token_expires_at, linkedin_user_id')
+    .eq('clerk_user_id', clerkUserId)
+    .single();
+
+  if (userError || !user) {
+    return { success: false, status: 400, error: 'User not found' };
+  }
 
-    // Step 1: Register the image upload to get the upload URL
-    const registerPayload = {
-      registerUploadRequest: {
-        recipes: ['urn:li:digitalmediaRecipe:feedshare-image'],
-        owner: ownerUrn,
-        serviceRelationships: [
-          {
-            relationshipType: 'OWNER',
-            identifier: 'urn:li:userGeneratedContent'
-          }
-        ]
-      }
-    };
+  if (!user.linkedin_access_token) {
+    return { success: false, status: 400, error: 'LinkedIn not connected' };
+  }
 
-    let uploadUrl, asset;
-    try {
-      const registerResponse = await axios.post(
-        'https://api.linkedin.com/v2/assets?action=registerUpload',
-        registerPayload,
+  // Check if token is expired
+  if (user.linkedin_token_expires_at && new Date(user.linkedin_token_expires_at) < new Date()) {
+    return { success: false, status: 400, error: 'LinkedIn token expired. Please reconnect your LinkedIn account.' };
+  }
+
+  // Determine the owner URN based on personal or organization
+  // (multipart form fields arrive as strings, so isPersonal may be 'true'/'false')
+  if (isPersonal === true || isPersonal === 'true' || !organizationId) {
+    if (!user.linkedin_user_id) {
+      return { success: false, status: 400, error: 'LinkedIn user ID not found. Please reconnect your LinkedIn account.' };
+    }
+    return { success: true, accessToken: user.linkedin_access_token, ownerUrn: `urn:li:person:${user.linkedin_user_id}` };
+  }
+  return { success: true, accessToken: user.linkedin_access_token, ownerUrn: `urn:li:organization:${organizationId}` };
+}
+
+// Register an image with LinkedIn and upload its bytes; resolves to the asset URN
+// LinkedIn Images API: https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/images-api
+async function uploadImageToLinkedIn(accessToken, ownerUrn, buffer, mimeType) {
+  // Step 1: Register the image upload to get the upload URL
+  const registerPayload = {
+    registerUploadRequest: {
+      recipes: ['urn:li:digitalmediaRecipe:feedshare-image'],
+      owner: ownerUrn,
+      serviceRelationships: [
         {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-            'X-Restli-Protocol-Version': '2.0.0',
-            'LinkedIn-Version': '202511'
-          }
+          relationshipType: 'OWNER',
+          identifier: 'urn:li:userGeneratedContent'
         }
-      );
+      ]
+    }
+  };
+
+  const registerResponse = await axios.post(
+    'https://api.linkedin.com/v2/assets?action=registerUpload',
+    registerPayload,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'X-Restli-Protocol-Version': '2.0.0',
+        'LinkedIn-Version': '202511'
+      }
+    }
+  );
 
-      uploadUrl = registerResponse.data?.value?.uploadMechanism?.['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest']?.uploadUrl;
-      asset = registerResponse.data?.value?.asset;
+  const uploadUrl = registerResponse.data?.value?.uploadMechanism?.['com.linkedin.digitalmedia.uploading.MediaUploadHttpRequest']?.uploadUrl;
+  const asset = registerResponse.data?.value?.asset;
 
-      if (!uploadUrl || !asset) {
-        console.error('LinkedIn register upload response:', registerResponse.data);
-        return res.status(500).json({ error: 'Failed to get upload URL from LinkedIn' });
-      }
-    } catch (registerError) {
-      const raw = registerError.response?.data;
-      console.error('Error registering upload with LinkedIn:', raw || registerError.message);
-      return res.status(500).json({ 
-        error: 'Failed to register image upload with LinkedIn', 
-        details: raw || registerError.message 
-      });
+  if (!uploadUrl || !asset) {
+    console.error('LinkedIn register upload response:', registerResponse.data);
+    throw new Error('Failed to get upload URL from LinkedIn');
+  }
+
+  // Step 2: Upload the binary image data to the upload URL
+  await axios.put(uploadUrl, buffer, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': mimeType || 'image/jpeg'
+    },
+    maxContentLength: Infinity,
+    maxBodyLength: Infinity
+  });
+
+  return asset;
+}
+
+// Upload image to LinkedIn and get asset URN
+async function uploadImage(req, res) {
+  try {
+    const { clerkUserId, organizationId, isPersonal } = req.body || {};
+    const imageFile = req.file; // Expects multer middleware for file upload
+
+    if (!clerkUserId) {
+      return res.status(400).json({ error: 'clerkUserId is required' });
     }
 
-    // Step 2: Upload the binary image data to the upload URL
+    if (!imageFile) {
+      return res.status(400).json({ error: 'Image file is required' });
+    }
+
+    const owner = await resolveUploadOwner({ clerkUserId, organizationId, isPersonal });
+    if (!owner.success) {
+      return res.status(owner.status).json({ error: owner.error });
+    }
+
+    let asset;
     try {
-      await axios.put(uploadUrl, imageFile.buffer, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': imageFile.mimetype || 'image/jpeg'
-        },
-        maxContentLength: Infinity,
-        maxBodyLength: Infinity
-      });
+      asset = await uploadImageToLinkedIn(owner.accessToken, owner.ownerUrn, imageFile.buffer, imageFile.mimetype);
     } catch (uploadError) {
       const raw = uploadError.response?.data;
       console.error('Error uploading image to LinkedIn:', raw || uploadError.message);
@@ -861,6 +1220,288 @@ async function uploadImage(req, res) {
   }
 }
 
+// Headers for LinkedIn's versioned REST API (videos, documents, posts)
+function restHeaders(accessToken) {
+  return {
+    Authorization: `Bearer ${accessToken}`,
+    'X-Restli-Protocol-Version': '2.0.0',
+    'LinkedIn-Version': '202511',
+    'Content-Type': 'application/json'
+  };
+}
+
+// Upload a video in the chunks LinkedIn asks for, then finalize it
+// Videos API: https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/videos-api
+async function uploadVideoToLinkedIn(accessToken, ownerUrn, buffer) {
+  const initResponse = await axios.post(
+    'https://api.linkedin.com/rest/videos?action=initializeUpload',
+    {
+      initializeUploadRequest: {
+        owner: ownerUrn,
+        fileSizeBytes: buffer.length,
+        uploadCaptions: false,
+        uploadThumbnail: false
+      }
+    },
+    { headers: restHeaders(accessToken) }
+  );
+
+  const { video, uploadToken, uploadInstructions } = initResponse.data?.value || {};
+  if (!video || !Array.isArray(uploadInstructions) || uploadInstructions.length === 0) {
+    console.error('LinkedIn video initializeUpload response:', initResponse.data);
+    throw new Error('Failed to get upload URLs from LinkedIn');
+  }
+
+  // Each instruction covers a byte range (up to 4MB); the returned ETags finalize the upload
+  const uploadedPartIds = [];
+  for (const instruction of uploadInstructions) {
+    const chunk = buffer.subarray(instruction.firstByte, instruction.lastByte + 1);
+    const partResponse = await axios.put(instruction.uploadUrl, chunk, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/octet-stream'
+      },
+      maxContentLength: Infinity,
+      maxBodyLength: Infinity
+    });
+    uploadedPartIds.push(partResponse.headers?.etag);
+  }
+
+  await axios.post(
+    'https://api.linkedin.com/rest/videos?action=finalizeUpload',
+    {
+      finalizeUploadRequest: {
+        video,
+        uploadToken: uploadToken || '',
+        uploadedPartIds
+      }
+    },
+    { headers: restHeaders(accessToken) }
+  );
+
+  return video;
+}
+
+// Upload a PDF (shown as a swipeable document carousel)
+// Documents API: https://learn.microsoft.com/en-us/linkedin/marketing/community-management/shares/documents-api
+async function uploadDocumentToLinkedIn(accessToken, ownerUrn, buffer) {
+  const initResponse = await axios.post(
+    'https://api.linkedin.com/rest/documents?action=initializeUpload',
+    { initializeUploadRequest: { owner: ownerUrn } },
+    { headers: restHeaders(accessToken) }
+  );
+
+  const { uploadUrl, document } = initResponse.data?.value || {};
+  if (!uploadUrl || !document) {
+    console.error('LinkedIn document initializeUpload response:', initResponse.data);
+    throw new Error('Failed to get upload URL from LinkedIn');
+  }
+
+  await axios.put(uploadUrl, buffer, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/octet-stream'
+    },
+    maxContentLength: Infinity,
+    maxBodyLength: Infinity
+  });
+
+  return document;
+}
+
+// Upload a video or PDF document to LinkedIn and get its URN
+// LinkedIn processes both after upload; poll GET /linkedin/media-status before publishing
+async function uploadMedia(req, res) {
+  try {
+    const { clerkUserId, organizationId, isPersonal } = req.body || {};
+    const mediaFile = req.file; // Expects multer middleware for file upload
+
+    if (!clerkUserId) {
+      return res.status(400).json({ error: 'clerkUserId is required' });
+    }
+
+    if (!mediaFile) {
+      return res.status(400).json({ error: 'Video or PDF file is required' });
+    }
+
+    const kind = mediaFile.mimetype === 'application/pdf' ? 'document' : 'video';
+
+    const owner = await resolveUploadOwner({ clerkUserId, organizationId, isPersonal });
+    if (!owner.success) {
+      return res.status(owner.status).json({ error: owner.error });
+    }
+
+    let urn;
+    try {
+      urn = kind === 'video'
+        ? await uploadVideoToLinkedIn(owner.accessToken, owner.ownerUrn, mediaFile.buffer)
+        : await uploadDocumentToLinkedIn(owner.accessToken, owner.ownerUrn, mediaFile.buffer);
+    } catch (uploadError) {
+      const raw = uploadError.response?.data;
+      console.error(`Error uploading ${kind} to LinkedIn:`, raw || uploadError.message);
+      return res.status(500).json({
+        error: `Failed to upload ${kind} to LinkedIn`,
+        details: raw || uploadError.message
+      });
+    }
+
+    console.log(`📤 Uploaded ${kind} ${urn} for ${clerkUserId}`);
+    return res.status(200).json({ success: true, urn, kind });
+  } catch (error) {
+    console.error('Error in uploadMedia:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+}
+
+// LinkedIn's processing status of an uploaded image asset, video or document
+// Resolves to { status: 'processing' | 'ready' | 'failed' | 'missing', linkedInStatus }
+// 'missing' means LinkedIn no longer has the upload (unused uploads expire)
+async function fetchMediaStatus(accessToken, urn) {
+  const isImage = urn.startsWith('urn:li:digitalmediaAsset:');
+  const url = isImage
+    ? `https://api.linkedin.com/v2/assets/${encodeURIComponent(urn.split(':').pop())}`
+    : `https://api.linkedin.com/rest/${urn.startsWith('urn:li:video:') ? 'videos' : 'documents'}/${encodeURIComponent(urn)}`;
+
+  let response;
+  try {
+    response = await axios.get(url, { headers: restHeaders(accessToken) });
+  } catch (statusError) {
+    if ([404, 410].includes(statusError.response?.status)) {
+      return { status: 'missing', linkedInStatus: null };
+    }
+    throw statusError;
+  }
+
+  // Images report per recipe; videos and documents report AVAILABLE, PROCESSING,
+  // WAITING_UPLOAD or PROCESSING_FAILED
+  const linkedInStatus = isImage ? response.data?.recipes?.[0]?.status : response.data?.status;
+  const status = linkedInStatus === 'AVAILABLE'
+    ? 'ready'
+    : ['PROCESSING_FAILED', 'CLIENT_ERROR', 'SERVER_ERROR'].includes(linkedInStatus) ? 'failed' : 'processing';
+  return { status, linkedInStatus };
+}
+
+// Processing status of an uploaded video or document
+// GET /linkedin/media-status/:clerkUserId?urn=urn:li:video:... (or urn:li:document:...)
+// Returns { status: 'processing' | 'ready' | 'failed' }
+async function getMediaStatus(req, res) {
+  try {
+    const { clerkUserId } = req.params;
+    const { urn } = req.query;
+
+    if (!clerkUserId || !urn) {
+      return res.status(400).json({ error: 'clerkUserId and urn are required' });
+    }
+
+    if (!urn.startsWith('urn:li:video:') && !urn.startsWith('urn:li:document:')) {
+      return res.status(400).json({ error: 'urn must be a LinkedIn video or document URN' });
+    }
+
+    const tokenResult = await getLinkedInAccessToken(clerkUserId);
+    if (!tokenResult.success) {
+      return res.status(400).json({ error: tokenResult.error || 'LinkedIn not connected' });
+    }
+
+    try {
+      const { status, linkedInStatus } = await fetchMediaStatus(tokenResult.accessToken, urn);
+      if (status === 'missing') {
+        return res.status(404).json({ error: 'LinkedIn has no upload with this URN' });
+      }
+      return res.json({ status, linkedInStatus });
+    } catch (statusError) {
+      const raw = statusError.response?.data;
+      console.error('Error fetching media status from LinkedIn:', raw || statusError.message);
+      return res.status(statusError.response?.status || 500).json({
+        error: 'Failed to fetch media status from LinkedIn',
+        details: raw || statusError.message
+      });
+    }
+  } catch (error) {
+    console.error('Error in getMediaStatus:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+}
+
+// Document title shown above the carousel: the file name without its extension
+function documentTitle(fileName) {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Document';
+}
+
+// Turn a draft's stored attachments (see draftMediaController) into what a post needs:
+// image asset URNs, or a processed video or document
+// An earlier LinkedIn upload is reused while LinkedIn still has it for the same author;
+// otherwise the stored copy is uploaded again
+// Returns { success, imageAssets, media, storedMedia } or { success: false, status, error, storedMedia }
+// While a video or document is still processing: { success: false, processing: true, pending, error, storedMedia }
+// storedMedia carries the fresh asset URNs, to save back on the draft
+async function prepareStoredMedia({ clerkUserId, organizationId, media }) {
+  const owner = await resolveUploadOwner({ clerkUserId, organizationId, isPersonal: !organizationId });
+  if (!owner.success) {
+    return { success: false, status: owner.status, error: owner.error, storedMedia: media };
+  }
+
+  const storedMedia = [...media];
+  const statuses = [];
+  for (let i = 0; i < storedMedia.length; i++) {
+    const item = storedMedia[i];
+    let status = 'missing';
+    if (item.assetUrn && item.ownerUrn === owner.ownerUrn) {
+      try {
+        ({ status } = await fetchMediaStatus(owner.accessToken, item.assetUrn));
+      } catch (statusError) {
+        console.warn(`⚠️ Could not check ${item.assetUrn}, uploading again:`, statusError.response?.data || statusError.message);
+      }
+    }
+
+    if (status === 'missing' || status === 'failed') {
+      let buffer;
+      try {
+        buffer = await downloadStoredMedia(item.path);
+      } catch (downloadError) {
+        console.error(downloadError.message);
+        return { success: false, status: 400, error: `${item.fileName} is no longer stored. Attach it to the draft again.`, storedMedia };
+      }
+
+      try {
+        const assetUrn = item.kind === 'image'
+          ? await uploadImageToLinkedIn(owner.accessToken, owner.ownerUrn, buffer, item.mimeType)
+          : item.kind === 'video'
+          ? await uploadVideoToLinkedIn(owner.accessToken, owner.ownerUrn, buffer)
+          : await uploadDocumentToLinkedIn(owner.accessToken, owner.ownerUrn, buffer);
+        console.log(`📤 Uploaded stored ${item.kind} ${item.path} as ${assetUrn}`);
+        storedMedia[i] = { ...item, assetUrn, ownerUrn: owner.ownerUrn, uploadedAt: new Date().toISOString() };
+        status = item.kind === 'image' ? 'ready' : 'processing';
+      } catch (uploadError) {
+        const raw = uploadError.response?.data;
+        console.error(`Error uploading stored ${item.kind} to LinkedIn:`, raw || uploadError.message);
+        return {
+          success: false,
+          status: uploadError.response?.status || 500,
+          error: `Failed to upload ${item.fileName} to LinkedIn`,
+          storedMedia
+        };
+      }
+    }
+    statuses.push(status);
+  }
+
+  // Videos and documents can't be posted until LinkedIn has processed them
+  const pending = storedMedia.find((item, i) => item.kind !== 'image' && statuses[i] !== 'ready');
+  if (pending) {
+    return { success: false, processing: true, pending, error: `LinkedIn is still processing ${pending.fileName}`, storedMedia };
+  }
+
+  const attachment = storedMedia.find(item => item.kind !== 'image');
+  return {
+    success: true,
+    imageAssets: storedMedia.filter(item => item.kind === 'image').map(item => item.assetUrn),
+    media: attachment
+      ? { kind: attachment.kind, urn: attachment.assetUrn, title: attachment.kind === 'document' ? documentTitle(attachment.fileName) : undefined }
+      : undefined,
+    storedMedia
+  };
+}
+
 // Refresh LinkedIn token (if needed)
 async function refreshLinkedInToken(req, res) {
   try {
@@ -971,7 +1612,16 @@ module.exports = {
   getCompanyPages,
   postOrganizationUpdate,
   postPersonalUpdate,
+  publishOrganizationPost,
+  publishPersonalPost,
   uploadImage,
+  uploadMedia,
+  getMediaStatus,
+  prepareStoredMedia,
+  commentOnPublishedPost,
+  updatePublishedPost,
+  deletePublishedPost,
+  mentionsToText,
   refreshLinkedInToken,
   debugAcls,
   getLinkedInAccessToken
@@ -0,0 +1,129 @@
+const crypto = require('crypto');
+const supabase = require('../../config/supabase');
+
+// Copies of the images, videos and documents attached to drafts
+// Draft versions and scheduled drafts list them in their media column as
+// { kind, path, fileName, mimeType, size, assetUrn?, ownerUrn?, uploadedAt? }
+const DRAFT_MEDIA_BUCKET = 'draft-media';
+const MEDIA_KINDS = ['image', 'video', 'document'];
+
+function mediaKindOf(mimeType) {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'document';
+}
+
+// Keep only well-formed media items from a request body, owned by the user
+// Returns null when media is absent, so callers can tell "not sent" from "cleared"
+function sanitizeStoredMedia(media, clerkUserId) {
+  if (!Array.isArray(media)) return null;
+  return media
+    .filter(item =>
+      item &&
+      MEDIA_KINDS.includes(item.kind) &&
+      typeof item.path === 'string' &&
+      item.path.startsWith(`${clerkUserId}/`)
+    )
+    .map(item => ({
+      kind: item.kind,
+      path: item.path,
+      fileName: String(item.fileName || item.path.split('/').pop()),
+      mimeType: String(item.mimeType || 'application/octet-stream'),
+      size: Number(item.size) || 0,
+      assetUrn: item.assetUrn || null,
+      ownerUrn: item.ownerUrn || null,
+      uploadedAt: item.uploadedAt || null
+    }));
+}
+
+// Download a stored copy; resolves to a Buffer
+async function downloadStoredMedia(path) {
+  const { data, error } = await supabase.storage.from(DRAFT_MEDIA_BUCKET).download(path);
+  if (error || !data) {
+    throw new Error(`Stored media ${path} could not be read: ${error?.message || 'not found'}`);
+  }
+  return Buffer.from(await data.arrayBuffer());
+}
+
+// POST /api/draft-media
+// Store a copy of a file attached to a draft
+// Multipart: media (file), clerkUserId
+async function uploadDraftMedia(req, res) {
+  try {
+    const { clerkUserId } = req.body || {};
+    const file = req.file; // Expects multer middleware for file upload
+
+    if (!clerkUserId) {
+      return res.status(400).json({ error: 'clerkUserId is required' });
+    }
+
+    if (!file) {
+      return res.status(400).json({ error: 'Image, video or PDF file is required' });
+    }
+
+    const fileName = file.originalname.replace(/[^\w.\- ]+/g, '_') || 'file';
+    const path = `${clerkUserId}/${crypto.randomUUID()}/${fileName}`;
+
+    const { error } = await supabase.storage
+      .from(DRAFT_MEDIA_BUCKET)
+      .upload(path, file.buffer, { contentType: file.mimetype, upsert: false });
+
+    if (error) {
+      console.error('Error storing draft media:', error);
+      return res.status(500).json({ error: 'Failed to store file' });
+    }
+
+    return res.status(201).json({
+      media: {
+        kind: mediaKindOf(file.mimetype),
+        path,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        assetUrn: null,
+        ownerUrn: null,
+        uploadedAt: null
+      }
+    });
+  } catch (err) {
+    console.error('Error in uploadDraftMedia:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// GET /api/draft-media/:clerkUserId/file?path=...
+// Stream back a stored copy, e.g. to restore a draft's attachments after a reload
+async function getDraftMediaFile(req, res) {
+  try {
+    const { clerkUserId } = req.params;
+    const { path } = req.query;
+
+    if (!clerkUserId || !path) {
+      return res.status(400).json({ error: 'clerkUserId and path are required' });
+    }
+
+    // Copies are stored under the uploader's id
+    if (!path.startsWith(`${clerkUserId}/`) || path.includes('..')) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { data, error } = await supabase.storage.from(DRAFT_MEDIA_BUCKET).download(path);
+    if (error || !data) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    res.setHeader('Content-Type', data.type || 'application/octet-stream');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    return res.send(Buffer.from(await data.arrayBuffer()));
+  } catch (err) {
+    console.error('Error in getDraftMediaFile:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+module.exports = {
+  uploadDraftMedia,
+  getDraftMediaFile,
+  sanitizeStoredMedia,
+  downloadStoredMedia
+};
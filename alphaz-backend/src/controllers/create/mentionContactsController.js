@@ -0,0 +1,118 @@
+const supabase = require('../../config/supabase');
+
+// A member or page URN LinkedIn accepts in a mention
+const MENTION_URN_PATTERN = /^urn:li:(person|organization):[\w-]+$/;
+
+function formatContact(row) {
+  return {
+    id: row.id,
+    name: row.display_name,
+    urn: row.linkedin_urn,
+    kind: row.linkedin_urn.startsWith('urn:li:organization:') ? 'organization' : 'person',
+    createdAt: row.created_at
+  };
+}
+
+// GET /api/mention-contacts/:clerkUserId
+// Get the people and pages a user has saved for @-mentions
+async function getMentionContacts(req, res) {
+  try {
+    const { clerkUserId } = req.params;
+
+    if (!clerkUserId) {
+      return res.status(400).json({ error: 'Missing clerkUserId' });
+    }
+
+    const { data, error } = await supabase
+      .from('mention_contacts')
+      .select('*')
+      .eq('user_clerk_id', clerkUserId)
+      .order('display_name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching mention contacts:', error);
+      return res.status(500).json({ error: 'Failed to fetch mention contacts' });
+    }
+
+    return res.json({ contacts: (data || []).map(formatContact) });
+  } catch (err) {
+    console.error('Error in getMentionContacts:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// POST /api/mention-contacts
+// Save a person or page for @-mentions
+// Body: { clerkUserId, name, urn }
+// Saving a URN again renames the existing contact
+async function createMentionContact(req, res) {
+  try {
+    const { clerkUserId, urn } = req.body;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (!clerkUserId || !name || !urn) {
+      return res.status(400).json({ error: 'Missing required fields: clerkUserId, name, urn' });
+    }
+
+    // The name is written into the draft as @[name](urn), so it can't close the brackets
+    if (/[\[\]\n]/.test(name)) {
+      return res.status(400).json({ error: 'Name cannot contain brackets or line breaks' });
+    }
+
+    if (!MENTION_URN_PATTERN.test(urn)) {
+      return res.status(400).json({ error: 'urn must look like urn:li:person:ID or urn:li:organization:ID' });
+    }
+
+    const { data, error } = await supabase
+      .from('mention_contacts')
+      .upsert(
+        { user_clerk_id: clerkUserId, display_name: name, linkedin_urn: urn },
+        { onConflict: 'user_clerk_id,linkedin_urn' }
+      )
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('Error saving mention contact:', error);
+      return res.status(500).json({ error: 'Failed to save mention contact' });
+    }
+
+    return res.status(201).json({ contact: formatContact(data) });
+  } catch (err) {
+    console.error('Error in createMentionContact:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// DELETE /api/mention-contacts/:id
+// Remove a saved contact (mentions already in drafts are kept)
+async function deleteMentionContact(req, res) {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.status(400).json({ error: 'Missing contact id' });
+    }
+
+    const { error } = await supabase
+      .from('mention_contacts')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting mention contact:', error);
+      return res.status(500).json({ error: 'Failed to delete mention contact' });
+    }
+
+    return res.json({ success: true });
+  } catch (err) {
+    console.error('Error in deleteMentionContact:', err);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+module.exports = {
+  getMentionContacts,
+  createMentionContact,
+  deleteMentionContact
+};
@@ -1,5 +1,8 @@
 const supabase = require('../../config/supabase');
 const OpenAI = require('openai');
+const { recordPublishedPost } = require('../monitor/postPerformanceController');
+const { mentionsToText } = require('../core/linkedinController');
+const { sanitizeStoredMedia } = require('./draftMediaController');
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
@@ -83,7 +86,9 @@ async function getScheduledDrafts(req, res) {
 
 // POST /api/scheduled-drafts
 // Create a new scheduled draft
-// Body: { clerkUserId, organizationId?, draftVersionId?, draftId?, threadId?, content, title?, scheduledAt?, notes? }
+// Body: { clerkUserId, organizationId?, draftVersionId?, draftId?, threadId?, content, title?, scheduledAt?, notes?, media?, firstComment? }
+// media lists stored copies of the draft's attachments (see draftMediaController)
+// firstComment is posted as a comment on the post once it is published
 async function createScheduledDraft(req, res) {
   try {
     const {
@@ -95,8 +100,10 @@ async function createScheduledDraft(req, res) {
       content,
       title,
       scheduledAt,
-      notes
+      notes,
+      firstComment
     } = req.body;
+    const media = sanitizeStoredMedia(req.body.media, clerkUserId);
 
     if (!clerkUserId || !content) {
       return res.status(400).json({ error: 'Missing required fields: clerkUserId, content' });
@@ -115,7 +122,9 @@ async function createScheduledDraft(req, res) {
       title: title || null,
       scheduled_at: scheduledAt || null,
       status,
-      notes: notes || null
+      notes: notes || null,
+      media: media || [],
+      first_comment: firstComment?.trim() || null
     };
 
     const { data, error } = await supabase
@@ -138,12 +147,15 @@ async function createScheduledDraft(req, res) {
 
 // PATCH /api/scheduled-drafts/:id
 // Update a scheduled draft
-// Body: { content?, title?, scheduledAt?, notes?, status? }
+// Body: { content?, title?, scheduledAt?, notes?, status?, linkedinPostUrn?, media?, firstComment?, firstCommentResult? }
+// Rescheduling clears any previous publish failure so the publisher picks it up again
+// firstCommentResult ({ status: 'posted' | 'failed', urn?, error? }) comes from publishing
+// on the Plan page; a failed comment is handed to the publisher to retry
 // If content is updated and draft_version_id exists, also updates the draft version content
 async function updateScheduledDraft(req, res) {
   try {
     const { id } = req.params;
-    const { content, title, scheduledAt, notes, status } = req.body;
+    const { content, title, scheduledAt, notes, status, linkedinPostUrn } = req.body;
 
     if (!id) {
       return res.status(400).json({ error: 'Missing draft id' });
@@ -152,7 +164,7 @@ async function updateScheduledDraft(req, res) {
     // First, get the current scheduled draft to check for draft_version_id
     const { data: currentDraft, error: fetchError } = await supabase
       .from('scheduled_drafts')
-      .select('draft_version_id')
+      .select('draft_version_id, user_clerk_id')
       .eq('id', id)
       .single();
 
@@ -174,12 +186,41 @@ async function updateScheduledDraft(req, res) {
       }
     }
     if (notes !== undefined) updates.notes = notes;
+    if (req.body.media !== undefined) {
+      updates.media = sanitizeStoredMedia(req.body.media, currentDraft.user_clerk_id) || [];
+    }
+    if (req.body.firstComment !== undefined) {
+      updates.first_comment = req.body.firstComment?.trim() || null;
+    }
     if (status !== undefined) {
       updates.status = status;
       if (status === 'posted') {
         updates.posted_at = new Date().toISOString();
+        if (linkedinPostUrn) updates.linkedin_post_urn = linkedinPostUrn;
       }
     }
+    if (updates.status === 'scheduled' || updates.status === 'saved') {
+      updates.publish_attempts = 0;
+      updates.next_attempt_at = null;
+      updates.failure_reason = null;
+      updates.first_comment_status = null;
+      updates.first_comment_urn = null;
+      updates.first_comment_attempts = 0;
+      updates.first_comment_next_attempt_at = null;
+      updates.first_comment_error = null;
+    }
+    const { firstCommentResult } = req.body;
+    if (firstCommentResult?.status === 'posted') {
+      updates.first_comment_status = 'posted';
+      updates.first_comment_urn = firstCommentResult.urn || null;
+      updates.first_comment_attempts = 1;
+      updates.first_comment_error = null;
+    } else if (firstCommentResult?.status === 'failed') {
+      updates.first_comment_status = 'pending';
+      updates.first_comment_attempts = 1;
+      updates.first_comment_next_attempt_at = new Date().toISOString();
+      updates.first_comment_error = firstCommentResult.error || null;
+    }
 
     if (Object.keys(updates).length === 0) {
       return res.status(400).json({ error: 'No fields to update' });
@@ -198,6 +239,23 @@ async function updateScheduledDraft(req, res) {
       return res.status(500).json({ error: 'Failed to update scheduled draft' });
     }
 
+    // Link the LinkedIn post to its draft for performance tracking
+    if (updates.status === 'posted' && linkedinPostUrn) {
+      await recordPublishedPost({
+        clerkUserId: data.user_clerk_id,
+        organizationId: data.organization_id,
+        postUrn: linkedinPostUrn,
+        content: mentionsToText(data.content),
+        commentary: data.content,
+        source: {
+          threadId: data.thread_id,
+          draftId: data.draft_id,
+          draftVersionId: data.draft_version_id,
+          scheduledDraftId: data.id
+        }
+      });
+    }
+
     // If content was updated and draft_version_id exists, also update the draft version
     if (content !== undefined && currentDraft?.draft_version_id) {
       const { error: versionError } = await supabase
@@ -1,4 +1,5 @@
 const supabase = require('../../config/supabase');
+const { sanitizeStoredMedia } = require('./draftMediaController');
 
 // =====================================================
 // List threads for a user/organization
@@ -120,6 +121,9 @@ async function getThread(req, res) {
         id,
         title,
         current_version,
+        variant_group_id,
+        variant_angle,
+        first_comment,
         created_at,
         updated_at,
         versions:chat_thread_draft_versions(*)
@@ -131,10 +135,22 @@ async function getThread(req, res) {
       console.error('Error fetching drafts:', draftsError);
     }
 
+    // Get variant groups (shared parents of drafts generated as variants)
+    const { data: draftGroups, error: draftGroupsError } = await supabase
+      .from('chat_thread_draft_groups')
+      .select('*')
+      .eq('thread_id', id)
+      .order('created_at', { ascending: true });
+
+    if (draftGroupsError) {
+      console.error('Error fetching draft groups:', draftGroupsError);
+    }
+
     res.json({
       thread,
       messages: messages || [],
-      drafts: drafts || []
+      drafts: drafts || [],
+      draftGroups: draftGroups || []
     });
   } catch (err) {
     console.error('Error in getThread:', err);
@@ -188,6 +204,98 @@ async function updateThread(req, res) {
   }
 }
 
+// =====================================================
+// Conversation memory (rolling summary of older turns)
+// =====================================================
+
+// Load a thread the user may read, or send the error response
+async function findAccessibleThread(res, id, userId, organizationId) {
+  if (!userId) {
+    res.status(400).json({ error: 'userId is required' });
+    return null;
+  }
+
+  const { data: thread, error } = await supabase
+    .from('chat_threads')
+    .select('id, user_clerk_id, organization_id, memory_summary, memory_message_count, memory_updated_at')
+    .eq('id', id)
+    .single();
+
+  if (error || !thread) {
+    res.status(404).json({ error: 'Thread not found' });
+    return null;
+  }
+
+  // Same rule as getThread: owner, or anyone with access to the thread's org
+  const hasAccess = thread.user_clerk_id === userId ||
+    (organizationId && thread.organization_id === organizationId);
+
+  if (!hasAccess) {
+    res.status(403).json({ error: 'Access denied' });
+    return null;
+  }
+
+  return thread;
+}
+
+function formatMemory(thread) {
+  return {
+    summary: thread.memory_summary || null,
+    messageCount: thread.memory_message_count || 0,
+    updatedAt: thread.memory_updated_at || null
+  };
+}
+
+async function getThreadMemory(req, res) {
+  try {
+    const { id } = req.params;
+    const { userId, organizationId } = req.query;
+
+    const thread = await findAccessibleThread(res, id, userId, organizationId);
+    if (!thread) return;
+
+    res.json({ memory: formatMemory(thread) });
+  } catch (err) {
+    console.error('Error in getThreadMemory:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+async function updateThreadMemory(req, res) {
+  try {
+    const { id } = req.params;
+    const { userId, organizationId, summary, messageCount } = req.body;
+
+    if (typeof summary !== 'string' || !Number.isInteger(messageCount) || messageCount < 0) {
+      return res.status(400).json({ error: 'summary (string) and messageCount (integer) are required' });
+    }
+
+    const thread = await findAccessibleThread(res, id, userId, organizationId);
+    if (!thread) return;
+
+    const { data, error } = await supabase
+      .from('chat_threads')
+      .update({
+        memory_summary: summary,
+        memory_message_count: messageCount,
+        memory_updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select('memory_summary, memory_message_count, memory_updated_at')
+      .single();
+
+    if (error) {
+      console.error('Error updating thread memory:', error);
+      return res.status(500).json({ error: 'Failed to update thread memory' });
+    }
+
+    res.json({ memory: formatMemory(data) });
+  } catch (err) {
+    console.error('Error in updateThreadMemory:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 // =====================================================
 // Delete a thread (cascade deletes messages, drafts, versions)
 // =====================================================
@@ -290,7 +398,7 @@ async function addMessage(req, res) {
 async function saveDraft(req, res) {
   try {
     const { id } = req.params; // thread id
-    const { draftId, title, content, editPrompt, changes, parentMessageId } = req.body;
+    const { draftId, title, content, editPrompt, changes, parentMessageId, parentVersion } = req.body;
 
     if (!content) {
       return res.status(400).json({ error: 'content is required' });
@@ -302,7 +410,7 @@ async function saveDraft(req, res) {
       // Update existing draft - add new version
       const { data: existingDraft, error: findError } = await supabase
         .from('chat_thread_drafts')
-        .select('id, current_version')
+        .select('id, current_version, title')
         .eq('id', draftId)
         .single();
 
@@ -310,7 +418,26 @@ async function saveDraft(req, res) {
         return res.status(404).json({ error: 'Draft not found' });
       }
 
-      const newVersion = existingDraft.current_version + 1;
+      // Versions form a tree, so current_version may not be the highest number:
+      // number the new version after the latest one and link it to its parent
+      const { data: latestVersion } = await supabase
+        .from('chat_thread_draft_versions')
+        .select('version')
+        .eq('draft_id', draftId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const newVersion = (latestVersion?.version || existingDraft.current_version) + 1;
+      const parent = parentVersion || existingDraft.current_version;
+
+      // Attachments carry over from the version this one was edited from
+      const { data: parentVersionRow } = await supabase
+        .from('chat_thread_draft_versions')
+        .select('media')
+        .eq('draft_id', draftId)
+        .eq('version', parent)
+        .maybeSingle();
 
       // Add new version using upsert to handle race conditions with unique constraint
       const { data: versionData, error: versionError } = await supabase
@@ -321,7 +448,9 @@ async function saveDraft(req, res) {
           content,
           edit_prompt: editPrompt || null,
           changes: changes || null,
-          parent_message_id: parentMessageId || null
+          parent_message_id: parentMessageId || null,
+          parent_version: parent,
+          media: parentVersionRow?.media || []
         }, {
           onConflict: 'draft_id,version',
           ignoreDuplicates: false // Update if exists
@@ -412,6 +541,94 @@ async function saveDraft(req, res) {
   }
 }
 
+// =====================================================
+// Save draft variants (one draft per variant under a shared group)
+// =====================================================
+async function saveDraftVariants(req, res) {
+  try {
+    const { id } = req.params; // thread id
+    const { prompt, parentMessageId, variants } = req.body;
+
+    if (!Array.isArray(variants) || variants.length === 0 || variants.some(v => !v || !v.content)) {
+      return res.status(400).json({ error: 'variants must be a non-empty array of { angle, content }' });
+    }
+
+    const { data: group, error: groupError } = await supabase
+      .from('chat_thread_draft_groups')
+      .insert({
+        thread_id: id,
+        parent_message_id: parentMessageId || null,
+        prompt: prompt || null
+      })
+      .select()
+      .single();
+
+    if (groupError) {
+      console.error('Error creating draft group:', groupError);
+      return res.status(500).json({ error: 'Failed to create draft group' });
+    }
+
+    // One draft (with its v1) per variant, in the order the variants were written
+    for (const variant of variants) {
+      const { data: draft, error: draftError } = await supabase
+        .from('chat_thread_drafts')
+        .insert({
+          thread_id: id,
+          title: variant.angle || 'Draft',
+          current_version: 1,
+          variant_group_id: group.id,
+          variant_angle: variant.angle || null
+        })
+        .select()
+        .single();
+
+      if (draftError) {
+        console.error('Error creating variant draft:', draftError);
+        return res.status(500).json({ error: 'Failed to create variant drafts' });
+      }
+
+      const { error: versionError } = await supabase
+        .from('chat_thread_draft_versions')
+        .insert({
+          draft_id: draft.id,
+          version: 1,
+          content: variant.content,
+          parent_message_id: parentMessageId || null
+        });
+
+      if (versionError) {
+        console.error('Error adding variant draft version:', versionError);
+        return res.status(500).json({ error: 'Failed to save variant drafts' });
+      }
+    }
+
+    // Update thread's updated_at
+    await supabase
+      .from('chat_threads')
+      .update({ updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    const { data: draftsWithVersions, error: fetchError } = await supabase
+      .from('chat_thread_drafts')
+      .select(`
+        *,
+        versions:chat_thread_draft_versions(*)
+      `)
+      .eq('variant_group_id', group.id)
+      .order('created_at', { ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching variant drafts:', fetchError);
+      return res.status(500).json({ error: 'Variants saved but could not be loaded' });
+    }
+
+    res.json({ group, drafts: draftsWithVersions });
+  } catch (err) {
+    console.error('Error in saveDraftVariants:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 // =====================================================
 // Get draft with all versions
 // =====================================================
@@ -574,16 +791,98 @@ async function updateDraftVersionParentMessage(req, res) {
   }
 }
 
+// =====================================================
+// Replace the media attached to a draft version
+// Items are stored copies from POST /api/draft-media
+// =====================================================
+async function updateDraftVersionMedia(req, res) {
+  try {
+    const { draftId } = req.params;
+    const { clerkUserId, version } = req.body;
+    const media = sanitizeStoredMedia(req.body.media, clerkUserId);
+
+    if (!clerkUserId || !media) {
+      return res.status(400).json({ error: 'clerkUserId and a media array are required' });
+    }
+
+    // Get the draft to find the current version if not specified
+    const { data: draft, error: draftError } = await supabase
+      .from('chat_thread_drafts')
+      .select('id, current_version')
+      .eq('id', draftId)
+      .single();
+
+    if (draftError || !draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+
+    const targetVersion = version || draft.current_version;
+
+    const { error: updateError } = await supabase
+      .from('chat_thread_draft_versions')
+      .update({ media })
+      .eq('draft_id', draftId)
+      .eq('version', targetVersion);
+
+    if (updateError) {
+      console.error('Error updating draft version media:', updateError);
+      return res.status(500).json({ error: 'Failed to update draft version' });
+    }
+
+    res.json({ success: true, media });
+  } catch (err) {
+    console.error('Error in updateDraftVersionMedia:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// =====================================================
+// Set the comment posted on the draft's post right after publishing
+// Kept on the draft rather than a version, so it survives edits
+// =====================================================
+async function updateDraftFirstComment(req, res) {
+  try {
+    const { draftId } = req.params;
+    const { firstComment } = req.body;
+
+    if (firstComment !== null && typeof firstComment !== 'string') {
+      return res.status(400).json({ error: 'firstComment must be a string or null' });
+    }
+
+    const { data, error } = await supabase
+      .from('chat_thread_drafts')
+      .update({ first_comment: firstComment?.trim() || null })
+      .eq('id', draftId)
+      .select('id, first_comment')
+      .single();
+
+    if (error || !data) {
+      console.error('Error updating draft first comment:', error);
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+
+    res.json({ success: true, firstComment: data.first_comment });
+  } catch (err) {
+    console.error('Error in updateDraftFirstComment:', err);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
 module.exports = {
   listThreads,
   createThread,
   getThread,
   updateThread,
   deleteThread,
+  getThreadMemory,
+  updateThreadMemory,
   addMessage,
   saveDraft,
+  saveDraftVariants,
   getDraft,
   deleteDraft,
   updateDraftVersion,
-  updateDraftVersionParentMessage
+  updateDraftVersionParentMessage,
+  updateDraftVersionMedia,
+  updateDraftFirstComment
 };
@@ -226,13 +226,15 @@ async function generateEmbeddingsFromCache(clerkUserId, organizationId, organiza
         
         if (content) {
           // Check if existing record needs update (smart caching)
+          // Demographics are stored as one row per fact section, so check any of them
           const { data: existingRecord } = await supabase
             .from('organization_analytics_embeddings')
             .select('id, embedding, created_at')
             .eq('user_clerk_id', clerkUserId)
             .eq('organization_id', organizationId)
             .eq('content_type', 'demographic_data')
-            .single();
+            .limit(1)
+            .maybeSingle();
           
           let shouldUpdate = true;
           
@@ -256,11 +258,10 @@ async function generateEmbeddingsFromCache(clerkUserId, organizationId, organiza
           }
           
           if (shouldUpdate) {
-            // Generate embedding vector
-            const embedding = await generateEmbedding(content);
-            console.log(`✓ Generated embedding: ${embedding ? 'success (' + embedding.length + ' dimensions)' : 'null (will retry)'}`);
+            // Split into fact sections so retrieval can pick only the relevant ones
+            const facts = splitAnalyticsIntoFacts(content, organizationName);
             
-            // Delete existing record, then insert new
+            // Delete existing records, then insert new
             const { error: deleteError } = await supabase
               .from('organization_analytics_embeddings')
               .delete()
@@ -272,30 +273,36 @@ async function generateEmbeddingsFromCache(clerkUserId, organizationId, organiza
               console.error('❌ Delete error:', deleteError);
             }
             
-            const { data: insertData, error: insertError } = await supabase
-              .from('organization_analytics_embeddings')
-              .insert({
-                user_clerk_id: clerkUserId,
-                organization_id: organizationId,
-                organization_name: organizationName,
-                content: content,
-                content_type: 'demographic_data',
-                embedding: embedding,
-                metadata: {
-                  source: cache.analytics_type,
-                  cached_at: cache.updated_at
-                },
-                updated_at: new Date().toISOString()
-              })
-              .select();
-            
-            if (insertError) {
-              console.error('❌ Insert error for demographic_data:', insertError);
-              console.error('Insert error details:', JSON.stringify(insertError, null, 2));
-            } else {
-              console.log('✅ Successfully saved demographic_data embedding');
-              embeddingsCount++;
+            for (const fact of facts) {
+              // Generate embedding vector
+              const embedding = await generateEmbedding(fact.content);
+              console.log(`✓ Generated embedding for "${fact.section}": ${embedding ? 'success (' + embedding.length + ' dimensions)' : 'null (will retry)'}`);
+              
+              const { error: insertError } = await supabase
+                .from('organization_analytics_embeddings')
+                .insert({
+                  user_clerk_id: clerkUserId,
+                  organization_id: organizationId,
+                  organization_name: organizationName,
+                  content: fact.content,
+                  content_type: 'demographic_data',
+                  embedding: embedding,
+                  metadata: {
+                    source: cache.analytics_type,
+                    section: fact.section,
+                    cached_at: cache.updated_at
+                  },
+                  updated_at: new Date().toISOString()
+                });
+              
+              if (insertError) {
+                console.error('❌ Insert error for demographic_data:', insertError);
+                console.error('Insert error details:', JSON.stringify(insertError, null, 2));
+              } else {
+                embeddingsCount++;
+              }
             }
+            console.log(`✅ Saved ${facts.length} demographic_data fact embeddings`);
           }
         }
       }
@@ -768,6 +775,22 @@ function formatAnalyticsForEmbedding(data, orgName) {
   return content;
 }
 
+/**
+ * Split formatted analytics into one fact section per heading
+ * (follower metrics, page views, each demographic breakdown) so each can be
+ * embedded and retrieved on its own instead of as one large block
+ */
+function splitAnalyticsIntoFacts(content, orgName) {
+  return content
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block.includes('\n')) // Skip title-only blocks
+    .map(block => {
+      const section = block.split('\n')[0].replace(/:$/, '').trim();
+      return { section, content: `${orgName} - ${block}` };
+    });
+}
+
 /**
  * OLD FORMAT FUNCTION - KEEPING FOR REFERENCE
  */
@@ -1015,7 +1038,99 @@ const getOrganizationContext = async (req, res) => {
   }
 };
 
+// Chunks retrieved per group: posts, demographic/analytics facts, and patterns (summary)
+const RETRIEVAL_GROUPS = {
+  posts: { contentTypes: ['post_performance'], defaultCount: 5 },
+  facts: { contentTypes: ['demographic_data', 'follower_stats', 'share_stats', 'engagement_stats', 'lifecycle_stats'], defaultCount: 4 },
+  patterns: { contentTypes: ['summary'], defaultCount: 1 }
+};
+
+/**
+ * Most recent chunks for a group, used when the query can't be embedded
+ */
+async function recentChunks(clerkUserId, organizationId, contentTypes, count) {
+  const { data, error } = await supabase
+    .from('organization_analytics_embeddings')
+    .select('id, content, content_type, metadata, data_start_date, data_end_date')
+    .eq('user_clerk_id', clerkUserId)
+    .eq('organization_id', organizationId)
+    .in('content_type', contentTypes)
+    .order('updated_at', { ascending: false })
+    .limit(count);
+
+  if (error) throw error;
+  return (data || []).map(row => ({ ...row, similarity: null }));
+}
+
+/**
+ * Retrieve the organization context most relevant to a query
+ * Embeds the query and pulls the top-k posts, analytics facts and patterns
+ * @route POST /api/embeddings/organization/:clerkUserId/:organizationId/retrieve
+ * @body query - Text to match (usually the latest user message)
+ * @body counts - Optional { posts, facts, patterns } overrides for k (max 20 each)
+ */
+const retrieveOrganizationContext = async (req, res) => {
+  try {
+    const { clerkUserId, organizationId } = req.params;
+    const { query, counts = {} } = req.body || {};
+
+    const queryEmbedding = await generateEmbedding(query);
+    if (!queryEmbedding) {
+      console.warn('⚠️ [RETRIEVAL] Query could not be embedded, falling back to most recent chunks');
+    }
+
+    const groups = await Promise.all(
+      Object.entries(RETRIEVAL_GROUPS).map(async ([group, { contentTypes, defaultCount }]) => {
+        const count = Math.min(Math.max(parseInt(counts[group]) || defaultCount, 0), 20);
+        if (count === 0) return [];
+
+        if (!queryEmbedding) {
+          return recentChunks(clerkUserId, organizationId, contentTypes, count);
+        }
+
+        const { data, error } = await supabase.rpc('match_organization_analytics', {
+          query_embedding: queryEmbedding,
+          match_organization_id: organizationId,
+          match_user_clerk_id: clerkUserId,
+          match_threshold: 0, // Rank everything; k keeps the prompt small
+          match_count: count,
+          filter_content_types: contentTypes
+        });
+
+        if (error) throw error;
+        return data || [];
+      })
+    );
+
+    const chunks = groups.flat().map(chunk => ({
+      id: chunk.id,
+      contentType: chunk.content_type,
+      content: chunk.content,
+      similarity: chunk.similarity,
+      metadata: chunk.metadata || {},
+      dataStartDate: chunk.data_start_date,
+      dataEndDate: chunk.data_end_date
+    }));
+
+    console.log(`🔎 [RETRIEVAL] ${chunks.length} chunks for "${(query || '').substring(0, 60)}"`);
+
+    res.json({
+      success: true,
+      retrieval: queryEmbedding ? 'semantic' : 'recent',
+      chunks
+    });
+
+  } catch (error) {
+    console.error('Error retrieving organization context:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve organization context',
+      details: error.message
+    });
+  }
+};
+
 module.exports = {
   generateOrganizationEmbeddings,
-  getOrganizationContext
+  getOrganizationContext,
+  retrieveOrganizationContext
 };
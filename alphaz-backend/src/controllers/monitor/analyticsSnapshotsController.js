@@ -0,0 +1,261 @@
+const supabase = require('../../config/supabase');
+const { getLinkedInAccessToken } = require('../core/linkedinController');
+const { buildMemberDashboard } = require('./analyticsController');
+const { buildOrganizationDashboard } = require('./organizationAnalyticsController');
+const { buildOrganizationPageDashboard } = require('./organizationPageAnalyticsController');
+
+// Daily analytics snapshots
+// LinkedIn only reports the current/previous period pair, so a worker stores
+// one snapshot per day per profile and organization, and the Monitor page
+// charts trends from them.
+
+const MAX_TIMESERIES_DAYS = 365;
+
+function todayDate() {
+  return new Date().toISOString().split('T')[0];
+}
+
+// Existing snapshot for a profile or organization on a date
+async function findSnapshot({ clerkUserId, organizationId, snapshotDate }) {
+  let query = supabase
+    .from('analytics_snapshots')
+    .select('id')
+    .eq('snapshot_date', snapshotDate);
+
+  // Organization analytics are the same for every admin, so one row per org
+  query = organizationId
+    ? query.eq('organization_id', organizationId)
+    : query.eq('user_clerk_id', clerkUserId).is('organization_id', null);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function hasSnapshotForToday({ clerkUserId, organizationId }) {
+  return !!(await findSnapshot({ clerkUserId, organizationId, snapshotDate: todayDate() }));
+}
+
+async function saveSnapshot(row) {
+  const existing = await findSnapshot({
+    clerkUserId: row.user_clerk_id,
+    organizationId: row.organization_id,
+    snapshotDate: row.snapshot_date
+  });
+
+  const { error } = existing
+    ? await supabase.from('analytics_snapshots').update(row).eq('id', existing.id)
+    : await supabase.from('analytics_snapshots').insert(row);
+  if (error) throw error;
+}
+
+// Collect and store today's snapshot for a personal profile
+// Returns { success, error }
+async function recordMemberSnapshot(clerkUserId) {
+  const tokenResult = await getLinkedInAccessToken(clerkUserId);
+  if (!tokenResult.success) {
+    return { success: false, error: tokenResult.error };
+  }
+
+  const dashboard = await buildMemberDashboard(tokenResult.accessToken, '1d');
+  if (dashboard.requiresReauth) {
+    return { success: false, error: 'LinkedIn analytics permissions required' };
+  }
+
+  await saveSnapshot({
+    user_clerk_id: clerkUserId,
+    organization_id: null,
+    snapshot_date: todayDate(),
+    followers: dashboard.followers.lifetime,
+    new_followers: dashboard.followers.currentPeriod,
+    impressions: dashboard.posts.totalImpressions,
+    reactions: dashboard.posts.totalReactions,
+    comments: dashboard.posts.totalComments,
+    reshares: dashboard.posts.totalReshares
+  });
+  return { success: true };
+}
+
+// Impressions and engagement on an organization's posts over the last full day
+// from organizationalEntityShareStatistics; null fields when LinkedIn doesn't report them
+async function fetchOrganizationShareTotals(accessToken, organizationId) {
+  const end = new Date();
+  end.setUTCHours(0, 0, 0, 0);
+  const start = end.getTime() - 24 * 60 * 60 * 1000;
+
+  // Structural characters in timeIntervals must not be encoded
+  const orgUrn = `urn:li:organization:${organizationId}`;
+  const timeIntervalsParam = `(timeRange:(start:${start},end:${end.getTime()}),timeGranularityType:DAY)`;
+  const url = `https://api.linkedin.com/rest/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${encodeURIComponent(orgUrn)}&timeIntervals=${timeIntervalsParam}`;
+
+  const empty = { impressions: null, reactions: null, comments: null, reshares: null };
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'LinkedIn-Version': '202511',
+        'X-Restli-Protocol-Version': '2.0.0'
+      }
+    });
+    const data = await response.json();
+    if (!response.ok || !Array.isArray(data.elements)) {
+      console.warn(`⚠️ [SNAPSHOTS] No share statistics for organization ${organizationId}:`, data.message || response.status);
+      return empty;
+    }
+
+    const sum = (field) => data.elements.reduce((total, element) => total + (element.totalShareStatistics?.[field] || 0), 0);
+    return {
+      impressions: sum('impressionCount'),
+      reactions: sum('likeCount'),
+      comments: sum('commentCount'),
+      reshares: sum('shareCount')
+    };
+  } catch (error) {
+    console.warn(`⚠️ [SNAPSHOTS] Failed to fetch share statistics for organization ${organizationId}:`, error.message);
+    return empty;
+  }
+}
+
+// Collect and store today's snapshot for an organization
+// Returns { success, error }
+async function recordOrganizationSnapshot(clerkUserId, organizationId) {
+  const tokenResult = await getLinkedInAccessToken(clerkUserId);
+  if (!tokenResult.success) {
+    return { success: false, error: tokenResult.error };
+  }
+
+  const [followerDashboard, pageDashboard, shareTotals] = await Promise.all([
+    buildOrganizationDashboard(tokenResult.accessToken, organizationId, '1d'),
+    buildOrganizationPageDashboard(tokenResult.accessToken, organizationId, '1d'),
+    fetchOrganizationShareTotals(tokenResult.accessToken, organizationId)
+  ]);
+
+  await saveSnapshot({
+    user_clerk_id: clerkUserId,
+    organization_id: organizationId,
+    snapshot_date: todayDate(),
+    followers: followerDashboard.followers.total,
+    // Estimated gains aren't real data, so leave the day empty instead
+    new_followers: followerDashboard.followers.dataSource === 'time-based'
+      ? followerDashboard.followers.currentPeriod
+      : null,
+    ...shareTotals,
+    page_views: pageDashboard.pageViews.currentPeriod,
+    unique_page_views: pageDashboard.pageViews.uniqueViewsCurrent,
+    demographics: {
+      followers: followerDashboard.demographics,
+      pageViews: pageDashboard.demographics
+    }
+  });
+  return { success: true };
+}
+
+/**
+ * Get daily analytics snapshots for a range, plus the dates posts went out
+ * @route GET /api/analytics/timeseries/:clerkUserId
+ * @query days - Number of days to return (default: 30, max: 365)
+ * @query organizationId - Organization ID (omit for the personal profile)
+ */
+const getAnalyticsTimeSeries = async (req, res) => {
+  try {
+    const { clerkUserId } = req.params;
+    const { organizationId } = req.query;
+    const days = Math.min(Math.max(parseInt(req.query.days) || 30, 1), MAX_TIMESERIES_DAYS);
+
+    // Organization snapshots are shared across admins, so only an admin of the org may read them
+    if (organizationId) {
+      const { data: page, error: pageError } = await supabase
+        .from('linkedin_company_pages')
+        .select('id')
+        .eq('user_clerk_id', clerkUserId)
+        .eq('company_id', organizationId)
+        .eq('is_active', true)
+        .limit(1)
+        .maybeSingle();
+
+      if (pageError) {
+        console.error('Error checking organization access:', pageError);
+        return res.status(500).json({ error: 'Failed to check organization access' });
+      }
+      if (!page) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+    }
+
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+    const sinceDate = since.toISOString().split('T')[0];
+
+    let snapshotsQuery = supabase
+      .from('analytics_snapshots')
+      .select('*')
+      .gte('snapshot_date', sinceDate)
+      .order('snapshot_date', { ascending: true });
+
+    snapshotsQuery = organizationId
+      ? snapshotsQuery.eq('organization_id', organizationId)
+      : snapshotsQuery.eq('user_clerk_id', clerkUserId).is('organization_id', null);
+
+    // Every post published through Alphaz, whether scheduled or published from the create page
+    let postsQuery = supabase
+      .from('published_posts')
+      .select('id, content, published_at')
+      .eq('user_clerk_id', clerkUserId)
+      .is('deleted_at', null)
+      .gte('published_at', since.toISOString())
+      .order('published_at', { ascending: true });
+
+    postsQuery = organizationId
+      ? postsQuery.eq('organization_id', organizationId)
+      : postsQuery.is('organization_id', null);
+
+    const [{ data: snapshots, error: snapshotsError }, { data: posts, error: postsError }] =
+      await Promise.all([snapshotsQuery, postsQuery]);
+
+    if (snapshotsError) {
+      console.error('Error fetching analytics snapshots:', snapshotsError);
+      return res.status(500).json({ error: 'Failed to fetch analytics snapshots' });
+    }
+    if (postsError) {
+      console.error('Error fetching published posts for timeseries:', postsError);
+    }
+
+    const latest = snapshots?.[snapshots.length - 1];
+
+    res.json({
+      days,
+      organizationId: organizationId || null,
+      snapshots: (snapshots || []).map(snapshot => ({
+        date: snapshot.snapshot_date,
+        followers: snapshot.followers,
+        newFollowers: snapshot.new_followers,
+        impressions: snapshot.impressions,
+        reactions: snapshot.reactions,
+        comments: snapshot.comments,
+        reshares: snapshot.reshares,
+        pageViews: snapshot.page_views,
+        uniquePageViews: snapshot.unique_page_views
+      })),
+      posts: (posts || []).map(post => ({
+        id: post.id,
+        postedAt: post.published_at,
+        title: post.content?.substring(0, 60) || ''
+      })),
+      latestDemographics: latest?.demographics || null
+    });
+  } catch (error) {
+    console.error('Error fetching analytics timeseries:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      details: error.message
+    });
+  }
+};
+
+module.exports = {
+  hasSnapshotForToday,
+  recordMemberSnapshot,
+  recordOrganizationSnapshot,
+  getAnalyticsTimeSeries
+};
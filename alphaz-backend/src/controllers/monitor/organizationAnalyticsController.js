@@ -155,210 +155,272 @@ const getOrganizationNetworkSize = async (req, res) => {
 };
 
 /**
- * Get aggregated organization analytics dashboard
- * @route GET /api/analytics/organization/dashboard/:clerkUserId/:organizationId
- * @query period - Time period: 7d, 30d, 90d, 1y (default: 30d)
+ * Build the organization follower dashboard for a period
+ * Shared by the dashboard route and the daily analytics snapshot worker
  */
-const getOrganizationDashboard = async (req, res) => {
-  try {
-    const { clerkUserId, organizationId } = req.params;
-    const { period = '30d' } = req.query;
-    
-    // Calculate date ranges based on period
-    // LinkedIn API constraint: data available from 12 months ago to 2 days ago
-    const now = new Date();
-    // console.log('Current system date:', now.toISOString());
-    
-    // LinkedIn data is delayed by 2 days, so we use now minus 2 days as our end date
-    const twoDaysAgo = new Date(now);
-    twoDaysAgo.setDate(now.getDate() - 2);
-    
-    const periodDays = {
-      '7d': 7,
-      '30d': 30,
-      '90d': 90,
-      '1y': 365
-    };
+async function buildOrganizationDashboard(accessToken, organizationId, period = '30d') {
+  // Calculate date ranges based on period
+  // LinkedIn API constraint: data available from 12 months ago to 2 days ago
+  const now = new Date();
+  // console.log('Current system date:', now.toISOString());
+  
+  // LinkedIn data is delayed by 2 days, so we use now minus 2 days as our end date
+  const twoDaysAgo = new Date(now);
+  twoDaysAgo.setDate(now.getDate() - 2);
+  
+  const periodDays = {
+    '1d': 1, // Daily analytics snapshots
+    '7d': 7,
+    '30d': 30,
+    '90d': 90,
+    '1y': 365
+  };
+  
+  const daysAgo = periodDays[period] || 30;
+  
+  // Use twoDaysAgo as the end date to respect LinkedIn's data availability
+  const currentPeriodEnd = new Date(twoDaysAgo);
+  const currentPeriodStart = new Date(currentPeriodEnd);
+  currentPeriodStart.setDate(currentPeriodEnd.getDate() - daysAgo);
+  
+  // Previous period for comparison
+  const previousPeriodEnd = new Date(currentPeriodStart);
+  const previousPeriodStart = new Date(previousPeriodEnd);
+  previousPeriodStart.setDate(previousPeriodEnd.getDate() - daysAgo);
+  
+  // LinkedIn constraint: data only available from 12 months ago
+  const twelveMonthsAgo = new Date(now);
+  twelveMonthsAgo.setFullYear(now.getFullYear() - 1);
+  twelveMonthsAgo.setDate(now.getDate() + 1); // Add 1 day buffer
+  
+  // console.log('LinkedIn data availability window:');
+  // console.log(`  Earliest available: ${twelveMonthsAgo.toISOString()}`);
+  // console.log(`  Latest available: ${twoDaysAgo.toISOString()}`);
+  
+  // Adjust if requesting data older than 12 months
+  if (currentPeriodStart < twelveMonthsAgo) {
+    console.warn('Current period start is before LinkedIn data window, adjusting...');
+    currentPeriodStart.setTime(twelveMonthsAgo.getTime());
+  }
+  
+  if (previousPeriodStart < twelveMonthsAgo) {
+    console.warn('Previous period start is before LinkedIn data window, adjusting...');
+    previousPeriodStart.setTime(twelveMonthsAgo.getTime());
+  }
+  
+  console.log(`\nFetching organization dashboard for period: ${period} (${daysAgo} days)`);
+  console.log(`Current period: ${currentPeriodStart.toISOString()} to ${currentPeriodEnd.toISOString()}`);
+  console.log(`Previous period: ${previousPeriodStart.toISOString()} to ${previousPeriodEnd.toISOString()}`);
+  
+  // Calculate actual days for each period after adjustments
+  const currentPeriodDays = Math.ceil((currentPeriodEnd - currentPeriodStart) / (1000 * 60 * 60 * 24));
+  const previousPeriodDays = Math.ceil((previousPeriodEnd - previousPeriodStart) / (1000 * 60 * 60 * 24));
+  console.log(`Actual days - Current: ${currentPeriodDays}, Previous: ${previousPeriodDays}`);
+  
+
+  // Helper function to fetch follower gains for a date range
+  const fetchFollowerGainsForRange = async (startDate, endDate) => {
+    // Ensure dates are not in the future
+    const maxAllowedDate = new Date();
+    maxAllowedDate.setDate(maxAllowedDate.getDate() - 2); // LinkedIn requires 2-day delay
     
-    const daysAgo = periodDays[period] || 30;
+    if (endDate > maxAllowedDate) {
+      console.warn(`End date ${endDate.toISOString()} is too recent, adjusting to ${maxAllowedDate.toISOString()}`);
+      endDate = new Date(maxAllowedDate);
+    }
     
-    // Use twoDaysAgo as the end date to respect LinkedIn's data availability
-    const currentPeriodEnd = new Date(twoDaysAgo);
-    const currentPeriodStart = new Date(currentPeriodEnd);
-    currentPeriodStart.setDate(currentPeriodEnd.getDate() - daysAgo);
+    if (startDate >= endDate) {
+      console.warn('Start date is after end date, returning 0');
+      return 0;
+    }
     
-    // Previous period for comparison
-    const previousPeriodEnd = new Date(currentPeriodStart);
-    const previousPeriodStart = new Date(previousPeriodEnd);
-    previousPeriodStart.setDate(previousPeriodEnd.getDate() - daysAgo);
+    const start = startDate.getTime();
+    const end = endDate.getTime();
     
-    // LinkedIn constraint: data only available from 12 months ago
-    const twelveMonthsAgo = new Date(now);
-    twelveMonthsAgo.setFullYear(now.getFullYear() - 1);
-    twelveMonthsAgo.setDate(now.getDate() + 1); // Add 1 day buffer
+    console.log(`\nFetching follower gains:`);
+    console.log(`  From: ${startDate.toISOString()}`);
+    console.log(`  To: ${endDate.toISOString()}`);
+    console.log(`  Timestamps: ${start} to ${end}`);
     
-    // console.log('LinkedIn data availability window:');
-    // console.log(`  Earliest available: ${twelveMonthsAgo.toISOString()}`);
-    // console.log(`  Latest available: ${twoDaysAgo.toISOString()}`);
+    // Use organizationalEntityFollowerStatistics for follower data
+    // This endpoint provides follower gains over time
+    const orgUrn = `urn:li:organization:${organizationId}`;
     
-    // Adjust if requesting data older than 12 months
-    if (currentPeriodStart < twelveMonthsAgo) {
-      console.warn('Current period start is before LinkedIn data window, adjusting...');
-      currentPeriodStart.setTime(twelveMonthsAgo.getTime());
-    }
+    // Build URL with time range parameters using Restli 2.0 format
+    const baseUrl = 'https://api.linkedin.com/rest/organizationalEntityFollowerStatistics';
     
-    if (previousPeriodStart < twelveMonthsAgo) {
-      console.warn('Previous period start is before LinkedIn data window, adjusting...');
-      previousPeriodStart.setTime(twelveMonthsAgo.getTime());
-    }
+    // Manually construct the URL to avoid double-encoding
+    // The timeIntervals parameter should NOT have its structural characters encoded
+    const timeIntervalsParam = `(timeRange:(start:${start},end:${end}),timeGranularityType:DAY)`;
     
-    console.log(`\nFetching organization dashboard for period: ${period} (${daysAgo} days)`);
-    console.log(`Current period: ${currentPeriodStart.toISOString()} to ${currentPeriodEnd.toISOString()}`);
-    console.log(`Previous period: ${previousPeriodStart.toISOString()} to ${previousPeriodEnd.toISOString()}`);
+    const url = `${baseUrl}?q=organizationalEntity&organizationalEntity=${encodeURIComponent(orgUrn)}&timeIntervals=${timeIntervalsParam}`;
     
-    // Calculate actual days for each period after adjustments
-    const currentPeriodDays = Math.ceil((currentPeriodEnd - currentPeriodStart) / (1000 * 60 * 60 * 24));
-    const previousPeriodDays = Math.ceil((previousPeriodEnd - previousPeriodStart) / (1000 * 60 * 60 * 24));
-    console.log(`Actual days - Current: ${currentPeriodDays}, Previous: ${previousPeriodDays}`);
+    console.log('Fetching follower gains with URL:', url);
+    console.log('Decoded URL:', decodeURIComponent(url));
     
-    // Get LinkedIn access token
-    const tokenResult = await getLinkedInAccessToken(clerkUserId);
-    if (!tokenResult.success) {
-      return res.status(401).json({ 
-        error: 'LinkedIn not connected',
-        details: tokenResult.error 
+    try {
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'LinkedIn-Version': '202511',
+          'X-Restli-Protocol-Version': '2.0.0'
+        }
       });
-    }
-
-    const { accessToken } = tokenResult;
-
-    // Helper function to fetch follower gains for a date range
-    const fetchFollowerGainsForRange = async (startDate, endDate) => {
-      // Ensure dates are not in the future
-      const maxAllowedDate = new Date();
-      maxAllowedDate.setDate(maxAllowedDate.getDate() - 2); // LinkedIn requires 2-day delay
       
-      if (endDate > maxAllowedDate) {
-        console.warn(`End date ${endDate.toISOString()} is too recent, adjusting to ${maxAllowedDate.toISOString()}`);
-        endDate = new Date(maxAllowedDate);
-      }
-      
-      if (startDate >= endDate) {
-        console.warn('Start date is after end date, returning 0');
-        return 0;
+      const data = await response.json();
+      if (!response.ok) {
+        console.warn('Failed to fetch follower gains for range.');
+        console.warn('Response status:', response.status);
+        console.warn('Response data:', JSON.stringify(data, null, 2));
+        console.warn('Request details:', {
+          url: url,
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          startTimestamp: start,
+          endTimestamp: end,
+          daysDifference: Math.ceil((end - start) / (1000 * 60 * 60 * 24))
+        });
+        
+        
+        return null;
       }
       
-      const start = startDate.getTime();
-      const end = endDate.getTime();
-      
-      console.log(`\nFetching follower gains:`);
-      console.log(`  From: ${startDate.toISOString()}`);
-      console.log(`  To: ${endDate.toISOString()}`);
-      console.log(`  Timestamps: ${start} to ${end}`);
-      
-      // Use organizationalEntityFollowerStatistics for follower data
-      // This endpoint provides follower gains over time
-      const orgUrn = `urn:li:organization:${organizationId}`;
-      
-      // Build URL with time range parameters using Restli 2.0 format
-      const baseUrl = 'https://api.linkedin.com/rest/organizationalEntityFollowerStatistics';
+      console.log('Follower statistics response received');
+      // console.log('Response data:', JSON.stringify(data, null, 2));
       
-      // Manually construct the URL to avoid double-encoding
-      // The timeIntervals parameter should NOT have its structural characters encoded
-      const timeIntervalsParam = `(timeRange:(start:${start},end:${end}),timeGranularityType:DAY)`;
+      // Handle the response based on its structure
+      const elements = data.elements || [];
       
-      const url = `${baseUrl}?q=organizationalEntity&organizationalEntity=${encodeURIComponent(orgUrn)}&timeIntervals=${timeIntervalsParam}`;
+      if (elements.length === 0) {
+        console.log('No follower data in response');
+        return 0;
+      }
       
-      console.log('Fetching follower gains with URL:', url);
-      console.log('Decoded URL:', decodeURIComponent(url));
+      // Check if we got time-bound data (elements with timeRange)
+      const hasTimeRanges = elements.some(el => el.timeRange);
       
-      try {
-        const response = await fetch(url, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'LinkedIn-Version': '202511',
-            'X-Restli-Protocol-Version': '2.0.0'
+      if (hasTimeRanges) {
+        // Sum up daily follower gains from time-bound data
+        const totalGains = elements.reduce((sum, element) => {
+          if (element.timeRange && element.followerGains) {
+            const gains = element.followerGains;
+            const dailyGain = (gains.organicFollowerGain || 0) + (gains.paidFollowerGain || 0);
+          //   console.log(`Date: ${new Date(element.timeRange.start).toISOString().split('T')[0]} - Gains: ${dailyGain}`);
+            return sum + dailyGain;
           }
-        });
-        
-        const data = await response.json();
-        if (!response.ok) {
-          console.warn('Failed to fetch follower gains for range.');
-          console.warn('Response status:', response.status);
-          console.warn('Response data:', JSON.stringify(data, null, 2));
-          console.warn('Request details:', {
-            url: url,
-            startDate: startDate.toISOString(),
-            endDate: endDate.toISOString(),
-            startTimestamp: start,
-            endTimestamp: end,
-            daysDifference: Math.ceil((end - start) / (1000 * 60 * 60 * 24))
-          });
-          
-          
-          return null;
-        }
+          return sum;
+        }, 0);
         
-        console.log('Follower statistics response received');
-        // console.log('Response data:', JSON.stringify(data, null, 2));
-        
-        // Handle the response based on its structure
-        const elements = data.elements || [];
+        console.log(`Total gains for period: ${totalGains}`);
+        return totalGains;
+      } else {
+        // Lifetime stats (no time intervals)
+        console.log('No time-bound data, checking for lifetime stats...');
+        const element = elements[0];
         
-        if (elements.length === 0) {
-          console.log('No follower data in response');
-          return 0;
+        // Try to get follower counts
+        if (element.followerCounts) {
+          const counts = element.followerCounts;
+          const total = counts.organicFollowerCount || 0;
+          console.log(`Total followers: ${total}`);
+          // Estimate gains for the period
+          return Math.floor(total * 0.05); // Rough estimate: 5% of total
         }
         
-        // Check if we got time-bound data (elements with timeRange)
-        const hasTimeRanges = elements.some(el => el.timeRange);
-        
-        if (hasTimeRanges) {
-          // Sum up daily follower gains from time-bound data
-          const totalGains = elements.reduce((sum, element) => {
-            if (element.timeRange && element.followerGains) {
-              const gains = element.followerGains;
-              const dailyGain = (gains.organicFollowerGain || 0) + (gains.paidFollowerGain || 0);
-            //   console.log(`Date: ${new Date(element.timeRange.start).toISOString().split('T')[0]} - Gains: ${dailyGain}`);
-              return sum + dailyGain;
-            }
-            return sum;
-          }, 0);
-          
-          console.log(`Total gains for period: ${totalGains}`);
-          return totalGains;
-        } else {
-          // Lifetime stats (no time intervals)
-          console.log('No time-bound data, checking for lifetime stats...');
-          const element = elements[0];
-          
-          // Try to get follower counts
-          if (element.followerCounts) {
-            const counts = element.followerCounts;
-            const total = counts.organicFollowerCount || 0;
-            console.log(`Total followers: ${total}`);
-            // Estimate gains for the period
-            return Math.floor(total * 0.05); // Rough estimate: 5% of total
-          }
-          
-          // Try to get follower gains
-          if (element.followerGains) {
-            const gains = element.followerGains;
-            return (gains.organicFollowerGain || 0) + (gains.paidFollowerGain || 0);
-          }
+        // Try to get follower gains
+        if (element.followerGains) {
+          const gains = element.followerGains;
+          return (gains.organicFollowerGain || 0) + (gains.paidFollowerGain || 0);
         }
-        
-        return 0;
-      } catch (error) {
-        console.error('Error fetching follower gains for range:', error);
-        return null;
       }
-    };
+      
+      return 0;
+    } catch (error) {
+      console.error('Error fetching follower gains for range:', error);
+      return null;
+    }
+  };
 
-    // Fetch total follower count
-    const networkSizeUrl = `https://api.linkedin.com/rest/networkSizes/urn:li:organization:${organizationId}?edgeType=FOLLOWS`;
-    const networkResponse = await fetch(networkSizeUrl, {
+  // Fetch total follower count
+  const networkSizeUrl = `https://api.linkedin.com/rest/networkSizes/urn:li:organization:${organizationId}?edgeType=FOLLOWS`;
+  const networkResponse = await fetch(networkSizeUrl, {
+    method: 'GET',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'LinkedIn-Version': '202511',
+      'X-Restli-Protocol-Version': '2.0.0'
+    }
+  });
+
+  const networkData = await networkResponse.json();
+  const totalFollowers = networkData.firstDegreeSize || 0;
+  console.log(`Total followers from networkSizes API: ${totalFollowers}`);
+  
+  // Try to fetch time-based statistics
+  let currentPeriodGains = 0;
+  let previousPeriodGains = 0;
+  let dataSource = 'none';
+  
+  try {
+    // First attempt: Try fetching with time ranges
+    const results = await Promise.all([
+      fetchFollowerGainsForRange(currentPeriodStart, currentPeriodEnd),
+      fetchFollowerGainsForRange(previousPeriodStart, previousPeriodEnd)
+    ]);
+
+    console.log('Time-based follower gains results:', results);
+    
+    // Check if we got valid results (not null)
+    if (results[0] !== null && results[1] !== null) {
+      currentPeriodGains = results[0];
+      previousPeriodGains = results[1];
+      dataSource = 'time-based';
+      console.log('Successfully fetched time-based follower gains');
+    } else {
+      console.log('Failed to fetch time-based data');
+    }
+  } catch (error) {
+    console.error('Error fetching time-based statistics:', error);
+  }
+
+  // If we got time-based data but all gains are 0, keep it as time-based
+  // If no time-based data at all, create estimates based on industry averages
+  if (dataSource === 'none' && totalFollowers > 0) {
+    // Industry average growth rates
+    let monthlyGrowthRate = 0.02; // 2% default for small orgs
+    if (totalFollowers > 10000) monthlyGrowthRate = 0.01; // 1% for medium
+    if (totalFollowers > 100000) monthlyGrowthRate = 0.005; // 0.5% for large
+    
+    // Calculate estimated gains based on period
+    const daysInPeriod = daysAgo;
+    const dailyRate = monthlyGrowthRate / 30;
+    const periodRate = dailyRate * daysInPeriod;
+    
+    currentPeriodGains = Math.floor(totalFollowers * periodRate);
+    previousPeriodGains = Math.floor(totalFollowers * periodRate * 0.95); // Slightly less for comparison
+    dataSource = 'estimated';
+    
+    console.log(`Estimated gains: current=${currentPeriodGains}, previous=${previousPeriodGains}`);
+  } else if (dataSource === 'time-based' && currentPeriodGains === 0 && previousPeriodGains === 0) {
+    console.log('Time-based data shows 0 gains for both periods');
+    // Keep dataSource as 'time-based' to indicate we have real data, just no growth
+  }
+
+  // Calculate change percentage
+  const followerChangePercent = previousPeriodGains > 0 
+    ? ((currentPeriodGains - previousPeriodGains) / previousPeriodGains * 100).toFixed(1)
+    : null;
+
+  // Always fetch demographics regardless of time-based data availability
+  const demographicsUrl = `https://api.linkedin.com/rest/organizationalEntityFollowerStatistics?q=organizationalEntity&organizationalEntity=${encodeURIComponent(`urn:li:organization:${organizationId}`)}`;
+  
+  let fullDemographics = null;
+  try {
+  //   console.log('Fetching organization demographics...');
+  //   console.log('Demographics URL:', demographicsUrl);
+    
+    const demographicsResponse = await fetch(demographicsUrl, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${accessToken}`,
@@ -366,141 +428,88 @@ const getOrganizationDashboard = async (req, res) => {
         'X-Restli-Protocol-Version': '2.0.0'
       }
     });
-
-    const networkData = await networkResponse.json();
-    const totalFollowers = networkData.firstDegreeSize || 0;
-    console.log(`Total followers from networkSizes API: ${totalFollowers}`);
     
-    // Try to fetch time-based statistics
-    let currentPeriodGains = 0;
-    let previousPeriodGains = 0;
-    let dataSource = 'none';
+    console.log('Demographics response status:', demographicsResponse.status);
+    const demographicsData = await demographicsResponse.json();
+  //   console.log('Demographics response:', JSON.stringify(demographicsData, null, 2));
     
-    try {
-      // First attempt: Try fetching with time ranges
-      const results = await Promise.all([
-        fetchFollowerGainsForRange(currentPeriodStart, currentPeriodEnd),
-        fetchFollowerGainsForRange(previousPeriodStart, previousPeriodEnd)
-      ]);
+    if (demographicsResponse.ok && demographicsData.elements?.[0]) {
+      const demos = demographicsData.elements[0];
+      // Return full demographics data, not just top 3
+      fullDemographics = {
+        industries: demos.followerCountsByIndustry || [],
+        functions: demos.followerCountsByFunction || [],
+        countries: demos.followerCountsByGeoCountry || [],
+        regions: demos.followerCountsByGeo || [],
+        seniorities: demos.followerCountsBySeniority || [],
+        staffCountRanges: demos.followerCountsByStaffCountRange || []
+      };
+      console.log('Demographics fetched successfully');
+      console.log(`Found ${fullDemographics.industries.length} industries, ${fullDemographics.functions.length} functions`);
+    } else {
+      console.log('No demographics data found in response');
+    }
+  } catch (error) {
+    console.error('Failed to fetch demographics:', error);
+    console.error('Error details:', error.message);
+  }
 
-      console.log('Time-based follower gains results:', results);
-      
-      // Check if we got valid results (not null)
-      if (results[0] !== null && results[1] !== null) {
-        currentPeriodGains = results[0];
-        previousPeriodGains = results[1];
-        dataSource = 'time-based';
-        console.log('Successfully fetched time-based follower gains');
-      } else {
-        console.log('Failed to fetch time-based data');
+  // Build dashboard response
+  const dashboard = {
+    period: period,
+    organizationId: organizationId,
+    followers: {
+      total: totalFollowers,
+      currentPeriod: currentPeriodGains || 0,
+      previousPeriod: previousPeriodGains || 0,
+      changePercent: followerChangePercent,
+      dataSource: dataSource, // 'time-based', 'estimated', or 'none'
+      isEstimated: dataSource === 'estimated'
+    },
+    demographics: fullDemographics,
+    dateRange: {
+      current: {
+        start: currentPeriodStart.toISOString(),
+        end: currentPeriodEnd.toISOString()
+      },
+      previous: {
+        start: previousPeriodStart.toISOString(),
+        end: previousPeriodEnd.toISOString()
       }
-    } catch (error) {
-      console.error('Error fetching time-based statistics:', error);
-    }
+    },
+    lastUpdated: new Date().toISOString(),
+    message: dataSource === 'estimated' 
+      ? 'Time-based statistics not available. Showing estimated gains based on industry averages.'
+      : dataSource === 'time-based' && (currentPeriodGains === 0 && previousPeriodGains === 0)
+        ? 'No follower growth detected during the selected periods. This could mean your organization had stable follower count.'
+        : dataSource === 'time-based'
+          ? 'Showing actual time-based statistics from LinkedIn.' 
+          : 'Unable to fetch follower statistics.'
+  };
 
-    // If we got time-based data but all gains are 0, keep it as time-based
-    // If no time-based data at all, create estimates based on industry averages
-    if (dataSource === 'none' && totalFollowers > 0) {
-      // Industry average growth rates
-      let monthlyGrowthRate = 0.02; // 2% default for small orgs
-      if (totalFollowers > 10000) monthlyGrowthRate = 0.01; // 1% for medium
-      if (totalFollowers > 100000) monthlyGrowthRate = 0.005; // 0.5% for large
-      
-      // Calculate estimated gains based on period
-      const daysInPeriod = daysAgo;
-      const dailyRate = monthlyGrowthRate / 30;
-      const periodRate = dailyRate * daysInPeriod;
-      
-      currentPeriodGains = Math.floor(totalFollowers * periodRate);
-      previousPeriodGains = Math.floor(totalFollowers * periodRate * 0.95); // Slightly less for comparison
-      dataSource = 'estimated';
-      
-      console.log(`Estimated gains: current=${currentPeriodGains}, previous=${previousPeriodGains}`);
-    } else if (dataSource === 'time-based' && currentPeriodGains === 0 && previousPeriodGains === 0) {
-      console.log('Time-based data shows 0 gains for both periods');
-      // Keep dataSource as 'time-based' to indicate we have real data, just no growth
-    }
+  return dashboard;
+}
 
-    // Calculate change percentage
-    const followerChangePercent = previousPeriodGains > 0 
-      ? ((currentPeriodGains - previousPeriodGains) / previousPeriodGains * 100).toFixed(1)
-      : null;
+/**
+ * Get aggregated organization analytics dashboard
+ * @route GET /api/analytics/organization/dashboard/:clerkUserId/:organizationId
+ * @query period - Time period: 7d, 30d, 90d, 1y (default: 30d)
+ */
+const getOrganizationDashboard = async (req, res) => {
+  try {
+    const { clerkUserId, organizationId } = req.params;
+    const { period = '30d' } = req.query;
 
-    // Always fetch demographics regardless of time-based data availability
-    const demographicsUrl = `https://api.linkedin.com/rest/organizationalEntityFollowerStatistics?q=organizationalEntity&organizationalEntity=${encodeURIComponent(`urn:li:organization:${organizationId}`)}`;
-    
-    let fullDemographics = null;
-    try {
-    //   console.log('Fetching organization demographics...');
-    //   console.log('Demographics URL:', demographicsUrl);
-      
-      const demographicsResponse = await fetch(demographicsUrl, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'LinkedIn-Version': '202511',
-          'X-Restli-Protocol-Version': '2.0.0'
-        }
+    // Get LinkedIn access token
+    const tokenResult = await getLinkedInAccessToken(clerkUserId);
+    if (!tokenResult.success) {
+      return res.status(401).json({ 
+        error: 'LinkedIn not connected',
+        details: tokenResult.error 
       });
-      
-      console.log('Demographics response status:', demographicsResponse.status);
-      const demographicsData = await demographicsResponse.json();
-    //   console.log('Demographics response:', JSON.stringify(demographicsData, null, 2));
-      
-      if (demographicsResponse.ok && demographicsData.elements?.[0]) {
-        const demos = demographicsData.elements[0];
-        // Return full demographics data, not just top 3
-        fullDemographics = {
-          industries: demos.followerCountsByIndustry || [],
-          functions: demos.followerCountsByFunction || [],
-          countries: demos.followerCountsByGeoCountry || [],
-          regions: demos.followerCountsByGeo || [],
-          seniorities: demos.followerCountsBySeniority || [],
-          staffCountRanges: demos.followerCountsByStaffCountRange || []
-        };
-        console.log('Demographics fetched successfully');
-        console.log(`Found ${fullDemographics.industries.length} industries, ${fullDemographics.functions.length} functions`);
-      } else {
-        console.log('No demographics data found in response');
-      }
-    } catch (error) {
-      console.error('Failed to fetch demographics:', error);
-      console.error('Error details:', error.message);
     }
 
-    // Build dashboard response
-    const dashboard = {
-      period: period,
-      organizationId: organizationId,
-      followers: {
-        total: totalFollowers,
-        currentPeriod: currentPeriodGains || 0,
-        previousPeriod: previousPeriodGains || 0,
-        changePercent: followerChangePercent,
-        dataSource: dataSource, // 'time-based', 'estimated', or 'none'
-        isEstimated: dataSource === 'estimated'
-      },
-      demographics: fullDemographics,
-      dateRange: {
-        current: {
-          start: currentPeriodStart.toISOString(),
-          end: currentPeriodEnd.toISOString()
-        },
-        previous: {
-          start: previousPeriodStart.toISOString(),
-          end: previousPeriodEnd.toISOString()
-        }
-      },
-      lastUpdated: new Date().toISOString(),
-      message: dataSource === 'estimated' 
-        ? 'Time-based statistics not available. Showing estimated gains based on industry averages.'
-        : dataSource === 'time-based' && (currentPeriodGains === 0 && previousPeriodGains === 0)
-          ? 'No follower growth detected during the selected periods. This could mean your organization had stable follower count.'
-          : dataSource === 'time-based'
-            ? 'Showing actual time-based statistics from LinkedIn.' 
-            : 'Unable to fetch follower statistics.'
-    };
-    
+    const dashboard = await buildOrganizationDashboard(tokenResult.accessToken, organizationId, period);
     res.json(dashboard);
 
   } catch (error) {
@@ -590,6 +599,7 @@ const getOrganizationOverview = async (req, res) => {
 };
 
 module.exports = {
+  buildOrganizationDashboard,
   getOrganizationFollowerStats,
   getOrganizationNetworkSize,
   getOrganizationDashboard,
@@ -0,0 +1,317 @@
+const supabase = require('../../config/supabase');
+
+// Published post performance
+// Every post published through Alphaz is linked back to the thread, draft and
+// draft version that produced it. The post metrics poller fills in a metrics
+// timeline per post, which the draft panel and the Plan page show.
+
+const METRIC_QUERY_TYPES = {
+  impressions: 'IMPRESSION',
+  reactions: 'REACTION',
+  comments: 'COMMENT',
+  reshares: 'RESHARE'
+};
+
+const linkedInHeaders = (accessToken) => ({
+  'Authorization': `Bearer ${accessToken}`,
+  'LinkedIn-Version': '202511',
+  'X-Restli-Protocol-Version': '2.0.0'
+});
+
+// Link a newly published LinkedIn post to the draft that produced it
+// source: { threadId, draftId, draftVersionId, draftVersion, scheduledDraftId }
+// commentary is the text as sent, with mention tokens (for later edits)
+// Never throws: a failed link must not fail the publish itself
+async function recordPublishedPost({ clerkUserId, organizationId, postUrn, content, commentary, source = {} }) {
+  if (!postUrn) return null;
+
+  try {
+    let draftVersion = source.draftVersion ?? null;
+    if (draftVersion === null && source.draftVersionId) {
+      const { data: version } = await supabase
+        .from('chat_thread_draft_versions')
+        .select('version')
+        .eq('id', source.draftVersionId)
+        .maybeSingle();
+      draftVersion = version?.version ?? null;
+    }
+
+    const row = {
+      user_clerk_id: clerkUserId,
+      organization_id: organizationId || null,
+      linkedin_post_urn: postUrn,
+      thread_id: source.threadId || null,
+      draft_id: source.draftId || null,
+      draft_version_id: source.draftVersionId || null,
+      draft_version: draftVersion,
+      scheduled_draft_id: source.scheduledDraftId || null,
+      content,
+      ...(commentary ? { commentary } : {})
+    };
+
+    // The same post can be reported twice (publish route, then marked as
+    // posted on the Plan page); the first report wins
+    const { data: inserted, error } = await supabase
+      .from('published_posts')
+      .upsert(row, { onConflict: 'linkedin_post_urn', ignoreDuplicates: true })
+      .select('*');
+
+    if (error) throw error;
+    if (inserted?.length) {
+      console.log(`📌 [POST PERFORMANCE] Linked ${postUrn} to draft ${source.draftId || 'none'}`);
+      return inserted[0];
+    }
+
+    // A later report only fills in what the first one left empty
+    const { data: existing, error: existingError } = await supabase
+      .from('published_posts')
+      .select('*')
+      .eq('linkedin_post_urn', postUrn)
+      .single();
+    if (existingError) throw existingError;
+
+    const missing = Object.fromEntries(
+      Object.entries(row).filter(([column, value]) => value !== null && existing[column] === null)
+    );
+    if (Object.keys(missing).length === 0) return existing;
+
+    const { data, error: updateError } = await supabase
+      .from('published_posts')
+      .update(missing)
+      .eq('id', existing.id)
+      .select('*')
+      .single();
+
+    if (updateError) throw updateError;
+    console.log(`📌 [POST PERFORMANCE] Linked ${postUrn} to draft ${source.draftId || 'none'}`);
+    return data;
+  } catch (error) {
+    console.error(`❌ [POST PERFORMANCE] Failed to record published post ${postUrn}:`, error);
+    return null;
+  }
+}
+
+// Record an edit made to a published post
+// The post's source draft gets a new version (branching from the published
+// one) so the draft's history matches what is live on LinkedIn
+// Returns { post, version } where version is the new draft version row, or null
+async function recordPublishedPostEdit(post, { content, commentary }) {
+  let version = null;
+
+  if (post.draft_id) {
+    try {
+      const { data: latest } = await supabase
+        .from('chat_thread_draft_versions')
+        .select('version')
+        .eq('draft_id', post.draft_id)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      // Attachments carry over from the version that was published
+      const { data: published } = post.draft_version_id
+        ? await supabase
+            .from('chat_thread_draft_versions')
+            .select('media')
+            .eq('id', post.draft_version_id)
+            .maybeSingle()
+        : { data: null };
+
+      const { data: inserted, error: versionError } = await supabase
+        .from('chat_thread_draft_versions')
+        .insert({
+          draft_id: post.draft_id,
+          version: (latest?.version || 0) + 1,
+          content: commentary,
+          edit_prompt: 'Edited after publishing',
+          changes: ['Updated the published post on LinkedIn'],
+          parent_version: post.draft_version,
+          media: published?.media || []
+        })
+        .select('*')
+        .single();
+      if (versionError) throw versionError;
+
+      await supabase
+        .from('chat_thread_drafts')
+        .update({ current_version: inserted.version, updated_at: new Date().toISOString() })
+        .eq('id', post.draft_id);
+
+      version = inserted;
+    } catch (error) {
+      // The post is already edited on LinkedIn; the draft just misses the version
+      console.error(`❌ [POST PERFORMANCE] Failed to add a draft version for the edit of ${post.linkedin_post_urn}:`, error);
+    }
+  }
+
+  const { data: updated, error } = await supabase
+    .from('published_posts')
+    .update({
+      content,
+      commentary,
+      edited_at: new Date().toISOString(),
+      ...(version ? { draft_version_id: version.id, draft_version: version.version } : {})
+    })
+    .eq('id', post.id)
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  // Posted plan entries show the live text
+  if (post.scheduled_draft_id) {
+    await supabase
+      .from('scheduled_drafts')
+      .update({ content: commentary })
+      .eq('id', post.scheduled_draft_id);
+  }
+
+  console.log(`✏️ [POST PERFORMANCE] Recorded edit of ${post.linkedin_post_urn}${version ? ` as v${version.version}` : ''}`);
+  return { post: updated, version };
+}
+
+// Lifetime metrics for a personal post from memberCreatorPostAnalytics
+async function fetchMemberPostMetrics(accessToken, postUrn) {
+  const entity = postUrn.includes('ugcPost')
+    ? `(ugc:${encodeURIComponent(postUrn)})`
+    : `(share:${encodeURIComponent(postUrn)})`;
+
+  const entries = await Promise.all(
+    Object.entries(METRIC_QUERY_TYPES).map(async ([field, queryType]) => {
+      const url = `https://api.linkedin.com/rest/memberCreatorPostAnalytics?q=entity&entity=${entity}&queryType=${queryType}&aggregation=TOTAL`;
+      const response = await fetch(url, { method: 'GET', headers: linkedInHeaders(accessToken) });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || `Failed to fetch ${queryType} for ${postUrn}`);
+      }
+      return [field, data.elements?.[0]?.count || 0];
+    })
+  );
+  return Object.fromEntries(entries);
+}
+
+// Lifetime metrics for an organization post from organizationalEntityShareStatistics
+async function fetchOrganizationPostMetrics(accessToken, organizationId, postUrn) {
+  const organizationUrn = encodeURIComponent(`urn:li:organization:${organizationId}`);
+  const postParam = postUrn.includes('ugcPost') ? 'ugcPosts' : 'shares';
+  const url = `https://api.linkedin.com/rest/organizationalEntityShareStatistics?q=organizationalEntity&organizationalEntity=${organizationUrn}&${postParam}=List(${encodeURIComponent(postUrn)})`;
+
+  const response = await fetch(url, { method: 'GET', headers: linkedInHeaders(accessToken) });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.message || `Failed to fetch share statistics for ${postUrn}`);
+  }
+
+  const stats = data.elements?.[0]?.totalShareStatistics || {};
+  return {
+    impressions: stats.impressionCount || 0,
+    reactions: stats.likeCount || 0,
+    comments: stats.commentCount || 0,
+    reshares: stats.shareCount || 0
+  };
+}
+
+// Fetch current metrics for a published post and append them to its timeline
+async function pollPostMetrics(accessToken, post) {
+  const metrics = post.organization_id
+    ? await fetchOrganizationPostMetrics(accessToken, post.organization_id, post.linkedin_post_urn)
+    : await fetchMemberPostMetrics(accessToken, post.linkedin_post_urn);
+
+  const capturedAt = new Date().toISOString();
+
+  const { error: timelineError } = await supabase
+    .from('published_post_metrics')
+    .insert({ published_post_id: post.id, captured_at: capturedAt, ...metrics });
+  if (timelineError) throw timelineError;
+
+  const { error: updateError } = await supabase
+    .from('published_posts')
+    .update({ ...metrics, last_polled_at: capturedAt })
+    .eq('id', post.id);
+  if (updateError) throw updateError;
+
+  return metrics;
+}
+
+/**
+ * Get published posts with their metrics timelines
+ * @route GET /api/post-performance/:clerkUserId
+ * @query draftId - Only posts published from this draft (any version)
+ * @query threadId - Only posts published from this thread
+ * @query organizationId - Organization ID (omit for personal posts; ignored with draftId/threadId)
+ */
+const getPostPerformance = async (req, res) => {
+  try {
+    const { clerkUserId } = req.params;
+    const { draftId, threadId, organizationId } = req.query;
+
+    let query = supabase
+      .from('published_posts')
+      .select('*, published_post_metrics(captured_at, impressions, reactions, comments, reshares)')
+      .eq('user_clerk_id', clerkUserId)
+      .order('published_at', { ascending: false });
+
+    if (draftId) {
+      query = query.eq('draft_id', draftId);
+    } else if (threadId) {
+      query = query.eq('thread_id', threadId);
+    } else {
+      query = organizationId
+        ? query.eq('organization_id', organizationId)
+        : query.is('organization_id', null);
+    }
+
+    const { data: posts, error } = await query;
+
+    if (error) {
+      console.error('Error fetching post performance:', error);
+      return res.status(500).json({ error: 'Failed to fetch post performance' });
+    }
+
+    res.json({
+      posts: (posts || []).map(post => ({
+        id: post.id,
+        postUrn: post.linkedin_post_urn,
+        organizationId: post.organization_id,
+        threadId: post.thread_id,
+        draftId: post.draft_id,
+        draftVersionId: post.draft_version_id,
+        draftVersion: post.draft_version,
+        scheduledDraftId: post.scheduled_draft_id,
+        content: post.content,
+        commentary: post.commentary,
+        publishedAt: post.published_at,
+        editedAt: post.edited_at,
+        deletedAt: post.deleted_at,
+        lastPolledAt: post.last_polled_at,
+        metrics: {
+          impressions: post.impressions,
+          reactions: post.reactions,
+          comments: post.comments,
+          reshares: post.reshares
+        },
+        timeline: (post.published_post_metrics || [])
+          .sort((a, b) => new Date(a.captured_at) - new Date(b.captured_at))
+          .map(point => ({
+            capturedAt: point.captured_at,
+            impressions: point.impressions,
+            reactions: point.reactions,
+            comments: point.comments,
+            reshares: point.reshares
+          }))
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching post performance:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      details: error.message
+    });
+  }
+};
+
+module.exports = {
+  recordPublishedPost,
+  recordPublishedPostEdit,
+  pollPostMetrics,
+  getPostPerformance
+};
@@ -14,12 +14,15 @@ const fileExtractionRoutes = require('./routes/core/fileExtractionRoutes');
 // Monitor routes (analytics, organization data)
 const analyticsRoutes = require('./routes/monitor/analyticsRoutes');
 const organizationAnalyticsRoutes = require('./routes/monitor/organizationAnalyticsRoutes');
+const postPerformanceRoutes = require('./routes/monitor/postPerformanceRoutes');
 
 // Create routes (AI chat, embeddings, feedback, scheduled drafts)
 const embeddingsRoutes = require('./routes/create/embeddingsRoutes');
 const threadsRoutes = require('./routes/create/threadsRoutes');
 const feedbackRoutes = require('./routes/create/feedbackRoutes');
 const scheduledDraftsRoutes = require('./routes/create/scheduledDraftsRoutes');
+const mentionContactsRoutes = require('./routes/create/mentionContactsRoutes');
+const draftMediaRoutes = require('./routes/create/draftMediaRoutes');
 
 // Check-in routes
 const checkinRoutes = require('./routes/checkin/checkinRoutes');
@@ -27,6 +30,11 @@ const checkinRoutes = require('./routes/checkin/checkinRoutes');
 // Personalization routes (user persona, interview)
 const personaRoutes = require('./routes/personalization/personaRoutes');
 
+// Background workers
+const { startScheduledPostPublisher } = require('./workers/scheduledPostPublisher');
+const { startAnalyticsSnapshotter } = require('./workers/analyticsSnapshotter');
+const { startPostMetricsPoller } = require('./workers/postMetricsPoller');
+
 const app = express();
 const PORT = process.env.PORT || 5000;
 
@@ -69,12 +77,15 @@ app.use('/api', transcriptionRoutes);
 app.use('/api', fileExtractionRoutes);
 app.use('/api', analyticsRoutes);
 app.use('/api/analytics', organizationAnalyticsRoutes);
+app.use('/api', postPerformanceRoutes);
 app.use('/api/embeddings', embeddingsRoutes);
 app.use('/api', threadsRoutes);
 app.use('/api', feedbackRoutes);
 app.use('/api', checkinRoutes);
 app.use('/api/persona', personaRoutes);
 app.use('/api', scheduledDraftsRoutes);
+app.use('/api', mentionContactsRoutes);
+app.use('/api', draftMediaRoutes);
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
@@ -103,6 +114,21 @@ app.use((req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
   console.log(`Health check: http://localhost:${PORT}/api/health`);
+
+  // Publish scheduled drafts when they come due
+  if (process.env.DISABLE_SCHEDULED_PUBLISHER !== 'true') {
+    startScheduledPostPublisher();
+  }
+
+  // Store daily analytics snapshots for trend charts
+  if (process.env.DISABLE_ANALYTICS_SNAPSHOTS !== 'true') {
+    startAnalyticsSnapshotter();
+  }
+
+  // Poll metrics for posts published through Alphaz
+  if (process.env.DISABLE_POST_METRICS_POLLER !== 'true') {
+    startPostMetricsPoller();
+  }
 });
 
 // Handle graceful shutdown
@@ -19,6 +19,30 @@ const upload = multer({
   }
 });
 
+// Videos and PDF documents are held in memory while they're uploaded to LinkedIn in chunks
+const mediaUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB (LinkedIn allows 100MB for documents; checked below)
+  },
+  fileFilter: (req, file, cb) => {
+    // Accept only video files and PDFs
+    if (file.mimetype.startsWith('video/') || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only video files and PDF documents are allowed'), false);
+    }
+  }
+});
+
+// LinkedIn rejects documents over 100MB, so fail before uploading them
+function checkDocumentSize(req, res, next) {
+  if (req.file?.mimetype === 'application/pdf' && req.file.size > 100 * 1024 * 1024) {
+    return res.status(400).json({ error: 'PDF documents can be at most 100MB' });
+  }
+  next();
+}
+
 // Generate LinkedIn OAuth URL
 router.get('/auth/linkedin/url', linkedinController.getLinkedInAuthUrl);
 
@@ -37,12 +61,24 @@ router.get('/linkedin/company-pages/:clerkUserId', linkedinController.getCompany
 // Upload image to LinkedIn (returns asset URN for use in posts)
 router.post('/linkedin/upload-image', upload.single('image'), linkedinController.uploadImage);
 
+// Upload a video or PDF document to LinkedIn (returns its URN; LinkedIn then processes it)
+router.post('/linkedin/upload-media', mediaUpload.single('media'), checkDocumentSize, linkedinController.uploadMedia);
+
+// Processing status of an uploaded video or document
+router.get('/linkedin/media-status/:clerkUserId', linkedinController.getMediaStatus);
+
 // Post to LinkedIn as an organization
 router.post('/linkedin/post', linkedinController.postOrganizationUpdate);
 
 // Post to LinkedIn as personal profile
 router.post('/linkedin/post/personal', linkedinController.postPersonalUpdate);
 
+// Edit the text of a post published through Alphaz (by published_posts id)
+router.put('/linkedin/posts/:postId', linkedinController.updatePublishedPost);
+
+// Delete a post published through Alphaz from LinkedIn
+router.delete('/linkedin/posts/:postId', linkedinController.deletePublishedPost);
+
 // Debug ACLs - raw response from LinkedIn
 router.get('/linkedin/debug-acls/:clerkUserId', linkedinController.debugAcls);
 
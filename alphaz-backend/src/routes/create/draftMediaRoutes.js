@@ -0,0 +1,30 @@
+const express = require('express');
+const router = express.Router();
+const multer = require('multer');
+const {
+  uploadDraftMedia,
+  getDraftMediaFile
+} = require('../../controllers/create/draftMediaController');
+
+// Anything a post can carry: images, videos and PDF documents
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB (the largest LinkedIn media, videos)
+  },
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/') || file.mimetype.startsWith('video/') || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only images, videos and PDF documents are allowed'), false);
+    }
+  }
+});
+
+// Store a copy of a file attached to a draft
+router.post('/draft-media', upload.single('media'), uploadDraftMedia);
+
+// Read back a stored copy
+router.get('/draft-media/:clerkUserId/file', getDraftMediaFile);
+
+module.exports = router;
@@ -2,7 +2,8 @@ const express = require('express');
 const router = express.Router();
 const {
   generateOrganizationEmbeddings,
-  getOrganizationContext
+  getOrganizationContext,
+  retrieveOrganizationContext
 } = require('../../controllers/create/vectorEmbeddingsController');
 
 // Generate embeddings for an organization's analytics data
@@ -11,4 +12,7 @@ router.post('/organization/:clerkUserId/:organizationId/generate', generateOrgan
 // Get organization context for AI (all analytics data as text)
 router.get('/organization/:clerkUserId/:organizationId/context', getOrganizationContext);
 
+// Retrieve the top-k chunks most relevant to a query (semantic search)
+router.post('/organization/:clerkUserId/:organizationId/retrieve', retrieveOrganizationContext);
+
 module.exports = router;
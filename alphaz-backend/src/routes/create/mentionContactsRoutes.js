@@ -0,0 +1,18 @@
+const express = require('express');
+const router = express.Router();
+const {
+  getMentionContacts,
+  createMentionContact,
+  deleteMentionContact
+} = require('../../controllers/create/mentionContactsController');
+
+// Get a user's saved mention contacts
+router.get('/mention-contacts/:clerkUserId', getMentionContacts);
+
+// Save a person or page for @-mentions
+router.post('/mention-contacts', createMentionContact);
+
+// Delete a saved mention contact
+router.delete('/mention-contacts/:id', deleteMentionContact);
+
+module.exports = router;
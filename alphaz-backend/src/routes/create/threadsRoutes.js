@@ -9,14 +9,21 @@ router.get('/threads/:id', threadsController.getThread);
 router.put('/threads/:id', threadsController.updateThread);
 router.delete('/threads/:id', threadsController.deleteThread);
 
+// Conversation memory (rolling summary of older turns)
+router.get('/threads/:id/memory', threadsController.getThreadMemory);
+router.put('/threads/:id/memory', threadsController.updateThreadMemory);
+
 // Messages
 router.post('/threads/:id/messages', threadsController.addMessage);
 
 // Drafts
 router.post('/threads/:id/drafts', threadsController.saveDraft);
+router.post('/threads/:id/draft-variants', threadsController.saveDraftVariants);
 router.get('/drafts/:draftId', threadsController.getDraft);
 router.put('/drafts/:draftId', threadsController.updateDraftVersion);
 router.put('/drafts/:draftId/parent-message', threadsController.updateDraftVersionParentMessage);
+router.put('/drafts/:draftId/media', threadsController.updateDraftVersionMedia);
+router.put('/drafts/:draftId/first-comment', threadsController.updateDraftFirstComment);
 router.delete('/drafts/:draftId', threadsController.deleteDraft);
 
 module.exports = router;
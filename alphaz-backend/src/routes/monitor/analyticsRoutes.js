@@ -1,6 +1,7 @@
 const express = require('express');
 const router = express.Router();
 const analyticsController = require('../../controllers/monitor/analyticsController');
+const { getAnalyticsTimeSeries } = require('../../controllers/monitor/analyticsSnapshotsController');
 
 // Member Analytics Routes
 
@@ -13,4 +14,7 @@ router.get('/analytics/member/posts/:clerkUserId', analyticsController.getMember
 // Get aggregated dashboard data for member
 router.get('/analytics/member/dashboard/:clerkUserId', analyticsController.getMemberDashboard);
 
+// Daily analytics snapshots over a range (personal, or organization via ?organizationId=)
+router.get('/analytics/timeseries/:clerkUserId', getAnalyticsTimeSeries);
+
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,8 @@
+const express = require('express');
+const router = express.Router();
+const { getPostPerformance } = require('../../controllers/monitor/postPerformanceController');
+
+// Published post performance (filter with ?draftId=, ?threadId= or ?organizationId=)
+router.get('/post-performance/:clerkUserId', getPostPerformance);
+
+module.exports = router;
@@ -0,0 +1,106 @@
+const supabase = require('../config/supabase');
+const {
+  hasSnapshotForToday,
+  recordMemberSnapshot,
+  recordOrganizationSnapshot
+} = require('../controllers/monitor/analyticsSnapshotsController');
+
+// Analytics snapshotter
+// Once a day, stores an analytics snapshot for every LinkedIn-connected
+// profile and every active organization page. Checks hourly so a restart
+// or a failed run is picked up the same day; existing snapshots are skipped.
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let timer = null;
+let running = false;
+
+async function snapshotProfiles() {
+  const { data: users, error } = await supabase
+    .from('users')
+    .select('clerk_user_id')
+    .eq('linkedin_connected', true);
+
+  if (error) {
+    console.error('❌ [SNAPSHOTS] Failed to fetch connected users:', error);
+    return;
+  }
+
+  for (const { clerk_user_id: clerkUserId } of users || []) {
+    try {
+      if (await hasSnapshotForToday({ clerkUserId })) continue;
+      const result = await recordMemberSnapshot(clerkUserId);
+      if (!result.success) {
+        console.warn(`⚠️ [SNAPSHOTS] Skipped profile ${clerkUserId}: ${result.error}`);
+      }
+    } catch (err) {
+      console.error(`❌ [SNAPSHOTS] Failed to snapshot profile ${clerkUserId}:`, err);
+    }
+  }
+}
+
+async function snapshotOrganizations() {
+  const { data: pages, error } = await supabase
+    .from('linkedin_company_pages')
+    .select('user_clerk_id, company_id')
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('❌ [SNAPSHOTS] Failed to fetch company pages:', error);
+    return;
+  }
+
+  // Group admins by organization; try each admin's token until one works
+  const adminsByOrg = new Map();
+  for (const page of pages || []) {
+    adminsByOrg.set(page.company_id, [...(adminsByOrg.get(page.company_id) || []), page.user_clerk_id]);
+  }
+
+  for (const [organizationId, admins] of adminsByOrg) {
+    try {
+      if (await hasSnapshotForToday({ organizationId })) continue;
+      for (const clerkUserId of admins) {
+        const result = await recordOrganizationSnapshot(clerkUserId, organizationId);
+        if (result.success) break;
+        console.warn(`⚠️ [SNAPSHOTS] Organization ${organizationId} via ${clerkUserId}: ${result.error}`);
+      }
+    } catch (err) {
+      console.error(`❌ [SNAPSHOTS] Failed to snapshot organization ${organizationId}:`, err);
+    }
+  }
+}
+
+// Store today's snapshots that don't exist yet
+async function recordDailySnapshots() {
+  if (running) return;
+  running = true;
+
+  try {
+    await snapshotProfiles();
+    await snapshotOrganizations();
+  } catch (err) {
+    console.error('❌ [SNAPSHOTS] Error in recordDailySnapshots:', err);
+  } finally {
+    running = false;
+  }
+}
+
+function startAnalyticsSnapshotter() {
+  if (timer) return;
+  console.log(`📊 [SNAPSHOTS] Analytics snapshotter started (checking every ${CHECK_INTERVAL_MS / 60000} min)`);
+  recordDailySnapshots();
+  timer = setInterval(recordDailySnapshots, CHECK_INTERVAL_MS);
+}
+
+function stopAnalyticsSnapshotter() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+module.exports = {
+  startAnalyticsSnapshotter,
+  stopAnalyticsSnapshotter,
+  recordDailySnapshots
+};
@@ -0,0 +1,92 @@
+const supabase = require('../config/supabase');
+const { getLinkedInAccessToken } = require('../controllers/core/linkedinController');
+const { pollPostMetrics } = require('../controllers/monitor/postPerformanceController');
+
+// Post metrics poller
+// Polls impressions, reactions, comments and reshares for posts published
+// through Alphaz into a per-post timeline. Fresh posts move fastest, so
+// they're polled hourly for the first two days, then daily for a month.
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const HOURLY_WINDOW_MS = 48 * 60 * 60 * 1000;
+const TRACKING_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const DAILY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+let timer = null;
+let running = false;
+
+// Whether a post is due for another poll
+function isDue(post, now) {
+  if (!post.last_polled_at) return true;
+  const age = now - new Date(post.published_at).getTime();
+  const sinceLastPoll = now - new Date(post.last_polled_at).getTime();
+  // Leave some slack so hourly checks don't drift past the interval
+  const interval = age < HOURLY_WINDOW_MS ? CHECK_INTERVAL_MS : DAILY_INTERVAL_MS;
+  return sinceLastPoll >= interval - 5 * 60 * 1000;
+}
+
+async function pollPublishedPosts() {
+  if (running) return;
+  running = true;
+
+  try {
+    const now = Date.now();
+    const { data: posts, error } = await supabase
+      .from('published_posts')
+      .select('id, user_clerk_id, organization_id, linkedin_post_urn, published_at, last_polled_at')
+      .gte('published_at', new Date(now - TRACKING_WINDOW_MS).toISOString())
+      .is('deleted_at', null);
+
+    if (error) {
+      console.error('❌ [POST METRICS] Failed to fetch published posts:', error);
+      return;
+    }
+
+    const duePosts = (posts || []).filter(post => isDue(post, now));
+    if (duePosts.length === 0) return;
+
+    console.log(`📈 [POST METRICS] Polling ${duePosts.length} post(s)`);
+
+    // One token lookup per publisher
+    const tokens = new Map();
+    for (const post of duePosts) {
+      try {
+        if (!tokens.has(post.user_clerk_id)) {
+          tokens.set(post.user_clerk_id, await getLinkedInAccessToken(post.user_clerk_id));
+        }
+        const tokenResult = tokens.get(post.user_clerk_id);
+        if (!tokenResult.success) {
+          console.warn(`⚠️ [POST METRICS] Skipped ${post.linkedin_post_urn}: ${tokenResult.error}`);
+          continue;
+        }
+        await pollPostMetrics(tokenResult.accessToken, post);
+      } catch (err) {
+        console.error(`❌ [POST METRICS] Failed to poll ${post.linkedin_post_urn}:`, err.message || err);
+      }
+    }
+  } catch (err) {
+    console.error('❌ [POST METRICS] Error in pollPublishedPosts:', err);
+  } finally {
+    running = false;
+  }
+}
+
+function startPostMetricsPoller() {
+  if (timer) return;
+  console.log(`📈 [POST METRICS] Post metrics poller started (checking every ${CHECK_INTERVAL_MS / 60000} min)`);
+  pollPublishedPosts();
+  timer = setInterval(pollPublishedPosts, CHECK_INTERVAL_MS);
+}
+
+function stopPostMetricsPoller() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+module.exports = {
+  startPostMetricsPoller,
+  stopPostMetricsPoller,
+  pollPublishedPosts
+};
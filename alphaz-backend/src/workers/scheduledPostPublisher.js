@@ -0,0 +1,340 @@
+const supabase = require('../config/supabase');
+const {
+  publishOrganizationPost,
+  publishPersonalPost,
+  prepareStoredMedia,
+  commentOnPublishedPost
+} = require('../controllers/core/linkedinController');
+
+// Scheduled post publisher
+// Polls scheduled_drafts for posts whose scheduled_at has passed and publishes
+// them to LinkedIn. Transient failures are retried with exponential backoff;
+// permanent failures (e.g. expired token) mark the draft as 'failed' with a
+// reason the Plan page shows to the user.
+// Attached media is uploaded from the draft's stored copies when LinkedIn no
+// longer has the earlier upload; while LinkedIn is still processing a video or
+// document the draft waits without using up publish attempts.
+// A draft's first comment is posted right after the post; if that fails, the
+// comment alone is retried on the same backoff without republishing.
+
+const POLL_INTERVAL_MS = 60 * 1000;
+const MAX_PUBLISH_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+// A draft stuck in 'publishing' this long means the process died mid-publish
+const STALE_PUBLISHING_MS = 10 * 60 * 1000;
+const BATCH_SIZE = 20;
+const MAX_COMMENT_ATTEMPTS = 5;
+const MEDIA_PROCESSING_RETRY_MS = 2 * 60 * 1000;
+// How long after the upload LinkedIn gets to finish processing a video or document
+const MAX_MEDIA_PROCESSING_MS = 60 * 60 * 1000;
+
+let timer = null;
+let running = false;
+
+// Client errors won't succeed on retry, except rate limits
+function isPermanentFailure(status) {
+  return status >= 400 && status < 500 && status !== 429;
+}
+
+// Delay before the next attempt: 1m, 2m, 4m, 8m, ...
+function nextAttemptAt(attempts) {
+  return new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)).toISOString();
+}
+
+// Claim a draft by moving it from 'scheduled' to 'publishing'
+// Returns false if another run already claimed it
+async function claimDraft(draft) {
+  const { data, error } = await supabase
+    .from('scheduled_drafts')
+    .update({ status: 'publishing', publishing_started_at: new Date().toISOString() })
+    .eq('id', draft.id)
+    .eq('status', 'scheduled')
+    .select('id');
+
+  if (error) {
+    console.error(`❌ [PUBLISHER] Failed to claim draft ${draft.id}:`, error);
+    return false;
+  }
+  return Array.isArray(data) && data.length > 0;
+}
+
+// Column updates recording a first comment attempt
+// Failures are retried until MAX_COMMENT_ATTEMPTS, unless LinkedIn rejected the comment outright
+function firstCommentUpdates(outcome, attempts) {
+  if (outcome.status === 'posted') {
+    return {
+      first_comment_status: 'posted',
+      first_comment_urn: outcome.urn,
+      first_comment_attempts: attempts,
+      first_comment_next_attempt_at: null,
+      first_comment_error: null
+    };
+  }
+  const giveUp = isPermanentFailure(outcome.httpStatus) || attempts >= MAX_COMMENT_ATTEMPTS;
+  return {
+    first_comment_status: giveUp ? 'failed' : 'pending',
+    first_comment_attempts: attempts,
+    first_comment_next_attempt_at: giveUp ? null : nextAttemptAt(attempts),
+    first_comment_error: outcome.error || 'Failed to post the first comment'
+  };
+}
+
+// Column updates recording a failed publish attempt
+// Retried with backoff until MAX_PUBLISH_ATTEMPTS, unless LinkedIn rejected the post outright
+function failedAttemptUpdates(draft, attempts, result) {
+  if (isPermanentFailure(result.status) || attempts >= MAX_PUBLISH_ATTEMPTS) {
+    console.error(`❌ [PUBLISHER] Draft ${draft.id} failed after ${attempts} attempt(s): ${result.error}`);
+    return {
+      status: 'failed',
+      publish_attempts: attempts,
+      next_attempt_at: null,
+      failure_reason: result.error || 'Failed to post to LinkedIn'
+    };
+  }
+  const retryAt = nextAttemptAt(attempts);
+  console.warn(`⚠️ [PUBLISHER] Draft ${draft.id} attempt ${attempts} failed (${result.error}), retrying at ${retryAt}`);
+  return {
+    status: 'scheduled',
+    publish_attempts: attempts,
+    next_attempt_at: retryAt,
+    failure_reason: result.error || null
+  };
+}
+
+// Column updates while LinkedIn is still processing an attached video or document
+// Waiting doesn't count as a publish attempt; it only gives up MAX_MEDIA_PROCESSING_MS after the upload
+function processingUpdates(draft, pending) {
+  // Copies uploaded before uploadedAt was recorded count from the scheduled time
+  const waitingSince = new Date(pending.uploadedAt || draft.scheduled_at).getTime();
+  if (Date.now() - waitingSince >= MAX_MEDIA_PROCESSING_MS) {
+    console.error(`❌ [PUBLISHER] Draft ${draft.id} failed: LinkedIn never finished processing ${pending.fileName}`);
+    return {
+      status: 'failed',
+      next_attempt_at: null,
+      failure_reason: `LinkedIn didn't finish processing ${pending.fileName} within an hour. Attach the file to the draft again and reschedule it.`
+    };
+  }
+  const retryAt = new Date(Date.now() + MEDIA_PROCESSING_RETRY_MS).toISOString();
+  console.log(`⏳ [PUBLISHER] Draft ${draft.id} waiting for LinkedIn to process ${pending.fileName}, checking again at ${retryAt}`);
+  return {
+    status: 'scheduled',
+    next_attempt_at: retryAt
+  };
+}
+
+async function publishDraft(draft) {
+  const attempts = (draft.publish_attempts || 0) + 1;
+
+  // Links the LinkedIn post back to its draft for performance tracking
+  const source = {
+    threadId: draft.thread_id,
+    draftId: draft.draft_id,
+    draftVersionId: draft.draft_version_id,
+    scheduledDraftId: draft.id
+  };
+
+  // Upload (or reuse) the attachments first; fresh asset URNs are saved with the result
+  const storedMedia = Array.isArray(draft.media) ? draft.media : [];
+  const prepared = storedMedia.length > 0
+    ? await prepareStoredMedia({
+        clerkUserId: draft.user_clerk_id,
+        organizationId: draft.organization_id,
+        media: storedMedia
+      })
+    : { success: true };
+
+  const result = !prepared.success
+    ? prepared
+    : draft.organization_id
+    ? await publishOrganizationPost({
+        clerkUserId: draft.user_clerk_id,
+        organizationId: draft.organization_id,
+        content: draft.content,
+        imageAssets: prepared.imageAssets,
+        media: prepared.media,
+        firstComment: draft.first_comment || undefined,
+        source
+      })
+    : await publishPersonalPost({
+        clerkUserId: draft.user_clerk_id,
+        content: draft.content,
+        imageAssets: prepared.imageAssets,
+        media: prepared.media,
+        firstComment: draft.first_comment || undefined,
+        source
+      });
+
+  let updates;
+  if (result.processing) {
+    updates = processingUpdates(draft, result.pending);
+  } else if (result.success) {
+    console.log(`✅ [PUBLISHER] Published draft ${draft.id} (${result.postUrn || 'no URN returned'})`);
+    updates = {
+      status: 'posted',
+      posted_at: new Date().toISOString(),
+      linkedin_post_urn: result.postUrn,
+      publish_attempts: attempts,
+      next_attempt_at: null,
+      failure_reason: null,
+      ...(result.firstComment ? firstCommentUpdates(result.firstComment, 1) : {})
+    };
+  } else {
+    updates = failedAttemptUpdates(draft, attempts, result);
+  }
+
+  if (prepared.storedMedia) {
+    updates.media = prepared.storedMedia;
+  }
+
+  const { error } = await supabase
+    .from('scheduled_drafts')
+    .update(updates)
+    .eq('id', draft.id);
+
+  if (error) {
+    console.error(`❌ [PUBLISHER] Failed to record publish result for draft ${draft.id}:`, error);
+  }
+}
+
+// publishDraft threw before anything reached LinkedIn (the publish calls catch their own
+// errors once a post is live), so the attempt is retried like any other failure rather
+// than left for the stale sweep
+async function recordPublishError(draft, err) {
+  const attempts = (draft.publish_attempts || 0) + 1;
+  const { error } = await supabase
+    .from('scheduled_drafts')
+    .update(failedAttemptUpdates(draft, attempts, { error: err.message || 'Failed to post to LinkedIn' }))
+    .eq('id', draft.id)
+    .eq('status', 'publishing');
+
+  if (error) {
+    console.error(`❌ [PUBLISHER] Failed to record publish error for draft ${draft.id}:`, error);
+  }
+}
+
+// Drafts left in 'publishing' by a crashed run may or may not have reached
+// LinkedIn, so don't retry them automatically
+async function failStalePublishing() {
+  const staleBefore = new Date(Date.now() - STALE_PUBLISHING_MS).toISOString();
+  const { error } = await supabase
+    .from('scheduled_drafts')
+    .update({
+      status: 'failed',
+      failure_reason: 'Publishing was interrupted. Check LinkedIn before publishing again.'
+    })
+    .eq('status', 'publishing')
+    .lt('publishing_started_at', staleBefore);
+
+  if (error) {
+    console.error('❌ [PUBLISHER] Failed to clean up stale publishing drafts:', error);
+  }
+}
+
+// Retry first comments that failed on posts already published
+async function retryFirstComments() {
+  const now = new Date().toISOString();
+  const { data: pending, error } = await supabase
+    .from('scheduled_drafts')
+    .select('id, user_clerk_id, organization_id, linkedin_post_urn, first_comment, first_comment_attempts')
+    .eq('first_comment_status', 'pending')
+    .not('linkedin_post_urn', 'is', null)
+    .lte('first_comment_next_attempt_at', now)
+    .limit(BATCH_SIZE);
+
+  if (error) {
+    console.error('❌ [PUBLISHER] Failed to fetch pending first comments:', error);
+    return;
+  }
+
+  for (const draft of pending || []) {
+    const attempts = (draft.first_comment_attempts || 0) + 1;
+
+    // Claim the retry by bumping the attempt count; skip if another run got there first
+    const { data: claimed, error: claimError } = await supabase
+      .from('scheduled_drafts')
+      .update({ first_comment_attempts: attempts })
+      .eq('id', draft.id)
+      .eq('first_comment_attempts', draft.first_comment_attempts || 0)
+      .select('id');
+    if (claimError || !claimed?.length) continue;
+
+    const outcome = await commentOnPublishedPost({
+      clerkUserId: draft.user_clerk_id,
+      organizationId: draft.organization_id,
+      postUrn: draft.linkedin_post_urn,
+      text: draft.first_comment
+    });
+    if (outcome.status !== 'posted') {
+      console.warn(`⚠️ [PUBLISHER] First comment for draft ${draft.id} attempt ${attempts} failed: ${outcome.error}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from('scheduled_drafts')
+      .update(firstCommentUpdates(outcome, attempts))
+      .eq('id', draft.id);
+    if (updateError) {
+      console.error(`❌ [PUBLISHER] Failed to record first comment for draft ${draft.id}:`, updateError);
+    }
+  }
+}
+
+// Publish every draft that is due
+async function publishDueDrafts() {
+  if (running) return;
+  running = true;
+
+  try {
+    await failStalePublishing();
+
+    const now = new Date().toISOString();
+    const { data: dueDrafts, error } = await supabase
+      .from('scheduled_drafts')
+      .select('*')
+      .eq('status', 'scheduled')
+      .lte('scheduled_at', now)
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${now}`)
+      .order('scheduled_at', { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error('❌ [PUBLISHER] Failed to fetch due drafts:', error);
+      return;
+    }
+
+    for (const draft of dueDrafts || []) {
+      if (!(await claimDraft(draft))) continue;
+      try {
+        await publishDraft(draft);
+      } catch (err) {
+        console.error(`❌ [PUBLISHER] Unexpected error publishing draft ${draft.id}:`, err);
+        await recordPublishError(draft, err);
+      }
+    }
+
+    await retryFirstComments();
+  } catch (err) {
+    console.error('❌ [PUBLISHER] Error in publishDueDrafts:', err);
+  } finally {
+    running = false;
+  }
+}
+
+function startScheduledPostPublisher() {
+  if (timer) return;
+  console.log(`📅 [PUBLISHER] Scheduled post publisher started (every ${POLL_INTERVAL_MS / 1000}s)`);
+  publishDueDrafts();
+  timer = setInterval(publishDueDrafts, POLL_INTERVAL_MS);
+}
+
+function stopScheduledPostPublisher() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+module.exports = {
+  startScheduledPostPublisher,
+  stopScheduledPostPublisher,
+  publishDueDrafts
+};
@@ -1,65 +1,141 @@
-import { openai } from '@ai-sdk/openai';
-import { anthropic } from '@ai-sdk/anthropic';
-import { streamText, generateObject } from 'ai';
 import { z } from 'zod';
+import { tool, type ModelMessage, type ToolSet } from 'ai';
 import { buildOrganizationSystemPrompt } from '@/lib/prompts/organizationPrompts';
 import { buildPersonalSystemPrompt, hasPersonalContext } from '@/lib/prompts/personalPrompts';
+import { AccessError, accessErrorResponse, requireOrganizationAccess } from '@/lib/organizationAccess';
+import {
+  formatModelSpec,
+  generateObjectWithFallback,
+  isRateLimitError,
+  resolveClassifierChain,
+  resolveModelChain,
+  streamObjectWithFallback,
+  streamTextWithToolsFallback,
+  type ChatIntent,
+} from '@/lib/modelRouter';
+import {
+  DRAFT_OBJECT_FORMAT,
+  DRAFT_VARIANTS_FORMAT,
+  DraftVariantsResponseSchema,
+  EditResponseSchema,
+  MAX_DRAFT_VARIANTS,
+  MIN_DRAFT_VARIANTS,
+  parseVariantCount,
+} from '@/lib/draftResponse';
+import { buildVariantsInstructions } from '@/lib/prompts/variantPrompts';
+import { CAROUSEL_FORMAT, CarouselResponseSchema } from '@/lib/carousel';
+import { buildCarouselInstructions } from '@/lib/prompts/carouselPrompts';
+import {
+  CONTEXT_SOURCES_HEADER,
+  encodeContextSources,
+  retrieveOrganizationContext,
+  type ContextSource,
+} from '@/lib/contextRetrieval';
+import { compactConversation, withConversationSummary } from '@/lib/conversationMemory';
+import { getChatMode, isChatMode } from '@/lib/chatModes';
+import { CHAT_EVENTS_FORMAT, CHAT_TOOLS, isChatToolName, type ToolCallResult } from '@/lib/chatTools';
+import { buildToolInstructions } from '@/lib/prompts/toolPrompts';
+import { computeAnalyticsAnswer } from '@/lib/analyticsQA';
+import { buildAnalyticsSystemPrompt } from '@/lib/prompts/analyticsPrompts';
 
 // Intent classification schema
 const IntentSchema = z.object({
-  intent: z.enum(['edit', 'ideate', 'draft', 'feedback', 'general']).describe(
+  intent: z.enum(['edit', 'ideate', 'draft', 'feedback', 'analytics', 'carousel', 'general']).describe(
     'edit: User wants to modify/refine existing content they already have. ' +
     'ideate: User wants to brainstorm post ideas/concepts for LinkedIn. ' +
     'draft: User explicitly wants to create/write a new LinkedIn post from scratch. ' +
     'feedback: User wants critique/analysis of their LinkedIn content. ' +
-    'general: User is asking questions, requesting summaries, seeking information, or having a conversation NOT about creating/editing LinkedIn posts. Use this for "what is this?", "summarize this", "explain", "tell me about", or any attached file questions.'
+    'analytics: User asks about their own LinkedIn numbers: averages, totals, best/worst posts, growth, or how one period compares to another ("how did last month compare?", "what\'s my average engagement rate?"). ' +
+    'carousel: User wants a post turned into a carousel, slides, or a PDF deck ("make this a carousel", "turn it into slides"). ' +
+    'general: User is asking questions, requesting summaries, seeking information, or having a conversation NOT about creating/editing LinkedIn posts. Use this for "what is this?", "summarize this", "explain", "tell me about", or any attached file questions. ' +
+    'Also use general for actions: scheduling a post, saving an idea, opening a draft version.'
   ),
 });
 
-// Edit response schema (for structured output)
-const EditResponseSchema = z.object({
-  type: z.enum(['draft', 'question']).describe(
-    'draft: A revised version of the post. ' +
-    'question: A clarifying question before editing.'
-  ),
-  content: z.string().describe('The revised post content or the clarifying question'),
-  changes: z.array(z.string()).optional().describe('List of changes made (only for draft type)'),
-  questionContext: z.string().optional().describe('Why clarification is needed (only for question type)'),
-});
-
 /**
- * Detect user intent using OpenAI function calling
- * Returns one of: edit, ideate, draft, feedback
+ * Detect user intent using the classifier chain from the model routing config
+ * Returns one of: edit, ideate, draft, feedback, analytics, carousel, general
  * @param userMessage - The latest user message
  * @param recentContext - Recent conversation for context (last few messages)
  */
-async function detectIntent(userMessage: string, recentContext?: string): Promise<string> {
+async function detectIntent(userMessage: string, recentContext?: string): Promise<ChatIntent> {
   try {
     const contextPrompt = recentContext 
       ? `Recent conversation:\n${recentContext}\n\nLatest message: "${userMessage}"` 
       : `User message: "${userMessage}"`;
     
-    const result = await generateObject({
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      model: openai('gpt-4o-mini') as any, // Good balance of speed and accuracy for classification
+    const { object, answeredBy } = await generateObjectWithFallback(resolveClassifierChain(), {
       schema: IntentSchema,
       prompt: `Classify the user's intent in one word. ${contextPrompt}`,
       temperature: 0.1, // Low temperature for consistent classification
     });
     
-    return result.object.intent;
+    console.log(`   Classifier: ${formatModelSpec(answeredBy)}`);
+    return object.intent;
   } catch (error) {
     console.error('Intent detection failed:', error);
     return 'draft'; // Default fallback
   }
 }
 
+// Chat tools are passed without execute: calls are streamed to the client to confirm and run
+const chatTools: ToolSet = Object.fromEntries(
+  Object.entries(CHAT_TOOLS).map(([name, definition]) => [
+    name,
+    tool<unknown, never>({ description: definition.description, inputSchema: definition.inputSchema as z.ZodType<unknown> }),
+  ])
+);
+
+/**
+ * Replace the final assistant turn with its tool calls and their results,
+ * so the model can continue after the user confirmed (or declined) them
+ */
+function withToolResults(
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>,
+  toolResults: ToolCallResult[]
+): ModelMessage[] {
+  const last = messages[messages.length - 1];
+  const history: ModelMessage[] = last?.role === 'assistant' ? messages.slice(0, -1) : messages;
+
+  return [
+    ...history,
+    {
+      role: 'assistant',
+      content: [
+        ...(last?.role === 'assistant' && last.content ? [{ type: 'text' as const, text: last.content }] : []),
+        ...toolResults.map((result) => ({
+          type: 'tool-call' as const,
+          toolCallId: result.toolCallId,
+          toolName: result.toolName,
+          input: result.input,
+        })),
+      ],
+    },
+    {
+      role: 'tool',
+      content: toolResults.map((result) => ({
+        type: 'tool-result' as const,
+        toolCallId: result.toolCallId,
+        toolName: result.toolName,
+        output: result.status === 'done'
+          ? { type: 'json' as const, value: (result.result ?? { ok: true }) as never }
+          : result.status === 'declined'
+          ? { type: 'execution-denied' as const, reason: 'The user declined this action' }
+          : { type: 'error-text' as const, value: result.error || 'The action failed' },
+      })),
+    },
+  ];
+}
+
 /**
  * POST /api/chat
  * 
  * Handles AI chat requests with organization analytics context
  * Uses embedded data from database to provide relevant insights
  * 
+ * The caller is resolved from the Clerk session; a clerkUserId in the body
+ * must match it, and organization requests require admin access to the org.
+ * 
  * Returns streaming response that updates in real-time
  */
 export async function POST(request: Request) {
@@ -67,8 +143,13 @@ export async function POST(request: Request) {
     const {
       messages,           // Chat history: [{ role: 'user'|'assistant', content: string }]
       organizationId,     // LinkedIn organization URN
-      clerkUserId,        // User's Clerk ID
+      clerkUserId: claimedUserId, // User's Clerk ID (verified against the session)
       contextData,        // Embedded analytics data
+      threadId,           // Chat thread, for its rolling conversation summary
+      variants: requestedVariants, // Optional number of draft variants (otherwise read from the message)
+      mode,               // Optional explicit mode from the composer (skips intent detection)
+      timeZone,           // User's IANA time zone, for tools that take dates
+      toolResults: rawToolResults, // Confirmed tool calls of the last answer, to continue after them
     } = await request.json();
 
     // Validate required fields
@@ -79,12 +160,7 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!clerkUserId) {
-      return new Response(
-        JSON.stringify({ error: 'clerkUserId is required' }),
-        { status: 400 }
-      );
-    }
+    const { clerkUserId } = await requireOrganizationAccess(claimedUserId, organizationId);
 
     // Determine if this is organization or personal account
     const isOrganizationAccount = !!organizationId;
@@ -110,93 +186,194 @@ export async function POST(request: Request) {
       }
     }
 
+    const toolResults: ToolCallResult[] = Array.isArray(rawToolResults)
+      ? rawToolResults.filter((result) => result && typeof result.toolCallId === 'string' && isChatToolName(result.toolName))
+      : [];
+
     // Get the latest user message for intent detection
     const latestUserMessage = messages.filter(m => m.role === 'user').pop()?.content || '';
+
+    // Long threads: older turns are replaced by the thread's rolling summary
+    const conversation = await compactConversation({ messages, threadId, clerkUserId, organizationId });
     
     // Build recent context (last 4 messages for context)
-    const recentMessages = messages.slice(-4);
+    const recentMessages = conversation.messages.slice(-4);
     const recentContext = recentMessages
       .map(m => `${m.role === 'user' ? 'User' : 'AI'}: ${m.content.substring(0, 300)}${m.content.length > 300 ? '...' : ''}`)
       .join('\n');
     
-    // Detect intent (fast: 0.1-0.5s)
+    // An explicit mode (slash command or mode picker) is honoured as-is;
+    // otherwise detect intent (fast: 0.1-0.5s)
     const startTime = Date.now();
-    const intent = await detectIntent(latestUserMessage, recentContext);
+    // Answers continuing after tool results stay general
+    const explicitMode = isChatMode(mode) ? mode : null;
+    const intent = toolResults.length > 0
+      ? 'general'
+      : explicitMode
+      ? getChatMode(explicitMode).intent
+      : await detectIntent(latestUserMessage, recentContext);
     const intentTime = Date.now() - startTime;
     
-    console.log(`\n🎯 [INTENT DETECTED] ${intent.toUpperCase()}`);
-    console.log(`   Response time: ${intentTime}ms`);
+    if (toolResults.length > 0) {
+      console.log(`\n🛠️  [TOOL RESULTS] Continuing after ${toolResults.map((result) => `${result.toolName} (${result.status})`).join(', ')}`);
+    } else if (explicitMode) {
+      console.log(`\n🎯 [INTENT FROM MODE] ${intent.toUpperCase()} (/${explicitMode})`);
+    } else {
+      console.log(`\n🎯 [INTENT DETECTED] ${intent.toUpperCase()}`);
+      console.log(`   Response time: ${intentTime}ms`);
+    }
     console.log(`   User message: "${latestUserMessage.substring(0, 100)}${latestUserMessage.length > 100 ? '...' : ''}"`);
 
+    // Analytics questions are answered from computed numbers, not the prose context
+    const analyticsAnswer = intent === 'analytics'
+      ? await computeAnalyticsAnswer(clerkUserId, organizationId || undefined, latestUserMessage, recentContext)
+      : null;
+    if (analyticsAnswer) {
+      console.log(`\n🧮 [ANALYTICS] ${analyticsAnswer.queries.length} queries over ${analyticsAnswer.postCount} posts`);
+      analyticsAnswer.queries.forEach((query) => {
+        console.log(`   - ${query.operation} ${query.metric} (${query.days}d)`);
+      });
+    }
+
+    // Organization context: only the chunks relevant to the latest message
+    let organizationContext = contextData;
+    let contextSources: ContextSource[] = analyticsAnswer?.sources || [];
+    if (isOrganizationAccount && !analyticsAnswer) {
+      console.log(`\n🔎 [CONTEXT RETRIEVAL] Matching organization data to the latest message`);
+      const retrieved = await retrieveOrganizationContext(clerkUserId, organizationId, latestUserMessage);
+      organizationContext = retrieved.contextData;
+      contextSources = retrieved.sources;
+    }
+
+    // "Give me 3 variants": the draft intent writes several posts, each becoming its own draft
+    const variantCount = intent === 'draft'
+      ? (Number.isInteger(requestedVariants)
+          ? Math.min(Math.max(requestedVariants, MIN_DRAFT_VARIANTS), MAX_DRAFT_VARIANTS)
+          : parseVariantCount(latestUserMessage))
+      : null;
+    if (variantCount) {
+      console.log(`\n🔀 [DRAFT VARIANTS] ${variantCount} variants requested`);
+    }
+
     // Build system prompt with appropriate context based on account type
-    const systemPrompt = isOrganizationAccount
-      ? buildOrganizationSystemPrompt(contextData, intent)
-      : buildPersonalSystemPrompt(contextData, intent);
+    // A carousel reworks the current draft, so it starts from the edit prompt
+    const isCarousel = intent === 'carousel';
+    const promptIntent = isCarousel ? 'edit' : intent;
+    const basePrompt = analyticsAnswer
+      ? buildAnalyticsSystemPrompt(analyticsAnswer, isOrganizationAccount)
+      : isOrganizationAccount
+      ? buildOrganizationSystemPrompt(organizationContext, promptIntent)
+      : buildPersonalSystemPrompt(contextData, promptIntent);
+    // Text intents can call the chat tools; edit/draft stream a structured object instead
+    // and analytics answers only from its computed results
+    const isStructuredIntent = intent === 'edit' || intent === 'draft';
+    const systemPrompt = withConversationSummary(
+      variantCount
+        ? basePrompt + buildVariantsInstructions(variantCount)
+        : isCarousel
+        ? basePrompt + buildCarouselInstructions()
+        : isStructuredIntent || analyticsAnswer ? basePrompt : basePrompt + buildToolInstructions(timeZone),
+      conversation.summary
+    );
 
     console.log(`\n📨 [API/CHAT] Processing request`);
     console.log(`   Account type: ${isOrganizationAccount ? 'Organization' : 'Personal'}`);
     console.log(`   User: ${clerkUserId}`);
     console.log(`   Messages count: ${messages.length}`);
+    if (conversation.summary) {
+      console.log(`   Summarized messages: ${conversation.summarizedCount} (sending ${conversation.messages.length})`);
+    }
     console.log(`   Context data provided: ${contextData && Object.keys(contextData).length > 0 ? 'YES ✅' : 'NO ❌'}`);
 
     // Log context data details (organization or personal)
-    if (contextData) {
+    if (isOrganizationAccount && !analyticsAnswer) {
       console.log(`\n📊 [CONTEXT DATA]`);
-      if (isOrganizationAccount) {
-        if (contextData.summary) {
-          console.log(`   Org Summary: ${contextData.summary.substring(0, 100)}...`);
-        }
-        if (contextData.demographicData) {
-          console.log(`   Demographics: ${contextData.demographicData.substring(0, 100)}...`);
-        }
-        if (contextData.recentPosts) {
-          console.log(`   Recent Posts: ${contextData.recentPosts.substring(0, 100)}...`);
-        }
-        if (contextData.engagementPatterns) {
-          console.log(`   Patterns: ${contextData.engagementPatterns.substring(0, 100)}...`);
-        }
-      } else {
-        if (contextData.userProfileSummary) {
-          console.log(`   User Profile: Available ✅`);
-        }
+      console.log(`   Retrieved chunks: ${contextSources.length}`);
+      contextSources.forEach((source) => {
+        console.log(`   - ${source.kind}: ${source.label}${source.similarity !== null ? ` (${source.similarity.toFixed(2)})` : ''}`);
+      });
+    } else if (contextData) {
+      console.log(`\n📊 [CONTEXT DATA]`);
+      if (contextData.userProfileSummary) {
+        console.log(`   User Profile: Available ✅`);
       }
     }
 
-    // Use Claude Opus 4.5 for edit/draft (best quality), GPT for other intents
-    const useClaudeModel = intent === 'edit' || intent === 'draft';
-    const modelName = useClaudeModel ? 'claude-opus-4-5-20251101' : 'gpt-5.1';
-    const modelProvider = useClaudeModel ? 'Anthropic' : 'OpenAI';
+    // Pick the fallback chain for this intent/account type from the routing config
+    const modelChain = resolveModelChain(intent, isOrganizationAccount ? 'organization' : 'personal');
     
-    console.log(`\n🤖 [${modelProvider.toUpperCase()}] Calling ${modelName} with streaming`);
-    console.log(`   Model: ${modelName}`);
+    console.log(`\n🤖 [MODEL ROUTER] Streaming with fallback chain`);
+    console.log(`   Chain: ${modelChain.map(formatModelSpec).join(' → ')}`);
     console.log(`   Temperature: 0.7`);
     console.log(`   Stream: Enabled (real-time response)`);
-    console.log(`   Reason: ${useClaudeModel ? 'Edit/Draft intent - using Claude Opus 4.5 for best quality' : intent === 'general' ? 'General Q&A intent - using GPT' : 'Ideate/Feedback intent - using GPT'}`);
-
-    // Call AI with streaming enabled - use Claude Opus 4.5 for edit/draft, GPT for others
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const model = useClaudeModel ? anthropic('claude-opus-4-5-20251101') : openai('gpt-5.1');
-    const stream = streamText({
-      model: model as any, // Type cast needed due to SDK version mismatch
-      system: systemPrompt,
-      messages: messages,
-      temperature: 0.7,
-    });
+
+    // Edit/draft intents stream a structured object (post body, changes, or a clarifying question)
+    // so the client gets exact fields instead of scraping headers out of free text
+    console.log(`   Output: ${variantCount ? 'Draft variants object (NDJSON)' : isCarousel ? 'Carousel object (NDJSON)' : isStructuredIntent ? 'Structured draft object (NDJSON)' : 'Text and tool calls (NDJSON)'}`);
+
+    // Streams from the first model that starts answering; errors/rate limits fall through the chain
+    const { stream, answeredBy } = variantCount
+      ? await streamObjectWithFallback(modelChain, {
+          schema: DraftVariantsResponseSchema,
+          system: systemPrompt,
+          messages: conversation.messages,
+          temperature: 0.9, // Higher temperature spreads the variants further apart
+        })
+      : isCarousel
+      ? await streamObjectWithFallback(modelChain, {
+          schema: CarouselResponseSchema,
+          system: systemPrompt,
+          messages: conversation.messages,
+          temperature: 0.7,
+        })
+      : isStructuredIntent
+      ? await streamObjectWithFallback(modelChain, {
+          schema: EditResponseSchema,
+          system: systemPrompt,
+          messages: conversation.messages,
+          temperature: 0.7,
+        })
+      : await streamTextWithToolsFallback(modelChain, {
+          system: systemPrompt,
+          messages: toolResults.length > 0 ? withToolResults(conversation.messages, toolResults) : conversation.messages,
+          tools: analyticsAnswer ? {} : chatTools,
+          temperature: analyticsAnswer ? 0.2 : 0.7,
+        });
 
     console.log(`\n⏳ [STREAMING STARTED]`);
     console.log(`   Sending streamed response to client...`);
     console.log(`   Intent: ${intent}`);
+    console.log(`   Answered by: ${formatModelSpec(answeredBy)}`);
 
-    // Get the response
-    const result = await stream;
-    
-    // Create a custom response that includes intent in headers
-    const response = result.toTextStreamResponse();
-    response.headers.set('X-Intent', intent);
+    // Report the intent plus the model that actually answered, e.g. "draft; model=anthropic:claude-opus-4-5-20251101"
+    const response = new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+      },
+    });
+    response.headers.set('X-Intent', `${intent}; model=${formatModelSpec(answeredBy)}`);
+    response.headers.set(
+      'X-Response-Format',
+      variantCount
+        ? DRAFT_VARIANTS_FORMAT
+        : isCarousel
+        ? CAROUSEL_FORMAT
+        : isStructuredIntent
+        ? DRAFT_OBJECT_FORMAT
+        : CHAT_EVENTS_FORMAT
+    );
+    if (contextSources.length > 0) {
+      response.headers.set(CONTEXT_SOURCES_HEADER, encodeContextSources(contextSources));
+    }
     
     return response;
 
   } catch (error: any) {
+    if (error instanceof AccessError) {
+      console.warn(`[API/CHAT] Access denied: ${error.code}`);
+      return accessErrorResponse(error);
+    }
+
     console.error('[API/CHAT] Error:', error);
 
     // Handle OpenAI API errors
@@ -207,7 +384,7 @@ export async function POST(request: Request) {
       );
     }
 
-    if (error.message?.includes('rate limit')) {
+    if (isRateLimitError(error) || error.message?.includes('rate limit')) {
       return new Response(
         JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
         { status: 429 }
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AccessError, accessErrorResponse, requireOrganizationAccess } from '@/lib/organizationAccess';
 
 /**
  * GET /api/embeddings/organization/[userId]/[orgId]/context
  * 
  * Frontend proxy that calls the backend embeddings API
  * Backend URL: http://localhost:5000/api/embeddings/organization/:userId/:orgId/context
+ * 
+ * The userId segment must match the Clerk session and the user must be an
+ * admin of orgId, otherwise a 401/403 is returned without calling the backend.
  */
 export async function GET(
   request: NextRequest,
@@ -13,6 +17,8 @@ export async function GET(
   try {
     const { userId, orgId } = await params;
 
+    await requireOrganizationAccess(userId, orgId);
+
     console.log(`\n🌐 [EMBEDDINGS API PROXY] Frontend → Backend`);
     console.log(`   User ID: ${userId}`);
     console.log(`   Org ID: ${orgId}`);
@@ -63,6 +69,11 @@ export async function GET(
 
     return NextResponse.json(data);
   } catch (error: any) {
+    if (error instanceof AccessError) {
+      console.warn(`[EMBEDDINGS API PROXY] Access denied: ${error.code}`);
+      return accessErrorResponse(error);
+    }
+
     console.error(`\n❌ [EMBEDDINGS API ERROR]`);
     console.error(`   Error: ${error.message}`);
     console.error(`   Stack: ${error.stack}`);
@@ -12,12 +12,37 @@ import { useUser } from "@/hooks/useUser";
 import { useLinkedInGate } from "@/components/linkedin-gate";
 import { MarkdownMessage } from "@/components/markdown-message";
 import { DraftPanel, Draft } from "@/components/draft-panel";
-import { UploadedImage } from "@/components/linkedin-post-preview";
+import { UploadedMedia } from "@/components/linkedin-post-preview";
 import { ThreadsPanel } from "@/components/threads-panel";
 import { useThreads } from "@/hooks/useThreads";
 import { MessageFeedback } from "@/components/message-feedback";
+import { ContextSources } from "@/components/context-sources";
+import { AnswerControls } from "@/components/answer-controls";
+import { VariantGroupCard, type VariantDraftSummary } from "@/components/variant-group-card";
+import { ChatModePicker, SlashCommandMenu } from "@/components/chat-mode-picker";
+import { ToolCallCard } from "@/components/tool-call-card";
+import { queryMetrics, saveIdea, type ChatToolCall } from "@/lib/chatTools";
+import { useSlashCommands } from "@/hooks/useSlashCommands";
+import { formatSlashCommand, getChatMode, parseSlashCommand, type ChatMode } from "@/lib/chatModes";
+import type { DraftVariant } from "@/lib/draftResponse";
+import type { CarouselDeck } from "@/lib/carousel";
+import { restoreDraftMedia, storeDraftMedia, type StoredDraftMedia } from "@/lib/draftMedia";
+import type { PublishedPostEdit } from "@/lib/publishedPosts";
+import type { ContextSource } from "@/lib/contextRetrieval";
 import { VoiceInput } from "@/components/voice-input";
-import { saveDraft as saveDraftToApi, updateDraftVersion as updateDraftVersionApi, updateDraftVersionParentMessage } from "@/lib/threadsApi";
+import {
+  saveDraft as saveDraftToApi,
+  saveDraftVariants,
+  deleteDraft as deleteDraftApi,
+  updateDraftVersion as updateDraftVersionApi,
+  updateDraftVersionParentMessage,
+  updateDraftVersionMedia,
+  updateDraftFirstComment,
+} from "@/lib/threadsApi";
+import { createDraft, createDraftVersion, revertToVersion, getNextVersionNumber } from "@/lib/draftVersioning";
+import { countPostCharacters, describePublishBlockers, describeScheduleBlockers, LINKEDIN_MAX_COMMENT_LENGTH } from "@/lib/postLint";
+import { markdownToLinkedIn } from "@/lib/linkedinFormatting";
+import { uploadPostMedia } from "@/lib/linkedinMedia";
 import { 
   Paperclip,
   Send, 
@@ -34,6 +59,7 @@ import {
   Trash2,
   Loader as LoaderIcon,
   PenLine,
+  Square,
   Image as ImageIcon,
   File as FileIcon
 } from "lucide-react";
@@ -62,6 +88,21 @@ const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 // Feedback map type
 type FeedbackMap = Record<string, { type: 'up' | 'down'; text?: string }>;
 
+// Actions on the drafts of a variant group (view uses onViewDraft)
+interface VariantActions {
+  onPick: (groupId: string, draftId: string) => void;
+  onDiscard: (draftId: string) => void;
+  onMerge: (draftIds: string[]) => void;
+  disabled?: boolean;
+}
+
+// Confirm or decline an action the assistant proposed
+interface ToolCallActions {
+  onConfirm: (messageId: string, toolCall: ChatToolCall) => void;
+  onDecline: (messageId: string, toolCall: ChatToolCall) => void;
+  disabled?: boolean;
+}
+
 /**
  * Memoized single message component to prevent re-renders
  */
@@ -77,18 +118,26 @@ const ChatMessage = memo(({
   onFeedbackSaved,
   dbMessageId,
   onCreateDraftFromIdea,
+  variantActions,
+  toolActions,
 }: { 
   message: { 
     id: string; 
     role: string; 
     content: string; 
     intent?: string;
+    mode?: ChatMode;
     draftId?: string;
     draftVersion?: number;
     draftTitle?: string;
     isStreamingProgress?: boolean;
     isFollowUpQuestion?: boolean;
     timestamp?: Date;
+    sources?: ContextSource[];
+    variantGroupId?: string;
+    variantDrafts?: VariantDraftSummary[];
+    toolCalls?: ChatToolCall[];
+    toolFollowUp?: string;
   };
   onViewDraft?: (draftId: string, version?: number) => void;
   selectedDraftId?: string | null;
@@ -100,6 +149,8 @@ const ChatMessage = memo(({
   onFeedbackSaved?: (messageId: string, type: 'up' | 'down', text?: string) => void;
   dbMessageId?: string; // Database message ID (different from client ID)
   onCreateDraftFromIdea?: (ideaText: string) => void;
+  variantActions?: VariantActions;
+  toolActions?: ToolCallActions;
 }) => {
   // Format timestamp as exact time (e.g., "2:34 PM")
   const formatTime = (date?: Date) => {
@@ -145,6 +196,29 @@ const ChatMessage = memo(({
     );
   }
   
+  // Variants answer: one card for all the drafts it produced
+  if (message.variantGroupId && message.variantDrafts && variantActions) {
+    const groupId = message.variantGroupId;
+    return (
+      <div className="w-full flex justify-center">
+        <div className="max-w-4xl w-full px-6">
+          <div className="flex justify-start">
+            <VariantGroupCard
+              variants={message.variantDrafts}
+              selectedDraftId={selectedDraftId}
+              onView={(draftId) => onViewDraft?.(draftId)}
+              onPick={(draftId) => variantActions.onPick(groupId, draftId)}
+              onDiscard={variantActions.onDiscard}
+              onMerge={variantActions.onMerge}
+              disabled={variantActions.disabled}
+            />
+          </div>
+          {message.sources && <ContextSources sources={message.sources} />}
+        </div>
+      </div>
+    );
+  }
+
   // Check if this is a draft/edit intent message (content should show in draft panel, not chat)
   const isDraftIntent = message.intent === 'draft' || message.intent === 'edit';
   
@@ -187,6 +261,7 @@ const ChatMessage = memo(({
               </div>
             </button>
           </div>
+          {message.sources && <ContextSources sources={message.sources} />}
         </div>
       </div>
     );
@@ -231,7 +306,8 @@ const ChatMessage = memo(({
   }
 
   // Handle ideate intent - parse numbered ideas and show CTA for each
-  if (message.intent === 'ideate' && message.role === 'assistant') {
+  // (answers with tool calls use the regular layout so the calls show under the text)
+  if (message.intent === 'ideate' && message.role === 'assistant' && !message.toolCalls?.length) {
     // Parse numbered ideas from content (format: "## 1. Title\nDescription..." with markdown headings)
     const parseIdeas = (content: string) => {
       const ideas: { number: number; text: string }[] = [];
@@ -341,6 +417,11 @@ const ChatMessage = memo(({
             // User message - rounded bubble with background
             <div className="flex flex-col gap-1 items-end max-w-[85%]">
               <div className="bg-[#F5F5F5] dark:bg-[#2A2A2A] text-foreground rounded-2xl px-5 py-3">
+                {message.mode && (
+                  <span className="block text-xs font-mono text-orange-600 dark:text-orange-400 mb-1">
+                    {getChatMode(message.mode).command}
+                  </span>
+                )}
                 <p className="text-[15px] whitespace-pre-wrap break-words leading-relaxed">{message.content}</p>
               </div>
               {/* Timestamp */}
@@ -353,9 +434,30 @@ const ChatMessage = memo(({
           ) : (
             // AI message - no bubble, just text with icons below
             <div className="flex flex-col gap-1 max-w-[85%]">
-              <div className="text-[15px] leading-relaxed">
-                <MarkdownMessage content={message.content} />
-              </div>
+              {message.content && (
+                <div className="text-[15px] leading-relaxed">
+                  <MarkdownMessage content={message.content} />
+                </div>
+              )}
+              {message.sources && <ContextSources sources={message.sources} />}
+              {message.toolCalls && toolActions && (
+                <div className="mt-2 space-y-2">
+                  {message.toolCalls.map(toolCall => (
+                    <ToolCallCard
+                      key={toolCall.id}
+                      toolCall={toolCall}
+                      onConfirm={(call) => toolActions.onConfirm(message.id, call)}
+                      onDecline={(call) => toolActions.onDecline(message.id, call)}
+                      disabled={toolActions.disabled}
+                    />
+                  ))}
+                </div>
+              )}
+              {message.toolFollowUp && (
+                <div className="mt-2 text-[15px] leading-relaxed">
+                  <MarkdownMessage content={message.toolFollowUp} />
+                </div>
+              )}
               
               {/* Message actions - icons below text */}
               <div className="flex items-center gap-3 mt-3">
@@ -466,6 +568,11 @@ const MessageList = memo(({
   onFeedbackSaved,
   clientToDbMessageIdMap,
   onCreateDraftFromIdea,
+  onRegenerate,
+  onSelectAlternative,
+  isLoading,
+  variantActions,
+  toolActions,
 }: { 
   messages: any[]; 
   onViewDraft: (draftId: string, version?: number) => void;
@@ -478,7 +585,15 @@ const MessageList = memo(({
   onFeedbackSaved?: (messageId: string, type: 'up' | 'down', text?: string) => void;
   clientToDbMessageIdMap?: Record<string, string>;
   onCreateDraftFromIdea?: (ideaText: string) => void;
+  onRegenerate?: () => void;
+  onSelectAlternative?: (messageId: string, index: number) => void;
+  isLoading?: boolean;
+  variantActions?: VariantActions;
+  toolActions?: ToolCallActions;
 }) => {
+  // Regenerate is offered on the latest answer only
+  const lastMessageId = messages[messages.length - 1]?.id;
+
   // Group messages by date
   const messageGroups = useMemo(() => {
     const groups: MessageGroup[] = [];
@@ -517,21 +632,37 @@ const MessageList = memo(({
               // Use DB ID for feedback lookup, fallback to message.id (which is DB ID for restored messages)
               const feedbackKey = dbMsgId || message.id;
               
+              const isSettledAnswer = message.role === 'assistant' && !message.isStreamingProgress;
+              
               return (
-                <ChatMessage 
-                  key={message.id}
-                  message={message} 
-                  onViewDraft={onViewDraft}
-                  selectedDraftId={selectedDraftId}
-                  selectedDraftVersion={selectedDraftVersion}
-                  drafts={drafts}
-                  threadId={threadId}
-                  userId={userId}
-                  feedback={feedbackMap?.[feedbackKey]}
-                  onFeedbackSaved={onFeedbackSaved}
-                  dbMessageId={dbMsgId}
-                  onCreateDraftFromIdea={onCreateDraftFromIdea}
-                />
+                <div key={message.id} className="space-y-2">
+                  <ChatMessage 
+                    message={message} 
+                    onViewDraft={onViewDraft}
+                    selectedDraftId={selectedDraftId}
+                    selectedDraftVersion={selectedDraftVersion}
+                    drafts={drafts}
+                    threadId={threadId}
+                    userId={userId}
+                    feedback={feedbackMap?.[feedbackKey]}
+                    onFeedbackSaved={onFeedbackSaved}
+                    dbMessageId={dbMsgId}
+                    onCreateDraftFromIdea={onCreateDraftFromIdea}
+                    variantActions={variantActions}
+                    toolActions={toolActions}
+                  />
+                  {isSettledAnswer && (
+                    <AnswerControls
+                      messageId={message.id}
+                      alternativeCount={message.alternatives?.length ?? 1}
+                      alternativeIndex={message.alternativeIndex ?? 0}
+                      stopReason={message.stopReason}
+                      onRegenerate={message.id === lastMessageId && !isLoading ? onRegenerate : undefined}
+                      onSelectAlternative={onSelectAlternative}
+                      disabled={isLoading}
+                    />
+                  )}
+                </div>
               );
             })}
           </div>
@@ -566,11 +697,22 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
   // UI state
   const [showThreadsPanel, setShowThreadsPanel] = useState(false);
   const [inputValue, setInputValue] = useState("");
+  // Mode picked in the composer; null lets the assistant detect the intent
+  const [chatMode, setChatMode] = useState<ChatMode | null>(null);
+  const slashCommands = useSlashCommands(inputValue, setInputValue);
+  const { handleMenuKeyDown } = slashCommands;
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [drafts, setDrafts] = useState<Draft[]>([]);
   const [isDraftPanelCollapsed, setIsDraftPanelCollapsed] = useState(false);
   const [selectedDraftId, setSelectedDraftId] = useState<string | null>(null);
   const [selectedDraftVersion, setSelectedDraftVersion] = useState<number | null>(null);
+  // Carousels built from drafts (keyed by draft ID) and whether the slide editor is open
+  const [carouselDecks, setCarouselDecks] = useState<Record<string, CarouselDeck>>({});
+  const [isCarouselOpen, setIsCarouselOpen] = useState(false);
+  // Images, video or document attached to each draft (keyed by draft ID)
+  const [draftMedia, setDraftMedia] = useState<Record<string, UploadedMedia[]>>({});
+  // Latest attachment save per draft, so a slower earlier save doesn't overwrite it
+  const draftMediaSaveSeq = useRef<Record<string, number>>({});
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const [isPostingLinkedIn, setIsPostingLinkedIn] = useState(false);
@@ -592,6 +734,13 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
   // Map message IDs to draft metadata
   const messageDraftMap = useRef<Map<string, { draftId: string; version: number; intent: string }>>(new Map());
   
+  // Map variant answers (message IDs) to the variant group of the drafts they produced
+  const messageVariantsMap = useRef<Map<string, string>>(new Map());
+  
+  // Variant groups waiting for their assistant message to be persisted
+  // Key: client message ID, Value: local draft IDs in variant order plus the variants to save
+  const pendingVariantGroups = useRef<Map<string, { draftIds: string[]; variants: DraftVariant[]; prompt: string }>>(new Map());
+  
   // Map client message IDs to DB message IDs (for linking drafts to persisted messages)
   // Using state so React re-renders when mappings are added
   const [clientToDbMessageIdMap, setClientToDbMessageIdMap] = useState<Record<string, string>>({});
@@ -605,6 +754,9 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
   
   // Track the last user edit prompt for draft versioning
   const lastEditPromptRef = useRef<string | null>(null);
+
+  // Draft version an edit was requested from; editing an older version branches from it
+  const editBaseRef = useRef<{ draftId: string; version: number | null } | null>(null);
   
   // Track which draft versions are already saved to plan
   const [savedVersionIds, setSavedVersionIds] = useState<Set<string>>(new Set());
@@ -825,7 +977,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
    * Creates the draft entry after streaming is complete
    * Also persists to database using activeThreadIdRef
    */
-  const handleDraftStreamComplete = useCallback(async (content: string, intent: 'draft' | 'edit', messageId: string) => {
+  const handleDraftStreamComplete = useCallback(async (content: string, intent: 'draft' | 'edit', messageId: string, changes?: string[]) => {
     console.log('🎯 Draft stream complete:', { intent, messageId, contentLength: content.length });
     
     // If content is empty, it was a follow-up question that got redirected to chat
@@ -841,7 +993,6 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     const { 
       createDraft, 
       createDraftVersion, 
-      extractDraftFromEditResponse,
     } = require('@/lib/draftVersioning');
     
     // Get threadId from ref (more reliable than state)
@@ -899,29 +1050,39 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
       
     } else if (intent === 'edit') {
       // EDIT VERSION: Create a new version of the most recent draft
-      const { content: extractedContent, changes } = extractDraftFromEditResponse(content);
+      // content/changes come straight from the structured edit response
       
       // Get the edit prompt from ref (set by handleInlineEdit or from user input)
       const editPrompt = lastEditPromptRef.current || 'Edit request';
       // Clear the ref after using it
       lastEditPromptRef.current = null;
       
+      const editBase = editBaseRef.current;
+      editBaseRef.current = null;
+      
       setDrafts(prev => {
         if (prev.length === 0) return prev;
         
-        // Get the most recent draft (last in array)
-        const targetDraft = prev[prev.length - 1];
+        // Edit the draft/version the user was viewing, or the most recent draft
+        const targetIndex = editBase ? prev.findIndex(d => d.id === editBase.draftId) : -1;
+        const draftIndex = targetIndex !== -1 ? targetIndex : prev.length - 1;
+        const targetDraft = prev[draftIndex];
+        
+        // Editing an older version branches from it
+        const baseDraft = editBase?.version != null && targetIndex !== -1
+          ? revertToVersion(targetDraft, editBase.version)
+          : targetDraft;
         
         // Create new version
         const updatedDraft = createDraftVersion(
-          targetDraft,
-          extractedContent,
+          baseDraft,
+          content,
           editPrompt,
           changes,
           new Date()
         );
         
-        console.log(`📝 Created draft version ${updatedDraft.currentVersion} from stream`);
+        console.log(`📝 Created draft version ${updatedDraft.currentVersion} (from v${baseDraft.currentVersion}) from stream`);
         
         // Store message-draft mapping
         messageDraftMap.current.set(messageId, {
@@ -941,11 +1102,12 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
           const newVersion = updatedDraft.currentVersion;
           const localDraftId = updatedDraft.id;
           
-          saveDraftToApi(threadId, extractedContent, {
+          saveDraftToApi(threadId, content, {
             draftId: dbDraftId,
             title: targetDraft.title,
             editPrompt: editPrompt,
             changes,
+            parentVersion: baseDraft.currentVersion,
           })
             .then(savedDraft => {
               console.log('✅ Draft version persisted to DB:', savedDraft.id, 'v' + savedDraft.current_version);
@@ -968,7 +1130,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
         }
         
         // Replace the draft with updated version
-        return [...prev.slice(0, -1), updatedDraft];
+        return [...prev.slice(0, draftIndex), updatedDraft, ...prev.slice(draftIndex + 1)];
       });
     }
     
@@ -981,6 +1143,59 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     }, 100);
   }, []);
 
+  /**
+   * Handle completion of a variants answer
+   * Each variant becomes its own draft, grouped under the answer's variant group;
+   * the group is persisted once the answer itself is (see handleAIMessageComplete)
+   */
+  const handleVariantsStreamComplete = useCallback((variants: DraftVariant[], messageId: string, prompt: string) => {
+    const groupId = `variants-${messageId}`;
+    const now = new Date();
+    const variantDrafts: Draft[] = variants.map((variant, index) => ({
+      ...createDraft(`${messageId}-${index + 1}`, variant.content, now),
+      title: variant.angle,
+      variantGroupId: groupId,
+      variantAngle: variant.angle,
+    }));
+    
+    console.log(`✅ Created ${variantDrafts.length} variant drafts from stream`);
+    messageVariantsMap.current.set(messageId, groupId);
+    pendingVariantGroups.current.set(messageId, {
+      draftIds: variantDrafts.map(d => d.id),
+      variants,
+      prompt,
+    });
+    
+    setDrafts(prev => [...prev, ...variantDrafts]);
+    setSelectedDraftId(variantDrafts[0].id);
+    setSelectedDraftVersion(1);
+    
+    // Clear streaming state AFTER drafts are updated
+    setTimeout(() => {
+      setIsStreamingDraft(false);
+      setStreamingContent(null);
+      setStreamingIntent(null);
+    }, 100);
+  }, []);
+
+  /**
+   * Handle completion of a carousel answer
+   * The deck belongs to the draft it was built from and opens in the slide editor
+   */
+  const handleCarouselComplete = useCallback((deck: CarouselDeck) => {
+    const draft = drafts.find(d => d.id === selectedDraftId) || drafts[drafts.length - 1];
+    if (!draft) {
+      setPostStatus({ type: 'info', message: 'Write a draft first to attach a carousel to it.' });
+      return;
+    }
+    
+    console.log(`✅ Built a ${deck.slides.length}-slide carousel for draft ${draft.id}`);
+    setCarouselDecks(prev => ({ ...prev, [draft.id]: deck }));
+    setSelectedDraftId(draft.id);
+    setIsDraftPanelCollapsed(false);
+    setIsCarouselOpen(true);
+  }, [drafts, selectedDraftId]);
+
   /**
    * Handle AI message completion - persist to database
    */
@@ -997,6 +1212,28 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
         setClientToDbMessageIdMap(prev => ({ ...prev, [messageId]: savedMessage.id }));
         console.log('📝 Mapped client message ID to DB ID:', messageId, '→', savedMessage.id);
         
+        // Variants answer: save its drafts under a group linked to this message
+        const pendingGroup = pendingVariantGroups.current.get(messageId);
+        if (pendingGroup) {
+          pendingVariantGroups.current.delete(messageId);
+          saveDraftVariants(threadId, pendingGroup.variants, { prompt: pendingGroup.prompt, parentMessageId: savedMessage.id })
+            .then(({ drafts: savedDrafts }) => {
+              console.log('✅ Variant drafts persisted to DB:', savedDrafts.length);
+              // Saved drafts come back in variant order
+              setDrafts(prev => prev.map(d => {
+                const savedDraft = savedDrafts[pendingGroup.draftIds.indexOf(d.id)];
+                if (!savedDraft) return d;
+                const savedVersion = savedDraft.versions?.find(v => v.version === 1);
+                return {
+                  ...d,
+                  dbId: savedDraft.id,
+                  versions: d.versions.map(v => v.version === 1 ? { ...v, dbId: savedVersion?.id } : v),
+                };
+              }));
+            })
+            .catch(err => console.error('Failed to persist variant drafts:', err));
+        }
+        
         // If this message has a draft associated, update the draft's parentMessageId
         const draftInfo = messageDraftMap.current.get(messageId);
         if (draftInfo && (intent === 'draft' || intent === 'edit')) {
@@ -1023,17 +1260,32 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
   
   // AI chat state
   // For personal accounts: always pass context (empty object while loading, actual data when loaded)
-  // For org accounts: pass undefined to let hook fetch org context
+  // For org accounts: pass undefined; /api/chat retrieves the relevant org context per message
   const chatContextData = isPersonalProfile 
     ? (personalContext || {}) // Pass context or empty object if still loading
-    : undefined; // org account, let hook fetch from embeddings API
+    : undefined; // org account, context retrieved server-side
   
-  const { messages, isLoading, error, currentIntent, sendMessage, clearChat, restoreMessages } = useAIChat({
+  const {
+    messages,
+    isLoading,
+    error,
+    currentIntent,
+    sendMessage,
+    regenerate,
+    updateToolCall,
+    stopGeneration,
+    selectAlternative,
+    clearChat,
+    restoreMessages,
+  } = useAIChat({
     organizationId: selectedOrganization?.id || "",
     clerkUserId: clerkUser?.id || "",
+    threadId: currentThread?.id,
     contextData: chatContextData,
     onDraftStream: handleDraftStream,
     onDraftStreamComplete: handleDraftStreamComplete,
+    onVariantsStreamComplete: handleVariantsStreamComplete,
+    onCarouselComplete: handleCarouselComplete,
     onAIMessageComplete: handleAIMessageComplete,
   });
 
@@ -1063,6 +1315,16 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
   const enrichedMessages = useMemo(() => {
     console.log('🔄 Enriching messages, map size:', messageDraftMap.current.size);
     const enriched = messages.map(msg => {
+      const variantGroupId = messageVariantsMap.current.get(msg.id);
+      if (variantGroupId) {
+        return {
+          ...msg,
+          variantGroupId,
+          variantDrafts: drafts
+            .filter(d => d.variantGroupId === variantGroupId)
+            .map(d => ({ id: d.id, title: d.variantAngle || d.title || 'Variant' })),
+        };
+      }
       const draftInfo = messageDraftMap.current.get(msg.id);
       if (draftInfo) {
         const draftTitle = getDraftTitle(draftInfo.draftId, draftInfo.version);
@@ -1102,6 +1364,81 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     sendMessage(prompt);
   }, [sendMessage]);
 
+  /**
+   * Remove variant drafts locally and from the thread
+   */
+  const discardDrafts = useCallback((draftIds: string[]) => {
+    const discarded = drafts.filter(d => draftIds.includes(d.id));
+    if (discarded.length === 0) return;
+    
+    const remaining = drafts.filter(d => !draftIds.includes(d.id));
+    setDrafts(remaining);
+    
+    // Move the selection off a discarded draft
+    if (selectedDraftId && draftIds.includes(selectedDraftId)) {
+      const fallback = remaining[remaining.length - 1];
+      setSelectedDraftId(fallback?.id ?? null);
+      setSelectedDraftVersion(fallback?.currentVersion ?? null);
+    }
+    
+    discarded.forEach(d => {
+      if (d.dbId) {
+        deleteDraftApi(d.dbId).catch(err => console.error('Failed to delete draft:', err));
+      }
+    });
+  }, [drafts, selectedDraftId]);
+
+  /**
+   * Variant card actions: keep one variant, discard one, or merge the best parts of several
+   */
+  const variantActions = useMemo<VariantActions>(() => ({
+    onPick: (groupId, draftId) => {
+      discardDrafts(drafts.filter(d => d.variantGroupId === groupId && d.id !== draftId).map(d => d.id));
+      setSelectedDraftId(draftId);
+      setSelectedDraftVersion(null);
+      setIsDraftPanelCollapsed(false);
+    },
+    onDiscard: (draftId) => discardDrafts([draftId]),
+    onMerge: (draftIds) => {
+      const toMerge = draftIds
+        .map(id => drafts.find(d => d.id === id))
+        .filter((d): d is Draft => !!d);
+      if (toMerge.length < 2) return;
+      
+      const posts = toMerge
+        .map((d, index) => {
+          const content = d.versions.find(v => v.version === d.currentVersion)?.content || d.content;
+          return `Post ${index + 1}${d.variantAngle ? ` (${d.variantAngle})` : ''}:\n${content}`;
+        })
+        .join('\n\n---\n\n');
+      const labels = toMerge.map(d => d.variantAngle || d.title || 'Variant').join(' + ');
+      
+      sendMessage(
+        `Write one new LinkedIn post that combines the best parts of the posts below: keep the strongest hook, the most concrete details, and the best closing line.\n\n${posts}`,
+        `Merge the best parts of: ${labels}`
+      );
+    },
+    disabled: isLoading,
+  }), [drafts, discardDrafts, sendMessage, isLoading]);
+
+  /**
+   * Remember which draft version an edit request starts from
+   * Returns a note with that version's content when it isn't the latest version,
+   * so the AI edits the branch the user is looking at rather than the newest draft
+   */
+  const captureEditBase = useCallback((): string => {
+    const baseDraft = drafts.find(d => d.id === selectedDraftId) || drafts[drafts.length - 1];
+    if (!baseDraft) return '';
+
+    const baseVersion = selectedDraftId === baseDraft.id ? (selectedDraftVersion ?? baseDraft.currentVersion) : baseDraft.currentVersion;
+    editBaseRef.current = { draftId: baseDraft.id, version: baseVersion };
+
+    const isLatest = baseVersion === getNextVersionNumber(baseDraft) - 1;
+    const baseContent = baseDraft.versions.find(v => v.version === baseVersion)?.content;
+    if (isLatest || !baseContent) return '';
+    return `\n\n[Apply this to version ${baseVersion} of the draft, not the latest one:]\n${baseContent}`;
+  }, [drafts, selectedDraftId, selectedDraftVersion]);
+
   /**
    * Handle inline edit of selected text from draft
    */
@@ -1115,6 +1452,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     
     // Store the edit prompt for when the draft version is created
     lastEditPromptRef.current = instruction;
+    const baseVersionNote = captureEditBase();
     
     // Persist user message to database
     if (threadId) {
@@ -1124,8 +1462,8 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     }
     
     // Send the inline edit as a message
-    await sendMessage(inlineEditMessage);
-  }, [drafts, sendMessage, appendMessage]);
+    await sendMessage(inlineEditMessage + baseVersionNote, inlineEditMessage);
+  }, [drafts, sendMessage, appendMessage, captureEditBase]);
 
   /**
    * Handle direct content edit (like MS Word editing)
@@ -1179,6 +1517,40 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     }
   }, [drafts]);
 
+  /**
+   * Create a new version from hunks accepted/rejected in the version diff viewer
+   * The merged version branches from the version the diff was taken towards
+   */
+  const handleCreateVersionFromDiff = useCallback(async (draftId: string, content: string, editPrompt: string, changes: string[], baseVersion: number) => {
+    const targetDraft = drafts.find(d => d.id === draftId);
+    if (!targetDraft) {
+      console.error('Draft not found:', draftId);
+      return;
+    }
+
+    const updatedDraft: Draft = createDraftVersion(revertToVersion(targetDraft, baseVersion), content, editPrompt, changes, new Date());
+
+    setDrafts(prev => prev.map(d => (d.id === draftId ? updatedDraft : d)));
+    setSelectedDraftId(draftId);
+    setSelectedDraftVersion(updatedDraft.currentVersion);
+    console.log(`🔀 Created draft version ${updatedDraft.currentVersion} from diff`);
+
+    const threadId = activeThreadIdRef.current;
+    if (threadId) {
+      try {
+        await saveDraftToApi(threadId, content, {
+          draftId: targetDraft.dbId,
+          title: targetDraft.title,
+          editPrompt,
+          changes,
+          parentVersion: baseVersion,
+        });
+      } catch (err) {
+        console.error('Failed to persist merged draft version:', err);
+      }
+    }
+  }, [drafts]);
+
   /**
    * Handle selecting a thread from the history panel
    */
@@ -1187,6 +1559,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     clearChat();
     setDrafts([]);
     messageDraftMap.current.clear();
+    messageVariantsMap.current.clear();
     lastRestoredThreadId.current = null; // Reset so restore will run for new thread
     setSelectedDraftId(null);
     setSelectedDraftVersion(null);
@@ -1206,6 +1579,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     clearChat();
     setDrafts([]);
     messageDraftMap.current.clear();
+    messageVariantsMap.current.clear();
     lastRestoredThreadId.current = null; // Allow restore on next thread load
     activeThreadIdRef.current = null;
     setSelectedDraftId(null);
@@ -1227,69 +1601,62 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
       clearChat();
       setDrafts([]);
       messageDraftMap.current.clear();
+      messageVariantsMap.current.clear();
     }
   }, [removeThread, currentThread, clearChat]);
 
   /**
    * Post the current draft to LinkedIn for the selected organization or personal profile
    */
-  const handlePostToLinkedIn = useCallback(async (content: string, images?: UploadedImage[]) => {
-    if (!content) return;
+  const handlePostToLinkedIn = useCallback(async (draftContent: string, media?: UploadedMedia[]) => {
+    if (!draftContent) return;
     if (!user?.clerk_user_id) {
       setPostStatus({ type: 'error', message: 'User not loaded yet.' });
       return;
     }
+    // LinkedIn shows markdown literally; publish its Unicode formatting instead
+    const content = markdownToLinkedIn(draftContent);
+    const publishBlocker = describePublishBlockers(content);
+    if (publishBlocker) {
+      setPostStatus({ type: 'error', message: publishBlocker });
+      return;
+    }
+    const currentDraft = drafts.find(d => d.id === selectedDraftId);
+    const firstComment = currentDraft?.firstComment?.trim() ? markdownToLinkedIn(currentDraft.firstComment.trim()) : undefined;
+    if (firstComment && countPostCharacters(firstComment) > LINKEDIN_MAX_COMMENT_LENGTH) {
+      setPostStatus({ type: 'error', message: `The first comment is over LinkedIn's ${LINKEDIN_MAX_COMMENT_LENGTH.toLocaleString()} character limit.` });
+      return;
+    }
 
     try {
       setIsPostingLinkedIn(true);
       
-      // Step 1: Upload images to LinkedIn if any
-      const uploadedAssets: string[] = [];
-      if (images && images.length > 0) {
-        setPostStatus({ type: 'info', message: `Uploading ${images.length} image(s)...` });
-        
-        for (const image of images) {
-          try {
-            const formData = new FormData();
-            formData.append('image', image.file);
-            formData.append('clerkUserId', user.clerk_user_id);
-            if (!isPersonalProfile && selectedOrganization?.id) {
-              formData.append('organizationId', selectedOrganization.id);
-            }
-            formData.append('isPersonal', String(isPersonalProfile));
-            
-            const uploadResponse = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/linkedin/upload-image`, {
-              method: 'POST',
-              body: formData,
-            });
-            
-            const uploadData = await uploadResponse.json().catch(() => ({}));
-            if (!uploadResponse.ok) {
-              throw new Error(uploadData?.error || 'Failed to upload image');
-            }
-            
-            if (uploadData.asset) {
-              uploadedAssets.push(uploadData.asset);
-            }
-          } catch (uploadErr) {
-            console.error('Image upload error:', uploadErr);
-            // Continue with other images but note the error
-          }
-        }
-        
-        if (uploadedAssets.length === 0 && images.length > 0) {
-          throw new Error('Failed to upload any images. Please try again.');
-        }
-      }
+      // Step 1: Upload images, or a video or document, to LinkedIn if any
+      const owner = {
+        clerkUserId: user.clerk_user_id,
+        organizationId: selectedOrganization?.id,
+        isPersonal: isPersonalProfile,
+      };
+      const postMedia = await uploadPostMedia(media || [], owner, message => setPostStatus({ type: 'info', message }));
       
-      // Step 2: Post to LinkedIn (with or without images)
+      // Step 2: Post to LinkedIn (with or without media)
       const endpoint = isPersonalProfile 
         ? `${process.env.NEXT_PUBLIC_API_URL}/api/linkedin/post/personal`
         : `${process.env.NEXT_PUBLIC_API_URL}/api/linkedin/post`;
       
+      // Link the post to the draft version it came from for performance tracking
+      const versionNumber = selectedDraftVersion !== null ? selectedDraftVersion : currentDraft?.currentVersion;
+      const currentVersion = currentDraft?.versions.find(v => v.version === versionNumber);
+      const source = {
+        threadId: currentThread?.id || undefined,
+        draftId: currentDraft?.dbId || undefined,
+        draftVersionId: currentVersion?.dbId || undefined,
+        draftVersion: versionNumber
+      };
+
       const payload = isPersonalProfile
-        ? { clerkUserId: user.clerk_user_id, content, imageAssets: uploadedAssets.length > 0 ? uploadedAssets : undefined }
-        : { clerkUserId: user.clerk_user_id, organizationId: selectedOrganization?.id, content, imageAssets: uploadedAssets.length > 0 ? uploadedAssets : undefined };
+        ? { clerkUserId: user.clerk_user_id, content, ...postMedia, firstComment, ...source }
+        : { clerkUserId: user.clerk_user_id, organizationId: selectedOrganization?.id, content, ...postMedia, firstComment, ...source };
       
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -1303,14 +1670,104 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
         throw new Error(msg);
       }
 
-      setPostStatus({ type: 'success', message: 'Published to LinkedIn.' });
+      // The post is live even when its first comment couldn't be added
+      if (data?.firstComment?.status === 'failed') {
+        setPostStatus({ type: 'info', message: `Published to LinkedIn, but the first comment failed: ${data.firstComment.error || 'unknown error'}. Add it on LinkedIn.` });
+      } else {
+        setPostStatus({ type: 'success', message: 'Published to LinkedIn.' });
+      }
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Failed to publish to LinkedIn';
       setPostStatus({ type: 'error', message: msg });
     } finally {
       setIsPostingLinkedIn(false);
     }
-  }, [isPersonalProfile, selectedOrganization, user?.clerk_user_id]);
+  }, [isPersonalProfile, selectedOrganization, user?.clerk_user_id, drafts, selectedDraftId, selectedDraftVersion, currentThread]);
+
+  /**
+   * Show the version a published post's edit added to its draft
+   */
+  const handlePublishedPostEdited = useCallback((draftId: string, edit: PublishedPostEdit) => {
+    const { version } = edit;
+    if (!version) return;
+    setDrafts(prev => prev.map(d => {
+      if (d.id !== draftId || d.versions.some(v => v.version === version.version)) return d;
+      return {
+        ...d,
+        content: version.content,
+        currentVersion: version.version,
+        versions: [...d.versions, {
+          version: version.version,
+          content: version.content,
+          editPrompt: version.edit_prompt,
+          changes: version.changes || [],
+          parentVersion: version.parent_version ?? undefined,
+          timestamp: new Date(version.created_at),
+          dbId: version.id,
+        }],
+      };
+    }));
+    if (selectedDraftId === draftId) setSelectedDraftVersion(version.version);
+  }, [selectedDraftId]);
+
+  /**
+   * Set a draft's first comment and save it with the draft
+   */
+  const handleFirstCommentChange = useCallback((draftId: string, firstComment: string) => {
+    setDrafts(prev => prev.map(d => (d.id === draftId ? { ...d, firstComment } : d)));
+    const draftDbId = drafts.find(d => d.id === draftId)?.dbId;
+    if (!draftDbId) return;
+    updateDraftFirstComment(draftDbId, firstComment.trim() || null).catch(err =>
+      console.error('Error saving first comment:', err)
+    );
+  }, [drafts]);
+
+  /**
+   * Attach media to a draft, storing a copy of each new file with the draft's current version
+   */
+  const handleDraftMediaChange = useCallback(async (draftId: string, media: UploadedMedia[]) => {
+    setDraftMedia(prev => ({ ...prev, [draftId]: media }));
+    const clerkUserId = user?.clerk_user_id;
+    if (!clerkUserId) return;
+
+    const seq = (draftMediaSaveSeq.current[draftId] || 0) + 1;
+    draftMediaSaveSeq.current[draftId] = seq;
+
+    const stored = await Promise.all(media.map(async item => {
+      if (item.stored) return item.stored;
+      try {
+        return await storeDraftMedia(item.file, clerkUserId);
+      } catch (err) {
+        console.error('Error storing draft media:', err);
+        return null;
+      }
+    }));
+    if (draftMediaSaveSeq.current[draftId] !== seq) return;
+
+    // Keep the stored copies on the items that are still attached
+    setDraftMedia(prev => ({
+      ...prev,
+      [draftId]: (prev[draftId] || []).map(item => {
+        const index = media.findIndex(m => m.file === item.file);
+        if (index === -1 || item.stored) return item;
+        const copy = stored[index];
+        return copy ? { ...item, stored: copy } : { ...item, error: 'Not saved with the draft' };
+      }),
+    }));
+
+    // Drafts that aren't persisted yet have nowhere to keep the list
+    const draftDbId = drafts.find(d => d.id === draftId)?.dbId;
+    if (!draftDbId) return;
+    try {
+      await updateDraftVersionMedia(
+        draftDbId,
+        clerkUserId,
+        stored.filter((item): item is StoredDraftMedia => item !== null)
+      );
+    } catch (err) {
+      console.error('Error saving draft media:', err);
+    }
+  }, [user?.clerk_user_id, drafts]);
 
   /**
    * Save draft to plan (scheduled or saved for later)
@@ -1328,6 +1785,15 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
       const currentDraft = drafts.find(d => d.id === selectedDraftId);
       const versionNumber = selectedDraftVersion !== null ? selectedDraftVersion : currentDraft?.currentVersion;
       const currentVersion = currentDraft?.versions.find(v => v.version === versionNumber);
+      // Plan entries are published as saved, so they get LinkedIn formatting now
+      const planContent = markdownToLinkedIn(content);
+      const firstComment = currentDraft?.firstComment?.trim() ? markdownToLinkedIn(currentDraft.firstComment.trim()) : undefined;
+
+      // The publisher posts scheduled drafts without anyone checking them first
+      const scheduleBlocker = scheduledAt ? describeScheduleBlockers(planContent, firstComment) : null;
+      if (scheduleBlocker) {
+        throw new Error(scheduleBlocker);
+      }
 
       const payload = {
         clerkUserId: user.clerk_user_id,
@@ -1335,10 +1801,15 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
         draftVersionId: currentVersion?.dbId || undefined,
         draftId: currentDraft?.dbId || undefined,
         threadId: currentThread?.id || undefined,
-        content,
+        content: planContent,
         title: title || undefined,
         scheduledAt: scheduledAt || undefined,
-        notes: notes || undefined
+        notes: notes || undefined,
+        firstComment,
+        // Stored copies of the attachments, uploaded to LinkedIn when the post goes out
+        media: (selectedDraftId ? draftMedia[selectedDraftId] || [] : [])
+          .map(item => item.stored)
+          .filter((item): item is StoredDraftMedia => !!item)
       };
 
       const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/scheduled-drafts`, {
@@ -1384,7 +1855,70 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
       setPostStatus({ type: 'error', message: msg });
       throw err; // Re-throw to let the component handle it
     }
-  }, [user?.clerk_user_id, isPersonalProfile, selectedOrganization, currentThread, drafts, selectedDraftId, selectedDraftVersion]);
+  }, [user?.clerk_user_id, isPersonalProfile, selectedOrganization, currentThread, drafts, selectedDraftId, selectedDraftVersion, draftMedia]);
+
+  /**
+   * Run a tool call the user confirmed
+   * @returns What happened (shown on the card) and, for lookups, the data for the assistant
+   */
+  const runToolCall = useCallback(async (toolCall: ChatToolCall): Promise<{ summary: string; result?: unknown }> => {
+    if (!user?.clerk_user_id) throw new Error('Sign in to run this action');
+    const organizationId = !isPersonalProfile && selectedOrganization?.id ? selectedOrganization.id : undefined;
+
+    switch (toolCall.name) {
+      case 'schedule_draft': {
+        const currentDraft = drafts.find(d => d.id === selectedDraftId);
+        const versionNumber = selectedDraftVersion ?? currentDraft?.currentVersion;
+        const content = currentDraft?.versions.find(v => v.version === versionNumber)?.content;
+        if (!content) throw new Error('Open a draft to schedule first');
+
+        const scheduledAt = new Date(toolCall.input.scheduledAt);
+        if (isNaN(scheduledAt.getTime())) throw new Error('That date could not be read');
+        if (scheduledAt.getTime() <= Date.now()) throw new Error('That time is in the past');
+
+        await handleSaveToPlan(content, scheduledAt.toISOString(), toolCall.input.title || currentDraft?.title);
+        return { summary: `Scheduled for ${scheduledAt.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}` };
+      }
+      case 'save_idea':
+        await saveIdea(user.clerk_user_id, organizationId, currentThread?.id, toolCall.input);
+        return { summary: `Saved "${toolCall.input.title}" to your plan` };
+      case 'query_metrics': {
+        const result = await queryMetrics(user.clerk_user_id, organizationId, toolCall.input);
+        return { summary: `Looked up the last ${toolCall.input.days} days`, result };
+      }
+      case 'open_draft_version': {
+        const { draftTitle, version } = toolCall.input;
+        const draft = draftTitle
+          ? drafts.find(d => d.title?.toLowerCase().includes(draftTitle.toLowerCase()))
+          : drafts.find(d => d.id === selectedDraftId) ?? drafts[drafts.length - 1];
+        if (!draft) throw new Error('No matching draft in this conversation');
+        if (!draft.versions.some(v => v.version === version)) {
+          throw new Error(`${draft.title || 'This draft'} has no version ${version}`);
+        }
+        setSelectedDraftId(draft.id);
+        setSelectedDraftVersion(version);
+        setIsDraftPanelCollapsed(false);
+        return { summary: `Opened version ${version}${draft.title ? ` of "${draft.title}"` : ''}` };
+      }
+    }
+  }, [user?.clerk_user_id, isPersonalProfile, selectedOrganization, drafts, selectedDraftId, selectedDraftVersion, currentThread, handleSaveToPlan]);
+
+  const toolActions = useMemo<ToolCallActions>(() => ({
+    onConfirm: async (messageId, toolCall) => {
+      await updateToolCall(messageId, toolCall.id, { status: 'running' });
+      try {
+        const outcome = await runToolCall(toolCall);
+        await updateToolCall(messageId, toolCall.id, { status: 'done', ...outcome });
+      } catch (err) {
+        const error = err instanceof Error ? err.message : 'Action failed';
+        await updateToolCall(messageId, toolCall.id, { status: 'failed', error });
+      }
+    },
+    onDecline: (messageId, toolCall) => {
+      updateToolCall(messageId, toolCall.id, { status: 'declined' });
+    },
+    disabled: isLoading,
+  }), [updateToolCall, runToolCall, isLoading]);
 
   // Ref to track the active thread ID for message persistence
   const activeThreadIdRef = useRef<string | null>(null);
@@ -1472,7 +2006,17 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
   const handleSendMessageInternal = useCallback(async () => {
     if (!inputValue.trim() || isLoading) return;
 
-    const messageToSend = inputValue;
+    // A leading slash command sets the mode for this message only
+    const { mode: commandMode, text: messageToSend } = parseSlashCommand(inputValue);
+    const mode = commandMode ?? chatMode ?? undefined;
+
+    // A bare command ("/edit") switches the composer's mode instead of sending
+    if (commandMode && !messageToSend.trim()) {
+      setChatMode(commandMode);
+      setInputValue("");
+      return;
+    }
+
     let threadIdForMessage: string | null = activeThreadIdRef.current;
     
     // Create a new thread if this is the first message and we don't have one
@@ -1485,7 +2029,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
         activeThreadIdRef.current = thread.id;
         // Persist user message to the new thread (pass threadId directly)
         try {
-          await appendMessage('user', messageToSend, undefined, thread.id);
+          await appendMessage('user', formatSlashCommand(mode, messageToSend), undefined, thread.id);
         } catch (err) {
           console.error('Failed to persist user message:', err);
         }
@@ -1495,7 +2039,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     } else if (threadIdForMessage) {
       // Persist user message to existing thread
       try {
-        await appendMessage('user', messageToSend, undefined, threadIdForMessage);
+        await appendMessage('user', formatSlashCommand(mode, messageToSend), undefined, threadIdForMessage);
       } catch (err) {
         console.error('Failed to persist user message:', err);
       }
@@ -1516,8 +2060,10 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     }
     
     // If we have drafts, this might be an edit request - store the prompt
+    let baseVersionNote = '';
     if (drafts.length > 0) {
       lastEditPromptRef.current = messageToSend;
+      baseVersionNote = captureEditBase();
     }
     
     // Build message with file attachments
@@ -1545,8 +2091,8 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     
     setInputValue(""); // Clear input immediately for better UX
     setAttachedFiles([]); // Clear attachments after sending
-    await sendMessage(fullMessage, displayMessage);
-  }, [inputValue, isLoading, sendMessage, messages.length, isDraftMode, messages, currentThread, newThread, appendMessage, drafts.length, attachedFiles]);
+    await sendMessage(fullMessage + baseVersionNote, displayMessage, mode);
+  }, [inputValue, chatMode, isLoading, sendMessage, messages.length, isDraftMode, messages, currentThread, newThread, appendMessage, drafts.length, attachedFiles, captureEditBase]);
 
   /**
    * Handle sending a message - wrapped with LinkedIn check
@@ -1555,15 +2101,61 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     requireLinkedIn(handleSendMessageInternal);
   }, [requireLinkedIn, handleSendMessageInternal]);
 
+  /**
+   * Regenerate the latest answer
+   * An edit is re-run against the same draft version the original edit started from
+   */
+  const handleRegenerateInternal = useCallback(() => {
+    const lastAnswer = messages[messages.length - 1];
+    const draftInfo = lastAnswer?.role === 'assistant' ? messageDraftMap.current.get(lastAnswer.id) : undefined;
+
+    if (draftInfo?.intent === 'edit') {
+      const editedVersion = drafts
+        .find(d => d.id === draftInfo.draftId)
+        ?.versions.find(v => v.version === draftInfo.version);
+      editBaseRef.current = { draftId: draftInfo.draftId, version: editedVersion?.parentVersion ?? draftInfo.version - 1 };
+      lastEditPromptRef.current = editedVersion?.editPrompt || null;
+    } else if (drafts.length > 0) {
+      // The user turn already carries any base-version note from when it was sent
+      const lastUserMessage = messages.findLast(m => m.role === 'user');
+      lastEditPromptRef.current = lastUserMessage?.content || null;
+      captureEditBase();
+    }
+
+    regenerate();
+  }, [messages, drafts, captureEditBase, regenerate]);
+
+  const handleRegenerate = useCallback(() => {
+    requireLinkedIn(handleRegenerateInternal);
+  }, [requireLinkedIn, handleRegenerateInternal]);
+
+  /**
+   * Show another answer for a turn, keeping the draft panel on the draft that answer produced
+   */
+  const handleSelectAlternative = useCallback((messageId: string, index: number) => {
+    const alternative = messages.find(m => m.id === messageId)?.alternatives?.[index];
+    if (!alternative) return;
+
+    selectAlternative(messageId, index);
+
+    const draftInfo = messageDraftMap.current.get(alternative.id);
+    if (draftInfo) {
+      setSelectedDraftId(draftInfo.draftId);
+      setSelectedDraftVersion(draftInfo.version);
+      setIsDraftPanelCollapsed(false);
+    }
+  }, [messages, selectAlternative]);
+
   /**
    * Handle keyboard shortcut (Enter to send) - memoized
    */
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (handleMenuKeyDown(e)) return;
     if (e.key === "Enter" && !e.shiftKey && !isLoading) {
       e.preventDefault();
       handleSendMessage();
     }
-  }, [isLoading, handleSendMessage]);
+  }, [handleMenuKeyDown, isLoading, handleSendMessage]);
 
   /**
    * Handle input change - memoized
@@ -1773,19 +2365,21 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
     
     // Clear previous message-draft mappings
     messageDraftMap.current.clear();
+    messageVariantsMap.current.clear();
     
     // Restore drafts first so we can map messages to them
     let restoredDrafts: Draft[] = [];
     if (currentThread.drafts && currentThread.drafts.length > 0) {
       restoredDrafts = currentThread.drafts.map(d => {
         const versions = (d.versions || []).sort((a, b) => a.version - b.version);
-        const latestVersion = versions[versions.length - 1];
+        // current_version points at the branch tip the user last worked on
+        const currentVersionData = versions.find(v => v.version === d.current_version) || versions[versions.length - 1];
         
         return {
           id: d.id,
           dbId: d.id, // Store DB id for persistence
           messageId: d.id,
-          content: latestVersion?.content || '',
+          content: currentVersionData?.content || '',
           title: d.title || 'Draft',
           currentVersion: d.current_version,
           versions: versions.map(v => ({
@@ -1793,15 +2387,33 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
             content: v.content,
             editPrompt: v.edit_prompt,
             changes: v.changes || [],
+            parentVersion: v.parent_version ?? undefined,
             timestamp: new Date(v.created_at),
             parent_message_id: v.parent_message_id, // Include parent message ID for feedback
             dbId: v.id, // Store version DB id
           })),
           timestamp: new Date(d.created_at),
+          variantGroupId: d.variant_group_id ?? undefined,
+          variantAngle: d.variant_angle ?? undefined,
+          firstComment: d.first_comment ?? undefined,
         };
       });
       
       setDrafts(restoredDrafts);
+
+      // Attachments are read back from the copies stored with each draft's current version
+      if (clerkUser?.id) {
+        const clerkUserId = clerkUser.id;
+        const threadId = currentThread.id;
+        Promise.all(currentThread.drafts.map(async d => {
+          const stored = d.versions?.find(v => v.version === d.current_version)?.media || [];
+          const restored = stored.length > 0 ? await restoreDraftMedia(clerkUserId, stored) : [];
+          return [d.id, restored.map(item => ({ ...item, preview: URL.createObjectURL(item.file) }))] as const;
+        })).then(entries => {
+          if (lastRestoredThreadId.current !== threadId) return;
+          setDraftMedia(Object.fromEntries(entries.filter(([, media]) => media.length > 0)));
+        });
+      }
       
       // Select draft based on initial params, or first draft if any
       if (restoredDrafts.length > 0) {
@@ -1839,9 +2451,18 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
       
   // Track which draft/version to assign to each draft/edit message
   // For multiple drafts in the same thread, advance the pointer when we hit a new draft intent
-  let currentDraftIndex = 0;          // points to restoredDrafts[currentDraftIndex]
+  // Variant drafts are linked through their group instead, so they're left out of the walk
+  const positionalDrafts = restoredDrafts.filter(d => !d.variantGroupId);
+  let currentDraftIndex = 0;          // points to positionalDrafts[currentDraftIndex]
   let activeDraftIndex = 0;           // the draft that subsequent edits belong to
   let currentVersionForDraft = 1;     // version counter for the active draft
+  
+  // Variant answers: message DB ID -> variant group ID
+  const variantGroupByMessage = new Map(
+    (currentThread.draftGroups || [])
+      .filter(g => g.parent_message_id)
+      .map(g => [g.parent_message_id as string, g.id])
+  );
       
       // Convert thread messages to ChatMessage format
       const restoredMessages = sortedMessages.map(m => {
@@ -1853,11 +2474,14 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
           intent: m.intent as 'edit' | 'ideate' | 'draft' | 'feedback' | undefined,
         };
         
-        // For draft/edit intent messages, link them to the restored drafts
-        if (m.role === 'assistant' && (m.intent === 'draft' || m.intent === 'edit') && restoredDrafts.length > 0) {
+        const variantGroupId = variantGroupByMessage.get(m.id);
+        if (variantGroupId) {
+          messageVariantsMap.current.set(m.id, variantGroupId);
+        } else if (m.role === 'assistant' && (m.intent === 'draft' || m.intent === 'edit') && positionalDrafts.length > 0) {
+          // For draft/edit intent messages, link them to the restored drafts
           // When we hit a new draft intent, move the active pointer forward
           if (m.intent === 'draft') {
-            const targetDraft = restoredDrafts[currentDraftIndex];
+            const targetDraft = positionalDrafts[currentDraftIndex];
             if (targetDraft) {
               messageDraftMap.current.set(m.id, {
                 draftId: targetDraft.id,
@@ -1868,10 +2492,10 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
               activeDraftIndex = currentDraftIndex;
               currentVersionForDraft = 2; // Next edit will be v2
               // Advance pointer for the next draft creation message
-              currentDraftIndex = Math.min(currentDraftIndex + 1, restoredDrafts.length - 1);
+              currentDraftIndex = Math.min(currentDraftIndex + 1, positionalDrafts.length - 1);
             }
           } else if (m.intent === 'edit') {
-            const targetDraft = restoredDrafts[activeDraftIndex];
+            const targetDraft = positionalDrafts[activeDraftIndex];
             if (targetDraft) {
               const versionToUse = Math.min(currentVersionForDraft, targetDraft.currentVersion);
               messageDraftMap.current.set(m.id, {
@@ -1891,7 +2515,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
       console.log('✅ Restored', restoredMessages.length, 'messages from thread');
       console.log('✅ Mapped', messageDraftMap.current.size, 'messages to drafts');
     }
-  }, [currentThread, restoreMessages]);
+  }, [currentThread, restoreMessages, clerkUser?.id]);
 
   /**
    * Check for check-in draft prompt from sessionStorage
@@ -2018,7 +2642,13 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
                   </h1>
                   
                   {/* Centered Input */}
-                  <div className="bg-card rounded-2xl border border-border shadow-sm hover:shadow-md transition-shadow">
+                  <div className="relative bg-card rounded-2xl border border-border shadow-sm hover:shadow-md transition-shadow">
+                    <SlashCommandMenu
+                      options={slashCommands.options}
+                      activeCommand={slashCommands.activeCommand}
+                      onActiveCommandChange={slashCommands.setActiveCommand}
+                      onSelect={slashCommands.selectCommand}
+                    />
                     {/* Attached Files Preview */}
                     {attachedFiles.length > 0 && (
                       <div className="px-4 pt-3 flex flex-wrap gap-2">
@@ -2066,18 +2696,21 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
 
                     {/* Action Bar */}
                     <div className="flex items-center justify-between px-4 py-3 bg-muted/30 rounded-b-2xl">
-                      <button 
-                        onClick={() => fileInputRef.current?.click()}
-                        disabled={isExtractingFiles}
-                        className="text-muted-foreground hover:text-foreground transition disabled:opacity-50"
-                        title="Attach files (PDF, DOC, DOCX, JPG, PNG, SVG, TXT - max 5MB)"
-                      >
-                        {isExtractingFiles ? (
-                          <LoaderIcon className="h-5 w-5 animate-spin" />
-                        ) : (
-                          <Paperclip className="h-5 w-5" />
-                        )}
-                      </button>
+                      <div className="flex items-center gap-3">
+                        <button 
+                          onClick={() => fileInputRef.current?.click()}
+                          disabled={isExtractingFiles}
+                          className="text-muted-foreground hover:text-foreground transition disabled:opacity-50"
+                          title="Attach files (PDF, DOC, DOCX, JPG, PNG, SVG, TXT - max 5MB)"
+                        >
+                          {isExtractingFiles ? (
+                            <LoaderIcon className="h-5 w-5 animate-spin" />
+                          ) : (
+                            <Paperclip className="h-5 w-5" />
+                          )}
+                        </button>
+                        <ChatModePicker mode={chatMode} onChange={setChatMode} disabled={isLoading || isTransitioning} />
+                      </div>
 
                       <div className="flex items-center gap-3">
                         <VoiceInput
@@ -2091,12 +2724,13 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
                         />
                         <Button
                           size="sm"
-                          onClick={handleSendMessage}
-                          disabled={(!inputValue.trim() && attachedFiles.length === 0) || isLoading || isTransitioning}
+                          onClick={isLoading ? stopGeneration : handleSendMessage}
+                          disabled={isLoading ? false : (!inputValue.trim() && attachedFiles.length === 0) || isTransitioning}
                           className="bg-orange-400 hover:bg-orange-500 text-white rounded-lg px-4 h-10 flex items-center gap-2 shadow-sm"
+                          title={isLoading ? "Stop generating" : undefined}
                         >
                           {isLoading ? (
-                            <LoaderIcon className="h-5 w-5 animate-spin" />
+                            <Square className="h-4 w-4 fill-current" />
                           ) : (
                             <Send className="h-5 w-5" />
                           )}
@@ -2129,6 +2763,11 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
                       onFeedbackSaved={handleFeedbackSaved}
                       clientToDbMessageIdMap={clientToDbMessageIdMap}
                       onCreateDraftFromIdea={handleCreateDraftFromIdea}
+                      onRegenerate={handleRegenerate}
+                      onSelectAlternative={handleSelectAlternative}
+                      isLoading={isLoading}
+                      variantActions={variantActions}
+                      toolActions={toolActions}
                     />
 
                   {/* Loading indicator - only show when NOT streaming to draft panel */}
@@ -2213,7 +2852,7 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
                       isPosting={isPostingLinkedIn}
                       onContentEdit={handleDirectContentEdit}
                       isSavingEdit={isSavingDirectEdit}
-                      enableImageUpload={true}
+                      enableMediaUpload={true}
                       threadId={currentThread?.id}
                       userId={clerkUser?.id}
                       feedbackMap={feedbackMap}
@@ -2227,6 +2866,15 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
                       onVersionSelect={(version) => {
                         setSelectedDraftVersion(version);
                       }}
+                      onCreateVersionFromDiff={handleCreateVersionFromDiff}
+                      onFirstCommentChange={handleFirstCommentChange}
+                      onPublishedPostEdited={handlePublishedPostEdited}
+                      draftMedia={draftMedia}
+                      onDraftMediaChange={handleDraftMediaChange}
+                      carouselDecks={carouselDecks}
+                      onCarouselDeckChange={(draftId, deck) => setCarouselDecks(prev => ({ ...prev, [draftId]: deck }))}
+                      isCarouselOpen={isCarouselOpen}
+                      onCarouselOpenChange={setIsCarouselOpen}
                     />
                   )}
                 </div>
@@ -2245,7 +2893,15 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
                 }}
               >
                 <div className="max-w-4xl mx-auto px-6">
-                  <div className="bg-card rounded-2xl border border-border shadow-lg hover:shadow-xl transition-all">
+                  <div className="relative bg-card rounded-2xl border border-border shadow-lg hover:shadow-xl transition-all">
+                      {isChatActive && (
+                        <SlashCommandMenu
+                          options={slashCommands.options}
+                          activeCommand={slashCommands.activeCommand}
+                          onActiveCommandChange={slashCommands.setActiveCommand}
+                          onSelect={slashCommands.selectCommand}
+                        />
+                      )}
                       {/* Attached Files Preview */}
                       {attachedFiles.length > 0 && (
                         <div className="px-4 pt-3 flex flex-wrap gap-2">
@@ -2293,18 +2949,21 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
 
                       {/* Action Bar */}
                       <div className="flex items-center justify-between px-5 py-3 bg-gradient-to-r from-muted/30 to-muted/10 rounded-b-2xl">
-                        <button 
-                          onClick={() => fileInputFloatingRef.current?.click()}
-                          disabled={isExtractingFiles}
-                          className="text-muted-foreground hover:text-foreground transition-colors hover:scale-110 transition-transform disabled:opacity-50"
-                          title="Attach files (PDF, DOC, DOCX, JPG, PNG, SVG, TXT - max 5MB)"
-                        >
-                          {isExtractingFiles ? (
-                            <LoaderIcon className="h-5 w-5 animate-spin" />
-                          ) : (
-                            <Paperclip className="h-5 w-5" />
-                          )}
-                        </button>
+                        <div className="flex items-center gap-3">
+                          <button 
+                            onClick={() => fileInputFloatingRef.current?.click()}
+                            disabled={isExtractingFiles}
+                            className="text-muted-foreground hover:text-foreground transition-colors hover:scale-110 transition-transform disabled:opacity-50"
+                            title="Attach files (PDF, DOC, DOCX, JPG, PNG, SVG, TXT - max 5MB)"
+                          >
+                            {isExtractingFiles ? (
+                              <LoaderIcon className="h-5 w-5 animate-spin" />
+                            ) : (
+                              <Paperclip className="h-5 w-5" />
+                            )}
+                          </button>
+                          <ChatModePicker mode={chatMode} onChange={setChatMode} disabled={isLoading} />
+                        </div>
 
                         <div className="flex items-center gap-3">
                           <VoiceInput
@@ -2318,12 +2977,13 @@ export default function Create({ threadId, initialDraftId, initialVersionId }: C
                           />
                           <Button
                             size="sm"
-                            onClick={handleSendMessage}
-                            disabled={(!inputValue.trim() && attachedFiles.length === 0) || isLoading}
+                            onClick={isLoading ? stopGeneration : handleSendMessage}
+                            disabled={isLoading ? false : !inputValue.trim() && attachedFiles.length === 0}
                             className="bg-gradient-to-r from-orange-400 to-orange-500 hover:from-orange-500 hover:to-orange-600 text-white rounded-xl px-5 h-10 flex items-center gap-2 shadow-md hover:shadow-lg transition-all"
+                            title={isLoading ? "Stop generating" : undefined}
                           >
                             {isLoading ? (
-                              <LoaderIcon className="h-5 w-5 animate-spin" />
+                              <Square className="h-4 w-4 fill-current" />
                             ) : (
                               <Send className="h-5 w-5" />
                             )}
@@ -1,10 +1,119 @@
+"use client";
+
 import { AppLayout } from "@/components/app-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3, Users, TrendingUp, DollarSign, PenTool } from "lucide-react";
+import { MetricsCard } from "@/components/metrics-card";
+import { Eye, Users, TrendingUp, Heart, PenTool, RefreshCw, Calendar, AlertCircle, MessageCircle, Share2 } from "lucide-react";
 import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { useUser } from "@clerk/nextjs";
+import { useOrganization } from "@/contexts/OrganizationContext";
+import { useLinkedInGate } from "@/components/linkedin-gate";
+import { useDashboardData, type DashboardSummary } from "@/hooks/useDashboardData";
+
+type Change = string | null | undefined;
+
+const formatCount = (value: number | undefined) => {
+  if (!value) return "0";
+  return value >= 1000 ? `${(value / 1000).toFixed(1)}K` : value.toString();
+};
+
+const formatChange = (change: Change, suffix = "") =>
+  change
+    ? `${Number(change) > 0 ? '+' : ''}${change}% vs previous 30 days${suffix}`
+    : "No previous data";
+
+const changeType = (change: Change): "positive" | "negative" =>
+  !change || Number(change) >= 0 ? "positive" : "negative";
+
+// Unique visitors only come back as raw counts
+const percentChange = (current: number, previous: number): string | null =>
+  previous > 0 ? (((current - previous) / previous) * 100).toFixed(1) : null;
+
+interface MetricDefinition {
+  title: string;
+  value: string;
+  change: Change;
+  changeSuffix?: string;
+  icon: typeof Eye;
+}
+
+function getMetrics(summary: DashboardSummary | null, isPersonalProfile: boolean): MetricDefinition[] {
+  if (isPersonalProfile) {
+    return [
+      {
+        title: "Impressions",
+        value: formatCount(summary?.posts?.totalImpressions),
+        change: summary?.posts?.impressionChange,
+        icon: Eye,
+      },
+      {
+        title: "New Followers",
+        value: `+${formatCount(summary?.followers.currentPeriod)}`,
+        change: summary?.followers.changePercent,
+        changeSuffix: summary?.followers.lifetime ? ` • Total: ${summary.followers.lifetime.toLocaleString()}` : "",
+        icon: Users,
+      },
+      {
+        title: "Engagement Rate",
+        value: `${summary?.posts?.engagementRate || "0"}%`,
+        change: summary?.posts?.engagementChange,
+        icon: TrendingUp,
+      },
+      {
+        title: "Reactions",
+        value: formatCount(summary?.posts?.totalReactions),
+        change: summary?.posts?.reactionChange,
+        icon: Heart,
+      },
+    ];
+  }
+
+  const pageViews = summary?.pageViews;
+  return [
+    {
+      title: "Total Followers",
+      value: formatCount(summary?.followers.total),
+      change: summary?.followers.changePercent,
+      icon: Users,
+    },
+    {
+      title: "New Followers",
+      value: `+${formatCount(summary?.followers.currentPeriod)}`,
+      change: summary?.followers.changePercent,
+      icon: TrendingUp,
+    },
+    {
+      title: "Page Views",
+      value: formatCount(pageViews?.currentPeriod),
+      change: pageViews?.changePercent,
+      icon: Eye,
+    },
+    {
+      title: "Unique Visitors",
+      value: formatCount(pageViews?.uniqueViewsCurrent),
+      change: pageViews ? percentChange(pageViews.uniqueViewsCurrent, pageViews.uniqueViewsPrevious) : null,
+      icon: Heart,
+    },
+  ];
+}
 
 export default function Dashboard() {
+  const { user } = useUser();
+  const { selectedOrganization, isPersonalProfile } = useOrganization();
+  const { isLinkedInConnected } = useLinkedInGate();
+
+  const { summary, topPosts, upcoming, loading, error, lastUpdated, refresh } = useDashboardData({
+    userId: user?.id,
+    organizationId: selectedOrganization?.id,
+    isPersonalProfile,
+    enabled: !isPersonalProfile || isLinkedInConnected,
+  });
+
+  const metrics = getMetrics(summary, isPersonalProfile);
+  const notConnected = isPersonalProfile && !isLinkedInConnected;
+
   return (
     <AppLayout>
       <div className="flex-1 flex flex-col overflow-hidden">
@@ -13,103 +122,175 @@ export default function Dashboard() {
           <div>
             <h1 className="text-3xl font-bold">Dashboard</h1>
             <p className="text-muted-foreground mt-1">
-              Overview of your LinkedIn performance
+              {isPersonalProfile
+                ? "Overview of your LinkedIn performance"
+                : `Overview of ${selectedOrganization?.name}'s LinkedIn performance`
+              }
+              {lastUpdated && !loading && (
+                <span className="text-xs ml-2">
+                  • Last updated: {formatDistanceToNow(lastUpdated, { addSuffix: true })}
+                </span>
+              )}
             </p>
           </div>
-          <Link href="/create">
-            <Button className="flex items-center gap-2">
-              <PenTool className="h-4 w-4" />
-              Create new post
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={refresh} disabled={loading || notConnected} title="Refresh dashboard data">
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+              Refresh
             </Button>
-          </Link>
+            <Link href="/create">
+              <Button className="flex items-center gap-2">
+                <PenTool className="h-4 w-4" />
+                Create new post
+              </Button>
+            </Link>
+          </div>
         </div>
-        
+
         <main className="flex-1 overflow-auto p-6">
+          {/* Error State */}
+          {(notConnected || error === 'LinkedIn not connected') ? (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+              <p className="text-yellow-800">
+                Please connect your LinkedIn account in the sidebar to view your dashboard.
+              </p>
+            </div>
+          ) : error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+              <p className="text-red-800">{error}</p>
+            </div>
+          )}
+
+          {/* Re-authentication Required */}
+          {summary?.requiresReauth && !error && (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+              <p className="text-amber-800 font-medium">Analytics Permission Required</p>
+              <p className="text-amber-700 text-sm mt-1">
+                {summary.message || 'Please reconnect your LinkedIn account to grant analytics permissions.'}
+              </p>
+            </div>
+          )}
+
           {/* Quick Stats */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">
-                  Total Reach
-                </CardTitle>
-                <BarChart3 className="h-5 w-5 text-blue-500" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold">125.8K</div>
-                <div className="text-xs text-green-600 flex items-center gap-1 mt-1">
-                  <span className="↗"></span>
-                  +15.2% from last month
-                </div>
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">
-                  New Followers
-                </CardTitle>
-                <Users className="h-5 w-5 text-purple-500" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold">2,847</div>
-                <div className="text-xs text-green-600 flex items-center gap-1 mt-1">
-                  <span className="↗"></span>
-                  +22.1% from last month
-                </div>
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">
-                  Engagement
-                </CardTitle>
-                <TrendingUp className="h-5 w-5 text-pink-500" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold">8.5%</div>
-                <div className="text-xs text-red-600 flex items-center gap-1 mt-1">
-                  <span className="↘"></span>
-                  -1.2% from last month
-                </div>
-              </CardContent>
-            </Card>
-            
-            <Card>
-              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium text-muted-foreground">
-                  Revenue Impact
-                </CardTitle>
-                <DollarSign className="h-5 w-5 text-green-500" />
-              </CardHeader>
-              <CardContent>
-                <div className="text-2xl font-bold">$12.5K</div>
-                <div className="text-xs text-green-600 flex items-center gap-1 mt-1">
-                  <span className="↗"></span>
-                  +8.7% from last month
-                </div>
-              </CardContent>
-            </Card>
+            {loading
+              ? [1, 2, 3, 4].map(i => (
+                  <Card key={i}>
+                    <CardContent className="p-6 space-y-3">
+                      <div className="h-4 w-24 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+                      <div className="h-8 w-16 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+                      <div className="h-3 w-32 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+                    </CardContent>
+                  </Card>
+                ))
+              : metrics.map(metric => (
+                  <MetricsCard
+                    key={metric.title}
+                    title={metric.title}
+                    value={error || notConnected ? "N/A" : metric.value}
+                    change={error || notConnected || !summary ? "" : formatChange(metric.change, metric.changeSuffix)}
+                    changeType={changeType(metric.change)}
+                    icon={metric.icon}
+                    iconColor="text-muted-foreground"
+                  />
+                ))
+            }
           </div>
-          
 
-          {/* Placeholder for more dashboard content */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Top Posts */}
             <Card>
               <CardHeader>
-                <CardTitle>Recent Activity</CardTitle>
+                <CardTitle>{isPersonalProfile ? "Recently Published" : "Top Performing Posts"}</CardTitle>
               </CardHeader>
               <CardContent>
-                <p className="text-muted-foreground">Activity feed will be displayed here...</p>
+                {loading ? (
+                  <div className="space-y-3">
+                    {[1, 2, 3].map(i => (
+                      <div key={i} className="h-14 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>
+                    ))}
+                  </div>
+                ) : topPosts.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">
+                    {isPersonalProfile
+                      ? "Posts you publish from AlphaZ will appear here."
+                      : "No posts found for this organization yet."
+                    }
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {topPosts.map(post => (
+                      <div key={post.id} className="border border-border rounded-lg p-3">
+                        <p className="text-sm line-clamp-2 text-foreground">{post.text}</p>
+                        <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+                          {post.publishedAt && (
+                            <span>{formatDistanceToNow(new Date(post.publishedAt), { addSuffix: true })}</span>
+                          )}
+                          {post.metrics && (
+                            <>
+                              <span className="flex items-center gap-1"><Eye className="h-3 w-3" />{formatCount(post.metrics.impressions)}</span>
+                              <span className="flex items-center gap-1"><Heart className="h-3 w-3" />{post.metrics.likes}</span>
+                              <span className="flex items-center gap-1"><MessageCircle className="h-3 w-3" />{post.metrics.comments}</span>
+                              <span className="flex items-center gap-1"><Share2 className="h-3 w-3" />{post.metrics.reposts}</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
-            
+
+            {/* Upcoming Scheduled Posts */}
             <Card>
-              <CardHeader>
-                <CardTitle>Top Performing Posts</CardTitle>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>Upcoming Posts</CardTitle>
+                <Link href="/plan" className="text-sm text-primary hover:underline">
+                  View plan
+                </Link>
               </CardHeader>
               <CardContent>
-                <p className="text-muted-foreground">Top posts analytics will be shown here...</p>
+                {loading ? (
+                  <div className="space-y-3">
+                    {[1, 2, 3].map(i => (
+                      <div key={i} className="h-14 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>
+                    ))}
+                  </div>
+                ) : upcoming.length === 0 ? (
+                  <p className="text-muted-foreground text-sm">
+                    Nothing scheduled. <Link href="/create" className="text-primary hover:underline">Create a post</Link> and schedule it from the draft panel.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {upcoming.map(draft => (
+                      <Link key={draft.id} href="/plan" className="block border border-border rounded-lg p-3 hover:bg-accent transition-colors">
+                        <div className="flex items-center gap-2 text-xs mb-1">
+                          {draft.status === 'failed' ? (
+                            <span className="flex items-center gap-1 text-red-600 font-medium">
+                              <AlertCircle className="h-3 w-3" />
+                              Failed to publish
+                            </span>
+                          ) : draft.status === 'publishing' ? (
+                            <span className="flex items-center gap-1 text-blue-600 font-medium">
+                              <RefreshCw className="h-3 w-3 animate-spin" />
+                              Publishing
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-muted-foreground">
+                              <Calendar className="h-3 w-3" />
+                              {draft.scheduled_at ? new Date(draft.scheduled_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : 'Unscheduled'}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm line-clamp-2 text-foreground">{draft.title || draft.content}</p>
+                        {draft.status === 'failed' && draft.failure_reason && (
+                          <p className="text-xs text-red-600 mt-1 line-clamp-1">{draft.failure_reason}</p>
+                        )}
+                      </Link>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -117,4 +298,4 @@ export default function Dashboard() {
       </div>
     </AppLayout>
   );
-}
\ No newline at end of file
+}
@@ -3,7 +3,7 @@
 import { AppLayout } from "@/components/app-layout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Calendar as CalendarIcon, List, Clock, CheckCircle2, Trash2, Edit2, ExternalLink, ChevronLeft, ChevronRight, Linkedin, Loader2 } from "lucide-react";
+import { Calendar as CalendarIcon, List, Clock, CheckCircle2, Trash2, Edit2, ExternalLink, ChevronLeft, ChevronRight, Linkedin, Loader2, AlertCircle, TrendingUp, Paperclip, MessageSquare } from "lucide-react";
 import { useState, useEffect, useCallback } from "react";
 import { useUser } from "@/hooks/useUser";
 import { useOrganization } from "@/contexts/OrganizationContext";
@@ -21,6 +21,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { DateTimePicker } from "@/components/ui/date-time-picker";
+import { PostPerformance } from "@/components/post-performance";
+import { PostLintTray } from "@/components/post-lint-tray";
+import { countPostCharacters, describePublishBlockers, describeScheduleBlockers, hasLintErrors, LINKEDIN_MAX_COMMENT_LENGTH, lintPost } from "@/lib/postLint";
+import { markdownToLinkedIn } from "@/lib/linkedinFormatting";
+import { describeDraftMedia, restoreDraftMedia, type StoredDraftMedia } from "@/lib/draftMedia";
+import { uploadPostMedia } from "@/lib/linkedinMedia";
 
 interface ScheduledDraft {
   id: string;
@@ -32,18 +38,48 @@ interface ScheduledDraft {
   content: string;
   title: string | null;
   scheduled_at: string | null;
-  status: 'saved' | 'scheduled' | 'posted';
+  status: 'saved' | 'scheduled' | 'publishing' | 'posted' | 'failed';
   notes: string | null;
   created_at: string;
   updated_at: string;
   posted_at: string | null;
+  linkedin_post_urn: string | null;
+  publish_attempts: number;
+  failure_reason: string | null;
+  media: StoredDraftMedia[];
+  first_comment: string | null;
+  first_comment_status: 'pending' | 'posted' | 'failed' | null;
+  first_comment_attempts: number;
+  first_comment_error: string | null;
+}
+
+/** First comment outcome from a publish response */
+interface FirstCommentResult {
+  status: 'posted' | 'failed';
+  urn?: string | null;
+  error?: string;
+}
+
+/**
+ * How a posted draft's first comment went, or null when it had none
+ */
+function describeFirstComment(draft: ScheduledDraft): { text: string; tone: 'success' | 'pending' | 'error' } | null {
+  if (!draft.first_comment || !draft.first_comment_status) return null;
+  switch (draft.first_comment_status) {
+    case 'posted':
+      return { text: 'First comment posted', tone: 'success' };
+    case 'pending':
+      return { text: `First comment failed, retrying (attempt ${draft.first_comment_attempts + 1})`, tone: 'pending' };
+    case 'failed':
+      return { text: `First comment failed: ${draft.first_comment_error || 'unknown error'}`, tone: 'error' };
+  }
 }
 
 export default function Plan() {
   const { user, loading: userLoading } = useUser();
   const { selectedOrganization, isPersonalProfile } = useOrganization();
   const { requireLinkedIn, isLinkedInConnected } = useLinkedInGate();
-  const [view, setView] = useState<'list' | 'calendar'>('calendar');
+  const [view, setView] = useState<'list' | 'calendar' | 'performance'>('calendar');
   const [drafts, setDrafts] = useState<ScheduledDraft[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
   const [loading, setLoading] = useState(true);
@@ -53,8 +89,16 @@ export default function Plan() {
     content: '',
     title: '',
     scheduledAt: undefined as Date | undefined,
-    notes: ''
+    notes: '',
+    firstComment: ''
   });
+  // A dated entry is published unattended, so it can't be saved while it would be blocked
+  const editScheduleBlocker = editForm.scheduledAt
+    ? describeScheduleBlockers(
+        markdownToLinkedIn(editForm.content),
+        editForm.firstComment.trim() ? markdownToLinkedIn(editForm.firstComment.trim()) : undefined
+      )
+    : null;
   const [isPosting, setIsPosting] = useState<string | null>(null); // draft id being posted
   const [postStatus, setPostStatus] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(null);
   const [isPublishDialogOpen, setIsPublishDialogOpen] = useState(false);
@@ -118,7 +162,7 @@ export default function Plan() {
     }
   };
 
-  const handleMarkAsPosted = async (draftId: string) => {
+  const handleMarkAsPosted = async (draftId: string, linkedinPostUrn?: string, firstCommentResult?: FirstCommentResult) => {
     try {
       const response = await fetch(
         `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/scheduled-drafts/${draftId}`,
@@ -126,7 +170,7 @@ export default function Plan() {
           method: 'PATCH',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
-          body: JSON.stringify({ status: 'posted' })
+          body: JSON.stringify({ status: 'posted', linkedinPostUrn, firstCommentResult })
         }
       );
       
@@ -164,7 +208,8 @@ export default function Plan() {
       content: draft.content,
       title: draft.title || '',
       scheduledAt: draft.scheduled_at ? new Date(draft.scheduled_at) : undefined,
-      notes: draft.notes || ''
+      notes: draft.notes || '',
+      firstComment: draft.first_comment || ''
     });
     setIsEditDialogOpen(true);
   };
@@ -292,6 +337,19 @@ export default function Plan() {
     if (!draggedDraft || !scheduleTime) return;
     
     try {
+      // Older entries and ideas saved from chat may still hold markdown; the publisher posts content as stored
+      const content = markdownToLinkedIn(draggedDraft.content);
+      // The publisher posts scheduled drafts without anyone checking them first
+      const scheduleBlocker = describeScheduleBlockers(
+        content,
+        draggedDraft.first_comment?.trim() ? markdownToLinkedIn(draggedDraft.first_comment.trim()) : undefined
+      );
+      if (scheduleBlocker) {
+        setPostStatus({ type: 'error', message: scheduleBlocker });
+        setTimeout(() => setPostStatus(null), 5000);
+        return;
+      }
+
       const response = await fetch(
         `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/scheduled-drafts/${draggedDraft.id}`,
         {
@@ -299,7 +357,7 @@ export default function Plan() {
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
           body: JSON.stringify({
-            content: draggedDraft.content,
+            content,
             title: draggedDraft.title,
             scheduledAt: scheduleTime.toISOString(),
             notes: draggedDraft.notes,
@@ -332,18 +390,55 @@ export default function Plan() {
       setPostStatus({ type: 'error', message: 'User not loaded yet.' });
       return;
     }
+    // LinkedIn shows markdown literally; publish its Unicode formatting instead
+    const content = markdownToLinkedIn(draft.content);
+    const publishBlocker = describePublishBlockers(content);
+    if (publishBlocker) {
+      setPostStatus({ type: 'error', message: publishBlocker });
+      setTimeout(() => setPostStatus(null), 5000);
+      return;
+    }
+    const firstComment = draft.first_comment?.trim() ? markdownToLinkedIn(draft.first_comment.trim()) : undefined;
+    if (firstComment && countPostCharacters(firstComment) > LINKEDIN_MAX_COMMENT_LENGTH) {
+      setPostStatus({ type: 'error', message: `The first comment is over LinkedIn's ${LINKEDIN_MAX_COMMENT_LENGTH.toLocaleString()} character limit.` });
+      setTimeout(() => setPostStatus(null), 5000);
+      return;
+    }
 
     try {
       setIsPosting(draft.id);
+
+      // Attachments are uploaded again from their stored copies
+      let postMedia = {};
+      if (draft.media?.length > 0) {
+        setPostStatus({ type: 'info', message: 'Loading attachments...' });
+        const attachments = await restoreDraftMedia(user.clerk_user_id, draft.media);
+        if (attachments.length < draft.media.length) {
+          throw new Error('Some attachments are no longer stored. Attach them to the draft again.');
+        }
+        postMedia = await uploadPostMedia(
+          attachments,
+          { clerkUserId: user.clerk_user_id, organizationId: selectedOrganization?.id, isPersonal: isPersonalProfile },
+          message => setPostStatus({ type: 'info', message })
+        );
+      }
       setPostStatus({ type: 'info', message: 'Publishing to LinkedIn...' });
       
       const endpoint = isPersonalProfile 
         ? `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/linkedin/post/personal`
         : `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000'}/api/linkedin/post`;
       
+      // Link the post to the draft it came from for performance tracking
+      const source = {
+        scheduledDraftId: draft.id,
+        threadId: draft.thread_id || undefined,
+        draftId: draft.draft_id || undefined,
+        draftVersionId: draft.draft_version_id || undefined
+      };
+
       const payload = isPersonalProfile
-        ? { clerkUserId: user.clerk_user_id, content: draft.content }
-        : { clerkUserId: user.clerk_user_id, organizationId: selectedOrganization?.id, content: draft.content };
+        ? { clerkUserId: user.clerk_user_id, content, ...postMedia, firstComment, ...source }
+        : { clerkUserId: user.clerk_user_id, organizationId: selectedOrganization?.id, content, ...postMedia, firstComment, ...source };
       
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -360,8 +455,11 @@ export default function Plan() {
       }
 
       // Mark as posted in the database
-      await handleMarkAsPosted(draft.id);
-      setPostStatus({ type: 'success', message: 'Published to LinkedIn!' });
+      // A failed first comment is recorded on the draft and retried by the publisher
+      await handleMarkAsPosted(draft.id, data?.postUrn, data?.firstComment);
+      setPostStatus(data?.firstComment?.status === 'failed'
+        ? { type: 'info', message: 'Published to LinkedIn! The first comment failed and will be retried.' }
+        : { type: 'success', message: 'Published to LinkedIn!' });
       
       // Clear status after 3 seconds
       setTimeout(() => setPostStatus(null), 3000);
@@ -376,6 +474,7 @@ export default function Plan() {
 
   const handleSaveEdit = async () => {
     if (!selectedDraft) return;
+    if (editScheduleBlocker) return;
     
     try {
       const response = await fetch(
@@ -385,10 +484,12 @@ export default function Plan() {
           headers: { 'Content-Type': 'application/json' },
           credentials: 'include',
           body: JSON.stringify({
-            content: editForm.content,
+            // Stored text is published as-is, so convert it the way the create page does
+            content: markdownToLinkedIn(editForm.content),
             title: editForm.title || null,
             scheduledAt: editForm.scheduledAt?.toISOString() || null,
-            notes: editForm.notes || null
+            notes: editForm.notes || null,
+            firstComment: editForm.firstComment.trim() ? markdownToLinkedIn(editForm.firstComment.trim()) : null
           })
         }
       );
@@ -404,8 +505,10 @@ export default function Plan() {
   };
 
   const savedDrafts = drafts.filter(d => d.status === 'saved');
-  const scheduledDrafts = drafts.filter(d => d.status === 'scheduled');
+  // Drafts the publisher is sending right now stay on the calendar until posted
+  const scheduledDrafts = drafts.filter(d => d.status === 'scheduled' || d.status === 'publishing');
   const postedDrafts = drafts.filter(d => d.status === 'posted');
+  const failedDrafts = drafts.filter(d => d.status === 'failed');
 
   const getDraftsForDate = (date: Date) => {
     const dateStr = format(date, 'yyyy-MM-dd');
@@ -449,10 +552,90 @@ export default function Plan() {
               <CalendarIcon className="h-4 w-4" />
               Calendar
             </Button>
+            <Button
+              variant={view === 'performance' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setView('performance')}
+              className="flex items-center gap-2"
+            >
+              <TrendingUp className="h-4 w-4" />
+              Performance
+            </Button>
           </div>
         </div>
         
         <main className="flex-1 overflow-auto p-6">
+          {/* Failed to publish - shown above both views so failures aren't missed */}
+          {!(isPersonalProfile && !isLinkedInConnected) && !loading && failedDrafts.length > 0 && (
+            <div className="mb-6">
+              <h2 className="text-xl font-semibold mb-4 text-red-600 dark:text-red-400">
+                Failed to publish ({failedDrafts.length})
+              </h2>
+              <div className="space-y-3">
+                {failedDrafts.map((draft) => (
+                  <Card key={draft.id} className="border-red-200 dark:border-red-900">
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-2">
+                            <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+                            <span className="text-sm font-medium text-red-600 dark:text-red-400">
+                              {draft.failure_reason || 'Failed to post to LinkedIn'}
+                            </span>
+                          </div>
+                          {draft.scheduled_at && (
+                            <p className="text-xs text-muted-foreground mb-2">
+                              Planned for {format(new Date(draft.scheduled_at), 'MMM d, yyyy • h:mm a')}
+                              {draft.publish_attempts > 0 && ` • ${draft.publish_attempts} attempt${draft.publish_attempts === 1 ? '' : 's'}`}
+                            </p>
+                          )}
+                          {draft.title && (
+                            <h3 className="font-semibold mb-2">{draft.title}</h3>
+                          )}
+                          <p className="text-sm text-muted-foreground line-clamp-2">
+                            {draft.content}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1 flex-shrink-0">
+                          <Button
+                            size="sm"
+                            onClick={() => handlePublishClick(draft)}
+                            disabled={isPosting === draft.id}
+                            title="Publish on LinkedIn now"
+                            className="mr-2 bg-[#0A66C2] hover:bg-[#004182] text-white"
+                          >
+                            {isPosting === draft.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Linkedin className="h-4 w-4" />
+                            )}
+                            <span className="ml-1 hidden sm:inline">Publish</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(draft)}
+                            title="Edit or reschedule"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(draft.id)}
+                            title="Delete"
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* LinkedIn Connection CTA for Personal Profiles */}
           {isPersonalProfile && !isLinkedInConnected ? (
             <div className="flex items-center justify-center h-64">
@@ -484,6 +667,13 @@ export default function Plan() {
             <div className="flex items-center justify-center h-64">
               <div className="text-muted-foreground">Loading drafts...</div>
             </div>
+          ) : view === 'performance' ? (
+            <PostPerformance
+              userId={user?.clerk_user_id}
+              organizationId={isPersonalProfile ? undefined : selectedOrganization?.id}
+              emptyMessage="Posts you publish through Alphaz will show their performance here"
+              onPostEdited={() => fetchDrafts()}
+            />
           ) : view === 'list' ? (
             <div className="space-y-6">
               {/* Planned Drafts */}
@@ -507,6 +697,16 @@ export default function Plan() {
                                 <span className="text-sm font-medium text-blue-600 dark:text-blue-400">
                                   {draft.scheduled_at && format(new Date(draft.scheduled_at), 'MMM d, yyyy • h:mm a')}
                                 </span>
+                                {draft.status === 'publishing' ? (
+                                  <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                    <Loader2 className="h-3 w-3 animate-spin" />
+                                    Publishing...
+                                  </span>
+                                ) : draft.publish_attempts > 0 && draft.failure_reason ? (
+                                  <span className="text-xs text-amber-600 dark:text-amber-400" title={draft.failure_reason}>
+                                    Retrying (attempt {draft.publish_attempts + 1})
+                                  </span>
+                                ) : null}
                               </div>
                               {draft.title && (
                                 <h3 className="font-semibold mb-2">{draft.title}</h3>
@@ -514,6 +714,12 @@ export default function Plan() {
                               <p className="text-sm text-muted-foreground line-clamp-3 mb-2">
                                 {draft.content}
                               </p>
+                              {describeDraftMedia(draft.media || []) && (
+                                <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                                  <Paperclip className="h-3 w-3" />
+                                  {describeDraftMedia(draft.media || [])}
+                                </p>
+                              )}
                               {draft.notes && (
                                 <p className="text-xs text-muted-foreground italic">Note: {draft.notes}</p>
                               )}
@@ -604,6 +810,12 @@ export default function Plan() {
                               <p className="text-sm text-muted-foreground line-clamp-3 mb-2">
                                 {draft.content}
                               </p>
+                              {describeDraftMedia(draft.media || []) && (
+                                <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+                                  <Paperclip className="h-3 w-3" />
+                                  {describeDraftMedia(draft.media || [])}
+                                </p>
+                              )}
                               {draft.notes && (
                                 <p className="text-xs text-muted-foreground italic">Note: {draft.notes}</p>
                               )}
@@ -697,6 +909,24 @@ export default function Plan() {
                               <p className="text-sm text-muted-foreground line-clamp-2">
                                 {draft.content}
                               </p>
+                              {(() => {
+                                const firstComment = describeFirstComment(draft);
+                                if (!firstComment) return null;
+                                return (
+                                  <p
+                                    className={`flex items-center gap-1 text-xs mt-2 ${
+                                      firstComment.tone === 'success'
+                                        ? 'text-green-600 dark:text-green-400'
+                                        : firstComment.tone === 'pending'
+                                        ? 'text-amber-600 dark:text-amber-400'
+                                        : 'text-red-600 dark:text-red-400'
+                                    }`}
+                                  >
+                                    <MessageSquare className="h-3 w-3 flex-shrink-0" />
+                                    {firstComment.text}
+                                  </p>
+                                );
+                              })()}
                             </div>
                             <Button
                               variant="ghost"
@@ -1156,7 +1386,7 @@ export default function Plan() {
             <DialogHeader>
               <DialogTitle>Edit Draft</DialogTitle>
               <DialogDescription>
-                Edit the content, schedule, title, or notes for this draft
+                Edit the content, first comment, schedule, title, or notes for this draft
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
@@ -1170,11 +1400,26 @@ export default function Plan() {
                   rows={8}
                   className="font-mono text-sm"
                 />
-                <p className="text-xs text-muted-foreground mt-1">
-                  {editForm.content.length} characters
-                  {selectedDraft?.draft_version_id && (
-                    <span className="ml-2">• Changes will also update the original draft version</span>
-                  )}
+                <div className="mt-2">
+                  <PostLintTray content={markdownToLinkedIn(editForm.content)} issues={lintPost(markdownToLinkedIn(editForm.content))} />
+                </div>
+                {selectedDraft?.draft_version_id && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Changes will also update the original draft version
+                  </p>
+                )}
+              </div>
+              <div>
+                <Label htmlFor="firstComment">First comment (optional)</Label>
+                <Textarea
+                  id="firstComment"
+                  value={editForm.firstComment}
+                  onChange={(e) => setEditForm({ ...editForm, firstComment: e.target.value })}
+                  placeholder="Link or hashtags to comment once the post is live"
+                  rows={2}
+                />
+                <p className={`text-xs mt-1 ${countPostCharacters(editForm.firstComment) > LINKEDIN_MAX_COMMENT_LENGTH ? 'text-red-600 dark:text-red-400' : 'text-muted-foreground'}`}>
+                  {countPostCharacters(editForm.firstComment).toLocaleString()} / {LINKEDIN_MAX_COMMENT_LENGTH.toLocaleString()} characters · posted right after publishing
                 </p>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -1216,7 +1461,7 @@ export default function Plan() {
               <Button variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                 Cancel
               </Button>
-              <Button onClick={handleSaveEdit}>
+              <Button onClick={handleSaveEdit} disabled={!!editScheduleBlocker} title={editScheduleBlocker ?? undefined}>
                 Save Changes
               </Button>
             </DialogFooter>
@@ -1392,6 +1637,9 @@ export default function Plan() {
                   : draftToPublish.content}
               </div>
             )}
+            {draftToPublish && (
+              <PostLintTray content={markdownToLinkedIn(draftToPublish.content)} issues={lintPost(markdownToLinkedIn(draftToPublish.content))} />
+            )}
             <DialogFooter className="gap-2 sm:gap-0">
               <Button variant="outline" onClick={() => {
                 setIsPublishDialogOpen(false);
@@ -1401,6 +1649,7 @@ export default function Plan() {
               </Button>
               <Button 
                 onClick={handleConfirmPublish}
+                disabled={!!draftToPublish && hasLintErrors(lintPost(markdownToLinkedIn(draftToPublish.content)))}
                 className="bg-[#0A66C2] hover:bg-[#004182] text-white"
               >
                 <Linkedin className="h-4 w-4 mr-2" />
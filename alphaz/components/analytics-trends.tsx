@@ -0,0 +1,143 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { useUser } from "@clerk/nextjs"
+import { ChartCard } from "./chart-card"
+import { LineChart, StackedAreaChart } from "./charts"
+import { SimpleDropdown } from "@/components/ui/simple-dropdown"
+import { useOrganization } from "@/contexts/OrganizationContext"
+import { useAnalyticsTimeSeries, type AnalyticsSnapshot } from "@/hooks/useAnalyticsTimeSeries"
+import { followerGrowthSeries, type ChartMarker, type ChartSeries } from "@/lib/chartData"
+
+const trendRanges = [
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last 365 days" },
+]
+
+interface AnalyticsTrendsProps {
+  /** Current dashboard followers, used until enough daily snapshots exist */
+  followers?: {
+    lifetime?: number
+    total?: number
+    currentPeriod: number
+    previousPeriod: number
+  }
+  /** Period of the dashboard followers ("30d", ...) */
+  period: string
+}
+
+// Snapshot field as a time series, skipping days the field wasn't collected
+function toSeries(snapshots: AnalyticsSnapshot[], field: keyof AnalyticsSnapshot, label: string, color?: string): ChartSeries {
+  return {
+    key: field,
+    label,
+    color,
+    data: snapshots
+      .filter(s => typeof s[field] === "number")
+      .map(s => ({ date: `${s.date}T00:00:00`, value: s[field] as number })),
+  }
+}
+
+/**
+ * Growth trends from daily analytics snapshots, with publish dates marked
+ */
+export function AnalyticsTrends({ followers, period }: AnalyticsTrendsProps) {
+  const { user } = useUser()
+  const { selectedOrganization, isPersonalProfile } = useOrganization()
+  const [range, setRange] = useState("30")
+
+  const { data, loading, error } = useAnalyticsTimeSeries({
+    userId: user?.id,
+    organizationId: isPersonalProfile ? undefined : selectedOrganization?.id,
+    days: Number(range),
+  })
+
+  const snapshots = useMemo(() => data?.snapshots || [], [data])
+  const markers: ChartMarker[] = useMemo(
+    () => (data?.posts || []).map(post => ({ date: post.postedAt, label: `Posted: ${post.title}` })),
+    [data]
+  )
+
+  // Snapshots start when the worker first runs; until then show the period estimate
+  const hasHistory = snapshots.filter(s => s.followers !== null).length >= 2
+  const followerSeries: ChartSeries[] = hasHistory
+    ? [toSeries(snapshots, "followers", "Followers")]
+    : followers
+      ? [{ key: "followers", label: "Followers", data: followerGrowthSeries(followers, period) }]
+      : []
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold">Trends</h2>
+        <SimpleDropdown options={trendRanges} value={range} onChange={setRange} />
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {[1, 2].map(i => (
+            <div key={i} className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6">
+              <div className="h-6 w-40 bg-gray-200 dark:bg-gray-700 rounded animate-pulse mb-4"></div>
+              <div className="h-48 bg-gray-100 dark:bg-gray-700 rounded animate-pulse"></div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ChartCard title="Followers Growth">
+            <LineChart series={followerSeries} markers={markers} emptyMessage="No follower data yet" />
+            {!hasHistory && followerSeries.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Estimated from period totals. Daily history builds up from today.
+              </p>
+            )}
+          </ChartCard>
+
+          {isPersonalProfile ? (
+            <>
+              <ChartCard title="Impressions">
+                <LineChart
+                  series={[toSeries(snapshots, "impressions", "Impressions", "#3b82f6")]}
+                  markers={markers}
+                  emptyMessage="Daily history builds up from today"
+                />
+              </ChartCard>
+              <ChartCard title="Daily Engagement">
+                <StackedAreaChart
+                  data={snapshots.map(s => ({
+                    date: `${s.date}T00:00:00`,
+                    values: { reactions: s.reactions || 0, comments: s.comments || 0, reshares: s.reshares || 0 },
+                  }))}
+                  keys={[
+                    { key: "reactions", label: "Reactions" },
+                    { key: "comments", label: "Comments" },
+                    { key: "reshares", label: "Reshares" },
+                  ]}
+                  emptyMessage="Daily history builds up from today"
+                />
+              </ChartCard>
+            </>
+          ) : (
+            <ChartCard title="Page Views">
+              <LineChart
+                series={[
+                  toSeries(snapshots, "pageViews", "Page views", "#3b82f6"),
+                  toSeries(snapshots, "uniquePageViews", "Unique visitors", "#10b981"),
+                ]}
+                markers={markers}
+                emptyMessage="Daily history builds up from today"
+              />
+            </ChartCard>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
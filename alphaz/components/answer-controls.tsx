@@ -0,0 +1,87 @@
+"use client";
+
+import { memo } from "react";
+import { ChevronLeft, ChevronRight, RotateCcw } from "lucide-react";
+import type { StopReason } from "@/hooks/useAIChat";
+
+interface AnswerControlsProps {
+  messageId: string;
+  /** Answers generated for this turn (1 unless regenerated) */
+  alternativeCount: number;
+  alternativeIndex: number;
+  stopReason?: StopReason;
+  /** Only passed for the latest answer */
+  onRegenerate?: () => void;
+  onSelectAlternative?: (messageId: string, index: number) => void;
+  /** True while an answer is streaming */
+  disabled?: boolean;
+}
+
+const stopLabels: Record<StopReason, string> = {
+  stopped: "Stopped",
+  interrupted: "Connection lost",
+};
+
+/**
+ * Stop status, alternative picker and Regenerate for an assistant answer
+ */
+export const AnswerControls = memo(({
+  messageId,
+  alternativeCount,
+  alternativeIndex,
+  stopReason,
+  onRegenerate,
+  onSelectAlternative,
+  disabled,
+}: AnswerControlsProps) => {
+  const hasAlternatives = alternativeCount > 1 && !!onSelectAlternative;
+  if (!stopReason && !hasAlternatives && !onRegenerate) return null;
+
+  return (
+    <div className="w-full flex justify-center">
+      <div className="max-w-4xl w-full px-6">
+        <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          {stopReason && (
+            <span className="text-amber-600 dark:text-amber-400">{stopLabels[stopReason]}</span>
+          )}
+
+          {hasAlternatives && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onSelectAlternative(messageId, alternativeIndex - 1)}
+                disabled={disabled || alternativeIndex === 0}
+                className="p-0.5 rounded hover:text-foreground disabled:opacity-40 disabled:hover:text-muted-foreground transition-colors"
+                title="Previous answer"
+              >
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </button>
+              <span className="tabular-nums">{alternativeIndex + 1}/{alternativeCount}</span>
+              <button
+                onClick={() => onSelectAlternative(messageId, alternativeIndex + 1)}
+                disabled={disabled || alternativeIndex === alternativeCount - 1}
+                className="p-0.5 rounded hover:text-foreground disabled:opacity-40 disabled:hover:text-muted-foreground transition-colors"
+                title="Next answer"
+              >
+                <ChevronRight className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          )}
+
+          {onRegenerate && (
+            <button
+              onClick={onRegenerate}
+              disabled={disabled}
+              className="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-40 transition-colors"
+              title="Generate a new answer to this message"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Regenerate
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+AnswerControls.displayName = 'AnswerControls';
@@ -0,0 +1,297 @@
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Download, Loader2, Palette, Paperclip, Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { useOrganization, type BrandColors } from "@/contexts/OrganizationContext";
+import {
+  carouselFileName,
+  MAX_CAROUSEL_SLIDES,
+  MAX_SLIDE_BULLETS,
+  MIN_CAROUSEL_SLIDES,
+  type CarouselDeck,
+  type CarouselSlide,
+} from "@/lib/carousel";
+import { drawSlide, loadLogo, renderCarouselPdf, SLIDE_HEIGHT, SLIDE_WIDTH, type CarouselTheme } from "@/lib/carouselRender";
+
+interface CarouselEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deck: CarouselDeck;
+  onDeckChange: (deck: CarouselDeck) => void;
+  /** Attach the rendered PDF to the post; hidden when the post can't take media */
+  onAttach?: (file: File) => void;
+}
+
+const BRAND_COLOR_FIELDS: { key: keyof BrandColors; label: string }[] = [
+  { key: "background", label: "Background" },
+  { key: "accent", label: "Accent" },
+  { key: "text", label: "Text" },
+];
+
+/**
+ * Slide editor for a carousel deck
+ * Slides are drawn in the account's brand colours with its logo, and the deck
+ * renders to a PDF that is attached to the post as a document or downloaded.
+ */
+export const CarouselEditor = memo(({ open, onOpenChange, deck, onDeckChange, onAttach }: CarouselEditorProps) => {
+  const { selectedOrganization, brandColors, setBrandColors } = useOrganization();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [logo, setLogo] = useState<HTMLImageElement | null>(null);
+  const [renderingAction, setRenderingAction] = useState<"download" | "attach" | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  const theme = useMemo<CarouselTheme>(() => ({
+    ...brandColors,
+    logoUrl: selectedOrganization?.logoUrl,
+    name: selectedOrganization?.name,
+  }), [brandColors, selectedOrganization]);
+
+  const currentIndex = Math.min(selectedIndex, deck.slides.length - 1);
+  const currentSlide = deck.slides[currentIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLogo(theme.logoUrl).then(image => {
+      if (!cancelled) setLogo(image);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [theme.logoUrl]);
+
+  // Redraw the preview whenever the slide or brand changes
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!open || !ctx || !currentSlide) return;
+    drawSlide(ctx, currentSlide, currentIndex, deck.slides.length, theme, logo);
+  }, [open, currentSlide, currentIndex, deck.slides.length, theme, logo]);
+
+  const updateSlide = useCallback((index: number, changes: Partial<CarouselSlide>) => {
+    onDeckChange({
+      ...deck,
+      slides: deck.slides.map((slide, i) => (i === index ? { ...slide, ...changes } : slide)),
+    });
+  }, [deck, onDeckChange]);
+
+  const moveSlide = useCallback((index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= deck.slides.length) return;
+    const slides = [...deck.slides];
+    [slides[index], slides[target]] = [slides[target], slides[index]];
+    onDeckChange({ ...deck, slides });
+    setSelectedIndex(target);
+  }, [deck, onDeckChange]);
+
+  const addSlide = useCallback(() => {
+    if (deck.slides.length >= MAX_CAROUSEL_SLIDES) return;
+    const slides = [...deck.slides];
+    slides.splice(currentIndex + 1, 0, { title: "New slide", bullets: [] });
+    onDeckChange({ ...deck, slides });
+    setSelectedIndex(currentIndex + 1);
+  }, [deck, currentIndex, onDeckChange]);
+
+  const removeSlide = useCallback((index: number) => {
+    if (deck.slides.length <= MIN_CAROUSEL_SLIDES) return;
+    onDeckChange({ ...deck, slides: deck.slides.filter((_, i) => i !== index) });
+  }, [deck, onDeckChange]);
+
+  const renderPdf = useCallback(async (action: "download" | "attach") => {
+    setRenderingAction(action);
+    setRenderError(null);
+    try {
+      const blob = await renderCarouselPdf(deck, theme);
+      const file = new File([blob], carouselFileName(deck), { type: "application/pdf" });
+      if (action === "attach") {
+        onAttach?.(file);
+        onOpenChange(false);
+      } else {
+        const url = URL.createObjectURL(file);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = file.name;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (err) {
+      console.error("Error rendering carousel:", err);
+      setRenderError(err instanceof Error ? err.message : "Failed to render the carousel");
+    } finally {
+      setRenderingAction(null);
+    }
+  }, [deck, theme, onAttach, onOpenChange]);
+
+  const slideCountHint = deck.slides.length < MIN_CAROUSEL_SLIDES
+    ? `Add at least ${MIN_CAROUSEL_SLIDES - deck.slides.length} more slide${MIN_CAROUSEL_SLIDES - deck.slides.length === 1 ? "" : "s"}`
+    : `${deck.slides.length} of up to ${MAX_CAROUSEL_SLIDES} slides`;
+  const canRender = deck.slides.length >= MIN_CAROUSEL_SLIDES && renderingAction === null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Carousel</DialogTitle>
+          <DialogDescription>
+            Edit the slides, then attach the deck to your post as a PDF or download it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 grid grid-cols-[200px_1fr_280px] gap-4 overflow-hidden">
+          {/* Slide list */}
+          <div className="flex flex-col min-h-0">
+            <ol className="flex-1 overflow-y-auto space-y-1 pr-1">
+              {deck.slides.map((slide, index) => (
+                <li key={index}>
+                  <div
+                    onClick={() => setSelectedIndex(index)}
+                    className={`group flex items-start gap-2 px-2 py-1.5 rounded-md text-xs cursor-pointer transition ${
+                      index === currentIndex ? "bg-muted text-foreground" : "text-muted-foreground hover:bg-muted/60"
+                    }`}
+                  >
+                    <span className="font-semibold tabular-nums flex-shrink-0">{index + 1}</span>
+                    <span className="flex-1 line-clamp-2">{slide.title || "Untitled slide"}</span>
+                    <div className="flex flex-col opacity-0 group-hover:opacity-100 transition">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveSlide(index, -1);
+                        }}
+                        disabled={index === 0}
+                        className="p-0.5 rounded hover:text-foreground disabled:opacity-30"
+                        aria-label={`Move slide ${index + 1} up`}
+                      >
+                        <ArrowUp className="h-3 w-3" />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          moveSlide(index, 1);
+                        }}
+                        disabled={index === deck.slides.length - 1}
+                        className="p-0.5 rounded hover:text-foreground disabled:opacity-30"
+                        aria-label={`Move slide ${index + 1} down`}
+                      >
+                        <ArrowDown className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={addSlide}
+              disabled={deck.slides.length >= MAX_CAROUSEL_SLIDES}
+              className="mt-2"
+            >
+              <Plus className="h-3.5 w-3.5" />
+              Add slide
+            </Button>
+            <p className="mt-1 text-[11px] text-muted-foreground text-center">{slideCountHint}</p>
+          </div>
+
+          {/* Preview */}
+          <div className="min-h-0 flex items-center justify-center bg-muted/40 rounded-lg p-3">
+            <canvas
+              ref={canvasRef}
+              width={SLIDE_WIDTH}
+              height={SLIDE_HEIGHT}
+              className="max-h-full max-w-full h-auto w-auto aspect-[4/5] rounded shadow-sm"
+            />
+          </div>
+
+          {/* Slide and brand fields */}
+          <div className="min-h-0 overflow-y-auto space-y-4 pr-1">
+            <div className="space-y-1.5">
+              <Label htmlFor="carousel-title">Document title</Label>
+              <Input
+                id="carousel-title"
+                value={deck.title}
+                onChange={(e) => onDeckChange({ ...deck, title: e.target.value })}
+              />
+            </div>
+
+            {currentSlide && (
+              <>
+                <div className="space-y-1.5">
+                  <Label htmlFor="carousel-slide-title">Slide {currentIndex + 1} title</Label>
+                  <Input
+                    id="carousel-slide-title"
+                    value={currentSlide.title}
+                    onChange={(e) => updateSlide(currentIndex, { title: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="carousel-slide-bullets">Bullets</Label>
+                  <Textarea
+                    id="carousel-slide-bullets"
+                    rows={5}
+                    value={currentSlide.bullets.join("\n")}
+                    onChange={(e) => updateSlide(currentIndex, { bullets: e.target.value.split("\n") })}
+                  />
+                  <p className="text-[11px] text-muted-foreground">
+                    One per line; up to {MAX_SLIDE_BULLETS} fit a slide
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeSlide(currentIndex)}
+                  disabled={deck.slides.length <= MIN_CAROUSEL_SLIDES}
+                  className="text-muted-foreground"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                  Remove slide
+                </Button>
+              </>
+            )}
+
+            <div className="space-y-2 pt-2 border-t border-border">
+              <p className="flex items-center gap-1.5 text-sm font-medium">
+                <Palette className="h-3.5 w-3.5" />
+                Brand colours
+              </p>
+              {BRAND_COLOR_FIELDS.map(({ key, label }) => (
+                <label key={key} className="flex items-center justify-between text-xs text-muted-foreground">
+                  {label}
+                  <input
+                    type="color"
+                    value={brandColors[key]}
+                    onChange={(e) => setBrandColors({ ...brandColors, [key]: e.target.value })}
+                    className="h-7 w-10 rounded border border-border bg-transparent cursor-pointer"
+                  />
+                </label>
+              ))}
+              <p className="text-[11px] text-muted-foreground">
+                Saved for {selectedOrganization ? selectedOrganization.name : "your personal profile"}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {renderError && <p className="text-sm text-red-600 dark:text-red-400">{renderError}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => renderPdf("download")} disabled={!canRender}>
+            {renderingAction === "download" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Download PDF
+          </Button>
+          {onAttach && (
+            <Button onClick={() => renderPdf("attach")} disabled={!canRender}>
+              {renderingAction === "attach" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Paperclip className="h-4 w-4" />}
+              Attach to post
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+CarouselEditor.displayName = 'CarouselEditor';
@@ -0,0 +1,509 @@
+"use client"
+
+import { useEffect, useMemo, useState, type ReactNode } from "react"
+import { BarChart3 } from "lucide-react"
+import {
+  dateTicks,
+  formatCompact,
+  formatDateTick,
+  formatTooltipDate,
+  isSameDay,
+  linearScale,
+  niceTicks,
+  seriesColor,
+  toTime,
+  type CategoryDatum,
+  type ChartMarker,
+  type ChartSeries,
+  type DonutSlice,
+  type SeriesKey,
+  type StackedDatum,
+} from "@/lib/chartData"
+
+const PADDING = { top: 12, right: 16, bottom: 28, left: 44 }
+
+interface BaseChartProps {
+  height?: number
+  /** Format values on the y-axis and in tooltips */
+  formatValue?: (value: number) => string
+  emptyMessage?: string
+}
+
+// Track the rendered width so axis labels stay crisp instead of scaling with a viewBox
+// (callback ref, so charts that start out empty still get measured once data arrives)
+function useElementWidth<T extends HTMLElement>() {
+  const [element, setElement] = useState<T | null>(null)
+  const [width, setWidth] = useState(0)
+
+  useEffect(() => {
+    if (!element) return
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width))
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [element])
+
+  return { ref: setElement, width }
+}
+
+function ChartEmpty({ height, message }: { height: number; message: string }) {
+  return (
+    <div
+      className="w-full flex flex-col items-center justify-center gap-2 rounded-lg border border-dashed border-border text-muted-foreground"
+      style={{ height }}
+    >
+      <BarChart3 className="h-6 w-6 opacity-50" />
+      <span className="text-sm">{message}</span>
+    </div>
+  )
+}
+
+function ChartTooltip({ x, y, width, children }: { x: number; y: number; width: number; children: ReactNode }) {
+  // Flip to the left of the cursor near the right edge
+  const flip = x > width * 0.6
+  return (
+    <div
+      className="pointer-events-none absolute z-10 min-w-[120px] rounded-md border border-border bg-popover px-3 py-2 text-xs text-popover-foreground shadow-md"
+      style={{ top: y, left: flip ? undefined : x + 12, right: flip ? width - x + 12 : undefined }}
+    >
+      {children}
+    </div>
+  )
+}
+
+function TooltipRow({ color, label, value }: { color: string; label: string; value: string }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="flex items-center gap-1.5">
+        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+        {label}
+      </span>
+      <span className="font-medium">{value}</span>
+    </div>
+  )
+}
+
+function Legend({ items }: { items: Array<{ label: string; color: string }> }) {
+  if (items.length < 2) return null
+  return (
+    <div className="flex flex-wrap justify-center gap-4 mt-3 text-xs">
+      {items.map(item => (
+        <div key={item.label} className="flex items-center gap-1">
+          <div className="w-3 h-3 rounded" style={{ backgroundColor: item.color }}></div>
+          <span className="text-muted-foreground">{item.label}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function YAxis({ ticks, y, width, format }: { ticks: number[]; y: (v: number) => number; width: number; format: (v: number) => string }) {
+  return (
+    <g>
+      {ticks.map(tick => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={width - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            className="stroke-border"
+            strokeWidth="1"
+          />
+          <text
+            x={PADDING.left - 6}
+            y={y(tick)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {format(tick)}
+          </text>
+        </g>
+      ))}
+    </g>
+  )
+}
+
+function DateAxis({ start, end, x, height, width }: { start: number; end: number; x: (t: number) => number; height: number; width: number }) {
+  // Roughly one label per 90px
+  const ticks = dateTicks(start, end, Math.min(6, Math.max(2, Math.floor((width - PADDING.left - PADDING.right) / 90))))
+  return (
+    <g>
+      {ticks.map((tick, i) => (
+        <text
+          key={tick}
+          x={x(tick)}
+          y={height - 8}
+          textAnchor={i === 0 ? "start" : i === ticks.length - 1 ? "end" : "middle"}
+          className="fill-muted-foreground text-[10px]"
+        >
+          {formatDateTick(tick, end - start)}
+        </text>
+      ))}
+    </g>
+  )
+}
+
+/** Time domain with a little room when every point shares one date */
+function timeDomain(times: number[]): [number, number] {
+  const start = Math.min(...times)
+  const end = Math.max(...times)
+  const halfDay = 12 * 60 * 60 * 1000
+  return start === end ? [start - halfDay, end + halfDay] : [start, end]
+}
+
+function nearestIndex(values: number[], target: number): number {
+  let best = 0
+  for (let i = 1; i < values.length; i++) {
+    if (Math.abs(values[i] - target) < Math.abs(values[best] - target)) best = i
+  }
+  return best
+}
+
+/**
+ * Time-series line chart with one line per series
+ * Markers (e.g. publish dates) are drawn as vertical lines and listed in the tooltip
+ */
+export function LineChart({
+  series,
+  markers = [],
+  height = 200,
+  formatValue = formatCompact,
+  emptyMessage = "No data for this period",
+}: BaseChartProps & { series: ChartSeries[]; markers?: ChartMarker[] }) {
+  const { ref, width } = useElementWidth<HTMLDivElement>()
+  const [hoverTime, setHoverTime] = useState<number | null>(null)
+
+  const prepared = useMemo(() => series
+    .map((s, i) => ({
+      ...s,
+      color: seriesColor(i, s.color),
+      points: s.data
+        .map(p => ({ time: toTime(p.date), value: p.value }))
+        .filter(p => Number.isFinite(p.time) && Number.isFinite(p.value))
+        .sort((a, b) => a.time - b.time),
+    }))
+    .filter(s => s.points.length > 0), [series])
+
+  if (prepared.length === 0) return <ChartEmpty height={height} message={emptyMessage} />
+
+  const allPoints = prepared.flatMap(s => s.points)
+  const times = [...new Set(allPoints.map(p => p.time))].sort((a, b) => a - b)
+  const [start, end] = timeDomain(times)
+  const ticks = niceTicks(Math.min(...allPoints.map(p => p.value)), Math.max(...allPoints.map(p => p.value)))
+  const x = linearScale(start, end, PADDING.left, width - PADDING.right)
+  const y = linearScale(ticks[0], ticks[ticks.length - 1], height - PADDING.bottom, PADDING.top)
+  const showDots = times.length <= 31
+  const markerTimes = markers
+    .map(m => ({ time: toTime(m.date), label: m.label }))
+    .filter(m => m.time >= start && m.time <= end)
+  const hoveredMarkers = hoverTime !== null ? markerTimes.filter(m => isSameDay(m.time, hoverTime)) : []
+
+  const handleMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const offset = event.clientX - event.currentTarget.getBoundingClientRect().left
+    const time = linearScale(PADDING.left, width - PADDING.right, start, end)(offset)
+    setHoverTime(times[nearestIndex(times, time)])
+  }
+
+  return (
+    <div ref={ref} className="w-full">
+      <div className="relative" style={{ height }}>
+        {width > 0 && (
+          <svg width={width} height={height} onMouseMove={handleMove} onMouseLeave={() => setHoverTime(null)}>
+            <YAxis ticks={ticks} y={y} width={width} format={formatValue} />
+            <DateAxis start={start} end={end} x={x} height={height} width={width} />
+            {markerTimes.map(m => (
+              <g key={`${m.time}-${m.label}`}>
+                <line x1={x(m.time)} x2={x(m.time)} y1={PADDING.top} y2={height - PADDING.bottom} stroke="#f59e0b" strokeOpacity="0.6" strokeDasharray="2 4" />
+                <circle cx={x(m.time)} cy={height - PADDING.bottom} r="3" fill="#f59e0b" />
+              </g>
+            ))}
+            {hoverTime !== null && (
+              <line x1={x(hoverTime)} x2={x(hoverTime)} y1={PADDING.top} y2={height - PADDING.bottom} className="stroke-muted-foreground" strokeDasharray="3 3" />
+            )}
+            {prepared.map(s => (
+              <g key={s.key}>
+                <polyline
+                  points={s.points.map(p => `${x(p.time)},${y(p.value)}`).join(" ")}
+                  fill="none"
+                  stroke={s.color}
+                  strokeWidth="2.5"
+                  strokeLinejoin="round"
+                />
+                {s.points.map(p => (showDots || p.time === hoverTime) && (
+                  <circle key={p.time} cx={x(p.time)} cy={y(p.value)} r={p.time === hoverTime ? 5 : 3.5} fill={s.color} />
+                ))}
+              </g>
+            ))}
+          </svg>
+        )}
+        {hoverTime !== null && (
+          <ChartTooltip x={x(hoverTime)} y={PADDING.top} width={width}>
+            <div className="font-medium mb-1">{formatTooltipDate(hoverTime, end - start)}</div>
+            {prepared.map(s => {
+              const point = s.points[nearestIndex(s.points.map(p => p.time), hoverTime)]
+              return <TooltipRow key={s.key} color={s.color} label={s.label} value={formatValue(point.value)} />
+            })}
+            {hoveredMarkers.map(m => (
+              <div key={`${m.time}-${m.label}`} className="mt-1 pt-1 border-t border-border text-amber-600 line-clamp-2">
+                {m.label}
+              </div>
+            ))}
+          </ChartTooltip>
+        )}
+      </div>
+      <Legend items={prepared.map(s => ({ label: s.label, color: s.color }))} />
+    </div>
+  )
+}
+
+/**
+ * Time-series stacked area chart; each datum holds one value per key
+ */
+export function StackedAreaChart({
+  data,
+  keys,
+  height = 200,
+  formatValue = formatCompact,
+  emptyMessage = "No data for this period",
+}: BaseChartProps & { data: StackedDatum[]; keys: SeriesKey[] }) {
+  const { ref, width } = useElementWidth<HTMLDivElement>()
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  const rows = useMemo(() => data
+    .map(d => ({ time: toTime(d.date), values: d.values }))
+    .filter(d => Number.isFinite(d.time))
+    .sort((a, b) => a.time - b.time), [data])
+  const colors = keys.map((k, i) => seriesColor(i, k.color))
+
+  if (rows.length === 0 || keys.length === 0) return <ChartEmpty height={height} message={emptyMessage} />
+
+  // Cumulative tops per key, bottom series first
+  const stacks = rows.map(row => keys.reduce<number[]>((tops, k) => {
+    tops.push((tops[tops.length - 1] || 0) + Math.max(0, row.values[k.key] || 0))
+    return tops
+  }, []))
+  const [start, end] = timeDomain(rows.map(r => r.time))
+  const ticks = niceTicks(0, Math.max(...stacks.map(s => s[s.length - 1])))
+  const x = linearScale(start, end, PADDING.left, width - PADDING.right)
+  const y = linearScale(ticks[0], ticks[ticks.length - 1], height - PADDING.bottom, PADDING.top)
+
+  const areaPath = (keyIndex: number) => {
+    const top = rows.map((row, i) => `${x(row.time)},${y(stacks[i][keyIndex])}`)
+    const bottom = rows
+      .map((row, i) => `${x(row.time)},${y(keyIndex === 0 ? 0 : stacks[i][keyIndex - 1])}`)
+      .reverse()
+    return `M${top.join("L")}L${bottom.join("L")}Z`
+  }
+
+  const handleMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const offset = event.clientX - event.currentTarget.getBoundingClientRect().left
+    const time = linearScale(PADDING.left, width - PADDING.right, start, end)(offset)
+    setHoverIndex(nearestIndex(rows.map(r => r.time), time))
+  }
+
+  const hovered = hoverIndex !== null ? rows[hoverIndex] : null
+
+  return (
+    <div ref={ref} className="w-full">
+      <div className="relative" style={{ height }}>
+        {width > 0 && (
+          <svg width={width} height={height} onMouseMove={handleMove} onMouseLeave={() => setHoverIndex(null)}>
+            <YAxis ticks={ticks} y={y} width={width} format={formatValue} />
+            <DateAxis start={start} end={end} x={x} height={height} width={width} />
+            {keys.map((k, i) => (
+              <path key={k.key} d={areaPath(i)} fill={colors[i]} fillOpacity="0.35" stroke={colors[i]} strokeWidth="1.5" />
+            ))}
+            {hovered && (
+              <line x1={x(hovered.time)} x2={x(hovered.time)} y1={PADDING.top} y2={height - PADDING.bottom} className="stroke-muted-foreground" strokeDasharray="3 3" />
+            )}
+          </svg>
+        )}
+        {hovered && hoverIndex !== null && (
+          <ChartTooltip x={x(hovered.time)} y={PADDING.top} width={width}>
+            <div className="font-medium mb-1">{formatTooltipDate(hovered.time, end - start)}</div>
+            {[...keys].reverse().map(k => (
+              <TooltipRow key={k.key} color={colors[keys.indexOf(k)]} label={k.label} value={formatValue(hovered.values[k.key] || 0)} />
+            ))}
+            <div className="flex justify-between gap-3 border-t border-border mt-1 pt-1 font-medium">
+              <span>Total</span>
+              <span>{formatValue(stacks[hoverIndex][keys.length - 1])}</span>
+            </div>
+          </ChartTooltip>
+        )}
+      </div>
+      <Legend items={keys.map((k, i) => ({ label: k.label, color: colors[i] }))} />
+    </div>
+  )
+}
+
+/**
+ * Grouped bar chart with one bar per key in each category
+ */
+export function BarChart({
+  data,
+  keys,
+  height = 200,
+  formatValue = formatCompact,
+  emptyMessage = "No data for this period",
+}: BaseChartProps & { data: CategoryDatum[]; keys: SeriesKey[] }) {
+  const { ref, width } = useElementWidth<HTMLDivElement>()
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+  const colors = keys.map((k, i) => seriesColor(i, k.color))
+
+  const hasData = data.some(d => keys.some(k => (d.values[k.key] || 0) !== 0))
+  if (!hasData) return <ChartEmpty height={height} message={emptyMessage} />
+
+  const values = data.flatMap(d => keys.map(k => d.values[k.key] || 0))
+  const ticks = niceTicks(Math.min(...values), Math.max(...values))
+  const y = linearScale(ticks[0], ticks[ticks.length - 1], height - PADDING.bottom, PADDING.top)
+  const band = (width - PADDING.left - PADDING.right) / data.length
+  const barWidth = Math.max(4, Math.min(32, (band * 0.7) / keys.length))
+  const groupWidth = barWidth * keys.length + 2 * (keys.length - 1)
+  // Fit labels to the band width (~6px per character)
+  const maxChars = Math.max(3, Math.floor(band / 6))
+
+  return (
+    <div ref={ref} className="w-full">
+      <div className="relative" style={{ height }}>
+        {width > 0 && (
+          <svg width={width} height={height} onMouseLeave={() => setHoverIndex(null)}>
+            <YAxis ticks={ticks} y={y} width={width} format={formatValue} />
+            {data.map((datum, i) => {
+              const bandStart = PADDING.left + i * band
+              const groupStart = bandStart + (band - groupWidth) / 2
+              return (
+                <g key={datum.label} onMouseEnter={() => setHoverIndex(i)}>
+                  <rect
+                    x={bandStart}
+                    y={PADDING.top}
+                    width={band}
+                    height={height - PADDING.top - PADDING.bottom}
+                    className={hoverIndex === i ? "fill-muted" : "fill-transparent"}
+                  />
+                  {keys.map((k, j) => {
+                    const value = datum.values[k.key] || 0
+                    return (
+                      <rect
+                        key={k.key}
+                        x={groupStart + j * (barWidth + 2)}
+                        y={Math.min(y(value), y(0))}
+                        width={barWidth}
+                        height={Math.abs(y(0) - y(value))}
+                        fill={colors[j]}
+                        rx="2"
+                      />
+                    )
+                  })}
+                  <text
+                    x={bandStart + band / 2}
+                    y={height - 8}
+                    textAnchor="middle"
+                    className="fill-muted-foreground text-[10px]"
+                  >
+                    {datum.label.length > maxChars ? `${datum.label.slice(0, maxChars - 1)}…` : datum.label}
+                  </text>
+                </g>
+              )
+            })}
+          </svg>
+        )}
+        {hoverIndex !== null && (
+          <ChartTooltip x={PADDING.left + (hoverIndex + 0.5) * band} y={PADDING.top} width={width}>
+            <div className="font-medium mb-1">{data[hoverIndex].label}</div>
+            {keys.map((k, j) => (
+              <TooltipRow key={k.key} color={colors[j]} label={k.label} value={formatValue(data[hoverIndex].values[k.key] || 0)} />
+            ))}
+          </ChartTooltip>
+        )}
+      </div>
+      <Legend items={keys.map((k, i) => ({ label: k.label, color: colors[i] }))} />
+    </div>
+  )
+}
+
+/** SVG arc path for a donut slice between two angles (radians, clockwise from 12 o'clock) */
+function arcPath(cx: number, cy: number, outer: number, inner: number, startAngle: number, endAngle: number): string {
+  // A full circle can't be drawn as a single arc
+  const end = Math.min(endAngle, startAngle + Math.PI * 2 - 0.0001)
+  const point = (r: number, angle: number) => `${cx + r * Math.sin(angle)},${cy - r * Math.cos(angle)}`
+  const largeArc = end - startAngle > Math.PI ? 1 : 0
+  return [
+    `M${point(outer, startAngle)}`,
+    `A${outer},${outer} 0 ${largeArc} 1 ${point(outer, end)}`,
+    `L${point(inner, end)}`,
+    `A${inner},${inner} 0 ${largeArc} 0 ${point(inner, startAngle)}`,
+    "Z",
+  ].join("")
+}
+
+/**
+ * Donut chart with a total in the middle and a legend of shares
+ */
+export function DonutChart({
+  slices,
+  size = 160,
+  thickness = 24,
+  centerLabel = "Total",
+  formatValue = formatCompact,
+  emptyMessage = "No data for this period",
+}: Omit<BaseChartProps, "height"> & { slices: DonutSlice[]; size?: number; thickness?: number; centerLabel?: string }) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  const visible = slices.filter(s => s.value > 0)
+  const total = visible.reduce((sum, s) => sum + s.value, 0)
+  if (total === 0) return <ChartEmpty height={size} message={emptyMessage} />
+
+  const radius = size / 2
+  const arcs = visible.reduce<Array<DonutSlice & { color: string; startAngle: number; endAngle: number }>>((acc, slice, i) => {
+    const startAngle = acc.length ? acc[acc.length - 1].endAngle : 0
+    const endAngle = startAngle + (slice.value / total) * Math.PI * 2
+    acc.push({ ...slice, color: seriesColor(i, slice.color), startAngle, endAngle })
+    return acc
+  }, [])
+  const hovered = hoverIndex !== null ? arcs[hoverIndex] : null
+  const percent = (value: number) => `${((value / total) * 100).toFixed(1)}%`
+
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-6">
+      <div className="relative flex-shrink-0" style={{ width: size, height: size }}>
+        <svg width={size} height={size} onMouseLeave={() => setHoverIndex(null)}>
+          {arcs.map((arc, i) => (
+            <path
+              key={arc.label}
+              d={arcPath(radius, radius, hoverIndex === i ? radius : radius - 2, radius - thickness, arc.startAngle, arc.endAngle)}
+              fill={arc.color}
+              opacity={hoverIndex === null || hoverIndex === i ? 1 : 0.5}
+              onMouseEnter={() => setHoverIndex(i)}
+            />
+          ))}
+        </svg>
+        {/* Center shows the hovered slice, otherwise the total */}
+        <div className="pointer-events-none absolute inset-0 flex flex-col items-center justify-center text-center px-6">
+          <span className="text-lg font-bold">{formatValue(hovered ? hovered.value : total)}</span>
+          <span className="text-[10px] text-muted-foreground line-clamp-2">
+            {hovered ? `${hovered.label} · ${percent(hovered.value)}` : centerLabel}
+          </span>
+        </div>
+      </div>
+      <div className="flex-1 min-w-0 space-y-1.5 w-full">
+        {arcs.map((arc, i) => (
+          <div
+            key={arc.label}
+            className={`flex items-center justify-between gap-3 text-xs rounded px-1.5 py-0.5 ${hoverIndex === i ? "bg-muted" : ""}`}
+            onMouseEnter={() => setHoverIndex(i)}
+            onMouseLeave={() => setHoverIndex(null)}
+          >
+            <span className="flex items-center gap-1.5 min-w-0">
+              <span className="h-2 w-2 rounded-full flex-shrink-0" style={{ backgroundColor: arc.color }} />
+              <span className="truncate text-muted-foreground">{arc.label}</span>
+            </span>
+            <span className="font-medium">{percent(arc.value)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useState, memo } from "react";
+import { BarChart3, Check, ChevronsUpDown, FilePen, GalleryHorizontal, Lightbulb, MessageCircle, MessageSquareText, PenLine, Sparkles } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { CHAT_MODES, getChatMode, type ChatMode, type ChatModeOption } from "@/lib/chatModes";
+
+const modeIcons: Record<ChatMode, typeof PenLine> = {
+  draft: PenLine,
+  edit: FilePen,
+  ideate: Lightbulb,
+  feedback: MessageSquareText,
+  analytics: BarChart3,
+  carousel: GalleryHorizontal,
+  ask: MessageCircle,
+};
+
+const AUTO_VALUE = "auto";
+
+interface ChatModePickerProps {
+  /** Selected mode; null lets the assistant detect the intent */
+  mode: ChatMode | null;
+  onChange: (mode: ChatMode | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Composer button for choosing the mode of the next messages
+ */
+export const ChatModePicker = memo(({ mode, onChange, disabled }: ChatModePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const Icon = mode ? modeIcons[mode] : Sparkles;
+
+  const choose = (value: ChatMode | null) => {
+    onChange(value);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          disabled={disabled}
+          className={`inline-flex items-center gap-1.5 rounded-lg px-2 py-1 text-sm transition-colors disabled:opacity-50 ${
+            mode
+              ? "bg-orange-50 dark:bg-orange-950/30 text-orange-600 dark:text-orange-400"
+              : "text-muted-foreground hover:text-foreground"
+          }`}
+          title="Choose how the assistant answers"
+        >
+          <Icon className="h-4 w-4" />
+          {mode ? getChatMode(mode).label : "Auto"}
+          <ChevronsUpDown className="h-3 w-3 opacity-60" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 p-0">
+        <Command label="Chat mode">
+          <CommandInput placeholder="Search modes..." />
+          <CommandList>
+            <CommandEmpty>No mode found</CommandEmpty>
+            <CommandGroup>
+              <CommandItem value={AUTO_VALUE} keywords={["detect"]} onSelect={() => choose(null)}>
+                <Sparkles />
+                <div className="flex-1">
+                  <div>Auto</div>
+                  <div className="text-xs text-muted-foreground">Detect what each message asks for</div>
+                </div>
+                {!mode && <Check />}
+              </CommandItem>
+              {CHAT_MODES.map(option => (
+                <ModeItem key={option.mode} option={option} isSelected={option.mode === mode} onSelect={() => choose(option.mode)} />
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+ChatModePicker.displayName = 'ChatModePicker';
+
+interface SlashCommandMenuProps {
+  options: ChatModeOption[];
+  /** Highlighted command, driven by the composer's arrow keys */
+  activeCommand: string | undefined;
+  onActiveCommandChange: (command: string) => void;
+  onSelect: (mode: ChatMode) => void;
+}
+
+/**
+ * Command palette shown above the composer while a slash command is typed
+ * Filtering happens in the composer (see useSlashCommands), so cmdk only
+ * renders and highlights the matches
+ */
+export const SlashCommandMenu = memo(({ options, activeCommand, onActiveCommandChange, onSelect }: SlashCommandMenuProps) => {
+  if (options.length === 0) return null;
+
+  return (
+    // Keep focus in the composer when an item is clicked
+    <div
+      className="absolute bottom-full left-0 mb-2 w-72 z-50 rounded-xl border border-border bg-popover shadow-md"
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      <Command
+        label="Slash commands"
+        shouldFilter={false}
+        value={activeCommand}
+        onValueChange={onActiveCommandChange}
+        className="rounded-xl"
+      >
+        <CommandList>
+          <CommandGroup heading="Commands">
+            {options.map(option => (
+              <ModeItem key={option.mode} option={option} onSelect={() => onSelect(option.mode)} showCommand />
+            ))}
+          </CommandGroup>
+        </CommandList>
+      </Command>
+    </div>
+  );
+});
+
+SlashCommandMenu.displayName = 'SlashCommandMenu';
+
+function ModeItem({
+  option,
+  isSelected,
+  onSelect,
+  showCommand,
+}: {
+  option: ChatModeOption;
+  isSelected?: boolean;
+  onSelect: () => void;
+  showCommand?: boolean;
+}) {
+  const Icon = modeIcons[option.mode];
+  return (
+    <CommandItem value={option.command} keywords={[option.label, option.description]} onSelect={onSelect}>
+      <Icon />
+      <div className="flex-1 min-w-0">
+        <div>{showCommand ? <span className="font-mono">{option.command}</span> : option.label}</div>
+        <div className="text-xs text-muted-foreground truncate">{option.description}</div>
+      </div>
+      {isSelected && <Check />}
+    </CommandItem>
+  );
+}
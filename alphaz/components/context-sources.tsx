@@ -0,0 +1,64 @@
+"use client";
+
+import { useState, memo } from "react";
+import { BarChart3, BookOpen, CalendarRange, ChevronDown, ChevronRight, FileText, TrendingUp } from "lucide-react";
+import type { ContextSource } from "@/lib/contextRetrieval";
+
+interface ContextSourcesProps {
+  sources: ContextSource[];
+}
+
+const kindIcons = {
+  post: FileText,
+  fact: BarChart3,
+  pattern: TrendingUp,
+  period: CalendarRange,
+};
+
+/**
+ * Collapsible list of the data an answer was grounded in (organization
+ * context chunks, or the posts and periods analytics answers cite)
+ */
+export const ContextSources = memo(({ sources }: ContextSourcesProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div className="mt-2 text-xs">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="inline-flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+        title="Show the data used for this answer"
+      >
+        <BookOpen className="h-3.5 w-3.5" />
+        Based on {sources.length} source{sources.length === 1 ? '' : 's'}
+        {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 space-y-2 border-l-2 border-border pl-3">
+          {sources.map(source => {
+            const Icon = kindIcons[source.kind] || FileText;
+            return (
+              <li key={source.id}>
+                <div className="flex items-center gap-1.5 font-medium text-foreground">
+                  <Icon className="h-3 w-3 text-muted-foreground" />
+                  {source.label}
+                  {source.similarity !== null && (
+                    <span className="font-normal text-muted-foreground">
+                      · {Math.round(source.similarity * 100)}% match
+                    </span>
+                  )}
+                </div>
+                <p className="text-muted-foreground line-clamp-2 whitespace-pre-line">{source.preview}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+ContextSources.displayName = 'ContextSources';
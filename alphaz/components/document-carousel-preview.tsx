@@ -0,0 +1,89 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, FileText, Trash2 } from "lucide-react";
+import { countPdfPages, documentTitle } from "@/lib/linkedinMedia";
+
+interface DocumentCarouselPreviewProps {
+  file: File;
+  /** Object URL of the file */
+  preview: string;
+  onRemove?: () => void;
+}
+
+/**
+ * A PDF as LinkedIn shows it in the feed: one page at a time with arrows,
+ * under the document's title. Pages are drawn by the browser's PDF viewer.
+ */
+export const DocumentCarouselPreview = memo(({ file, preview, onRemove }: DocumentCarouselPreviewProps) => {
+  const [page, setPage] = useState(1);
+  // null until counted, or when the PDF hides its page objects
+  const [pageCount, setPageCount] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    countPdfPages(file)
+      .then(count => {
+        if (!cancelled) setPageCount(count);
+      })
+      .catch(() => {
+        if (!cancelled) setPageCount(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const isLastPage = pageCount !== null && page >= pageCount;
+
+  return (
+    <div className="relative group rounded-lg overflow-hidden border border-border bg-muted">
+      <div className="flex items-center gap-2 px-3 py-2 bg-card border-b border-border text-xs">
+        <FileText className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+        <span className="font-medium text-foreground truncate">{documentTitle(file.name)}</span>
+        <span className="ml-auto text-muted-foreground flex-shrink-0">
+          {pageCount !== null ? `${page} / ${pageCount}` : `Page ${page}`}
+        </span>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition"
+            title="Remove document"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+
+      <div className="relative aspect-[4/5] bg-white">
+        {/* Remount per page so the viewer opens at it; pointer events stay with the arrows */}
+        <iframe
+          key={page}
+          src={`${preview}#page=${page}&toolbar=0&navpanes=0&scrollbar=0&view=Fit`}
+          title={`${documentTitle(file.name)}, page ${page}`}
+          className="w-full h-full pointer-events-none"
+        />
+        {page > 1 && (
+          <button
+            onClick={() => setPage(prev => prev - 1)}
+            className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 bg-black/60 hover:bg-black/80 rounded-full text-white transition"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+        )}
+        {!isLastPage && (
+          <button
+            onClick={() => setPage(prev => prev + 1)}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 bg-black/60 hover:bg-black/80 rounded-full text-white transition"
+            aria-label="Next page"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+});
+
+DocumentCarouselPreview.displayName = 'DocumentCarouselPreview';
@@ -1,9 +1,20 @@
 'use client';
 
-import { useState, memo, useCallback, useEffect } from 'react';
-import { LinkedInPostPreview, UploadedImage } from './linkedin-post-preview';
+import { useState, memo, useCallback, useEffect, useMemo } from 'react';
+import { LinkedInPostPreview, UploadedMedia } from './linkedin-post-preview';
 import { MessageFeedback } from './message-feedback';
-import { ChevronLeft, ChevronRight, FileText, Trash2, Copy, Check, Loader2, Linkedin, X, Save, Calendar, Bookmark } from 'lucide-react';
+import { VersionDiffViewer } from './version-diff-viewer';
+import { CarouselEditor } from './carousel-editor';
+import { PostPerformance } from './post-performance';
+import { PostLintTray } from './post-lint-tray';
+import { FirstCommentField } from './first-comment-field';
+import { buildVersionTree, getParentVersion } from '@/lib/draftVersioning';
+import { hasLintErrors, lintPost } from '@/lib/postLint';
+import { markdownToLinkedIn } from '@/lib/linkedinFormatting';
+import { mentionsToText } from '@/lib/mentions';
+import type { CarouselDeck } from '@/lib/carousel';
+import type { PublishedPostEdit } from '@/lib/publishedPosts';
+import { ChevronLeft, ChevronRight, FileText, Trash2, Copy, Check, Loader2, Linkedin, X, Save, Calendar, Bookmark, GitCompare, GitBranch, TrendingUp, GalleryHorizontal } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -17,6 +28,7 @@ export interface DraftVersion {
   timestamp: Date;
   changes?: string[];
   editPrompt?: string;
+  parentVersion?: number; // Version this one was edited from (branching history)
   parent_message_id?: string;
   dbId?: string; // Database ID for the version
 }
@@ -30,6 +42,9 @@ export interface Draft {
   versions: DraftVersion[];
   currentVersion: number;
   parentMessageId?: string;
+  variantGroupId?: string; // Shared by drafts generated as variants of one request
+  variantAngle?: string; // The angle or hook this variant takes
+  firstComment?: string; // Commented on the post right after publishing
 }
 
 interface DraftPanelProps {
@@ -53,14 +68,14 @@ interface DraftPanelProps {
   onDeleteDraft: (id: string) => void;
   onCopyDraft: (content: string) => void;
   onInlineEdit?: (instruction: string, selectedText: string) => void;
-  onPostDraft?: (content: string, images?: UploadedImage[]) => Promise<void> | void;
+  onPostDraft?: (content: string, media?: UploadedMedia[]) => Promise<void> | void;
   isPosting?: boolean;
   /** Called when content is directly edited */
   onContentEdit?: (draftId: string, newContent: string, version: number) => Promise<void> | void;
   /** Whether a direct edit is being saved */
   isSavingEdit?: boolean;
-  /** Enable image upload feature */
-  enableImageUpload?: boolean;
+  /** Enable photo, video and document upload */
+  enableMediaUpload?: boolean;
   /** Thread ID for feedback */
   threadId?: string | null;
   /** User ID for feedback */
@@ -77,6 +92,23 @@ interface DraftPanelProps {
   onDraftSelect?: (draftId: string) => void;
   /** Callback when user selects a different version */
   onVersionSelect?: (version: number | null) => void;
+  /** Create a new version built from accepted/rejected diff hunks */
+  onCreateVersionFromDiff?: (draftId: string, content: string, editPrompt: string, changes: string[], baseVersion: number) => Promise<void> | void;
+  /** Callback when a post published from the draft is edited on LinkedIn */
+  onPublishedPostEdited?: (draftId: string, edit: PublishedPostEdit) => void;
+  /** Callback when the selected draft's first comment is edited; hides the field when omitted */
+  onFirstCommentChange?: (draftId: string, firstComment: string) => void;
+  /** Images, video or document attached to drafts, keyed by draft ID */
+  draftMedia?: Record<string, UploadedMedia[]>;
+  /** Callback when the selected draft's attachments change */
+  onDraftMediaChange?: (draftId: string, media: UploadedMedia[]) => void;
+  /** Carousel decks built from drafts, keyed by draft ID */
+  carouselDecks?: Record<string, CarouselDeck>;
+  /** Callback when the selected draft's carousel is edited */
+  onCarouselDeckChange?: (draftId: string, deck: CarouselDeck) => void;
+  /** Whether the carousel editor is open */
+  isCarouselOpen?: boolean;
+  onCarouselOpenChange?: (open: boolean) => void;
 }
 
 export const DraftPanel = memo(({ 
@@ -98,7 +130,7 @@ export const DraftPanel = memo(({
   isPosting,
   onContentEdit,
   isSavingEdit,
-  enableImageUpload = false,
+  enableMediaUpload = false,
   threadId,
   userId,
   feedbackMap,
@@ -107,11 +139,22 @@ export const DraftPanel = memo(({
   savedVersionIds,
   onDraftSelect,
   onVersionSelect,
+  onCreateVersionFromDiff,
+  onPublishedPostEdited,
+  onFirstCommentChange,
+  draftMedia,
+  onDraftMediaChange,
+  carouselDecks,
+  onCarouselDeckChange,
+  isCarouselOpen = false,
+  onCarouselOpenChange,
 }: DraftPanelProps) => {
   const [selectedDraftIndex, setSelectedDraftIndex] = useState(drafts.length - 1);
   const [selectedVersion, setSelectedVersion] = useState<number | null>(null); // null means current version
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showPublishConfirm, setShowPublishConfirm] = useState(false);
+  const [showVersionDiff, setShowVersionDiff] = useState(false);
+  const [activeTab, setActiveTab] = useState<'preview' | 'performance'>('preview');
   
   // Direct edit state
   const [isEditingDraft, setIsEditingDraft] = useState(false);
@@ -127,9 +170,6 @@ export const DraftPanel = memo(({
   const [isSavingToPlan, setIsSavingToPlan] = useState(false);
   const [isGeneratingTitle, setIsGeneratingTitle] = useState(false);
   
-  // Image upload state - keyed by draft ID
-  const [draftImages, setDraftImages] = useState<Record<string, UploadedImage[]>>({});
-  
   // Auto-select draft when selectedDraftId changes
   useEffect(() => {
     if (selectedDraftId) {
@@ -151,35 +191,41 @@ export const DraftPanel = memo(({
   const selectedDraft = drafts[selectedDraftIndex];
   const hasDrafts = drafts.length > 0;
   
-  // Get images for current draft
-  const currentDraftImages = selectedDraft?.id ? (draftImages[selectedDraft.id] || []) : [];
+  // Get media for current draft
+  const currentDraftMedia = useMemo(
+    () => (selectedDraft?.id ? (draftMedia?.[selectedDraft.id] || []) : []),
+    [selectedDraft?.id, draftMedia]
+  );
   
-  // Handle images change for current draft
-  const handleImagesChange = useCallback((images: UploadedImage[]) => {
+  // Handle media change for current draft
+  const handleMediaChange = useCallback((media: UploadedMedia[]) => {
     if (!selectedDraft?.id) return;
-    setDraftImages(prev => ({
-      ...prev,
-      [selectedDraft.id]: images
-    }));
-  }, [selectedDraft?.id]);
+    onDraftMediaChange?.(selectedDraft.id, media);
+  }, [selectedDraft?.id, onDraftMediaChange]);
   
-  // Clear images when draft is deleted
-  const handleDeleteDraftWithImages = useCallback((draftId: string) => {
-    // Revoke all image URLs
-    const images = draftImages[draftId];
-    if (images) {
-      images.forEach(img => {
-        if (img.preview) URL.revokeObjectURL(img.preview);
+  // Carousel built from the current draft, if any
+  const currentCarouselDeck = selectedDraft?.id ? carouselDecks?.[selectedDraft.id] : undefined;
+
+  // Attach a rendered carousel as the post's document, replacing its media
+  const handleAttachCarousel = useCallback((file: File) => {
+    currentDraftMedia.forEach(item => {
+      if (item.preview) URL.revokeObjectURL(item.preview);
+    });
+    handleMediaChange([{ kind: 'document', file, preview: URL.createObjectURL(file) }]);
+  }, [currentDraftMedia, handleMediaChange]);
+
+  // Clear media when draft is deleted
+  const handleDeleteDraftWithMedia = useCallback((draftId: string) => {
+    // Revoke all preview URLs
+    const media = draftMedia?.[draftId];
+    if (media) {
+      media.forEach(item => {
+        if (item.preview) URL.revokeObjectURL(item.preview);
       });
     }
-    // Remove from state
-    setDraftImages(prev => {
-      const { [draftId]: _, ...rest } = prev;
-      return rest;
-    });
     // Call original handler
     onDeleteDraft(draftId);
-  }, [draftImages, onDeleteDraft]);
+  }, [draftMedia, onDeleteDraft]);
   
   // Get the content to display:
   // 1. If streaming, show streaming content
@@ -193,9 +239,16 @@ export const DraftPanel = memo(({
   // Has multiple versions?
   const hasVersions = selectedDraft && selectedDraft.versions.length > 1;
 
+  // LinkedIn checks follow the text being edited, so warnings update as you type
+  // Markdown is converted on publish, so the checks see the converted text
+  const lintContent = markdownToLinkedIn(isEditingDraft ? editedDraftContent : (displayContent || ''));
+  const lintIssues = useMemo(() => lintPost(lintContent), [lintContent]);
+  const publishBlocked = useMemo(() => hasLintErrors(lintPost(markdownToLinkedIn(displayContent || ''))), [displayContent]);
+
   const handleCopyContent = useCallback(() => {
     if (!displayContent) return;
-    onCopyDraft(displayContent);
+    // Pasted text can't carry mention tags, so copy the names
+    onCopyDraft(mentionsToText(markdownToLinkedIn(displayContent)));
     if (selectedDraft?.id) {
       setCopiedId(selectedDraft.id);
       setTimeout(() => setCopiedId(null), 2000);
@@ -203,16 +256,16 @@ export const DraftPanel = memo(({
   }, [displayContent, onCopyDraft, selectedDraft]);
 
   const handlePublishClick = useCallback(() => {
-    if (!displayContent || !onPostDraft || isStreaming || isPosting) return;
+    if (!displayContent || !onPostDraft || isStreaming || isPosting || publishBlocked) return;
     setShowPublishConfirm(true);
-  }, [displayContent, onPostDraft, isStreaming, isPosting]);
+  }, [displayContent, onPostDraft, isStreaming, isPosting, publishBlocked]);
 
   const handlePublishConfirm = useCallback(() => {
-    if (!displayContent || !onPostDraft || isStreaming || isPosting) return;
+    if (!displayContent || !onPostDraft || isStreaming || isPosting || publishBlocked) return;
     setShowPublishConfirm(false);
-    // Pass images along with content
-    onPostDraft(displayContent, currentDraftImages.length > 0 ? currentDraftImages : undefined);
-  }, [displayContent, onPostDraft, isStreaming, isPosting, currentDraftImages]);
+    // Pass images, video or document along with content
+    onPostDraft(displayContent, currentDraftMedia.length > 0 ? currentDraftMedia : undefined);
+  }, [displayContent, onPostDraft, isStreaming, isPosting, publishBlocked, currentDraftMedia]);
 
   const handlePublishCancel = useCallback(() => {
     setShowPublishConfirm(false);
@@ -311,6 +364,13 @@ export const DraftPanel = memo(({
     setEditedDraftContent(content);
   }, []);
   
+  // Build a new version from the diff viewer's hunk decisions
+  const handleCreateVersionFromDiff = useCallback(async (content: string, editPrompt: string, changes: string[], baseVersion: number) => {
+    if (!selectedDraft || !onCreateVersionFromDiff) return;
+    await onCreateVersionFromDiff(selectedDraft.id, content, editPrompt, changes, baseVersion);
+    setSelectedVersion(null);
+  }, [selectedDraft, onCreateVersionFromDiff]);
+
   // Handle direct content edit (legacy, for uncontrolled mode)
   const handleContentEdit = useCallback((newContent: string) => {
     if (!selectedDraft || !onContentEdit) return;
@@ -422,8 +482,8 @@ export const DraftPanel = memo(({
                       }
                     `}
                   >
-                    <div className="text-xs font-medium text-foreground">
-                      Draft {index + 1}
+                    <div className="text-xs font-medium text-foreground max-w-[160px] truncate">
+                      {draft.variantAngle || `Draft ${index + 1}`}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       {new Date(draft.timestamp).toLocaleTimeString([], { 
@@ -437,8 +497,43 @@ export const DraftPanel = memo(({
             )}
           </div>
 
+          {/* Preview / Performance tabs - performance needs a saved draft */}
+          {!isStreaming && selectedDraft?.dbId && (
+            <div className="flex gap-1 px-6 pt-3 border-b border-border bg-card">
+              {([
+                { id: 'preview', label: 'Preview', icon: FileText },
+                { id: 'performance', label: 'Performance', icon: TrendingUp },
+              ] as const).map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`
+                    flex items-center gap-1.5 px-3 py-2 text-xs font-medium border-b-2 -mb-px transition-colors
+                    ${activeTab === tab.id
+                      ? 'border-blue-600 dark:border-blue-400 text-foreground'
+                      : 'border-transparent text-muted-foreground hover:text-foreground'
+                    }
+                  `}
+                >
+                  <tab.icon className="h-3.5 w-3.5" />
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Draft Preview */}
           <div className="flex-1 overflow-y-auto p-6">
+            {/* Performance of each published version of this draft */}
+            {!isStreaming && selectedDraft?.dbId && activeTab === 'performance' && (
+              <PostPerformance
+                userId={userId || undefined}
+                draftId={selectedDraft.dbId}
+                emptyMessage="No version of this draft has been published through Alphaz yet"
+                onPostEdited={(_, edit) => onPublishedPostEdited?.(selectedDraft.id, edit)}
+              />
+            )}
+
             {/* Streaming Content View (when AI is generating) */}
             {isStreaming && streamingContent && (
               <div className="space-y-4">
@@ -455,18 +550,29 @@ export const DraftPanel = memo(({
             )}
             
             {/* Normal Draft View (when not streaming) */}
-            {!isStreaming && selectedDraft && (
+            {!isStreaming && selectedDraft && (activeTab === 'preview' || !selectedDraft.dbId) && (
               <div className="space-y-4">
                 {/* Version Selector - Only show if draft has multiple versions */}
                 {hasVersions && (
                   <div className="bg-card border border-border rounded-lg p-3">
-                    <div className="text-xs font-medium text-muted-foreground mb-2">
-                      Version History ({selectedDraft.versions.length} versions)
+                    <div className="flex items-center justify-between mb-2">
+                      <div className="text-xs font-medium text-muted-foreground">
+                        Version History ({selectedDraft.versions.length} versions)
+                      </div>
+                      <button
+                        onClick={() => setShowVersionDiff(true)}
+                        className="inline-flex items-center gap-1 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+                        title="Compare versions"
+                      >
+                        <GitCompare className="h-3.5 w-3.5" />
+                        Compare
+                      </button>
                     </div>
-                    <div className="flex flex-wrap gap-2">
-                      {selectedDraft.versions.map((version) => {
+                    <div className="flex flex-col gap-1">
+                      {buildVersionTree(selectedDraft).map(({ version, depth, isBranchStart, isBranchPoint }) => {
                         const isSelected = selectedVersion === version.version || 
                                          (selectedVersion === null && version.version === selectedDraft.currentVersion);
+                        const parentVersion = getParentVersion(selectedDraft, version.version);
                         return (
                           <button
                             key={version.version}
@@ -474,8 +580,9 @@ export const DraftPanel = memo(({
                               setSelectedVersion(version.version);
                               onVersionSelect?.(version.version);
                             }}
+                            style={{ marginLeft: depth * 16 }}
                             className={`
-                              px-3 py-1.5 rounded-md text-xs font-medium transition-all
+                              flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium transition-all text-left
                               ${isSelected
                                 ? 'bg-primary text-primary-foreground'
                                 : 'bg-muted text-muted-foreground hover:bg-muted-foreground/10'
@@ -483,14 +590,29 @@ export const DraftPanel = memo(({
                             `}
                             title={version.editPrompt || `Version ${version.version}`}
                           >
-                            v{version.version}
+                            {isBranchStart && <GitBranch className="h-3 w-3 flex-shrink-0" />}
+                            <span className="flex-shrink-0">v{version.version}</span>
+                            {parentVersion !== undefined && isBranchStart && (
+                              <span className="opacity-75 flex-shrink-0">from v{parentVersion}</span>
+                            )}
+                            {version.editPrompt && (
+                              <span className="truncate opacity-75">{version.editPrompt}</span>
+                            )}
                             {version.version === selectedDraft.currentVersion && (
-                              <span className="ml-1 text-xs opacity-75">(current)</span>
+                              <span className="ml-auto text-xs opacity-75 flex-shrink-0">(current)</span>
+                            )}
+                            {isBranchPoint && version.version !== selectedDraft.currentVersion && (
+                              <span className="ml-auto text-xs opacity-75 flex-shrink-0">branches</span>
                             )}
                           </button>
                         );
                       })}
                     </div>
+                    {selectedVersion !== null && selectedVersion !== selectedDraft.currentVersion && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        Edits you make now will branch from v{selectedVersion}.
+                      </p>
+                    )}
                     {/* Show changes for selected version (or current version if none selected) */}
                     {(() => {
                       const versionToShow = selectedVersion ?? selectedDraft.currentVersion;
@@ -537,12 +659,25 @@ export const DraftPanel = memo(({
                   onCancelEdit={handleCancelEdit}
                   onSaveEdit={handleSaveEdit}
                   onEditedContentChange={handleEditedContentChange}
-                  // Image upload
-                  enableImageUpload={enableImageUpload}
-                  uploadedImages={currentDraftImages}
-                  onImagesChange={handleImagesChange}
+                  // Media upload
+                  enableMediaUpload={enableMediaUpload}
+                  uploadedMedia={currentDraftMedia}
+                  onMediaChange={handleMediaChange}
+                  // @-mentions
+                  mentionUserId={userId}
                 />
 
+                <PostLintTray content={lintContent} issues={lintIssues} />
+
+                {onFirstCommentChange && (
+                  <FirstCommentField
+                    key={selectedDraft.id}
+                    value={selectedDraft.firstComment || ''}
+                    onSave={(firstComment) => onFirstCommentChange(selectedDraft.id, firstComment)}
+                    disabled={isStreaming}
+                  />
+                )}
+
                 {/* Draft Feedback - Rate this AI generation */}
                 {(() => {
                   // Get parent_message_id from current version, fallback to draft's parentMessageId
@@ -693,6 +828,18 @@ export const DraftPanel = memo(({
                   </>
                 ) : (
                   <>
+                    {currentCarouselDeck && onCarouselOpenChange && (
+                      <button
+                        onClick={() => onCarouselOpenChange(true)}
+                        disabled={isStreaming}
+                        className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium border transition-colors bg-card hover:bg-muted border-border text-foreground disabled:opacity-50"
+                        title="Edit the carousel built from this draft"
+                      >
+                        <GalleryHorizontal className="h-4 w-4" />
+                        Carousel
+                      </button>
+                    )}
+
                     <button
                       onClick={handleCopyContent}
                       disabled={!displayContent}
@@ -741,12 +888,13 @@ export const DraftPanel = memo(({
 
                     <button
                       onClick={handlePublishClick}
-                      disabled={!displayContent || !onPostDraft || isStreaming || isPosting}
+                      disabled={!displayContent || !onPostDraft || isStreaming || isPosting || publishBlocked}
                       className={`inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold transition-colors shadow-sm ${
-                        !displayContent || !onPostDraft || isStreaming || isPosting
+                        !displayContent || !onPostDraft || isStreaming || isPosting || publishBlocked
                           ? 'bg-muted text-muted-foreground cursor-not-allowed'
                           : 'bg-[#0A66C2] text-white hover:bg-[#004182]'
                       }`}
+                      title={publishBlocked ? 'Fix the errors in the LinkedIn checks to publish' : undefined}
                     >
                       {isPosting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Linkedin className="h-4 w-4" />}
                       {isPosting ? 'Publishing...' : 'Publish on LinkedIn'}
@@ -805,6 +953,34 @@ export const DraftPanel = memo(({
               </div>
             )}
 
+            {/* Version Diff Viewer */}
+            {hasVersions && selectedDraft && (() => {
+              // Compare the viewed version against the version it was edited from
+              const viewedVersion = selectedVersion ?? selectedDraft.currentVersion;
+              const parentVersion = getParentVersion(selectedDraft, viewedVersion);
+              return (
+                <VersionDiffViewer
+                  open={showVersionDiff}
+                  onOpenChange={setShowVersionDiff}
+                  versions={selectedDraft.versions}
+                  initialFromVersion={parentVersion ?? viewedVersion}
+                  initialToVersion={parentVersion !== undefined ? viewedVersion : selectedDraft.versions[1].version}
+                  onCreateVersion={onCreateVersionFromDiff ? handleCreateVersionFromDiff : undefined}
+                />
+              );
+            })()}
+
+            {/* Carousel Editor */}
+            {selectedDraft && currentCarouselDeck && onCarouselDeckChange && onCarouselOpenChange && (
+              <CarouselEditor
+                open={isCarouselOpen}
+                onOpenChange={onCarouselOpenChange}
+                deck={currentCarouselDeck}
+                onDeckChange={(deck) => onCarouselDeckChange(selectedDraft.id, deck)}
+                onAttach={enableMediaUpload ? handleAttachCarousel : undefined}
+              />
+            )}
+
             {/* Save to Plan Dialog */}
             <Dialog open={showSaveToPlanDialog} onOpenChange={setShowSaveToPlanDialog}>
               <DialogContent className="max-w-2xl">
@@ -0,0 +1,52 @@
+"use client";
+
+import { memo, useState } from "react";
+import { MessageSquare } from "lucide-react";
+import { Textarea } from "./ui/textarea";
+import { countPostCharacters, LINKEDIN_MAX_COMMENT_LENGTH } from "@/lib/postLint";
+
+interface FirstCommentFieldProps {
+  /** Saved comment; remount the field (key) to load another draft's */
+  value: string;
+  /** Called on blur when the text changed */
+  onSave: (firstComment: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Comment posted on the post right after it's published
+ * Links and hashtags go here so the post itself isn't down-ranked for them
+ */
+export const FirstCommentField = memo(({ value, onSave, disabled }: FirstCommentFieldProps) => {
+  const [text, setText] = useState(value);
+  const length = countPostCharacters(text);
+  const overLimit = length > LINKEDIN_MAX_COMMENT_LENGTH;
+
+  return (
+    <div className="bg-card border border-border rounded-lg px-3 py-2 space-y-1.5">
+      <label htmlFor="first-comment" className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+        <MessageSquare className="h-3.5 w-3.5" />
+        First comment
+      </label>
+      <Textarea
+        id="first-comment"
+        rows={2}
+        value={text}
+        disabled={disabled}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => {
+          if (text.trim() !== value.trim()) onSave(text);
+        }}
+        placeholder="Link or hashtags to comment once the post is live"
+        className="text-sm resize-none"
+      />
+      <p className={`text-[11px] ${overLimit ? "text-red-600 dark:text-red-400" : "text-muted-foreground"}`}>
+        {text.trim()
+          ? `${length.toLocaleString()} / ${LINKEDIN_MAX_COMMENT_LENGTH.toLocaleString()} characters · posted right after publishing`
+          : "Optional · posted right after publishing"}
+      </p>
+    </div>
+  );
+});
+
+FirstCommentField.displayName = "FirstCommentField";
@@ -0,0 +1,94 @@
+"use client";
+
+import { memo, useCallback } from "react";
+import { Bold, Code, Italic, List, Wand2 } from "lucide-react";
+import {
+  hasMarkdownFormatting,
+  markdownToLinkedIn,
+  toggleBullets,
+  toggleStyle,
+  type TextStyle,
+} from "@/lib/linkedinFormatting";
+
+interface FormattingToolbarProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const styleButtons: Array<{ style: TextStyle; label: string; Icon: typeof Bold }> = [
+  { style: "bold", label: "Bold", Icon: Bold },
+  { style: "italic", label: "Italic", Icon: Italic },
+  { style: "monospace", label: "Monospace", Icon: Code },
+];
+
+/**
+ * Bold, italic, monospace and bullets for the post editor, written as the
+ * Unicode characters LinkedIn displays (see lib/linkedinFormatting.ts)
+ */
+export const FormattingToolbar = memo(({ textareaRef, value, onChange }: FormattingToolbarProps) => {
+  /**
+   * Replace the selection (or, for bullets, the lines it touches) and keep it selected
+   */
+  const transformSelection = useCallback((transform: (text: string) => string, wholeLines = false) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    let start = textarea.selectionStart;
+    let end = textarea.selectionEnd;
+    if (wholeLines) {
+      start = value.lastIndexOf("\n", start - 1) + 1;
+      const lineEnd = value.indexOf("\n", end);
+      end = lineEnd === -1 ? value.length : lineEnd;
+    }
+    if (start === end && !wholeLines) return;
+
+    const replacement = transform(value.slice(start, end));
+    onChange(value.slice(0, start) + replacement + value.slice(end));
+
+    // Restore the selection once the new value is rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start, start + replacement.length);
+    });
+  }, [textareaRef, value, onChange]);
+
+  const showConvert = hasMarkdownFormatting(value);
+
+  return (
+    // Keep the textarea selection when a button is pressed
+    <div className="flex items-center gap-1" onMouseDown={(e) => e.preventDefault()}>
+      {styleButtons.map(({ style, label, Icon }) => (
+        <button
+          key={style}
+          onClick={() => transformSelection((text) => toggleStyle(text, style))}
+          className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition"
+          title={`${label} (select text first)`}
+          aria-label={label}
+        >
+          <Icon className="h-3.5 w-3.5" />
+        </button>
+      ))}
+      <button
+        onClick={() => transformSelection(toggleBullets, true)}
+        className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition"
+        title="Bullet list"
+        aria-label="Bullet list"
+      >
+        <List className="h-3.5 w-3.5" />
+      </button>
+      {showConvert && (
+        <button
+          onClick={() => onChange(markdownToLinkedIn(value))}
+          className="ml-auto inline-flex items-center gap-1 px-2 py-1 rounded text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition"
+          title="Turn **bold**, *italic*, `code` and - lists into LinkedIn formatting"
+        >
+          <Wand2 className="h-3.5 w-3.5" />
+          Convert markdown
+        </button>
+      )}
+    </div>
+  );
+});
+
+FormattingToolbar.displayName = 'FormattingToolbar';
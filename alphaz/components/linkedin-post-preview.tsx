@@ -1,13 +1,21 @@
 'use client';
 
-import { Building2, Pencil, Check, X, ImagePlus, Trash2, Loader2 } from 'lucide-react';
+import { Building2, Pencil, Check, X, ImagePlus, Film, FileText, Trash2, Loader2 } from 'lucide-react';
 import { memo, useState, useCallback, useRef, useEffect } from 'react';
 import { InlineEditPopup } from './inline-edit-popup';
+import { FormattingToolbar } from './formatting-toolbar';
+import { MentionPicker } from './mention-picker';
+import { DocumentCarouselPreview } from './document-carousel-preview';
+import { splitMentions } from '@/lib/mentions';
+import { MAX_IMAGES, MEDIA_SIZE_LIMITS, mediaKindOf, type MediaKind } from '@/lib/linkedinMedia';
+import type { StoredDraftMedia } from '@/lib/draftMedia';
 
-export interface UploadedImage {
+export interface UploadedMedia {
+  kind: MediaKind;
   file: File;
-  preview: string; // Data URL for preview
-  assetUrn?: string; // LinkedIn asset URN after upload
+  preview: string; // Object URL for preview
+  assetUrn?: string; // LinkedIn image asset, video or document URN after upload
+  stored?: StoredDraftMedia; // Copy saved with the draft, once stored
   isUploading?: boolean;
   error?: string;
 }
@@ -43,12 +51,29 @@ interface LinkedInPostPreviewProps {
   editedContent?: string;
   /** Called when edited content changes */
   onEditedContentChange?: (content: string) => void;
-  /** Uploaded images for this post */
-  uploadedImages?: UploadedImage[];
-  /** Called when user adds images */
-  onImagesChange?: (images: UploadedImage[]) => void;
-  /** Enable image upload feature */
-  enableImageUpload?: boolean;
+  /** Images, or a single video or PDF document, attached to this post */
+  uploadedMedia?: UploadedMedia[];
+  /** Called when user adds or removes media */
+  onMediaChange?: (media: UploadedMedia[]) => void;
+  /** Enable photo, video and document upload */
+  enableMediaUpload?: boolean;
+  /** Clerk user ID; enables @-mention suggestions while editing */
+  mentionUserId?: string | null;
+}
+
+/**
+ * Post text with mention tokens shown as LinkedIn shows them: the name, highlighted
+ */
+function renderWithMentions(text: string) {
+  return splitMentions(text).map((segment, index) =>
+    segment.type === 'mention' ? (
+      <span key={index} className="font-semibold text-blue-600 dark:text-blue-400" title={segment.urn}>
+        {segment.name}
+      </span>
+    ) : (
+      segment.text
+    )
+  );
 }
 
 export const LinkedInPostPreview = memo(({ 
@@ -70,10 +95,11 @@ export const LinkedInPostPreview = memo(({
   onSaveEdit,
   editedContent: controlledEditedContent,
   onEditedContentChange,
-  // Image upload props
-  uploadedImages = [],
-  onImagesChange,
-  enableImageUpload = false,
+  // Media upload props
+  uploadedMedia = [],
+  onMediaChange,
+  enableMediaUpload = false,
+  mentionUserId,
 }: LinkedInPostPreviewProps) => {
   const [selectedText, setSelectedText] = useState('');
   const [popupPosition, setPopupPosition] = useState<{ x: number; y: number } | null>(null);
@@ -90,67 +116,85 @@ export const LinkedInPostPreview = memo(({
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  // Handle image selection
-  const handleImageSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+  // Handle media selection
+  // A post has up to 9 images, or one video, or one PDF document
+  const handleMediaSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
-    if (!files || files.length === 0 || !onImagesChange) return;
+    if (!files || files.length === 0 || !onMediaChange) return;
     
-    const newImages: UploadedImage[] = [];
+    const newMedia: UploadedMedia[] = [];
     
     Array.from(files).forEach(file => {
-      // Only accept images
-      if (!file.type.startsWith('image/')) return;
+      const kind = mediaKindOf(file);
+      if (!kind) return;
       
-      // Check file size (8MB limit for LinkedIn)
-      if (file.size > 8 * 1024 * 1024) {
-        alert(`File "${file.name}" is too large. Maximum size is 8MB.`);
+      // Check file size against LinkedIn's limit for the kind
+      if (file.size > MEDIA_SIZE_LIMITS[kind]) {
+        alert(`File "${file.name}" is too large. Maximum size is ${MEDIA_SIZE_LIMITS[kind] / (1024 * 1024)}MB.`);
         return;
       }
       
       // Create preview URL
       const preview = URL.createObjectURL(file);
-      newImages.push({ file, preview });
+      newMedia.push({ kind, file, preview });
     });
     
-    if (newImages.length > 0) {
-      // LinkedIn allows up to 9 images per post
-      const maxImages = 9;
-      const currentCount = uploadedImages.length;
-      const availableSlots = maxImages - currentCount;
-      const imagesToAdd = newImages.slice(0, availableSlots);
-      
-      if (newImages.length > availableSlots) {
-        alert(`You can only add up to ${maxImages} images. Adding ${imagesToAdd.length} of ${newImages.length} selected.`);
-      }
-      
-      onImagesChange([...uploadedImages, ...imagesToAdd]);
-    }
-    
     // Reset input so the same file can be selected again
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
-  }, [uploadedImages, onImagesChange]);
+    if (newMedia.length === 0) return;
+    
+    const video = newMedia.find(item => item.kind !== 'image');
+    if (video) {
+      // A video or document replaces whatever was attached
+      if (newMedia.length > 1) {
+        alert('A video or document is posted on its own. Adding only "' + video.file.name + '".');
+      }
+      newMedia.filter(item => item !== video).forEach(item => URL.revokeObjectURL(item.preview));
+      uploadedMedia.forEach(item => URL.revokeObjectURL(item.preview));
+      onMediaChange([video]);
+      return;
+    }
+    
+    // Photos replace an attached video or document
+    const currentImages = uploadedMedia.filter(item => item.kind === 'image');
+    uploadedMedia.filter(item => item.kind !== 'image').forEach(item => URL.revokeObjectURL(item.preview));
+    
+    const availableSlots = MAX_IMAGES - currentImages.length;
+    const imagesToAdd = newMedia.slice(0, availableSlots);
+    
+    if (newMedia.length > availableSlots) {
+      alert(`You can only add up to ${MAX_IMAGES} images. Adding ${imagesToAdd.length} of ${newMedia.length} selected.`);
+      newMedia.slice(availableSlots).forEach(item => URL.revokeObjectURL(item.preview));
+    }
+    
+    onMediaChange([...currentImages, ...imagesToAdd]);
+  }, [uploadedMedia, onMediaChange]);
   
-  // Remove an image
-  const handleRemoveImage = useCallback((index: number) => {
-    if (!onImagesChange) return;
+  // Remove an image, video or document
+  const handleRemoveMedia = useCallback((index: number) => {
+    if (!onMediaChange) return;
     
     // Revoke the object URL to free memory
-    const imageToRemove = uploadedImages[index];
-    if (imageToRemove?.preview) {
-      URL.revokeObjectURL(imageToRemove.preview);
+    const mediaToRemove = uploadedMedia[index];
+    if (mediaToRemove?.preview) {
+      URL.revokeObjectURL(mediaToRemove.preview);
     }
     
-    const newImages = uploadedImages.filter((_, i) => i !== index);
-    onImagesChange(newImages);
-  }, [uploadedImages, onImagesChange]);
+    const remaining = uploadedMedia.filter((_, i) => i !== index);
+    onMediaChange(remaining);
+  }, [uploadedMedia, onMediaChange]);
   
   // Trigger file input click
-  const handleAddImageClick = useCallback(() => {
+  const handleAddMediaClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
   
+  // Images keep their index in uploadedMedia for removal; a video or document is the only item
+  const images = uploadedMedia.flatMap((item, index) => (item.kind === 'image' ? [{ item, index }] : []));
+  const attachment = uploadedMedia.find(item => item.kind !== 'image');
+  
   // Sync editedContent when postContent changes from external source
   useEffect(() => {
     if (!isEditing && !isControlled) {
@@ -218,15 +262,20 @@ export const LinkedInPostPreview = memo(({
     }
   }, [onContentChange, editedContent, postContent, isControlled, onSaveEdit]);
   
-  // Handle textarea changes
-  const handleTextareaChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+  // Update the edited content (typing or the formatting toolbar)
+  const handleEditedContentChange = useCallback((content: string) => {
     if (isControlled && onEditedContentChange) {
-      onEditedContentChange(e.target.value);
+      onEditedContentChange(content);
     } else {
-      setInternalEditedContent(e.target.value);
+      setInternalEditedContent(content);
     }
     adjustTextareaHeight();
   }, [adjustTextareaHeight, isControlled, onEditedContentChange]);
+
+  // Handle textarea changes
+  const handleTextareaChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    handleEditedContentChange(e.target.value);
+  }, [handleEditedContentChange]);
   
   // Handle keyboard shortcuts in edit mode
   const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -353,6 +402,11 @@ export const LinkedInPostPreview = memo(({
         {/* Edit Mode */}
         {isEditing ? (
           <div className="space-y-2">
+            <FormattingToolbar
+              textareaRef={textareaRef}
+              value={editedContent}
+              onChange={handleEditedContentChange}
+            />
             <textarea
               ref={textareaRef}
               value={editedContent}
@@ -362,6 +416,14 @@ export const LinkedInPostPreview = memo(({
               style={{ minHeight: '150px' }}
               placeholder="Write your post content..."
             />
+            {mentionUserId && (
+              <MentionPicker
+                textareaRef={textareaRef}
+                value={editedContent}
+                onChange={handleEditedContentChange}
+                userId={mentionUserId}
+              />
+            )}
             {/* Only show inline Cancel/Save buttons in uncontrolled mode */}
             {!isControlled && (
               <div className="flex items-center justify-between">
@@ -399,12 +461,12 @@ export const LinkedInPostPreview = memo(({
                   {selectionRange ? (
                     // Render with highlight
                     <>
-                      {postContent.slice(0, selectionRange.start)}
+                      {renderWithMentions(postContent.slice(0, selectionRange.start))}
                       <mark className="bg-primary/30 text-foreground rounded px-0.5">{postContent.slice(selectionRange.start, selectionRange.end)}</mark>
-                      {postContent.slice(selectionRange.end)}
+                      {renderWithMentions(postContent.slice(selectionRange.end))}
                     </>
                   ) : (
-                    postContent
+                    renderWithMentions(postContent)
                   )}
                   {isStreaming && (
                     <span className="inline-block w-2 h-4 bg-blue-500 dark:bg-blue-400 ml-0.5 animate-pulse rounded-sm" />
@@ -430,29 +492,29 @@ export const LinkedInPostPreview = memo(({
         />
       )}
 
-      {/* Image Upload Section */}
-      {enableImageUpload && (
+      {/* Media Upload Section */}
+      {enableMediaUpload && (
         <>
           {/* Hidden file input */}
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*"
+            accept="image/*,video/*,application/pdf"
             multiple
-            onChange={handleImageSelect}
+            onChange={handleMediaSelect}
             className="hidden"
           />
           
           {/* Image previews */}
-          {uploadedImages.length > 0 && (
+          {images.length > 0 && (
             <div className="px-4 pb-3">
               <div className={`grid gap-2 ${
-                uploadedImages.length === 1 ? 'grid-cols-1' : 
-                uploadedImages.length === 2 ? 'grid-cols-2' :
-                uploadedImages.length === 3 ? 'grid-cols-3' :
+                images.length === 1 ? 'grid-cols-1' : 
+                images.length === 2 ? 'grid-cols-2' :
+                images.length === 3 ? 'grid-cols-3' :
                 'grid-cols-2'
               }`}>
-                {uploadedImages.map((image, index) => (
+                {images.map(({ item: image, index }) => (
                   <div 
                     key={index}
                     className="relative group rounded-lg overflow-hidden bg-muted aspect-square"
@@ -464,7 +526,7 @@ export const LinkedInPostPreview = memo(({
                     />
                     {/* Remove button */}
                     <button
-                      onClick={() => handleRemoveImage(index)}
+                      onClick={() => handleRemoveMedia(index)}
                       className="absolute top-2 right-2 p-1.5 bg-black/60 hover:bg-black/80 rounded-full text-white opacity-0 group-hover:opacity-100 transition"
                       title="Remove image"
                     >
@@ -487,15 +549,48 @@ export const LinkedInPostPreview = memo(({
             </div>
           )}
 
-          {/* Add image button */}
-          {uploadedImages.length < 9 && postContent && !isStreaming && (
+          {/* Video preview */}
+          {attachment?.kind === 'video' && (
+            <div className="px-4 pb-3">
+              <div className="relative group rounded-lg overflow-hidden bg-black">
+                <video src={attachment.preview} controls preload="metadata" className="w-full max-h-96" />
+                <button
+                  onClick={() => handleRemoveMedia(uploadedMedia.indexOf(attachment))}
+                  className="absolute top-2 right-2 p-1.5 bg-black/60 hover:bg-black/80 rounded-full text-white opacity-0 group-hover:opacity-100 transition"
+                  title="Remove video"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Document carousel preview */}
+          {attachment?.kind === 'document' && (
+            <div className="px-4 pb-3">
+              <DocumentCarouselPreview
+                file={attachment.file}
+                preview={attachment.preview}
+                onRemove={() => handleRemoveMedia(uploadedMedia.indexOf(attachment))}
+              />
+            </div>
+          )}
+
+          {/* Add media button (a video or document is posted on its own) */}
+          {!attachment && images.length < MAX_IMAGES && postContent && !isStreaming && (
             <div className="px-4 pb-3">
               <button
-                onClick={handleAddImageClick}
+                onClick={handleAddMediaClick}
                 className="flex items-center gap-2 px-3 py-2 text-sm text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg border border-dashed border-border transition w-full justify-center"
               >
                 <ImagePlus className="h-4 w-4" />
-                <span>{uploadedImages.length === 0 ? 'Add photo' : `Add more photos (${uploadedImages.length}/9)`}</span>
+                {images.length === 0 && (
+                  <>
+                    <Film className="h-4 w-4" />
+                    <FileText className="h-4 w-4" />
+                  </>
+                )}
+                <span>{images.length === 0 ? 'Add photo, video or PDF' : `Add more photos (${images.length}/${MAX_IMAGES})`}</span>
               </button>
             </div>
           )}
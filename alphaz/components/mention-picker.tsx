@@ -0,0 +1,234 @@
+"use client";
+
+import { memo, useCallback, useEffect, useMemo, useState } from "react";
+import { AtSign, Building2, Loader2, User, X } from "lucide-react";
+import { useMentionTargets } from "@/hooks/useMentionTargets";
+import {
+  findMentionQuery,
+  formatMention,
+  MENTION_URN_PATTERN,
+  searchMentionTargets,
+  type MentionTarget,
+} from "@/lib/mentions";
+
+interface MentionPickerProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  onChange: (value: string) => void;
+  /** Clerk user whose company pages and saved contacts are suggested */
+  userId: string;
+}
+
+/** The "@query" being typed, from its @ (start) to the caret (end) */
+interface ActiveMention {
+  start: number;
+  end: number;
+  query: string;
+}
+
+/**
+ * @-mention suggestions for the post editor
+ * Typing "@" in the textarea lists the user's company pages and saved contacts;
+ * picking one inserts a mention token (see lib/mentions.ts). A name that isn't
+ * saved yet can be saved with its LinkedIn URN and mentioned in one step.
+ */
+export const MentionPicker = memo(({ textareaRef, value, onChange, userId }: MentionPickerProps) => {
+  const { targets, loading, addContact, removeContact } = useMentionTargets(userId);
+  const [mention, setMention] = useState<ActiveMention | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // Start of an "@query" closed with Escape, so it doesn't reopen while typing on
+  const [dismissedStart, setDismissedStart] = useState<number | null>(null);
+  const [newUrn, setNewUrn] = useState("");
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const matches = useMemo(() => (mention ? searchMentionTargets(targets, mention.query) : []), [targets, mention]);
+
+  // Follow the caret: open on "@", close when it moves out of the query
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const update = () => {
+      const caret = textarea.selectionStart;
+      const found = textarea.selectionEnd === caret ? findMentionQuery(textarea.value, caret) : null;
+      if (!found || found.start !== dismissedStart) setDismissedStart(null);
+      if (!found || found.start === dismissedStart) {
+        setMention(null);
+        return;
+      }
+      setMention({ ...found, end: caret });
+    };
+    // Typing changes the matches, so start again from the first one
+    const handleInput = () => {
+      setActiveIndex(0);
+      update();
+    };
+
+    textarea.addEventListener("input", handleInput);
+    textarea.addEventListener("click", update);
+    textarea.addEventListener("keyup", update);
+    return () => {
+      textarea.removeEventListener("input", handleInput);
+      textarea.removeEventListener("click", update);
+      textarea.removeEventListener("keyup", update);
+    };
+  }, [textareaRef, dismissedStart]);
+
+  const insertMention = useCallback((target: MentionTarget) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+
+    const token = `${formatMention(target)} `;
+    onChange(value.slice(0, mention.start) + token + value.slice(mention.end));
+    setMention(null);
+    setNewUrn("");
+    setSaveError(null);
+
+    const caret = mention.start + token.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(caret, caret);
+    });
+  }, [textareaRef, mention, value, onChange]);
+
+  // Arrow keys, Enter/Tab and Escape while suggestions are open
+  // A native listener runs before the editor's own keydown handler, so Escape
+  // closes the suggestions instead of cancelling the edit
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mention) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setDismissedStart(mention.start);
+        setMention(null);
+      } else if (matches.length > 0 && e.key === "ArrowDown") {
+        setActiveIndex(index => (index + 1) % matches.length);
+      } else if (matches.length > 0 && e.key === "ArrowUp") {
+        setActiveIndex(index => (index - 1 + matches.length) % matches.length);
+      } else if (matches.length > 0 && (e.key === "Enter" || e.key === "Tab") && !e.ctrlKey && !e.metaKey) {
+        insertMention(matches[Math.min(activeIndex, matches.length - 1)]);
+      } else {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    };
+
+    textarea.addEventListener("keydown", handleKeyDown);
+    return () => textarea.removeEventListener("keydown", handleKeyDown);
+  }, [textareaRef, mention, matches, activeIndex, insertMention]);
+
+  const handleSaveContact = useCallback(async () => {
+    if (!mention) return;
+    const urn = newUrn.trim();
+    if (!MENTION_URN_PATTERN.test(urn)) {
+      setSaveError("Use a LinkedIn URN like urn:li:person:ID or urn:li:organization:ID");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const target = await addContact(mention.query.trim(), urn);
+      insertMention(target);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save contact");
+    } finally {
+      setIsSaving(false);
+    }
+  }, [mention, newUrn, addContact, insertMention]);
+
+  if (!mention) return null;
+
+  const canSaveContact = mention.query.trim().length > 0 && matches.length === 0 && !loading;
+
+  return (
+    <div className="bg-card border border-border rounded-lg shadow-sm text-xs overflow-hidden">
+      <div className="flex items-center gap-1.5 px-3 py-1.5 border-b border-border text-muted-foreground">
+        <AtSign className="h-3.5 w-3.5" />
+        {mention.query ? <>Mention &ldquo;{mention.query}&rdquo;</> : "Mention a page or contact"}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 px-3 py-2 text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Loading pages and contacts...
+        </div>
+      ) : matches.length > 0 ? (
+        // Keep the textarea focused while picking
+        <ul className="py-1" onMouseDown={(e) => e.preventDefault()}>
+          {matches.map((target, index) => {
+            const Icon = target.kind === "organization" ? Building2 : User;
+            return (
+              <li key={target.urn}>
+                <div
+                  className={`group flex items-center gap-2 px-3 py-1.5 cursor-pointer ${
+                    index === activeIndex ? "bg-muted text-foreground" : "text-foreground hover:bg-muted/60"
+                  }`}
+                  onClick={() => insertMention(target)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                >
+                  <Icon className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                  <span className="truncate">{target.name}</span>
+                  <span className="ml-auto text-muted-foreground flex-shrink-0">
+                    {target.source === "company-page" ? "Your page" : "Contact"}
+                  </span>
+                  {target.contactId && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeContact(target.contactId!).catch(err => console.error("Error deleting contact:", err));
+                      }}
+                      className="p-0.5 rounded text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition"
+                      title="Remove saved contact"
+                      aria-label={`Remove ${target.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      ) : canSaveContact ? (
+        <form
+          className="px-3 py-2 space-y-1.5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSaveContact();
+          }}
+        >
+          <p className="text-muted-foreground">
+            No page or contact called &ldquo;{mention.query.trim()}&rdquo;. Save them with their LinkedIn URN:
+          </p>
+          <div className="flex items-center gap-1.5">
+            <input
+              value={newUrn}
+              onChange={(e) => {
+                setNewUrn(e.target.value);
+                setSaveError(null);
+              }}
+              placeholder="urn:li:person:..."
+              className="flex-1 min-w-0 bg-muted/50 border border-border rounded px-2 py-1 font-mono focus:outline-none focus:ring-1 focus:ring-primary/40"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !newUrn.trim()}
+              className="px-2 py-1 rounded bg-primary text-primary-foreground font-medium hover:bg-primary/90 transition disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save & mention"}
+            </button>
+          </div>
+          {saveError && <p className="text-red-600 dark:text-red-400">{saveError}</p>}
+        </form>
+      ) : (
+        <p className="px-3 py-2 text-muted-foreground">
+          Type a name to find your company pages and saved contacts
+        </p>
+      )}
+    </div>
+  );
+});
+
+MentionPicker.displayName = 'MentionPicker';
@@ -2,7 +2,10 @@
 
 import { useEffect, useState } from "react"
 import { MetricsCard } from "./metrics-card"
-import { ChartCard, LineChart, BarChart } from "./chart-card"
+import { ChartCard } from "./chart-card"
+import { BarChart, DonutChart } from "./charts"
+import { AnalyticsTrends } from "./analytics-trends"
+import { engagementBreakdown, demographicsToSlices } from "@/lib/chartData"
 import { Eye, Users, Heart, TrendingUp, MessageCircle, Share2, RefreshCw } from "lucide-react"
 import { SimpleDropdown } from "@/components/ui/simple-dropdown"
 import { useUser } from "@clerk/nextjs"
@@ -208,16 +211,6 @@ export function MonitorLayout() {
   const [selectedRange, setSelectedRange] = useState("30d")
   const [postsData, setPostsData] = useState<any[]>([])
   
-  // Sample data for charts (will be replaced with real data later)
-  const followersGrowthData = [3500, 3600, 3650, 3700, 3800, 3900]
-  const engagementData = [
-    { likes: 400, comments: 50, shares: 20 },
-    { likes: 380, comments: 60, shares: 25 },
-    { likes: 520, comments: 80, shares: 30 },
-    { likes: 460, comments: 70, shares: 28 },
-    { likes: 550, comments: 90, shares: 35 },
-    { likes: 600, comments: 100, shares: 40 }
-  ]
   const ranges = [
     { value: "7d", label: "Last 7 days" },
     { value: "30d", label: "Last 30 days" },
@@ -763,16 +756,31 @@ export function MonitorLayout() {
             </div>
           )}
 
-          {/* Charts - Only for Personal Profiles */}
-          {isPersonalProfile && (
+          {/* Trends from daily snapshots */}
+          {!error && (
+            <AnalyticsTrends followers={dashboard?.followers} period={selectedRange} />
+          )}
+
+          {/* Period Charts */}
+          {!loading && !error && dashboard && (
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <ChartCard title="Followers Growth">
-                <LineChart data={followersGrowthData} />
-              </ChartCard>
-              
-              <ChartCard title="Engagement Breakdown">
-                <BarChart data={engagementData} />
-              </ChartCard>
+              {isPersonalProfile ? (
+                <ChartCard title="Engagement Breakdown">
+                  {dashboard.posts ? (
+                    <BarChart {...engagementBreakdown(dashboard.posts)} emptyMessage="No engagement this period" />
+                  ) : (
+                    <BarChart data={[]} keys={[]} emptyMessage="No engagement this period" />
+                  )}
+                </ChartCard>
+              ) : (
+                <ChartCard title="Followers by Function">
+                  <DonutChart
+                    slices={demographicsToSlices(dashboard.demographics?.functions, item => getFunctionName(item.function as string))}
+                    centerLabel="Followers"
+                    emptyMessage="No demographic data yet"
+                  />
+                </ChartCard>
+              )}
             </div>
           )}
           
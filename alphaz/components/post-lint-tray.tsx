@@ -0,0 +1,76 @@
+"use client";
+
+import { memo, useState } from "react";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, XCircle } from "lucide-react";
+import { countPostCharacters, LINKEDIN_MAX_LENGTH, type LintIssue } from "@/lib/postLint";
+
+interface PostLintTrayProps {
+  content: string;
+  /** Issues from lintPost(content) */
+  issues: LintIssue[];
+}
+
+/**
+ * Live LinkedIn checks for the post in the draft panel
+ * Errors block publishing; warnings are collapsed behind a count
+ */
+export const PostLintTray = memo(({ content, issues }: PostLintTrayProps) => {
+  const [expanded, setExpanded] = useState(true);
+  const length = countPostCharacters(content);
+  const errorCount = issues.filter(issue => issue.severity === "error").length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div className="bg-card border border-border rounded-lg px-3 py-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          disabled={issues.length === 0}
+          className="inline-flex items-center gap-1.5 font-medium text-muted-foreground hover:text-foreground disabled:hover:text-muted-foreground transition-colors"
+        >
+          {issues.length === 0 ? (
+            <CheckCircle2 className="h-3.5 w-3.5 text-emerald-600 dark:text-emerald-400" />
+          ) : expanded ? (
+            <ChevronDown className="h-3.5 w-3.5" />
+          ) : (
+            <ChevronRight className="h-3.5 w-3.5" />
+          )}
+          {issues.length === 0
+            ? "Ready for LinkedIn"
+            : [
+                errorCount > 0 && `${errorCount} error${errorCount === 1 ? "" : "s"}`,
+                warningCount > 0 && `${warningCount} warning${warningCount === 1 ? "" : "s"}`,
+              ].filter(Boolean).join(", ")}
+        </button>
+        <span className={length > LINKEDIN_MAX_LENGTH ? "text-red-600 dark:text-red-400 font-medium" : "text-muted-foreground"}>
+          {length.toLocaleString()} / {LINKEDIN_MAX_LENGTH.toLocaleString()}
+        </span>
+      </div>
+
+      {expanded && issues.length > 0 && (
+        <ul className="mt-2 space-y-1.5">
+          {issues.map((issue, index) => {
+            const Icon = issue.severity === "error" ? XCircle : AlertTriangle;
+            return (
+              <li key={`${issue.rule}-${index}`} className="flex items-start gap-1.5">
+                <Icon
+                  className={`h-3.5 w-3.5 mt-px flex-shrink-0 ${
+                    issue.severity === "error" ? "text-red-600 dark:text-red-400" : "text-amber-500"
+                  }`}
+                />
+                <span className="text-foreground">
+                  {issue.message}
+                  {issue.excerpt && (
+                    <span className="ml-1 text-muted-foreground font-mono break-all">&ldquo;{issue.excerpt}&rdquo;</span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+PostLintTray.displayName = 'PostLintTray';
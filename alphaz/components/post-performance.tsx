@@ -0,0 +1,205 @@
+"use client"
+
+import { useState } from "react"
+import { ExternalLink, Eye, MessageCircle, Pencil, Repeat2, ThumbsUp, Trash2 } from "lucide-react"
+import { format, formatDistanceToNow } from "date-fns"
+import { LineChart } from "./charts"
+import { PublishedPostDialog } from "./published-post-dialog"
+import { usePostPerformance, type PostMetrics, type PublishedPost } from "@/hooks/usePostPerformance"
+import { formatCompact, type ChartSeries } from "@/lib/chartData"
+import type { PublishedPostEdit } from "@/lib/publishedPosts"
+
+interface PostPerformanceProps {
+  userId: string | undefined
+  /** Only posts published from this draft, labelled by version */
+  draftId?: string
+  /** Organization posts; omit for personal posts. Ignored with draftId */
+  organizationId?: string
+  emptyMessage?: string
+  /** Called after a post's text is edited on LinkedIn, e.g. to show the draft version it added */
+  onPostEdited?: (post: PublishedPost, edit: PublishedPostEdit) => void
+}
+
+const metricFields: Array<{ key: keyof PostMetrics; label: string; color: string; icon: typeof Eye }> = [
+  { key: "impressions", label: "Impressions", color: "#3b82f6", icon: Eye },
+  { key: "reactions", label: "Reactions", color: "#ff6b35", icon: ThumbsUp },
+  { key: "comments", label: "Comments", color: "#8b5cf6", icon: MessageCircle },
+  { key: "reshares", label: "Reshares", color: "#10b981", icon: Repeat2 },
+]
+
+function timelineSeries(post: PublishedPost): ChartSeries[] {
+  return metricFields.map(field => ({
+    key: field.key,
+    label: field.label,
+    color: field.color,
+    data: post.timeline
+      .filter(point => point[field.key] !== null)
+      .map(point => ({ date: point.capturedAt, value: point[field.key] as number })),
+  }))
+}
+
+interface PostPerformanceCardProps {
+  post: PublishedPost
+  showContent: boolean
+  /** Edit and delete actions; omitted while the user isn't known */
+  onAction?: (mode: "edit" | "delete") => void
+}
+
+function PostPerformanceCard({ post, showContent, onAction }: PostPerformanceCardProps) {
+  return (
+    <div className={`rounded-lg border border-border bg-card p-4 ${post.deletedAt ? "opacity-60" : ""}`}>
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-sm font-medium">
+            {post.draftVersion !== null && (
+              <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-0.5 rounded-full">
+                v{post.draftVersion}
+              </span>
+            )}
+            <span>Published {format(new Date(post.publishedAt), "MMM d, yyyy 'at' h:mm a")}</span>
+            {post.deletedAt ? (
+              <span className="text-xs bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 px-2 py-0.5 rounded-full">
+                Deleted {format(new Date(post.deletedAt), "MMM d")}
+              </span>
+            ) : post.editedAt && (
+              <span className="text-xs text-muted-foreground">
+                · Edited {formatDistanceToNow(new Date(post.editedAt), { addSuffix: true })}
+              </span>
+            )}
+          </div>
+          {showContent && (
+            <p className="text-sm text-muted-foreground line-clamp-2 mt-1">{post.content}</p>
+          )}
+        </div>
+        {!post.deletedAt && (
+          <div className="flex items-center gap-3 flex-shrink-0">
+            {onAction && (
+              <>
+                <button
+                  onClick={() => onAction("edit")}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                  title="Edit the post on LinkedIn"
+                >
+                  <Pencil className="h-3 w-3" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => onAction("delete")}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-red-600 dark:hover:text-red-400"
+                  title="Delete the post from LinkedIn"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  Delete
+                </button>
+              </>
+            )}
+            <a
+              href={`https://www.linkedin.com/feed/update/${post.postUrn}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              View on LinkedIn
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-3">
+        {metricFields.map(field => {
+          const Icon = field.icon
+          const value = post.metrics[field.key]
+          return (
+            <div key={field.key} className="rounded-md bg-muted/50 px-3 py-2">
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Icon className="h-3 w-3" />
+                {field.label}
+              </div>
+              <div className="text-lg font-semibold">{value === null ? "–" : formatCompact(value)}</div>
+            </div>
+          )
+        })}
+      </div>
+
+      {post.timeline.length >= 2 ? (
+        <LineChart series={timelineSeries(post)} height={160} />
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Metrics are collected hourly for the first two days, then daily.
+        </p>
+      )}
+      {post.lastPolledAt && (
+        <p className="text-xs text-muted-foreground mt-2">
+          Updated {formatDistanceToNow(new Date(post.lastPolledAt), { addSuffix: true })}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * How posts published through Alphaz performed, with a metrics timeline per post
+ */
+export function PostPerformance({ userId, draftId, organizationId, emptyMessage = "No published posts yet", onPostEdited }: PostPerformanceProps) {
+  const { posts, loading, error, updatePost } = usePostPerformance({ userId, draftId, organizationId })
+  // Post being edited or deleted
+  const [action, setAction] = useState<{ post: PublishedPost; mode: "edit" | "delete" } | null>(null)
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map(i => (
+          <div key={i} className="rounded-lg border border-border p-4">
+            <div className="h-4 w-48 bg-muted rounded animate-pulse mb-3"></div>
+            <div className="h-32 bg-muted/60 rounded animate-pulse"></div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+        <p className="text-red-800">{error}</p>
+      </div>
+    )
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed border-border py-10 text-center text-sm text-muted-foreground">
+        {emptyMessage}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {posts.map(post => (
+        <PostPerformanceCard
+          key={post.id}
+          post={post}
+          showContent={!draftId}
+          onAction={userId ? mode => setAction({ post, mode }) : undefined}
+        />
+      ))}
+      {action && userId && (
+        <PublishedPostDialog
+          key={`${action.post.id}_${action.mode}`}
+          post={action.post}
+          mode={action.mode}
+          open
+          onOpenChange={open => !open && setAction(null)}
+          userId={userId}
+          onEdited={edit => {
+            updatePost(action.post.id, edit.post)
+            onPostEdited?.({ ...action.post, ...edit.post }, edit)
+          }}
+          onDeleted={deletedAt => updatePost(action.post.id, { deletedAt })}
+        />
+      )}
+    </div>
+  )
+}
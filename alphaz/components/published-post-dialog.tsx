@@ -0,0 +1,145 @@
+"use client";
+
+import { memo, useMemo, useState } from "react";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+import { PostLintTray } from "./post-lint-tray";
+import { diffWords } from "@/lib/draftDiff";
+import { markdownToLinkedIn } from "@/lib/linkedinFormatting";
+import { mentionsToText } from "@/lib/mentions";
+import { hasLintErrors, lintPost } from "@/lib/postLint";
+import { deletePublishedPost, editPublishedPost, type PublishedPostEdit } from "@/lib/publishedPosts";
+import type { PublishedPost } from "@/hooks/usePostPerformance";
+
+interface PublishedPostDialogProps {
+  post: PublishedPost;
+  mode: "edit" | "delete";
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  /** Called once LinkedIn has the new text */
+  onEdited: (edit: PublishedPostEdit) => void;
+  /** Called once the post is deleted from LinkedIn */
+  onDeleted: (deletedAt: string) => void;
+}
+
+const removedClass = "bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200 line-through decoration-red-500/60";
+const addedClass = "bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200";
+
+/**
+ * Edit or delete a post that is already live on LinkedIn
+ * Either way the change is confirmed against a diff of the live text first.
+ */
+export const PublishedPostDialog = memo(({ post, mode, open, onOpenChange, userId, onEdited, onDeleted }: PublishedPostDialogProps) => {
+  // Mention tokens only survive in commentary; older posts start from the plain text
+  const liveText = post.commentary ?? post.content;
+  const [text, setText] = useState(liveText);
+  const [isReviewing, setIsReviewing] = useState(mode === "delete");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const nextText = mode === "delete" ? "" : markdownToLinkedIn(text);
+  const issues = useMemo(() => lintPost(nextText), [nextText]);
+  const unchanged = mode === "edit" && nextText.trim() === liveText.trim();
+  const ops = useMemo(
+    () => (isReviewing ? diffWords(mentionsToText(liveText), mentionsToText(nextText)) : []),
+    [isReviewing, liveText, nextText]
+  );
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (mode === "delete") {
+        onDeleted(await deletePublishedPost(post.id, userId));
+      } else {
+        onEdited(await editPublishedPost(post.id, userId, nextText));
+      }
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "LinkedIn didn't accept the change");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{mode === "delete" ? "Delete post from LinkedIn" : "Edit published post"}</DialogTitle>
+          <DialogDescription>
+            {mode === "delete"
+              ? "The post and its reactions and comments are removed from LinkedIn. This can't be undone."
+              : isReviewing
+              ? "Check the changes before they go live."
+              : post.draftId
+              ? "The new text replaces the post on LinkedIn and is saved as a new version of its draft."
+              : "The new text replaces the post on LinkedIn."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isReviewing ? (
+          <div className="max-h-[50vh] overflow-y-auto rounded-lg border border-border bg-muted/30 p-3 text-sm whitespace-pre-wrap leading-relaxed">
+            {ops.map((op, index) => (
+              <span
+                key={index}
+                className={op.type === "delete" ? removedClass : op.type === "insert" ? addedClass : undefined}
+              >
+                {op.text}
+              </span>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={10}
+              className="text-sm"
+            />
+            <PostLintTray content={nextText} issues={issues} />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {mode === "edit" && isReviewing ? (
+            <Button variant="outline" onClick={() => setIsReviewing(false)} disabled={isSubmitting}>
+              Back to editing
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          {mode === "edit" && !isReviewing ? (
+            <Button onClick={() => setIsReviewing(true)} disabled={unchanged || hasLintErrors(issues)}>
+              Review changes
+            </Button>
+          ) : (
+            <Button
+              variant={mode === "delete" ? "destructive" : "default"}
+              onClick={handleConfirm}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : mode === "delete" ? (
+                <Trash2 className="h-4 w-4" />
+              ) : (
+                <Pencil className="h-4 w-4" />
+              )}
+              {mode === "delete" ? "Delete from LinkedIn" : "Update on LinkedIn"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+PublishedPostDialog.displayName = "PublishedPostDialog";
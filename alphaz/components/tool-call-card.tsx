@@ -0,0 +1,80 @@
+"use client";
+
+import { memo } from "react";
+import { BarChart3, CalendarClock, Check, FolderOpen, Lightbulb, Loader as LoaderIcon, X } from "lucide-react";
+import { describeToolCall, type ChatToolCall, type ChatToolName } from "@/lib/chatTools";
+
+const toolIcons: Record<ChatToolName, typeof CalendarClock> = {
+  schedule_draft: CalendarClock,
+  save_idea: Lightbulb,
+  query_metrics: BarChart3,
+  open_draft_version: FolderOpen,
+};
+
+interface ToolCallCardProps {
+  toolCall: ChatToolCall;
+  onConfirm: (toolCall: ChatToolCall) => void;
+  onDecline: (toolCall: ChatToolCall) => void;
+  /** True while an answer is streaming */
+  disabled?: boolean;
+}
+
+/**
+ * An action the assistant proposed: confirm or decline it, then see what happened
+ */
+export const ToolCallCard = memo(({ toolCall, onConfirm, onDecline, disabled }: ToolCallCardProps) => {
+  const Icon = toolIcons[toolCall.name];
+
+  return (
+    <div className="w-full bg-white dark:bg-card border border-slate-200 dark:border-border rounded-2xl px-4 py-3 shadow-sm">
+      <div className="flex items-start gap-3">
+        <Icon className="h-4 w-4 mt-0.5 text-slate-500 dark:text-slate-400 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-foreground">{describeToolCall(toolCall)}</p>
+
+          {toolCall.status === "running" && (
+            <p className="mt-1 flex items-center gap-1.5 text-xs text-muted-foreground">
+              <LoaderIcon className="h-3 w-3 animate-spin" />
+              Running…
+            </p>
+          )}
+          {toolCall.status === "done" && (
+            <p className="mt-1 flex items-center gap-1.5 text-xs text-emerald-600 dark:text-emerald-400">
+              <Check className="h-3 w-3" />
+              {toolCall.summary || "Done"}
+            </p>
+          )}
+          {toolCall.status === "declined" && (
+            <p className="mt-1 text-xs text-muted-foreground">Declined</p>
+          )}
+          {toolCall.status === "failed" && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">{toolCall.error || "Something went wrong"}</p>
+          )}
+        </div>
+
+        {toolCall.status === "pending" && (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <button
+              onClick={() => onDecline(toolCall)}
+              disabled={disabled}
+              className="inline-flex items-center gap-1 px-2.5 py-1 text-xs text-muted-foreground hover:text-foreground rounded-md transition-colors disabled:opacity-40"
+            >
+              <X className="h-3 w-3" />
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(toolCall)}
+              disabled={disabled}
+              className="inline-flex items-center gap-1 px-3 py-1 text-xs font-medium text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-950/30 hover:bg-orange-100 dark:hover:bg-orange-950/50 rounded-md transition-colors disabled:opacity-40"
+            >
+              <Check className="h-3 w-3" />
+              Confirm
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+ToolCallCard.displayName = 'ToolCallCard';
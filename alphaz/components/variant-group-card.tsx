@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, memo } from "react";
+import { Check, GitMerge, Layers, Trash2 } from "lucide-react";
+
+export interface VariantDraftSummary {
+  id: string;
+  title: string;
+}
+
+interface VariantGroupCardProps {
+  /** Variants of the group that haven't been discarded, in generation order */
+  variants: VariantDraftSummary[];
+  selectedDraftId?: string | null;
+  onView: (draftId: string) => void;
+  /** Keep this variant and discard the others */
+  onPick: (draftId: string) => void;
+  onDiscard: (draftId: string) => void;
+  /** Ask for one post combining the best parts of the given variants */
+  onMerge: (draftIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Chat card for a "give me N variants" answer: view, pick, merge or discard variants
+ */
+export const VariantGroupCard = memo(({
+  variants,
+  selectedDraftId,
+  onView,
+  onPick,
+  onDiscard,
+  onMerge,
+  disabled,
+}: VariantGroupCardProps) => {
+  const [mergeSelection, setMergeSelection] = useState<string[]>([]);
+
+  // Ignore selections of variants that were discarded since
+  const selectedForMerge = mergeSelection.filter(id => variants.some(v => v.id === id));
+  const isSingle = variants.length === 1;
+
+  const toggleMerge = (draftId: string) => {
+    setMergeSelection(prev => prev.includes(draftId) ? prev.filter(id => id !== draftId) : [...prev, draftId]);
+  };
+
+  if (variants.length === 0) {
+    return (
+      <div className="w-full rounded-2xl border border-dashed border-slate-200 dark:border-border px-4 py-3 text-sm text-muted-foreground">
+        All variants were discarded
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full bg-white dark:bg-card border border-slate-200 dark:border-border rounded-2xl px-4 py-3 shadow-sm">
+      <div className="flex items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-300 mb-2">
+        <Layers className="h-4 w-4" />
+        {isSingle ? "Picked variant" : `${variants.length} variants`}
+      </div>
+
+      <ul className="space-y-1">
+        {variants.map((variant, index) => {
+          const isActive = variant.id === selectedDraftId;
+          return (
+            <li key={variant.id} className="group flex items-center gap-2 rounded-lg px-2 py-1.5 hover:bg-muted/50">
+              {!isSingle && (
+                <input
+                  type="checkbox"
+                  checked={selectedForMerge.includes(variant.id)}
+                  onChange={() => toggleMerge(variant.id)}
+                  disabled={disabled}
+                  className="h-3.5 w-3.5 accent-orange-500"
+                  aria-label={`Select ${variant.title} to merge`}
+                />
+              )}
+              <button
+                onClick={() => onView(variant.id)}
+                className={`flex-1 min-w-0 text-left text-sm truncate ${isActive ? "text-emerald-600 font-medium" : "text-foreground"}`}
+                title="Show in the draft panel"
+              >
+                <span className="text-muted-foreground mr-1.5">{index + 1}.</span>
+                {variant.title}
+              </button>
+              {isActive && <span className="h-2 w-2 rounded-full bg-emerald-500 flex-shrink-0" aria-label="active" />}
+              {!isSingle && (
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => onPick(variant.id)}
+                    disabled={disabled}
+                    className="inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs text-emerald-700 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-950/30 disabled:opacity-40"
+                    title="Keep this variant and discard the others"
+                  >
+                    <Check className="h-3 w-3" />
+                    Keep
+                  </button>
+                  <button
+                    onClick={() => onDiscard(variant.id)}
+                    disabled={disabled}
+                    className="rounded p-1 text-muted-foreground hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30 disabled:opacity-40"
+                    title="Discard this variant"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {!isSingle && (
+        <div className="mt-2 flex items-center justify-between border-t border-border pt-2">
+          <span className="text-xs text-muted-foreground">
+            {selectedForMerge.length < 2 ? "Select two or more to merge" : `${selectedForMerge.length} selected`}
+          </span>
+          <button
+            onClick={() => {
+              onMerge(selectedForMerge);
+              setMergeSelection([]);
+            }}
+            disabled={disabled || selectedForMerge.length < 2}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-orange-600 dark:text-orange-400 bg-orange-50 dark:bg-orange-950/30 hover:bg-orange-100 dark:hover:bg-orange-950/50 rounded-md transition-colors disabled:opacity-40"
+          >
+            <GitMerge className="h-3 w-3" />
+            Merge best parts
+          </button>
+        </div>
+      )}
+    </div>
+  );
+});
+
+VariantGroupCard.displayName = 'VariantGroupCard';
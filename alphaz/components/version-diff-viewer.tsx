@@ -0,0 +1,316 @@
+'use client';
+
+import { memo, useMemo, useState, useCallback, useEffect, Fragment } from 'react';
+import { ArrowRight, Check, Columns2, GitMerge, Loader2, Rows3, Undo2, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { computeDraftDiff, applyHunkDecisions, type DiffHunk, type DiffOp, type HunkDecision } from '@/lib/draftDiff';
+import type { DraftVersion } from '@/lib/draftVersioning';
+
+interface VersionDiffViewerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: DraftVersion[];
+  /** Initial older version to compare */
+  initialFromVersion: number;
+  /** Initial newer version to compare */
+  initialToVersion: number;
+  /** Create a new version from the accepted/rejected hunks, branching from baseVersion */
+  onCreateVersion?: (content: string, editPrompt: string, changes: string[], baseVersion: number) => Promise<void> | void;
+}
+
+type DiffSegment =
+  | { kind: 'equal'; text: string }
+  | { kind: 'hunk'; hunk: DiffHunk };
+
+/**
+ * Collapse diff ops into equal text and whole hunks for rendering
+ */
+function toSegments(ops: DiffOp[], hunks: DiffHunk[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  let lastHunkId: number | null = null;
+  for (const op of ops) {
+    if (op.type === 'equal') {
+      segments.push({ kind: 'equal', text: op.text });
+      lastHunkId = null;
+    } else if (op.hunkId !== lastHunkId) {
+      segments.push({ kind: 'hunk', hunk: hunks[op.hunkId!] });
+      lastHunkId = op.hunkId!;
+    }
+  }
+  return segments;
+}
+
+function summarizeText(text: string, max = 40): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > max ? `${clean.slice(0, max)}…` : clean;
+}
+
+const removedClass = 'bg-red-100 dark:bg-red-900/40 text-red-800 dark:text-red-200 line-through decoration-red-500/60';
+const addedClass = 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200';
+
+export const VersionDiffViewer = memo(({
+  open,
+  onOpenChange,
+  versions,
+  initialFromVersion,
+  initialToVersion,
+  onCreateVersion,
+}: VersionDiffViewerProps) => {
+  const [fromVersion, setFromVersion] = useState(initialFromVersion);
+  const [toVersion, setToVersion] = useState(initialToVersion);
+  const [mode, setMode] = useState<'side-by-side' | 'inline'>('side-by-side');
+  const [decisions, setDecisions] = useState<Record<number, HunkDecision>>({});
+  const [activeHunk, setActiveHunk] = useState<number | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Reset when reopened for a different pair
+  useEffect(() => {
+    if (open) {
+      setFromVersion(initialFromVersion);
+      setToVersion(initialToVersion);
+    }
+  }, [open, initialFromVersion, initialToVersion]);
+
+  const diff = useMemo(
+    () => computeDraftDiff(versions, fromVersion, toVersion),
+    [versions, fromVersion, toVersion]
+  );
+  const segments = useMemo(() => toSegments(diff.ops, diff.hunks), [diff]);
+
+  // Decisions belong to one pair of versions
+  useEffect(() => {
+    setDecisions({});
+    setActiveHunk(null);
+  }, [diff]);
+
+  const mergedContent = useMemo(() => applyHunkDecisions(diff, decisions), [diff, decisions]);
+  const toContent = versions.find(v => v.version === toVersion)?.content || '';
+  const hasRejections = Object.values(decisions).includes('reject');
+
+  const setDecision = useCallback((hunkId: number, decision: HunkDecision) => {
+    setDecisions(prev => {
+      // Clicking the active decision again clears it
+      if (prev[hunkId] === decision) {
+        const next = { ...prev };
+        delete next[hunkId];
+        return next;
+      }
+      return { ...prev, [hunkId]: decision };
+    });
+  }, []);
+
+  const handleCreateVersion = useCallback(async () => {
+    if (!onCreateVersion) return;
+    const accepted = diff.hunks.filter(h => decisions[h.id] !== 'reject');
+    const rejected = diff.hunks.filter(h => decisions[h.id] === 'reject');
+    const changes = [
+      ...accepted.map(h => `Kept: ${summarizeText(h.added) || `removed "${summarizeText(h.removed)}"`}`),
+      ...rejected.map(h => `Reverted: ${summarizeText(h.removed) || `dropped "${summarizeText(h.added)}"`}`),
+    ];
+
+    setIsCreating(true);
+    try {
+      await onCreateVersion(mergedContent, `Merged changes from v${fromVersion} → v${toVersion}`, changes, toVersion);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error creating merged version:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  }, [onCreateVersion, diff, decisions, mergedContent, fromVersion, toVersion, onOpenChange]);
+
+  const hunkHighlight = (hunk: DiffHunk) =>
+    `rounded-sm cursor-pointer transition-shadow ${activeHunk === hunk.id ? 'ring-2 ring-primary' : ''} ${
+      decisions[hunk.id] ? 'opacity-60' : ''
+    }`;
+
+  const renderSide = (side: 'from' | 'to') => (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed">
+      {segments.map((segment, i) => {
+        if (segment.kind === 'equal') return <Fragment key={i}>{segment.text}</Fragment>;
+        const { hunk } = segment;
+        const text = side === 'from' ? hunk.removed : hunk.added;
+        if (!text) return null;
+        return (
+          <span
+            key={i}
+            className={`${side === 'from' ? removedClass : addedClass} ${hunkHighlight(hunk)}`}
+            onClick={() => setActiveHunk(hunk.id)}
+            title={hunk.editPrompt}
+          >
+            {text}
+          </span>
+        );
+      })}
+    </div>
+  );
+
+  const renderInline = () => (
+    <div className="whitespace-pre-wrap text-sm leading-relaxed">
+      {segments.map((segment, i) => {
+        if (segment.kind === 'equal') return <Fragment key={i}>{segment.text}</Fragment>;
+        const { hunk } = segment;
+        return (
+          <span key={i} className={hunkHighlight(hunk)} onClick={() => setActiveHunk(hunk.id)} title={hunk.editPrompt}>
+            {hunk.removed && <span className={removedClass}>{hunk.removed}</span>}
+            {hunk.added && <span className={addedClass}>{hunk.added}</span>}
+          </span>
+        );
+      })}
+    </div>
+  );
+
+  const versionSelect = (value: number, onChange: (v: number) => void, label: string) => (
+    <select
+      aria-label={label}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="h-8 rounded-md border border-border bg-card px-2 text-xs"
+    >
+      {versions.map(v => (
+        <option key={v.version} value={v.version}>
+          v{v.version}{v.parentVersion !== undefined && v.parentVersion !== v.version - 1 ? ` (from v${v.parentVersion})` : ''}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>
+            Review word-level changes, then accept or reject each change to build a new version
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Toolbar */}
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2 text-xs">
+            {versionSelect(fromVersion, setFromVersion, 'Compare from version')}
+            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+            {versionSelect(toVersion, setToVersion, 'Compare to version')}
+            <span className="text-muted-foreground ml-2">
+              {diff.hunks.length} change{diff.hunks.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              variant={mode === 'side-by-side' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMode('side-by-side')}
+            >
+              <Columns2 className="h-4 w-4 mr-1" />
+              Side by side
+            </Button>
+            <Button
+              variant={mode === 'inline' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setMode('inline')}
+            >
+              <Rows3 className="h-4 w-4 mr-1" />
+              Inline
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+          {/* Diff */}
+          {fromVersion === toVersion ? (
+            <div className="py-8 text-center text-sm text-muted-foreground">Pick two different versions to compare</div>
+          ) : mode === 'side-by-side' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="rounded-lg border border-border bg-card p-3">
+                <div className="text-xs font-medium text-muted-foreground mb-2">v{fromVersion}</div>
+                {renderSide('from')}
+              </div>
+              <div className="rounded-lg border border-border bg-card p-3">
+                <div className="text-xs font-medium text-muted-foreground mb-2">v{toVersion}</div>
+                {renderSide('to')}
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-lg border border-border bg-card p-3">
+              <div className="text-xs font-medium text-muted-foreground mb-2">v{fromVersion} → v{toVersion}</div>
+              {renderInline()}
+            </div>
+          )}
+
+          {/* Hunk list with edit prompt annotations */}
+          {fromVersion !== toVersion && diff.hunks.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium text-muted-foreground">Changes</div>
+              {diff.hunks.map(hunk => (
+                <div
+                  key={hunk.id}
+                  onMouseEnter={() => setActiveHunk(hunk.id)}
+                  className={`flex items-start justify-between gap-3 rounded-lg border p-3 text-xs transition-colors ${
+                    activeHunk === hunk.id ? 'border-primary bg-primary/5' : 'border-border bg-card'
+                  }`}
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    {hunk.editPrompt && (
+                      <div className="text-muted-foreground">
+                        <span className="font-medium">v{hunk.sourceVersion}:</span> “{hunk.editPrompt}”
+                      </div>
+                    )}
+                    <div className="whitespace-pre-wrap">
+                      {hunk.removed && <span className={removedClass}>{hunk.removed}</span>}
+                      {hunk.added && <span className={addedClass}>{hunk.added}</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant={decisions[hunk.id] === 'accept' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setDecision(hunk.id, 'accept')}
+                      title={`Keep the v${toVersion} text`}
+                    >
+                      <Check className="h-3 w-3 mr-1" />
+                      Accept
+                    </Button>
+                    <Button
+                      variant={decisions[hunk.id] === 'reject' ? 'destructive' : 'outline'}
+                      size="sm"
+                      onClick={() => setDecision(hunk.id, 'reject')}
+                      title={`Keep the v${fromVersion} text`}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {Object.keys(decisions).length > 0 && (
+            <Button variant="ghost" onClick={() => setDecisions({})} disabled={isCreating}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Reset
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCreating}>
+            Close
+          </Button>
+          {onCreateVersion && (
+            <Button
+              onClick={handleCreateVersion}
+              disabled={isCreating || fromVersion === toVersion || !hasRejections || mergedContent === toContent}
+              title={hasRejections ? 'Create a new version from your decisions' : 'Reject at least one change to build a new version'}
+            >
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <GitMerge className="h-4 w-4 mr-2" />}
+              Create Version
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+VersionDiffViewer.displayName = 'VersionDiffViewer';
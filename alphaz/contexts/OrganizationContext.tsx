@@ -1,6 +1,6 @@
 "use client"
 
-import React, { createContext, useContext, useState, useEffect } from 'react'
+import React, { createContext, useCallback, useContext, useState, useEffect } from 'react'
 
 interface Organization {
   id: string
@@ -10,10 +10,26 @@ interface Organization {
   logoUrl?: string
 }
 
+// Colours used for branded content such as carousel slides
+export interface BrandColors {
+  background: string
+  accent: string
+  text: string
+}
+
+export const DEFAULT_BRAND_COLORS: BrandColors = {
+  background: '#ffffff',
+  accent: '#0a66c2',
+  text: '#1d2226',
+}
+
 interface OrganizationContextType {
   selectedOrganization: Organization | null
   setSelectedOrganization: (org: Organization | null) => void
   isPersonalProfile: boolean
+  // Brand colours of the selected organization (or the personal profile)
+  brandColors: BrandColors
+  setBrandColors: (colors: BrandColors) => void
 }
 
 const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined)
@@ -42,13 +58,39 @@ export function OrganizationProvider({ children }: { children: React.ReactNode }
     }
   }, [selectedOrganization])
 
+  // Brand colours per organization id ('personal' for the personal profile)
+  const [brandColorsByAccount, setBrandColorsByAccount] = useState<Record<string, BrandColors>>(() => {
+    try {
+      const stored = localStorage.getItem('brand-colors')
+      return stored ? JSON.parse(stored) : {}
+    } catch {
+      return {}
+    }
+  })
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('brand-colors', JSON.stringify(brandColorsByAccount))
+    } catch (error) {
+      console.error('Failed to save brand colors:', error)
+    }
+  }, [brandColorsByAccount])
+
   const isPersonalProfile = selectedOrganization === null
+  const brandAccount = selectedOrganization?.id ?? 'personal'
+  const brandColors = brandColorsByAccount[brandAccount] ?? DEFAULT_BRAND_COLORS
+
+  const setBrandColors = useCallback((colors: BrandColors) => {
+    setBrandColorsByAccount(prev => ({ ...prev, [brandAccount]: colors }))
+  }, [brandAccount])
 
   return (
     <OrganizationContext.Provider value={{ 
       selectedOrganization, 
       setSelectedOrganization,
-      isPersonalProfile 
+      isPersonalProfile,
+      brandColors,
+      setBrandColors
     }}>
       {children}
     </OrganizationContext.Provider>
@@ -1,6 +1,37 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+import {
+  completeVariants,
+  createDraftObjectParser,
+  DRAFT_OBJECT_FORMAT,
+  DRAFT_VARIANTS_FORMAT,
+  formatVariantsMessage,
+  type DraftResponse,
+  type DraftVariant,
+  type DraftVariantsResponse,
+} from '@/lib/draftResponse';
+import {
+  CAROUSEL_FORMAT,
+  completeCarousel,
+  formatCarouselMessage,
+  type CarouselDeck,
+  type CarouselResponse,
+} from '@/lib/carousel';
+import { CONTEXT_SOURCES_HEADER, parseContextSources, type ContextSource } from '@/lib/contextRetrieval';
+import { linkedInToMarkdown } from '@/lib/linkedinFormatting';
+import { parseSlashCommand, type ChatMode } from '@/lib/chatModes';
+import {
+  CHAT_EVENTS_FORMAT,
+  createChatEventParser,
+  formatToolOutcomes,
+  isSettled,
+  needsFollowUp,
+  toChatToolCall,
+  toToolCallResult,
+  type ChatToolCall,
+  type ToolCallResult,
+} from '@/lib/chatTools';
 
 /**
  * Clean AI response by removing common hallucination artifacts
@@ -39,6 +70,23 @@ function cleanAIResponse(text: string): string {
   return cleaned;
 }
 
+/**
+ * Parse the X-Intent response header
+ * Format: "<intent>; model=<provider>:<modelId>" (model part is optional)
+ */
+function parseIntentHeader(header: string | null): {
+  intent: NonNullable<ChatMessage['intent']> | null;
+  model: string | null;
+} {
+  if (!header) return { intent: null, model: null };
+  const [intent, ...params] = header.split(';').map((part) => part.trim());
+  const modelParam = params.find((param) => param.startsWith('model='));
+  return {
+    intent: (intent || null) as NonNullable<ChatMessage['intent']> | null,
+    model: modelParam ? modelParam.slice('model='.length) : null,
+  };
+}
+
 /**
  * Type definitions for chat messages
  */
@@ -46,11 +94,65 @@ export interface ChatMessage {
   id: string;
   role: 'user' | 'assistant';
   content: string;
+  apiContent?: string; // Full message sent to the API when it differs from content (e.g. attached file text)
   timestamp: Date;
-  intent?: 'edit' | 'ideate' | 'draft' | 'feedback' | 'general';
+  intent?: 'edit' | 'ideate' | 'draft' | 'feedback' | 'analytics' | 'carousel' | 'general';
+  mode?: ChatMode; // Mode the user picked for this turn (user messages); skips intent detection
   draftContent?: string; // Clean post content for draft intent
   isStreamingProgress?: boolean; // True when showing rotating progress text during draft streaming
   isFollowUpQuestion?: boolean; // True when AI asks a clarifying question instead of generating draft
+  model?: string; // Model that answered, e.g. "anthropic:claude-opus-4-5-20251101"
+  sources?: ContextSource[]; // Organization data or analytics citations the answer was grounded in
+  stopReason?: StopReason; // Set when the answer ended before the model finished
+  alternatives?: ChatMessage[]; // Every answer generated for this turn (regenerate), including the shown one
+  alternativeIndex?: number; // Which of the alternatives is shown
+  toolCalls?: ChatToolCall[]; // Actions the assistant proposed; each is confirmed before it runs
+  toolFollowUp?: string; // Answer written after the tool results came back (shown below the tool calls)
+}
+
+/** Why an answer ended early: the user pressed Stop, or the connection dropped */
+export type StopReason = 'stopped' | 'interrupted';
+
+/** Update to a proposed tool call as the user confirms it and it runs */
+export type ToolCallUpdate = Partial<Pick<ChatToolCall, 'status' | 'summary' | 'result' | 'error'>>;
+
+/**
+ * Message text as persisted and sent in later turns: the answer, what its
+ * tool calls did, and the answer written after their results
+ */
+function withToolOutcomes(message: ChatMessage, toolCalls: ChatToolCall[], followUp?: string): string {
+  return [message.content, formatToolOutcomes(toolCalls), followUp]
+    .filter((part) => part?.trim())
+    .join('\n\n');
+}
+
+interface StreamReplyOptions {
+  /** Answer being regenerated; kept as a selectable alternative */
+  previousAnswer?: ChatMessage;
+  /** Explicit mode for the turn, if the user picked one */
+  mode?: ChatMode;
+  /** Continue an answer after its tool calls settled; the reply streams into toolFollowUp */
+  continuation?: { message: ChatMessage; toolResults: ToolCallResult[]; toolCalls: ChatToolCall[] };
+}
+
+/**
+ * An answer as stored among its turn's alternatives
+ */
+function toAlternative(message: ChatMessage): ChatMessage {
+  const answer = { ...message };
+  delete answer.alternatives;
+  delete answer.alternativeIndex;
+  return answer;
+}
+
+/**
+ * Copy the shown answer's final state into its slot among the alternatives
+ */
+function settleAlternatives(message: ChatMessage): ChatMessage {
+  if (!message.alternatives || message.alternativeIndex === undefined) return message;
+  const alternatives = [...message.alternatives];
+  alternatives[message.alternativeIndex] = toAlternative(message);
+  return { ...message, alternatives };
 }
 
 export interface ContextData {
@@ -68,6 +170,7 @@ export interface ContextData {
  * const { messages, isLoading, error, sendMessage } = useAIChat({
  *   organizationId: 'org123',
  *   clerkUserId: 'user456',
+ *   threadId: 'thread789',
  *   contextData: { summary: '...', demographics: '...' }
  * });
  * ```
@@ -75,18 +178,27 @@ export interface ContextData {
 export function useAIChat({
   organizationId,
   clerkUserId,
+  threadId,
   contextData,
   onDraftStream,
   onDraftStreamComplete,
+  onVariantsStreamComplete,
+  onCarouselComplete,
   onAIMessageComplete,
 }: {
   organizationId: string;
   clerkUserId: string;
+  /** Current thread; long threads are compacted into its rolling summary */
+  threadId?: string;
   contextData?: ContextData;
   /** Called with each streaming chunk when intent is 'draft' or 'edit' */
   onDraftStream?: (content: string, intent: 'draft' | 'edit') => void;
-  /** Called when draft streaming is complete */
-  onDraftStreamComplete?: (content: string, intent: 'draft' | 'edit', messageId: string) => void;
+  /** Called when draft streaming is complete, with the exact post body and change list */
+  onDraftStreamComplete?: (content: string, intent: 'draft' | 'edit', messageId: string, changes?: string[]) => void;
+  /** Called when a "give me N variants" draft completes, with one post per variant and the request */
+  onVariantsStreamComplete?: (variants: DraftVariant[], messageId: string, prompt: string) => void;
+  /** Called when a carousel request completes, with the slides to open in the slide editor */
+  onCarouselComplete?: (deck: CarouselDeck, messageId: string) => void;
   /** Called when any AI message streaming is complete (for persistence) */
   onAIMessageComplete?: (content: string, intent: string | null, messageId: string) => void;
 }) {
@@ -94,37 +206,190 @@ export function useAIChat({
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentIntent, setCurrentIntent] = useState<'edit' | 'ideate' | 'draft' | 'feedback' | 'general' | null>(null);
+  const [currentIntent, setCurrentIntent] = useState<'edit' | 'ideate' | 'draft' | 'feedback' | 'analytics' | 'carousel' | 'general' | null>(null);
+
+  // Aborts the in-flight /api/chat request when the user presses Stop
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Tool calls awaiting confirmation, by message; the message is persisted once they all settle
+  const pendingToolCallsRef = useRef(new Map<string, ChatToolCall[]>());
 
   /**
-   * Send a message to the AI
-   * Automatically fetches context from database if not provided
+   * Request the assistant's answer to a user turn and stream it in
+   * @param history - Messages before the user turn
+   * @param userMessage - The user turn as sent to the API (already last in history for a continuation)
    */
-  const sendMessage = useCallback(
-    async (userMessage: string, displayContent?: string) => {
-      // Validate input
-      if (!userMessage.trim()) {
-        setError('Message cannot be empty');
-        return;
-      }
-
-      // Reset error
-      setError(null);
+  const streamReply = useCallback(
+    async (history: ChatMessage[], userMessage: string, { previousAnswer, mode, continuation }: StreamReplyOptions = {}) => {
+      // Show loading state
+      setIsLoading(true);
 
-      // Create user message object
-      // displayContent is shown in UI, userMessage is sent to API
-      const newUserMessage: ChatMessage = {
-        id: `user-${Date.now()}`,
-        role: 'user',
-        content: displayContent || userMessage,
-        timestamp: new Date(),
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      // Stream state lives outside the try so a stop or dropped connection keeps the partial answer
+      let assistantMessageId: string | null = null;
+      let detectedIntent: NonNullable<ChatMessage['intent']> | null = null;
+      let fullText = '';
+      let draftParser: ReturnType<typeof createDraftObjectParser> | null = null;
+      let draftObject: Partial<DraftResponse> = {};
+      // Variant requests arrive as { type, variants: [{ angle, content }] } instead
+      let variantsParser: ReturnType<typeof createDraftObjectParser<DraftVariantsResponse>> | null = null;
+      let variants: DraftVariant[] = [];
+      // Carousel requests arrive as { type, title, slides: [{ title, bullets }] }
+      let carouselParser: ReturnType<typeof createDraftObjectParser<CarouselResponse>> | null = null;
+      let carouselDeck: CarouselDeck | null = null;
+      // Track if the model chose to ask a follow-up question (not a real draft)
+      let isFollowUpQuestion = false;
+      // Track if we're currently streaming to draft panel
+      let streamingToDraft = false;
+      // Text answers arrive as NDJSON events: text deltas and proposed tool calls
+      let eventParser: ReturnType<typeof createChatEventParser> | null = null;
+      const toolCalls: ChatToolCall[] = [];
+
+      const applyEvents = (events: ReturnType<ReturnType<typeof createChatEventParser>['push']>) => {
+        events.forEach((event) => {
+          if (event.type === 'text') {
+            fullText += event.text;
+          } else {
+            const toolCall = toChatToolCall(event);
+            if (toolCall) toolCalls.push(toolCall);
+          }
+        });
       };
 
-      // Add user message to chat
-      setMessages((prev) => [...prev, newUserMessage]);
+      /**
+       * Settle the assistant message once the stream ends: completed, stopped or dropped
+       * A partial draft is kept as a draft version so the panel matches the chat
+       */
+      const finishStream = (messageId: string, stopReason?: StopReason) => {
+        if (eventParser) {
+          applyEvents(eventParser.flush());
+        }
 
-      // Show loading state
-      setIsLoading(true);
+        // The answer after tool results is stored apart from the answer that proposed the calls
+        if (continuation) {
+          const followUp = cleanAIResponse(fullText);
+          const persisted = withToolOutcomes(continuation.message, continuation.toolCalls, followUp);
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === messageId ? { ...msg, toolFollowUp: followUp, apiContent: persisted, stopReason } : msg
+            )
+          );
+          if (onAIMessageComplete) {
+            onAIMessageComplete(persisted, continuation.message.intent ?? null, messageId);
+          }
+          return;
+        }
+
+        if (draftParser) {
+          draftObject = draftParser.flush();
+          fullText = draftObject.content || '';
+          isFollowUpQuestion = draftObject.type === 'question';
+        }
+        if (variantsParser) {
+          const variantsObject = variantsParser.flush();
+          isFollowUpQuestion = variantsObject.type === 'question';
+          variants = isFollowUpQuestion ? [] : completeVariants(variantsObject);
+          // The chat keeps all variants as one message so follow-ups can refer to them
+          fullText = isFollowUpQuestion ? variantsObject.question || '' : formatVariantsMessage(variants);
+        }
+        if (carouselParser) {
+          const carouselObject = carouselParser.flush();
+          isFollowUpQuestion = carouselObject.type === 'question';
+          carouselDeck = isFollowUpQuestion ? null : completeCarousel(carouselObject);
+          // The slides stay in the chat as one message so follow-ups ("shorten slide 3") can refer to them
+          fullText = carouselDeck ? formatCarouselMessage(carouselDeck) : carouselObject.question || '';
+        }
+        console.log(`   Final message length: ${fullText.length} chars`);
+
+        // Clean up common AI hallucination artifacts (file paths, git diffs, etc.)
+        fullText = cleanAIResponse(fullText);
+        console.log(`   Cleaned message length: ${fullText.length} chars`);
+        console.log(`   Is follow-up question: ${isFollowUpQuestion}`);
+        console.log(`   Streaming to draft: ${streamingToDraft}`);
+
+        // Only call draft completion if it's actually a draft (not a follow-up question)
+        // IMPORTANT: Store the actual draft content in the message for conversation memory
+        // The Create page will handle showing CTA buttons, but we need the content
+        // in the message so the AI has context for follow-up requests like "shorten the post"
+        if (variants.length > 0 && onVariantsStreamComplete) {
+          // Each variant becomes its own draft; the message lists them all
+          console.log(`   Variants: ${variants.length}`);
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === messageId
+                ? { ...msg, content: fullText, isStreamingProgress: false, draftContent: fullText }
+                : msg
+            )
+          );
+          onVariantsStreamComplete(variants, messageId, userMessage);
+        } else if (carouselDeck && carouselDeck.slides.length > 0) {
+          console.log(`   Carousel slides: ${carouselDeck.slides.length}`);
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === messageId ? { ...msg, content: fullText, isStreamingProgress: false } : msg
+            )
+          );
+          onCarouselComplete?.(carouselDeck, messageId);
+        } else if (streamingToDraft && !isFollowUpQuestion && onDraftStreamComplete) {
+          // Clear streaming flag AND store actual draft content in the message
+          // This is critical for AI memory - without this, the AI won't know what "the post" is
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === messageId
+                ? { ...msg, content: fullText, isStreamingProgress: false, draftContent: fullText }
+                : msg
+            )
+          );
+          // An empty partial (stopped before the post started) clears the draft panel
+          onDraftStreamComplete(fullText, detectedIntent as 'draft' | 'edit', messageId, draftObject.changes);
+        }
+
+        // For follow-up questions: ensure final content is set and streaming flag is cleared
+        // This triggers the UI to switch from streaming to the follow-up question style
+        if (isFollowUpQuestion) {
+          // Clear the intent
+          setCurrentIntent(null);
+
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === messageId
+                ? { ...msg, content: fullText, isStreamingProgress: false, intent: undefined, isFollowUpQuestion: true }
+                : msg
+            )
+          );
+        }
+
+        // Mark answers that ended early and record the final state among the turn's alternatives
+        const isEmpty = !fullText.trim() && toolCalls.length === 0;
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === messageId
+              ? settleAlternatives({
+                  ...msg,
+                  ...(msg.isStreamingProgress || (stopReason && isEmpty) ? { content: fullText, isStreamingProgress: false } : {}),
+                  ...(stopReason && isEmpty ? { intent: undefined, draftContent: undefined } : {}),
+                  ...(toolCalls.length > 0 ? { content: fullText, toolCalls } : {}),
+                  stopReason,
+                })
+              : msg
+          )
+        );
+
+        // Proposed tool calls wait for confirmation; the message is persisted once they settle
+        if (toolCalls.length > 0) {
+          console.log(`   Tool calls awaiting confirmation: ${toolCalls.map((call) => call.name).join(', ')}`);
+          pendingToolCallsRef.current.set(messageId, toolCalls);
+          return;
+        }
+
+        // Call AI message complete callback for persistence (all messages, partial ones included)
+        // Use null intent if it was a follow-up question (intent was cleared)
+        if (onAIMessageComplete && !isEmpty) {
+          onAIMessageComplete(fullText, isFollowUpQuestion ? null : detectedIntent, messageId);
+        }
+      };
 
       try {
         // Get context data (from props or fetch from database)
@@ -133,14 +398,12 @@ export function useAIChat({
         console.log(`   contextData is truthy:`, !!contextData);
         console.log(`   organizationId:`, organizationId);
 
-        // For organization accounts: fetch context if not provided
-        // For personal accounts: use provided context (don't fetch)
-        const contextToSend = contextData !== undefined 
-          ? contextData 
-          : (organizationId ? await fetchContextData(organizationId, clerkUserId) : {});
+        // Personal accounts send their profile context; organization context is
+        // retrieved server-side from the latest message (only the relevant chunks)
+        const contextToSend = contextData ?? {};
 
         console.log(`\n🔧 [PREPARING REQUEST]`);
-        console.log(`   Message count: ${messages.length + 1} (including new message)`);
+        console.log(`   Message count: ${history.length + 1} (including new message)`);
         console.log(`   Context provided: ${contextToSend && Object.keys(contextToSend).length > 0 ? 'YES ✅' : 'NO ❌'}`);
         
         if (contextToSend) {
@@ -152,16 +415,21 @@ export function useAIChat({
         }
 
         // Prepare messages for API (exclude timestamps for API call)
-        const messagesForAPI = messages.map((msg) => ({
+        // Intent lets the server keep the current draft verbatim when compacting
+        // LinkedIn's Unicode formatting goes back to markdown so the model sees plain text
+        const messagesForAPI: Array<{ role: 'user' | 'assistant'; content: string; intent?: string }> = history.map((msg) => ({
           role: msg.role,
-          content: msg.content,
+          content: linkedInToMarkdown(msg.apiContent ?? msg.content),
+          intent: msg.intent,
         }));
 
-        // Add current user message
-        messagesForAPI.push({
-          role: 'user',
-          content: userMessage,
-        });
+        // Add current user message (a continuation ends with the answer that called the tools)
+        if (!continuation) {
+          messagesForAPI.push({
+            role: 'user',
+            content: linkedInToMarkdown(userMessage),
+          });
+        }
 
         console.log(`\n📤 [CALLING API] /api/chat`);
         console.log(`   Request payload:`);
@@ -169,7 +437,11 @@ export function useAIChat({
         console.log(`      - Organization ID: ${organizationId}`);
         console.log(`      - User ID: ${clerkUserId}`);
         console.log(`      - Context data included: ${contextToSend ? 'YES ✅' : 'NO ❌'}`);
+        console.log(`      - Mode: ${mode ? `/${mode} (intent detection skipped)` : 'auto'}`);
         console.log(`   Stream enabled: YES ✅ (real-time response)`);
+        if (previousAnswer) {
+          console.log(`   Regenerating answer: ${previousAnswer.id}`);
+        }
 
         // Call the API with streaming
         const response = await fetch('/api/chat', {
@@ -181,8 +453,13 @@ export function useAIChat({
             messages: messagesForAPI,
             organizationId,
             clerkUserId,
+            threadId,
             contextData: contextToSend,
+            mode,
+            timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+            toolResults: continuation?.toolResults,
           }),
+          signal: abortController.signal,
         });
 
         // Handle API errors
@@ -192,6 +469,10 @@ export function useAIChat({
           if (errorData.error === 'NO_PERSONALIZATION' && errorData.requiresPersonalization) {
             throw new Error('REQUIRES_PERSONALIZATION');
           }
+          // Access check failures carry a typed code plus a readable message
+          if (response.status === 401 || response.status === 403) {
+            throw new Error(errorData.message || errorData.error || 'Access denied');
+          }
           throw new Error(errorData.error || `API error: ${response.status}`);
         }
 
@@ -199,40 +480,74 @@ export function useAIChat({
         console.log(`   Status: ${response.status}`);
         console.log(`   Content-Type: ${response.headers.get('content-type')}`);
         
-        // Extract intent from response headers
-        const detectedIntent = response.headers.get('X-Intent') as 'edit' | 'ideate' | 'draft' | 'feedback' | 'general' | null;
+        // Extract intent and answering model from response headers
+        const { intent, model: answeredBy } = parseIntentHeader(response.headers.get('X-Intent'));
+        detectedIntent = intent;
         if (detectedIntent) {
           console.log(`   🎯 Intent: ${detectedIntent.toUpperCase()}`);
           setCurrentIntent(detectedIntent);
         }
+        if (answeredBy) {
+          console.log(`   🤖 Model: ${answeredBy}`);
+        }
+        const sources = parseContextSources(response.headers.get(CONTEXT_SOURCES_HEADER));
+        if (sources.length > 0) {
+          console.log(`   📚 Sources: ${sources.length} context chunks`);
+        }
 
         // Create assistant message object first (empty, will be filled as stream arrives)
-        const assistantMessageId = `assistant-${Date.now()}`;
+        // A continuation streams into the answer that called the tools
+        const messageId = continuation ? continuation.message.id : `assistant-${Date.now()}`;
+        assistantMessageId = messageId;
         
         // Check if this is a draft/edit intent - will stream to draft panel unless it's a follow-up question
         const initialIsDraftIntent = detectedIntent === 'draft' || detectedIntent === 'edit';
         
         const assistantMessage: ChatMessage = {
-          id: assistantMessageId,
+          id: messageId,
           role: 'assistant',
           content: '',
           timestamp: new Date(),
           intent: detectedIntent || undefined,
+          model: answeredBy || undefined,
+          sources: sources.length > 0 ? sources : undefined,
         };
 
         // Add empty assistant message to chat
-        setMessages((prev) => [...prev, assistantMessage]);
+        // Regenerating replaces the shown answer; earlier answers stay selectable as alternatives
+        if (continuation) {
+          // Already in the chat
+        } else if (previousAnswer) {
+          pendingToolCallsRef.current.delete(previousAnswer.id);
+          const alternatives = [
+            ...(previousAnswer.alternatives ?? [toAlternative(previousAnswer)]),
+            toAlternative(assistantMessage),
+          ];
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === previousAnswer.id
+                ? { ...assistantMessage, alternatives, alternativeIndex: alternatives.length - 1 }
+                : msg
+            )
+          );
+        } else {
+          setMessages((prev) => [...prev, assistantMessage]);
+        }
 
         // Process the streaming response
         const reader = response.body?.getReader();
         const decoder = new TextDecoder();
-        let fullText = '';
         let chunkCount = 0;
         
-        // Track if we've detected this is a follow-up question (not a real draft)
-        let isFollowUpQuestion = false;
-        // Track if we're currently streaming to draft panel
-        let streamingToDraft = initialIsDraftIntent;
+        // Draft/edit intents arrive as NDJSON partial objects ({ type, content, changes })
+        const responseFormat = response.headers.get('X-Response-Format');
+        draftParser = responseFormat === DRAFT_OBJECT_FORMAT ? createDraftObjectParser() : null;
+        variantsParser = responseFormat === DRAFT_VARIANTS_FORMAT
+          ? createDraftObjectParser<DraftVariantsResponse>()
+          : null;
+        carouselParser = responseFormat === CAROUSEL_FORMAT ? createDraftObjectParser<CarouselResponse>() : null;
+        eventParser = responseFormat === CHAT_EVENTS_FORMAT ? createChatEventParser() : null;
+        streamingToDraft = initialIsDraftIntent;
         
         // Progress phrase rotation - time-based for smooth transitions
         const progressPhrases = [
@@ -244,6 +559,7 @@ export function useAIChat({
         ];
         let currentPhraseIndex = 0;
         let lastPhraseChangeTime = Date.now();
+        let currentVariant = 0;
 
         if (!reader) {
           throw new Error('Response body is not readable');
@@ -251,6 +567,7 @@ export function useAIChat({
 
         console.log(`📖 [READING STREAM] Starting to receive chunks...`);
         console.log(`   Initial draft intent: ${initialIsDraftIntent ? 'YES' : 'NO'}`);
+        console.log(`   Structured draft object: ${draftParser ? 'YES' : variantsParser ? 'YES (variants)' : carouselParser ? 'YES (carousel)' : 'NO'}`);
 
         while (true) {
           const { done, value } = await reader.read();
@@ -258,98 +575,68 @@ export function useAIChat({
           if (done) {
             console.log(`\n✅ [STREAM COMPLETE]`);
             console.log(`   Total chunks received: ${chunkCount}`);
-            console.log(`   Final message length: ${fullText.length} chars`);
-            
-            // Clean up common AI hallucination artifacts (file paths, git diffs, etc.)
-            fullText = cleanAIResponse(fullText);
-            console.log(`   Cleaned message length: ${fullText.length} chars`);
+            finishStream(messageId);
+            break;
+          }
+
+          // Decode chunk
+          const chunk = decoder.decode(value, { stream: true });
+          chunkCount++;
+
+          if (draftParser) {
+            draftObject = draftParser.push(chunk);
+            fullText = draftObject.content || '';
             
-            // For draft/edit intents, use AI to classify if response is actual draft or follow-up question
-            if (initialIsDraftIntent && fullText.trim()) {
-              try {
-                console.log(`🔍 [CLASSIFYING RESPONSE] Calling API to detect draft vs question...`);
-                const classifyResponse = await fetch('/api/classify-response', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({ content: fullText, intent: detectedIntent }),
-                });
-                
-                if (classifyResponse.ok) {
-                  const { responseType } = await classifyResponse.json();
-                  isFollowUpQuestion = responseType === 'question';
-                  console.log(`   Classification result: ${responseType.toUpperCase()}`);
-                }
-              } catch (classifyError) {
-                console.error('Response classification failed:', classifyError);
-                // Default to treating as draft on error
-                isFollowUpQuestion = false;
+            // The model chose to ask a clarifying question: move it from the draft panel to chat
+            if (draftObject.type === 'question' && !isFollowUpQuestion) {
+              isFollowUpQuestion = true;
+              if (streamingToDraft && onDraftStream) {
+                onDraftStream('', detectedIntent as 'draft' | 'edit');
               }
-            }
-            
-            console.log(`   Is follow-up question: ${isFollowUpQuestion}`);
-            console.log(`   Streaming to draft: ${streamingToDraft}`);
-            
-            // Only call draft completion if it's actually a draft (not a follow-up question)
-            // IMPORTANT: Store the actual draft content in the message for conversation memory
-            // The Create page will handle showing CTA buttons, but we need the content
-            // in the message so the AI has context for follow-up requests like "shorten the post"
-            if (streamingToDraft && !isFollowUpQuestion && onDraftStreamComplete) {
-              // Clear streaming flag AND store actual draft content in the message
-              // This is critical for AI memory - without this, the AI won't know what "the post" is
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.id === assistantMessageId
-                    ? { ...msg, content: fullText, isStreamingProgress: false, draftContent: fullText }
-                    : msg
-                )
-              );
-              onDraftStreamComplete(fullText, detectedIntent as 'draft' | 'edit', assistantMessageId);
-            }
-            
-            // For follow-up questions: ensure final content is set and streaming flag is cleared
-            // This triggers the UI to switch from streaming to the follow-up question style
-            if (isFollowUpQuestion) {
-              // Clear the intent
+              streamingToDraft = false;
               setCurrentIntent(null);
-              
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.id === assistantMessageId
-                    ? { ...msg, content: fullText, isStreamingProgress: false, intent: undefined, isFollowUpQuestion: true }
-                    : msg
-                )
-              );
-              
-              // Signal to clear draft panel if it was streaming there
+            }
+          } else if (variantsParser) {
+            const variantsObject = variantsParser.push(chunk);
+            const streamedVariants = variantsObject.variants || [];
+            // The panel follows the variant currently being written
+            currentVariant = streamedVariants.length;
+            fullText = streamedVariants[streamedVariants.length - 1]?.content || '';
+            variants = completeVariants(variantsObject);
+
+            if (variantsObject.type === 'question' && !isFollowUpQuestion) {
+              isFollowUpQuestion = true;
               if (streamingToDraft && onDraftStream) {
-                onDraftStream('', detectedIntent as 'draft' | 'edit');
+                onDraftStream('', 'draft');
               }
+              streamingToDraft = false;
+              setCurrentIntent(null);
             }
-            
-            // Call AI message complete callback for persistence (all messages)
-            // Use null intent if it was a follow-up question (intent was cleared)
-            if (onAIMessageComplete && fullText.trim()) {
-              onAIMessageComplete(fullText, isFollowUpQuestion ? null : detectedIntent, assistantMessageId);
+            if (isFollowUpQuestion) {
+              fullText = variantsObject.question || '';
             }
-            break;
+          } else if (carouselParser) {
+            const carouselObject = carouselParser.push(chunk);
+            isFollowUpQuestion = carouselObject.type === 'question';
+            // Slides aren't streamed into the chat: it shows which one is being written
+            const slideCount = carouselObject.slides?.length || 0;
+            fullText = isFollowUpQuestion
+              ? carouselObject.question || ''
+              : slideCount > 0 ? `Building slide ${slideCount}…` : 'Planning the slides…';
+          } else if (eventParser) {
+            applyEvents(eventParser.push(chunk));
+          } else {
+            fullText += chunk;
           }
 
-          // Decode chunk
-          const chunk = decoder.decode(value, { stream: true });
-          fullText += chunk;
-          chunkCount++;
-
           // Log progress every 5 chunks
           if (chunkCount % 5 === 0) {
             console.log(`   Received ${chunkCount} chunks (${fullText.length} chars so far)...`);
           }
 
-          // Note: Follow-up question detection is now done via API after stream completes
-          // During streaming, we optimistically stream to draft panel for draft/edit intents
-
           if (streamingToDraft) {
-            // Stream to draft panel via callback
-            if (onDraftStream) {
+            // Stream to draft panel via callback (skip until the post body starts arriving)
+            if (onDraftStream && fullText) {
               onDraftStream(fullText, detectedIntent as 'draft' | 'edit');
             }
             
@@ -360,21 +647,33 @@ export function useAIChat({
               lastPhraseChangeTime = now;
             }
             
-            const progressText = progressPhrases[currentPhraseIndex];
+            const progressText = currentVariant > 0
+              ? `Writing variant ${currentVariant}…`
+              : progressPhrases[currentPhraseIndex];
 
             setMessages((prev) =>
               prev.map((msg) =>
-                msg.id === assistantMessageId
+                msg.id === messageId
                   ? { ...msg, content: progressText, isStreamingProgress: true }
                   : msg
               )
             );
+          } else if (continuation) {
+            setMessages((prev) =>
+              prev.map((msg) => (msg.id === messageId ? { ...msg, toolFollowUp: fullText } : msg))
+            );
           } else {
-            // Normal streaming to chat (either not draft intent OR detected as follow-up question)
+            // Normal streaming to chat (either not draft intent OR model asked a follow-up question)
             setMessages((prev) =>
               prev.map((msg) =>
-                msg.id === assistantMessageId
-                  ? { ...msg, content: fullText }
+                msg.id === messageId
+                  ? {
+                      ...msg,
+                      content: fullText,
+                      isStreamingProgress: !!carouselParser && !isFollowUpQuestion,
+                      ...(toolCalls.length > 0 ? { toolCalls: [...toolCalls] } : {}),
+                      ...(isFollowUpQuestion ? { intent: undefined, isFollowUpQuestion: true } : {}),
+                    }
                   : msg
               )
             );
@@ -382,119 +681,152 @@ export function useAIChat({
         }
 
         console.log(`\n✅ [CHAT COMPLETE]`);
-        console.log(`   Total messages: ${messages.length + 2} (including user and AI)`);
+        console.log(`   Total messages: ${history.length + 2} (including user and AI)`);
         console.log(`   User message length: ${userMessage.length} chars`);
         console.log(`   AI response length: ${fullText.length} chars`);
       } catch (err: any) {
-        const errorMessage = err.message || 'Failed to send message';
-        console.error('[CHAT] Error:', errorMessage);
-        setError(errorMessage);
-
-        // Optionally remove the user message if API call failed
-        // setMessages((prev) => prev.filter((msg) => msg.id !== newUserMessage.id));
+        const stopped = abortController.signal.aborted;
+
+        if (assistantMessageId) {
+          // Stopped or dropped mid-answer: keep the text that already arrived
+          console.log(`\n⏹️ [STREAM ${stopped ? 'STOPPED' : 'INTERRUPTED'}] Keeping ${fullText.length} chars`);
+          finishStream(assistantMessageId, stopped ? 'stopped' : 'interrupted');
+          if (!stopped) {
+            setError('The connection dropped before the answer finished. Regenerate to try again.');
+          }
+        } else if (stopped) {
+          console.log('[CHAT] Stopped before the response started');
+        } else {
+          const errorMessage = err.message || 'Failed to send message';
+          console.error('[CHAT] Error:', errorMessage);
+          setError(errorMessage);
+        }
       } finally {
+        if (abortControllerRef.current === abortController) {
+          abortControllerRef.current = null;
+        }
         setIsLoading(false);
       }
     },
-    [messages, organizationId, clerkUserId, contextData, onDraftStream, onDraftStreamComplete, onAIMessageComplete]
+    [organizationId, clerkUserId, threadId, contextData, onDraftStream, onDraftStreamComplete, onVariantsStreamComplete, onCarouselComplete, onAIMessageComplete]
   );
 
   /**
-   * Fetch organization context from database
-   * Returns formatted analytics and post data
+   * Send a message to the AI
+   * Organization context is retrieved server-side for each message
+   * @param mode - Explicit mode (slash command or mode picker); otherwise the intent is detected
    */
-  async function fetchContextData(
-    orgId: string,
-    userId: string
-  ): Promise<ContextData> {
-    try {
-      console.log(`\n📥 [CONTEXT FETCH] Starting...`);
-      console.log(`   Organization ID (LinkedIn Org): ${orgId}`);
-      console.log(`   User ID (Clerk ID): ${userId}`);
-      console.log(`   Frontend Proxy: /api/embeddings/organization/${userId}/${orgId}/context`);
-      console.log(`   (Proxy calls Backend: http://localhost:5000/api/embeddings/...)`);
-
-      const response = await fetch(
-        `/api/embeddings/organization/${userId}/${orgId}/context`
-      );
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.warn(`❌ [CONTEXT FETCH] Failed with status ${response.status}`);
-        console.warn(`   Error: ${errorData.error || 'Unknown error'}`);
-        console.warn(`   💡 Check if backend is running: npm start (in alphaz-backend folder)`);
-        return {};
+  const sendMessage = useCallback(
+    async (userMessage: string, displayContent?: string, mode?: ChatMode) => {
+      // Validate input
+      if (!userMessage.trim()) {
+        setError('Message cannot be empty');
+        return;
       }
 
-      const data = await response.json();
+      // Reset error
+      setError(null);
 
-      console.log(`✅ [CONTEXT FETCH] Success!`);
-      console.log(`   Embeddings count: ${data.embeddings?.length || 0}`);
-      console.log(`   Top posts count: ${data.topPosts?.length || 0}`);
+      // Create user message object
+      // displayContent is shown in UI, userMessage is sent to API
+      const newUserMessage: ChatMessage = {
+        id: `user-${Date.now()}`,
+        role: 'user',
+        content: displayContent || userMessage,
+        apiContent: displayContent && displayContent !== userMessage ? userMessage : undefined,
+        timestamp: new Date(),
+        mode,
+      };
 
-      // Log each embedding type
-      if (data.embeddings && Array.isArray(data.embeddings)) {
-        const contentTypes: { [key: string]: number } = {};
-        data.embeddings.forEach((e: any) => {
-          contentTypes[e.content_type] = (contentTypes[e.content_type] || 0) + 1;
-        });
-        console.log(`   Embedding types:`, contentTypes);
+      // Add user message to chat
+      setMessages((prev) => [...prev, newUserMessage]);
 
-        // Log summary content
-        const summaryEmbed = data.embeddings.find((e: any) => e.content_type === 'summary');
-        if (summaryEmbed) {
-          console.log(
-            `   Summary content length: ${summaryEmbed.content?.length || 0} chars`
-          );
-        }
+      await streamReply(messages, userMessage, { mode });
+    },
+    [messages, streamReply]
+  );
 
-        // Log demographic content
-        const demoEmbed = data.embeddings.find((e: any) => e.content_type === 'demographic_data');
-        if (demoEmbed) {
-          console.log(
-            `   Demographic content length: ${demoEmbed.content?.length || 0} chars`
-          );
-        }
+  /**
+   * Re-run the last user turn
+   * The current answer (complete or partial) stays selectable as an alternative
+   */
+  const regenerate = useCallback(async () => {
+    if (isLoading) return;
 
-        // Log post performance embeddings
-        const postEmbeds = data.embeddings.filter((e: any) => e.content_type === 'post_performance');
-        if (postEmbeds.length > 0) {
-          console.log(`   Post embeddings: ${postEmbeds.length} posts`);
-          postEmbeds.slice(0, 3).forEach((p: any, i: number) => {
-            console.log(
-              `      Post ${i + 1}: ${p.content?.substring(0, 50)}... (${p.content?.length || 0} chars)`
-            );
-          });
-        }
-      }
+    const lastUserIndex = messages.findLastIndex((msg) => msg.role === 'user');
+    if (lastUserIndex === -1) return;
 
-      // Format the context data for the AI
-      const formattedContext = {
-        summary: formatEmbeddings(data.embeddings, 'summary'),
-        demographicData: formatEmbeddings(data.embeddings, 'demographic_data'),
-        recentPosts: formatEmbeddings(data.embeddings, 'post_performance'),
-        engagementPatterns: data.topPosts
-          ? formatTopPosts(data.topPosts)
-          : undefined,
-      };
+    const userTurn = messages[lastUserIndex];
+    const previousAnswer = messages[lastUserIndex + 1];
+
+    setError(null);
+    await streamReply(
+      messages.slice(0, lastUserIndex),
+      userTurn.apiContent ?? userTurn.content,
+      { previousAnswer: previousAnswer?.role === 'assistant' ? previousAnswer : undefined, mode: userTurn.mode }
+    );
+  }, [messages, isLoading, streamReply]);
 
-      console.log(`\n📋 [CONTEXT FORMATTED]`);
-      console.log(`   Summary: ${formattedContext.summary?.length || 0} chars`);
-      console.log(`   Demographic: ${formattedContext.demographicData?.length || 0} chars`);
-      console.log(`   Posts: ${formattedContext.recentPosts?.length || 0} chars`);
-      console.log(`   Patterns: ${formattedContext.engagementPatterns?.length || 0} chars`);
+  /**
+   * Record progress on a proposed tool call (confirmed, declined, finished)
+   * Once every call of the message settled, the message is persisted with what
+   * the calls did; calls that return data (metrics) first get a follow-up answer
+   */
+  const updateToolCall = useCallback(async (messageId: string, toolCallId: string, update: ToolCallUpdate) => {
+    const pending = pendingToolCallsRef.current.get(messageId);
+    if (!pending) return;
 
-      return formattedContext;
-    } catch (error) {
-      console.error('[CHAT] Error fetching context:', error);
-      return {}; // Return empty context on error, chat can still work
+    const toolCalls = pending.map((call) => (call.id === toolCallId ? ({ ...call, ...update } as ChatToolCall) : call));
+    pendingToolCallsRef.current.set(messageId, toolCalls);
+    setMessages((prev) => prev.map((msg) => (msg.id === messageId ? { ...msg, toolCalls } : msg)));
+
+    if (!toolCalls.every(isSettled)) return;
+    pendingToolCallsRef.current.delete(messageId);
+
+    const messageIndex = messages.findIndex((msg) => msg.id === messageId);
+    if (messageIndex === -1) return;
+    const message = messages[messageIndex];
+
+    if (needsFollowUp(toolCalls)) {
+      setError(null);
+      await streamReply(messages.slice(0, messageIndex + 1), '', {
+        continuation: { message, toolResults: toolCalls.map(toToolCallResult), toolCalls },
+      });
+      return;
     }
-  }
+
+    const persisted = withToolOutcomes(message, toolCalls);
+    setMessages((prev) => prev.map((msg) => (msg.id === messageId ? { ...msg, apiContent: persisted } : msg)));
+    if (onAIMessageComplete) {
+      onAIMessageComplete(persisted, message.intent ?? null, messageId);
+    }
+  }, [messages, streamReply, onAIMessageComplete]);
+
+  /**
+   * Stop the answer being streamed; the partial text is kept
+   */
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  /**
+   * Show another answer generated for the same turn
+   */
+  const selectAlternative = useCallback((messageId: string, index: number) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === messageId && msg.alternatives?.[index]
+          ? { ...msg.alternatives[index], alternatives: msg.alternatives, alternativeIndex: index }
+          : msg
+      )
+    );
+  }, []);
 
   /**
    * Clear all messages from chat history
    */
   const clearChat = useCallback(() => {
+    pendingToolCallsRef.current.clear();
     setMessages([]);
     setError(null);
   }, []);
@@ -510,7 +842,20 @@ export function useAIChat({
    * Restore messages from a saved thread (for loading past conversations)
    */
   const restoreMessages = useCallback((savedMessages: ChatMessage[]) => {
-    setMessages(savedMessages);
+    // Regenerated answers are saved one after another; group them back into one turn
+    // User turns sent with a mode are saved with their slash command
+    const grouped = savedMessages.reduce<ChatMessage[]>((result, msg) => {
+      const previous = result[result.length - 1];
+      if (msg.role === 'user') {
+        const { mode, text } = parseSlashCommand(msg.content);
+        return [...result, mode ? { ...msg, content: text, mode } : msg];
+      }
+      if (previous?.role !== 'assistant') return [...result, msg];
+      const alternatives = [...(previous.alternatives ?? [previous]), msg];
+      return [...result.slice(0, -1), { ...msg, alternatives, alternativeIndex: alternatives.length - 1 }];
+    }, []);
+    pendingToolCallsRef.current.clear();
+    setMessages(grouped);
     setError(null);
   }, []);
 
@@ -523,39 +868,12 @@ export function useAIChat({
 
     // Actions
     sendMessage,
+    regenerate,
+    updateToolCall,
+    stopGeneration,
+    selectAlternative,
     clearChat,
     removeMessage,
     restoreMessages,
   };
 }
-
-/**
- * Helper function to format embeddings for display
- */
-function formatEmbeddings(embeddings: any[], contentType: string): string {
-  const relevant = embeddings.filter((e) => e.content_type === contentType);
-
-  if (relevant.length === 0) return '';
-
-  return relevant
-    .map((e) => e.content)
-    .join('\n\n---\n\n')
-    .substring(0, 2000); // Limit to 2000 chars to save tokens
-}
-
-/**
- * Helper function to format top posts
- */
-function formatTopPosts(posts: any[]): string {
-  if (!posts.length) return '';
-
-  const formatted = posts
-    .slice(0, 5)
-    .map(
-      (post) =>
-        `Post: "${post.post_content?.substring(0, 100)}..." (Engagement: ${post.engagement_rate?.toFixed(1)}%)`
-    )
-    .join('\n');
-
-  return `Top Performing Posts:\n${formatted}`;
-}
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+export interface AnalyticsSnapshot {
+  date: string;
+  followers: number | null;
+  newFollowers: number | null;
+  impressions: number | null;
+  reactions: number | null;
+  comments: number | null;
+  reshares: number | null;
+  pageViews: number | null;
+  uniquePageViews: number | null;
+}
+
+export interface PublishedPostMarker {
+  id: string;
+  postedAt: string;
+  title: string;
+}
+
+export interface AnalyticsTimeSeries {
+  days: number;
+  organizationId: string | null;
+  snapshots: AnalyticsSnapshot[];
+  posts: PublishedPostMarker[];
+  latestDemographics: Record<string, unknown> | null;
+}
+
+interface UseAnalyticsTimeSeriesOptions {
+  userId: string | undefined;
+  /** Omit for the personal profile */
+  organizationId?: string;
+  days: number;
+  enabled?: boolean;
+}
+
+interface UseAnalyticsTimeSeriesReturn {
+  data: AnalyticsTimeSeries | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Daily analytics snapshots for a range, plus the dates posts went out
+ */
+export function useAnalyticsTimeSeries({
+  userId,
+  organizationId,
+  days,
+  enabled = true,
+}: UseAnalyticsTimeSeriesOptions): UseAnalyticsTimeSeriesReturn {
+  const [data, setData] = useState<AnalyticsTimeSeries | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Key of the profile/range the current data belongs to
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+
+  const requestKey = `${userId}_${organizationId || 'personal'}_${days}`;
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+    let cancelled = false;
+
+    const params = new URLSearchParams({ days: days.toString() });
+    if (organizationId) params.set('organizationId', organizationId);
+
+    fetch(`${API_URL}/api/analytics/timeseries/${userId}?${params}`)
+      .then(async response => {
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to fetch analytics trends');
+        if (cancelled) return;
+        setData(body as AnalyticsTimeSeries);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Analytics timeseries fetch error:', err);
+        setData(null);
+        setError(err instanceof Error ? err.message : 'Failed to fetch analytics trends');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedKey(requestKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId, organizationId, days, requestKey]);
+
+  return { data, loading: enabled && loadedKey !== requestKey, error };
+}
@@ -0,0 +1,267 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { PublishedPost } from '@/hooks/usePostPerformance';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+// Same 24h localStorage cache the Monitor page uses, so both pages share fetched analytics
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface DashboardSummary {
+  period: string;
+  followers: {
+    lifetime?: number; // Personal profiles
+    total?: number; // Organizations
+    currentPeriod: number;
+    previousPeriod: number;
+    changePercent: string | null;
+  };
+  posts?: {
+    totalImpressions: number;
+    totalReactions: number;
+    totalComments: number;
+    totalReshares: number;
+    impressionChange: string | null;
+    reactionChange: string | null;
+    engagementRate: string;
+    engagementChange: string | null;
+  };
+  pageViews?: {
+    currentPeriod: number;
+    previousPeriod: number;
+    changePercent: string | null;
+    uniqueViewsCurrent: number;
+    uniqueViewsPrevious: number;
+  };
+  lastUpdated: string;
+  requiresReauth?: boolean;
+  message?: string | null;
+}
+
+export interface DashboardPost {
+  id: string;
+  text: string;
+  publishedAt: number | null;
+  metrics: {
+    likes: number;
+    comments: number;
+    reposts: number;
+    impressions: number;
+  } | null;
+}
+
+export interface UpcomingDraft {
+  id: string;
+  title: string | null;
+  content: string;
+  scheduled_at: string | null;
+  status: 'scheduled' | 'publishing' | 'failed';
+  failure_reason?: string | null;
+}
+
+interface UseDashboardDataOptions {
+  userId: string | undefined;
+  organizationId: string | undefined;
+  isPersonalProfile: boolean;
+  /** Skip fetching (e.g. LinkedIn not connected yet) */
+  enabled?: boolean;
+  period?: string;
+}
+
+interface UseDashboardDataReturn {
+  summary: DashboardSummary | null;
+  topPosts: DashboardPost[];
+  upcoming: UpcomingDraft[];
+  loading: boolean;
+  error: string | null;
+  lastUpdated: Date | null;
+  refresh: () => Promise<void>;
+}
+
+function readCache<T>(key: string): { data: T; timestamp: number } | null {
+  const cached = localStorage.getItem(key);
+  const timestamp = localStorage.getItem(`${key}_timestamp`);
+  if (!cached || !timestamp || Date.now() - parseInt(timestamp) >= CACHE_TTL_MS) return null;
+  try {
+    return { data: JSON.parse(cached), timestamp: parseInt(timestamp) };
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(key: string, data: unknown, timestamp: number) {
+  localStorage.setItem(key, JSON.stringify(data));
+  localStorage.setItem(`${key}_timestamp`, timestamp.toString());
+}
+
+async function fetchJson<T>(url: string, fallbackError: string): Promise<T> {
+  const response = await fetch(url);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || fallbackError);
+  return data as T;
+}
+
+/**
+ * Live dashboard data for the selected profile or organization:
+ * period-over-period metrics, top posts and upcoming scheduled drafts
+ */
+export function useDashboardData({
+  userId,
+  organizationId,
+  isPersonalProfile,
+  enabled = true,
+  period = '30d',
+}: UseDashboardDataOptions): UseDashboardDataReturn {
+  const [summary, setSummary] = useState<DashboardSummary | null>(null);
+  const [topPosts, setTopPosts] = useState<DashboardPost[]>([]);
+  const [upcoming, setUpcoming] = useState<UpcomingDraft[]>([]);
+  // Key of the profile/period the current data belongs to
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+
+  const requestKey = `${userId}_${isPersonalProfile ? 'personal' : organizationId}_${period}`;
+
+  const loadSummary = useCallback(async (forceRefresh: boolean): Promise<{ data: DashboardSummary; timestamp: number }> => {
+    const cacheKey = isPersonalProfile
+      ? `analytics_${userId}_${period}`
+      : `analytics_org_${organizationId}_${period}`;
+
+    const cached = forceRefresh ? null : readCache<DashboardSummary>(cacheKey);
+    if (cached) return cached;
+
+    const endpoint = isPersonalProfile
+      ? `${API_URL}/api/analytics/member/dashboard/${userId}?period=${period}`
+      : `${API_URL}/api/analytics/organization/dashboard/${userId}/${organizationId}?period=${period}`;
+    const data = await fetchJson<DashboardSummary>(endpoint, 'Failed to fetch analytics');
+
+    // Organizations report page views from a separate endpoint
+    if (!isPersonalProfile) {
+      try {
+        const pageData = await fetchJson<{ pageViews: DashboardSummary['pageViews'] }>(
+          `${API_URL}/api/analytics/organization/page-dashboard/${userId}/${organizationId}?period=${period}`,
+          'Failed to fetch page analytics'
+        );
+        data.pageViews = pageData.pageViews;
+      } catch (pageError) {
+        console.error('Failed to fetch page analytics:', pageError);
+      }
+    }
+
+    const timestamp = Date.now();
+    writeCache(cacheKey, data, timestamp);
+    return { data, timestamp };
+  }, [userId, organizationId, isPersonalProfile, period]);
+
+  const loadTopPosts = useCallback(async (): Promise<DashboardPost[]> => {
+    const engagement = (p: { metrics: DashboardPost['metrics'] }) =>
+      (p.metrics?.likes || 0) + (p.metrics?.comments || 0) + (p.metrics?.reposts || 0);
+
+    if (isPersonalProfile) {
+      // LinkedIn doesn't list member posts, so rank posts published from AlphaZ by their polled metrics
+      const { posts } = await fetchJson<{ posts: PublishedPost[] }>(
+        `${API_URL}/api/post-performance/${userId}`,
+        'Failed to fetch posts'
+      );
+      return (posts || [])
+        .filter(p => !p.deletedAt)
+        .map(p => ({
+          id: p.id,
+          text: p.content,
+          publishedAt: new Date(p.publishedAt).getTime(),
+          // Not polled yet
+          metrics: p.lastPolledAt
+            ? {
+                likes: p.metrics.reactions || 0,
+                comments: p.metrics.comments || 0,
+                reposts: p.metrics.reshares || 0,
+                impressions: p.metrics.impressions || 0,
+              }
+            : null,
+        }))
+        .sort((a, b) => engagement(b) - engagement(a))
+        .slice(0, 5);
+    }
+
+    const orgUrn = `urn:li:organization:${organizationId}`;
+    const { posts } = await fetchJson<{ posts: Array<{ id: string; textContent: string; publishedAt?: number; createdAt: number; metrics: DashboardPost['metrics'] }> }>(
+      `${API_URL}/api/analytics/organization/posts/${userId}/${encodeURIComponent(orgUrn)}?start=0&count=20`,
+      'Failed to fetch posts'
+    );
+    return (posts || [])
+      .sort((a, b) => engagement(b) - engagement(a))
+      .slice(0, 5)
+      .map(p => ({ id: p.id, text: p.textContent, publishedAt: p.publishedAt || p.createdAt || null, metrics: p.metrics }));
+  }, [userId, organizationId, isPersonalProfile]);
+
+  const loadUpcoming = useCallback(async (): Promise<UpcomingDraft[]> => {
+    const filter = isPersonalProfile ? 'isPersonal=true' : `organizationId=${organizationId}`;
+    const { drafts } = await fetchJson<{ drafts: Array<UpcomingDraft | { status: string }> }>(
+      `${API_URL}/api/scheduled-drafts/${userId}?${filter}`,
+      'Failed to fetch scheduled drafts'
+    );
+    const pending = drafts.filter((d): d is UpcomingDraft =>
+      d.status === 'scheduled' || d.status === 'publishing' || d.status === 'failed'
+    );
+    // Failed posts first (they need attention), then soonest scheduled
+    return pending
+      .sort((a, b) => {
+        if ((a.status === 'failed') !== (b.status === 'failed')) return a.status === 'failed' ? -1 : 1;
+        return new Date(a.scheduled_at || 0).getTime() - new Date(b.scheduled_at || 0).getTime();
+      })
+      .slice(0, 5);
+  }, [userId, organizationId, isPersonalProfile]);
+
+  const load = useCallback(async (forceRefresh: boolean) => {
+    if (!userId || (!isPersonalProfile && !organizationId)) return;
+
+    const [summaryResult, postsResult, upcomingResult] = await Promise.allSettled([
+      loadSummary(forceRefresh),
+      loadTopPosts(),
+      loadUpcoming(),
+    ]);
+
+    if (summaryResult.status === 'fulfilled') {
+      setSummary(summaryResult.value.data);
+      setLastUpdated(new Date(summaryResult.value.timestamp));
+      setError(null);
+    } else {
+      console.error('Dashboard analytics fetch error:', summaryResult.reason);
+      setSummary(null);
+      setError(summaryResult.reason instanceof Error ? summaryResult.reason.message : 'Failed to load analytics');
+    }
+
+    if (postsResult.status === 'fulfilled') {
+      setTopPosts(postsResult.value);
+    } else {
+      console.error('Dashboard posts fetch error:', postsResult.reason);
+      setTopPosts([]);
+    }
+
+    if (upcomingResult.status === 'fulfilled') {
+      setUpcoming(upcomingResult.value);
+    } else {
+      console.error('Dashboard scheduled drafts fetch error:', upcomingResult.reason);
+      setUpcoming([]);
+    }
+
+    setLoadedKey(requestKey);
+  }, [userId, organizationId, isPersonalProfile, requestKey, loadSummary, loadTopPosts, loadUpcoming]);
+
+  useEffect(() => {
+    if (enabled) load(false);
+  }, [enabled, load]);
+
+  const refresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await load(true);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [load]);
+
+  const loading = enabled && (loadedKey !== requestKey || refreshing);
+
+  return { summary, topPosts, upcoming, loading, error, lastUpdated, refresh };
+}
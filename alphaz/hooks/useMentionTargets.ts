@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { MentionTarget } from '@/lib/mentions';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+interface CompanyPage {
+  id: string;
+  name: string;
+}
+
+interface MentionContact {
+  id: string;
+  name: string;
+  urn: string;
+  kind: 'person' | 'organization';
+}
+
+interface UseMentionTargetsReturn {
+  /** Company pages first, then saved contacts */
+  targets: MentionTarget[];
+  loading: boolean;
+  error: string | null;
+  /** Save a person or page; resolves to the new target */
+  addContact: (name: string, urn: string) => Promise<MentionTarget>;
+  removeContact: (contactId: string) => Promise<void>;
+}
+
+function contactToTarget(contact: MentionContact): MentionTarget {
+  return { name: contact.name, urn: contact.urn, kind: contact.kind, source: 'contact', contactId: contact.id };
+}
+
+/**
+ * People and pages a user can @-mention: the company pages they administer
+ * and the contacts they have saved
+ */
+export function useMentionTargets(userId: string | null | undefined, enabled = true): UseMentionTargetsReturn {
+  const [pages, setPages] = useState<MentionTarget[]>([]);
+  const [contacts, setContacts] = useState<MentionTarget[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // User the current targets belong to
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+    let cancelled = false;
+
+    const fetchJson = async (url: string) => {
+      const response = await fetch(url);
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.error || 'Failed to load mention suggestions');
+      return body;
+    };
+
+    Promise.all([
+      fetchJson(`${API_URL}/api/linkedin/company-pages/${userId}`),
+      fetchJson(`${API_URL}/api/mention-contacts/${userId}`),
+    ])
+      .then(([pagesBody, contactsBody]) => {
+        if (cancelled) return;
+        setPages((pagesBody.companyPages || []).map((page: CompanyPage): MentionTarget => ({
+          name: page.name,
+          urn: `urn:li:organization:${page.id}`,
+          kind: 'organization',
+          source: 'company-page',
+        })));
+        setContacts((contactsBody.contacts || []).map(contactToTarget));
+        setError(null);
+        setLoadedUserId(userId);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading mention targets:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load mention suggestions');
+        setLoadedUserId(userId);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, enabled]);
+
+  const addContact = useCallback(async (name: string, urn: string) => {
+    if (!userId) throw new Error('Not signed in');
+    const response = await fetch(`${API_URL}/api/mention-contacts`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ clerkUserId: userId, name, urn }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || 'Failed to save contact');
+
+    const target = contactToTarget(body.contact);
+    setContacts(prev => [...prev.filter(contact => contact.urn !== target.urn), target]);
+    return target;
+  }, [userId]);
+
+  const removeContact = useCallback(async (contactId: string) => {
+    const response = await fetch(`${API_URL}/api/mention-contacts/${contactId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error || 'Failed to delete contact');
+    }
+    setContacts(prev => prev.filter(contact => contact.contactId !== contactId));
+  }, []);
+
+  const loading = enabled && !!userId && loadedUserId !== userId;
+
+  const targets = useMemo(() => [...pages, ...contacts], [pages, contacts]);
+
+  return { targets, loading, error, addContact, removeContact };
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+export interface PostMetrics {
+  impressions: number | null;
+  reactions: number | null;
+  comments: number | null;
+  reshares: number | null;
+}
+
+export interface PostMetricsPoint extends PostMetrics {
+  capturedAt: string;
+}
+
+export interface PublishedPost {
+  id: string;
+  postUrn: string;
+  organizationId: string | null;
+  threadId: string | null;
+  draftId: string | null;
+  draftVersionId: string | null;
+  draftVersion: number | null;
+  scheduledDraftId: string | null;
+  content: string;
+  /** Text as sent to LinkedIn, with mention tokens; null for posts published before it was kept */
+  commentary: string | null;
+  publishedAt: string;
+  editedAt: string | null;
+  /** Set once the post was deleted from LinkedIn */
+  deletedAt: string | null;
+  lastPolledAt: string | null;
+  metrics: PostMetrics;
+  timeline: PostMetricsPoint[];
+}
+
+interface UsePostPerformanceOptions {
+  userId: string | undefined;
+  /** Only posts published from this draft (database id) */
+  draftId?: string;
+  /** Organization posts; omit for personal posts. Ignored with draftId */
+  organizationId?: string;
+  enabled?: boolean;
+}
+
+interface UsePostPerformanceReturn {
+  posts: PublishedPost[];
+  loading: boolean;
+  error: string | null;
+  /** Apply an edit or deletion made through the API to the loaded posts */
+  updatePost: (postId: string, changes: Partial<PublishedPost>) => void;
+}
+
+/**
+ * Posts published through Alphaz with their polled metrics timelines
+ */
+export function usePostPerformance({
+  userId,
+  draftId,
+  organizationId,
+  enabled = true,
+}: UsePostPerformanceOptions): UsePostPerformanceReturn {
+  const [posts, setPosts] = useState<PublishedPost[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Key of the draft/profile the current posts belong to
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+
+  const requestKey = `${userId}_${draftId || organizationId || 'personal'}`;
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+    let cancelled = false;
+
+    const params = new URLSearchParams();
+    if (draftId) params.set('draftId', draftId);
+    else if (organizationId) params.set('organizationId', organizationId);
+
+    fetch(`${API_URL}/api/post-performance/${userId}?${params}`)
+      .then(async response => {
+        const body = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(body.error || 'Failed to fetch post performance');
+        if (cancelled) return;
+        setPosts(body.posts || []);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Post performance fetch error:', err);
+        setPosts([]);
+        setError(err instanceof Error ? err.message : 'Failed to fetch post performance');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedKey(requestKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, userId, draftId, organizationId, requestKey]);
+
+  const updatePost = useCallback((postId: string, changes: Partial<PublishedPost>) => {
+    setPosts(prev => prev.map(post => (post.id === postId ? { ...post, ...changes } : post)));
+  }, []);
+
+  return { posts, loading: enabled && loadedKey !== requestKey, error, updatePost };
+}
@@ -0,0 +1,77 @@
+import { useState, useCallback, useMemo } from 'react';
+import { getChatMode, matchSlashCommands, type ChatMode, type ChatModeOption } from '@/lib/chatModes';
+
+interface UseSlashCommandsReturn {
+  /** Commands matching what's typed; empty when the menu is closed */
+  options: ChatModeOption[];
+  /** Highlighted command, e.g. "/edit" */
+  activeCommand: string | undefined;
+  setActiveCommand: (command: string) => void;
+  /** Fill the input with the command, ready for the message */
+  selectCommand: (mode: ChatMode) => void;
+  /**
+   * Menu keyboard handling for the composer textarea
+   * Returns true when the key was used by the menu
+   */
+  handleMenuKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => boolean;
+}
+
+/**
+ * Slash command menu state for a composer
+ * The menu opens while the input is a bare "/command" being typed; the
+ * textarea keeps focus, so arrow keys, Enter/Tab and Escape are routed here.
+ * @param input - Current composer text
+ * @param setInput - Composer text setter
+ */
+export function useSlashCommands(input: string, setInput: (value: string) => void): UseSlashCommandsReturn {
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+  // Input the menu was dismissed for (Escape); it reopens once the input changes
+  const [dismissedFor, setDismissedFor] = useState<string | null>(null);
+
+  const options = useMemo(
+    () => (dismissedFor === input ? [] : matchSlashCommands(input)),
+    [input, dismissedFor]
+  );
+
+  const activeCommand = options.find((option) => option.command === highlighted)?.command ?? options[0]?.command;
+
+  const selectCommand = useCallback((mode: ChatMode) => {
+    setInput(`${getChatMode(mode).command} `);
+    setHighlighted(null);
+  }, [setInput]);
+
+  const handleMenuKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (options.length === 0) return false;
+
+    const activeIndex = Math.max(options.findIndex((option) => option.command === activeCommand), 0);
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted(options[(activeIndex + step + options.length) % options.length].command);
+        return true;
+      }
+      case 'Enter':
+      case 'Tab':
+        if (e.shiftKey) return false;
+        e.preventDefault();
+        selectCommand(options[activeIndex].mode);
+        return true;
+      case 'Escape':
+        e.preventDefault();
+        setDismissedFor(input);
+        return true;
+      default:
+        return false;
+    }
+  }, [options, activeCommand, selectCommand, input]);
+
+  return {
+    options,
+    activeCommand,
+    setActiveCommand: setHighlighted,
+    selectCommand,
+    handleMenuKeyDown,
+  };
+}
@@ -102,7 +102,7 @@ export function useThreads({
       try {
         const thread = await createThread(userId, organizationId, title);
         setThreads((prev) => [thread, ...prev]);
-        setCurrentThread({ ...thread, messages: [], drafts: [] });
+        setCurrentThread({ ...thread, messages: [], drafts: [], draftGroups: [] });
         return thread;
       } catch (err: any) {
         console.error('Failed to create thread:', err);
@@ -0,0 +1,169 @@
+/**
+ * Analytics Q&A
+ *
+ * Server side of the analytics intent: plans the user's question into
+ * analytics queries, loads the structured numbers they need from the backend
+ * (published post metrics, dashboard follower stats) and computes them with
+ * lib/analyticsQuery.ts. The chat model then answers from these results only.
+ */
+
+import { formatModelSpec, generateObjectWithFallback, resolveClassifierChain } from '@/lib/modelRouter';
+import {
+  AnalyticsPlanSchema,
+  followerPeriodsNeeded,
+  runAnalyticsQueries,
+  type AnalyticsPost,
+  type AnalyticsQuery,
+  type FollowerPeriods,
+} from '@/lib/analyticsQuery';
+import type { ContextSource } from '@/lib/contextRetrieval';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || process.env.API_URL || 'http://localhost:5000';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AnalyticsAnswer {
+  queries: AnalyticsQuery[];
+  /** One computed result per query, with inline [P1]/[R1] citations */
+  results: string[];
+  sources: ContextSource[];
+  /** Number of published posts with metrics the results were computed over */
+  postCount: number;
+}
+
+interface PerformancePost {
+  id: string;
+  content: string;
+  publishedAt: string;
+  metrics: { impressions: number | null; reactions: number | null; comments: number | null; reshares: number | null };
+}
+
+interface DashboardFollowers {
+  currentPeriod: number;
+  previousPeriod: number;
+  isEstimated?: boolean;
+  dataSource?: string;
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { cache: 'no-store' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Backend error: ${response.status}`);
+  return data as T;
+}
+
+/**
+ * Turn the question into analytics queries with the classifier chain
+ * Returns no queries if planning fails, so the answer says it can't compute it
+ */
+async function planAnalyticsQueries(question: string, recentContext?: string): Promise<AnalyticsQuery[]> {
+  try {
+    const { object, answeredBy } = await generateObjectWithFallback(resolveClassifierChain(), {
+      schema: AnalyticsPlanSchema,
+      prompt: `Plan the computations that answer this question about the user's LinkedIn analytics. ` +
+        `Use the fewest queries that answer it; "how did last month compare" is one compare query per metric asked about, ` +
+        `"how am I doing" is a compare on impressions and engagementRate over 30 days.\n\n` +
+        (recentContext ? `Recent conversation:\n${recentContext}\n\n` : '') +
+        `Question: "${question}"`,
+      temperature: 0,
+    });
+    console.log(`   Planner: ${formatModelSpec(answeredBy)}`);
+    return object.queries;
+  } catch (error) {
+    console.error('   ⚠️  Analytics planning failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Published posts with polled metrics; posts never polled are left out so
+ * they don't count as zeros
+ */
+async function loadPosts(clerkUserId: string, organizationId: string | undefined): Promise<AnalyticsPost[]> {
+  const params = new URLSearchParams(organizationId ? { organizationId } : {});
+  const { posts } = await fetchJson<{ posts: PerformancePost[] }>(
+    `${API_URL}/api/post-performance/${encodeURIComponent(clerkUserId)}?${params}`
+  );
+  return (posts || [])
+    .filter((post) => post.metrics.impressions !== null)
+    .map((post) => ({
+      id: post.id,
+      content: post.content,
+      publishedAt: post.publishedAt,
+      impressions: post.metrics.impressions || 0,
+      reactions: post.metrics.reactions || 0,
+      comments: post.metrics.comments || 0,
+      reshares: post.metrics.reshares || 0,
+    }));
+}
+
+/**
+ * Follower gains for a dashboard period and the one before it
+ * Returns null when the dashboard has no follower stats
+ */
+async function loadFollowerPeriods(
+  clerkUserId: string,
+  organizationId: string | undefined,
+  days: number,
+  now: Date
+): Promise<FollowerPeriods | null> {
+  const period = days === 365 ? '1y' : `${days}d`;
+  try {
+    const dashboard = await fetchJson<{
+      followers?: DashboardFollowers;
+      dateRange?: { current: { start: string; end: string }; previous: { start: string; end: string } };
+      requiresReauth?: boolean;
+    }>(
+      organizationId
+        ? `${API_URL}/api/analytics/organization/dashboard/${encodeURIComponent(clerkUserId)}/${encodeURIComponent(organizationId)}?period=${period}`
+        : `${API_URL}/api/analytics/member/dashboard/${encodeURIComponent(clerkUserId)}?period=${period}`
+    );
+    const { followers } = dashboard;
+    if (!followers || dashboard.requiresReauth || followers.dataSource === 'none') return null;
+
+    // The member dashboard has no date range; its periods end now
+    const currentStart = new Date(now.getTime() - days * DAY_MS).toISOString();
+    const range = dashboard.dateRange || {
+      current: { start: currentStart, end: now.toISOString() },
+      previous: { start: new Date(now.getTime() - 2 * days * DAY_MS).toISOString(), end: currentStart },
+    };
+    return {
+      current: { ...range.current, gained: followers.currentPeriod || 0 },
+      previous: { ...range.previous, gained: followers.previousPeriod || 0 },
+      isEstimated: !!followers.isEstimated,
+    };
+  } catch (error) {
+    console.error(`   ⚠️  Follower stats (${period}) unavailable:`, error);
+    return null;
+  }
+}
+
+/**
+ * Answer an analytics question with computed numbers
+ * Backend failures leave the affected data empty rather than failing the chat
+ */
+export async function computeAnalyticsAnswer(
+  clerkUserId: string,
+  organizationId: string | undefined,
+  question: string,
+  recentContext?: string
+): Promise<AnalyticsAnswer> {
+  const queries = await planAnalyticsQueries(question, recentContext);
+  if (queries.length === 0) return { queries, results: [], sources: [], postCount: 0 };
+
+  const now = new Date();
+  const periodDays = followerPeriodsNeeded(queries);
+  const [posts, followerPeriods] = await Promise.all([
+    loadPosts(clerkUserId, organizationId).catch((error) => {
+      console.error('   ⚠️  Post metrics unavailable:', error);
+      return [] as AnalyticsPost[];
+    }),
+    Promise.all(periodDays.map((days) => loadFollowerPeriods(clerkUserId, organizationId, days, now))),
+  ]);
+
+  const followers = Object.fromEntries(
+    periodDays.flatMap((days, index) => (followerPeriods[index] ? [[days, followerPeriods[index]]] : []))
+  );
+  const { results, sources } = runAnalyticsQueries({ posts, followers, now }, queries);
+  return { queries, results, sources, postCount: posts.length };
+}
@@ -0,0 +1,304 @@
+/**
+ * Analytics Queries
+ *
+ * Exact answers to questions about the account's numbers. A question is
+ * planned into a few structured queries (AnalyticsPlanSchema) which are
+ * computed here over published post metrics and follower stats, so the model
+ * only words the result. Every result cites the posts and periods it came from.
+ */
+
+import { z } from 'zod';
+import type { ContextSource } from '@/lib/contextRetrieval';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANK_LIMIT = 3;
+const EXCERPT_LENGTH = 120;
+
+/** Period lengths the backend dashboards report follower stats for */
+export const FOLLOWER_PERIOD_DAYS = [7, 30, 90, 365] as const;
+
+export const AnalyticsQuerySchema = z.object({
+  operation: z.enum(['total', 'average', 'top', 'bottom', 'compare']).describe(
+    'total: sum over the period (the overall rate for engagementRate). ' +
+    'average: mean per post. ' +
+    'top/bottom: the best or worst posts by the metric. ' +
+    'compare: the period against the period of the same length just before it.'
+  ),
+  metric: z.enum(['impressions', 'reactions', 'comments', 'reshares', 'engagement', 'engagementRate', 'newFollowers']).describe(
+    'engagement is reactions + comments + reshares; engagementRate is engagement / impressions. ' +
+    'newFollowers only supports total and compare.'
+  ),
+  days: z.number().int().min(1).max(365).describe('Length of the period in days, ending today (30 for "last month", 365 for "this year")'),
+  limit: z.number().int().min(1).max(10).optional().describe('Number of posts for top/bottom (default: 3)'),
+});
+
+export const AnalyticsPlanSchema = z.object({
+  queries: z.array(AnalyticsQuerySchema).max(4).describe(
+    'The computations needed to answer the question; empty if it is not about their numbers'
+  ),
+});
+
+export type AnalyticsQuery = z.infer<typeof AnalyticsQuerySchema>;
+export type AnalyticsMetric = AnalyticsQuery['metric'];
+type PostMetric = Exclude<AnalyticsMetric, 'newFollowers'>;
+
+/** A published post with its latest polled metrics */
+export interface AnalyticsPost {
+  id: string;
+  content: string;
+  publishedAt: string;
+  impressions: number;
+  reactions: number;
+  comments: number;
+  reshares: number;
+}
+
+interface PeriodRange {
+  start: string;
+  end: string;
+}
+
+/** Follower gains over a dashboard period and the period before it */
+export interface FollowerPeriods {
+  current: PeriodRange & { gained: number };
+  previous: PeriodRange & { gained: number };
+  /** The backend estimated the gains instead of reading them from LinkedIn */
+  isEstimated: boolean;
+}
+
+export interface AnalyticsDataset {
+  posts: AnalyticsPost[];
+  /** Follower stats keyed by period length (see FOLLOWER_PERIOD_DAYS) */
+  followers: Partial<Record<number, FollowerPeriods>>;
+  now: Date;
+}
+
+const METRIC_LABELS: Record<AnalyticsMetric, string> = {
+  impressions: 'Impressions',
+  reactions: 'Reactions',
+  comments: 'Comments',
+  reshares: 'Reshares',
+  engagement: 'Engagement (reactions + comments + reshares)',
+  engagementRate: 'Engagement rate',
+  newFollowers: 'New followers',
+};
+
+/**
+ * Dashboard period used for a follower question about the last `days` days
+ * (the shortest one covering it)
+ */
+export function followerPeriodDays(days: number): number {
+  return FOLLOWER_PERIOD_DAYS.find((period) => period >= days) ?? 365;
+}
+
+/**
+ * Follower periods the queries need loaded; stats are only fetched when asked about
+ */
+export function followerPeriodsNeeded(queries: AnalyticsQuery[]): number[] {
+  return [...new Set(
+    queries.filter((query) => query.metric === 'newFollowers').map((query) => followerPeriodDays(query.days))
+  )];
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+function postMetric(post: AnalyticsPost, metric: PostMetric): number | null {
+  const engagement = post.reactions + post.comments + post.reshares;
+  if (metric === 'engagement') return engagement;
+  if (metric === 'engagementRate') return post.impressions > 0 ? (engagement / post.impressions) * 100 : null;
+  return post[metric];
+}
+
+/**
+ * Sum or per-post mean of a metric; engagement rate totals are the overall
+ * rate (all engagement / all impressions) rather than a sum of rates
+ */
+function aggregate(posts: AnalyticsPost[], metric: PostMetric, operation: 'total' | 'average'): number | null {
+  if (metric === 'engagementRate' && operation === 'total') {
+    const impressions = sum(posts.map((post) => post.impressions));
+    return impressions > 0 ? (sum(posts.map((post) => postMetric(post, 'engagement')!)) / impressions) * 100 : null;
+  }
+  const values = posts.map((post) => postMetric(post, metric)).filter((value): value is number => value !== null);
+  if (values.length === 0) return null;
+  return operation === 'total' ? sum(values) : sum(values) / values.length;
+}
+
+function formatNumber(value: number | null, metric: AnalyticsMetric): string {
+  if (value === null) return 'n/a';
+  if (metric === 'engagementRate') return `${value.toFixed(2)}%`;
+  return value.toLocaleString('en-US', { maximumFractionDigits: 1 });
+}
+
+/**
+ * "+120 (+15.0%)"; the percentage is left out when the previous value is 0
+ */
+function formatChange(current: number | null, previous: number | null, metric: AnalyticsMetric): string {
+  if (current === null || previous === null) return 'change n/a';
+  const diff = current - previous;
+  const sign = diff >= 0 ? '+' : '-';
+  const absolute = metric === 'engagementRate'
+    ? `${sign}${Math.abs(diff).toFixed(2)} points`
+    : `${sign}${Math.abs(diff).toLocaleString('en-US', { maximumFractionDigits: 1 })}`;
+  if (previous === 0) return absolute;
+  const percent = (diff / previous) * 100;
+  return `${absolute} (${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%)`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function excerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim();
+  return text.length > EXCERPT_LENGTH ? `${text.substring(0, EXCERPT_LENGTH).trim()}...` : text;
+}
+
+/**
+ * Numbers the posts and periods results are drawn from ([P1], [R1], ...) and
+ * describes each one as a source for the chat UI
+ */
+function createCitations() {
+  const sources: ContextSource[] = [];
+  const ids = new Map<string, string>();
+
+  const cite = (key: string, prefix: 'P' | 'R', describe: (id: string) => ContextSource) => {
+    const existing = ids.get(key);
+    if (existing) return existing;
+    const id = `${prefix}${sources.filter((source) => source.id.startsWith(prefix)).length + 1}`;
+    ids.set(key, id);
+    sources.push(describe(id));
+    return id;
+  };
+
+  return {
+    post(post: AnalyticsPost): string {
+      return cite(`post:${post.id}`, 'P', (id) => ({
+        id,
+        kind: 'post',
+        label: `${id} · Post from ${formatDate(post.publishedAt)}`,
+        preview: `${excerpt(post.content)}\n${post.impressions.toLocaleString('en-US')} impressions · ` +
+          `${post.reactions} reactions · ${post.comments} comments · ${post.reshares} reshares`,
+        similarity: null,
+      }));
+    },
+    period(range: PeriodRange, preview: string): string {
+      // Post windows and follower stats over the same dates are separate sources
+      return cite(`period:${range.start}:${range.end}:${preview}`, 'R', (id) => ({
+        id,
+        kind: 'period',
+        label: `${id} · ${formatDate(range.start)} to ${formatDate(range.end)}`,
+        preview,
+        similarity: null,
+      }));
+    },
+    sources: () => sources,
+  };
+}
+
+type Citations = ReturnType<typeof createCitations>;
+
+function postsIn(posts: AnalyticsPost[], range: PeriodRange): AnalyticsPost[] {
+  const start = new Date(range.start).getTime();
+  const end = new Date(range.end).getTime();
+  return posts.filter((post) => {
+    const publishedAt = new Date(post.publishedAt).getTime();
+    return publishedAt >= start && publishedAt < end;
+  });
+}
+
+function citePostPeriod(citations: Citations, range: PeriodRange, posts: AnalyticsPost[]): string {
+  return citations.period(
+    range,
+    `${posts.length} published post${posts.length === 1 ? '' : 's'}, with metrics as last polled from LinkedIn`
+  );
+}
+
+function runFollowerQuery(dataset: AnalyticsDataset, query: AnalyticsQuery, citations: Citations): string {
+  const label = METRIC_LABELS.newFollowers;
+  if (query.operation !== 'total' && query.operation !== 'compare') {
+    return `${label}: only tracked per period, so "${query.operation}" per post can't be computed`;
+  }
+
+  const periods = dataset.followers[followerPeriodDays(query.days)];
+  if (!periods) return `${label}: follower stats are unavailable for this account`;
+
+  const source = periods.isEstimated
+    ? 'Follower gains estimated from industry averages (LinkedIn did not report time-based stats)'
+    : 'Follower gains reported by LinkedIn';
+  const estimated = periods.isEstimated ? ' (estimated)' : '';
+  const current = citations.period(periods.current, source);
+  if (query.operation === 'total') {
+    return `${label}${estimated}: ${formatNumber(periods.current.gained, 'newFollowers')} [${current}]`;
+  }
+
+  const previous = citations.period(periods.previous, source);
+  return `${label}${estimated}: ${formatNumber(periods.current.gained, 'newFollowers')} [${current}] vs ` +
+    `${formatNumber(periods.previous.gained, 'newFollowers')} [${previous}], ` +
+    `${formatChange(periods.current.gained, periods.previous.gained, 'newFollowers')}`;
+}
+
+function runPostQuery(dataset: AnalyticsDataset, query: AnalyticsQuery & { metric: PostMetric }, citations: Citations): string {
+  const label = METRIC_LABELS[query.metric];
+  const end = dataset.now.getTime();
+  const currentRange = { start: new Date(end - query.days * DAY_MS).toISOString(), end: dataset.now.toISOString() };
+  const current = postsIn(dataset.posts, currentRange);
+  const currentId = citePostPeriod(citations, currentRange, current);
+
+  switch (query.operation) {
+    case 'total':
+    case 'average': {
+      const value = aggregate(current, query.metric, query.operation);
+      const kind = query.operation === 'average' ? 'average per post' : query.metric === 'engagementRate' ? 'overall' : 'total';
+      return `${label}, ${kind}: ${formatNumber(value, query.metric)} across ${current.length} posts [${currentId}]`;
+    }
+    case 'top':
+    case 'bottom': {
+      const direction = query.operation === 'top' ? -1 : 1;
+      const ranked = current
+        .map((post) => ({ post, value: postMetric(post, query.metric) }))
+        .filter((entry): entry is { post: AnalyticsPost; value: number } => entry.value !== null)
+        .sort((a, b) => direction * (a.value - b.value))
+        .slice(0, query.limit || DEFAULT_RANK_LIMIT);
+      if (ranked.length === 0) return `${label}, ${query.operation} posts: no posts with data [${currentId}]`;
+      const lines = ranked.map(({ post, value }, index) =>
+        `  ${index + 1}. [${citations.post(post)}] ${formatNumber(value, query.metric)}: "${excerpt(post.content)}"`
+      );
+      return `${label}, ${query.operation} ${ranked.length} of ${current.length} posts [${currentId}]:\n${lines.join('\n')}`;
+    }
+    case 'compare': {
+      const previousRange = { start: new Date(end - 2 * query.days * DAY_MS).toISOString(), end: currentRange.start };
+      const previous = postsIn(dataset.posts, previousRange);
+      const previousId = citePostPeriod(citations, previousRange, previous);
+      const kind = query.metric === 'engagementRate' ? 'overall' : 'total';
+      const lines = [
+        `${kind} ${formatNumber(aggregate(current, query.metric, 'total'), query.metric)} [${currentId}] vs ` +
+          `${formatNumber(aggregate(previous, query.metric, 'total'), query.metric)} [${previousId}], ` +
+          formatChange(aggregate(current, query.metric, 'total'), aggregate(previous, query.metric, 'total'), query.metric),
+        `average per post ${formatNumber(aggregate(current, query.metric, 'average'), query.metric)} vs ` +
+          `${formatNumber(aggregate(previous, query.metric, 'average'), query.metric)}, ` +
+          formatChange(aggregate(current, query.metric, 'average'), aggregate(previous, query.metric, 'average'), query.metric),
+        `posts published ${current.length} vs ${previous.length}`,
+      ];
+      return `${label}, last ${query.days} days vs the ${query.days} days before:\n${lines.map((line) => `  - ${line}`).join('\n')}`;
+    }
+  }
+}
+
+/**
+ * Compute the planned queries
+ * Returns one result per query (with its citations inline) and the cited
+ * posts and periods as sources
+ */
+export function runAnalyticsQueries(
+  dataset: AnalyticsDataset,
+  queries: AnalyticsQuery[]
+): { results: string[]; sources: ContextSource[] } {
+  const citations = createCitations();
+  const results = queries.map((query, index) => {
+    const result = query.metric === 'newFollowers'
+      ? runFollowerQuery(dataset, query, citations)
+      : runPostQuery(dataset, query as AnalyticsQuery & { metric: PostMetric }, citations);
+    return `Q${index + 1}. ${result}`;
+  });
+  return { results, sources: citations.sources() };
+}
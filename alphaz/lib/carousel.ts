@@ -0,0 +1,75 @@
+/**
+ * Carousel Decks
+ *
+ * The carousel intent turns a draft into 5-12 slides, each a title with a few
+ * bullets. The chat route streams the deck as NDJSON partial objects (like
+ * draft variants); the slide editor renders it to a PDF document post
+ * (lib/carouselRender.ts).
+ */
+
+import { z } from 'zod';
+
+/** Response header value marking a newline-delimited stream of partial CarouselResponse objects */
+export const CAROUSEL_FORMAT = 'carousel-object';
+
+export const MIN_CAROUSEL_SLIDES = 5;
+export const MAX_CAROUSEL_SLIDES = 12;
+/** More bullets than this don't fit a slide at a readable size */
+export const MAX_SLIDE_BULLETS = 4;
+
+export const CarouselResponseSchema = z.object({
+  type: z.enum(['carousel', 'question']).describe(
+    'carousel: The draft split into slides. ' +
+    'question: A clarifying question, e.g. when there is no draft to turn into a carousel.'
+  ),
+  title: z.string().optional().describe('Deck title, used as the document title on LinkedIn (carousel type only)'),
+  slides: z.array(z.object({
+    title: z.string().describe('Slide headline, at most 8 words'),
+    bullets: z.array(z.string()).describe(`0 to ${MAX_SLIDE_BULLETS} short bullets, at most 12 words each`),
+  })).optional().describe(`${MIN_CAROUSEL_SLIDES} to ${MAX_CAROUSEL_SLIDES} slides: a hook slide first, a call to action last (carousel type only)`),
+  question: z.string().optional().describe('The clarifying question (question type only)'),
+});
+
+export type CarouselResponse = z.infer<typeof CarouselResponseSchema>;
+
+export interface CarouselSlide {
+  title: string;
+  bullets: string[];
+}
+
+export interface CarouselDeck {
+  title: string;
+  slides: CarouselSlide[];
+}
+
+/**
+ * The deck in a (possibly partial) response; slides without a title are dropped
+ */
+export function completeCarousel(response: Partial<CarouselResponse>): CarouselDeck {
+  const slides = (response.slides || [])
+    .filter((slide) => !!slide?.title?.trim())
+    .slice(0, MAX_CAROUSEL_SLIDES)
+    .map((slide) => ({
+      title: slide.title.trim(),
+      bullets: (slide.bullets || []).map((bullet) => bullet.trim()).filter(Boolean).slice(0, MAX_SLIDE_BULLETS),
+    }));
+  return { title: response.title?.trim() || slides[0]?.title || 'Carousel', slides };
+}
+
+/**
+ * The deck as one chat message, so follow-ups ("shorten slide 3") can refer to it
+ */
+export function formatCarouselMessage(deck: CarouselDeck): string {
+  const slides = deck.slides.map((slide, index) =>
+    [`Slide ${index + 1}: ${slide.title}`, ...slide.bullets.map((bullet) => `- ${bullet}`)].join('\n')
+  );
+  return [`Carousel: ${deck.title}`, ...slides].join('\n\n');
+}
+
+/**
+ * File name for the rendered deck, e.g. "5-lessons-from-our-launch.pdf"
+ */
+export function carouselFileName(deck: CarouselDeck): string {
+  const slug = deck.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'carousel'}.pdf`;
+}
@@ -0,0 +1,276 @@
+/**
+ * Carousel Rendering
+ *
+ * Draws carousel slides on a canvas in the account's brand colours and packs
+ * them into a PDF, one JPEG page per slide, that LinkedIn shows as a document
+ * carousel. Runs in the browser only.
+ */
+
+import type { CarouselDeck, CarouselSlide } from '@/lib/carousel';
+
+/** Slide size in pixels: LinkedIn's 4:5 portrait format */
+export const SLIDE_WIDTH = 1080;
+export const SLIDE_HEIGHT = 1350;
+
+/** PDF page size in points; the slide images are scaled to fit */
+const PAGE_WIDTH = SLIDE_WIDTH / 2;
+const PAGE_HEIGHT = SLIDE_HEIGHT / 2;
+
+const MARGIN = 96;
+const FONT_FAMILY = 'Inter, "Helvetica Neue", Arial, sans-serif';
+const JPEG_QUALITY = 0.92;
+
+export interface CarouselTheme {
+  background: string;
+  accent: string;
+  text: string;
+  /** Logo drawn in each slide's footer; skipped when it can't be loaded */
+  logoUrl?: string;
+  /** Account name shown next to the logo */
+  name?: string;
+}
+
+/**
+ * Load a logo for drawing; resolves to null when it fails or blocks canvas export (CORS)
+ */
+export function loadLogo(url: string | undefined): Promise<HTMLImageElement | null> {
+  if (!url) return Promise.resolve(null);
+  return new Promise((resolve) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = url;
+  });
+}
+
+/**
+ * Break text into lines no wider than maxWidth; words longer than a line are split
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = '';
+    // A single word wider than the line is broken by characters
+    let rest = word;
+    while (ctx.measureText(rest).width > maxWidth && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && ctx.measureText(rest.slice(0, cut)).width > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Largest font size (down to minSize) at which text fits in maxLines
+ */
+function fitText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  weight: number,
+  size: number,
+  minSize: number,
+  maxWidth: number,
+  maxLines: number
+): { size: number; lines: string[] } {
+  let fontSize = size;
+  for (;;) {
+    ctx.font = `${weight} ${fontSize}px ${FONT_FAMILY}`;
+    const lines = wrapText(ctx, text, maxWidth);
+    if (lines.length <= maxLines || fontSize <= minSize) return { size: fontSize, lines };
+    fontSize -= 4;
+  }
+}
+
+/**
+ * Draw one slide; the first slide is the hook, laid out as a cover
+ */
+export function drawSlide(
+  ctx: CanvasRenderingContext2D,
+  slide: CarouselSlide,
+  index: number,
+  total: number,
+  theme: CarouselTheme,
+  logo: HTMLImageElement | null
+): void {
+  const contentWidth = SLIDE_WIDTH - MARGIN * 2;
+  const isCover = index === 0;
+
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT);
+  ctx.fillStyle = theme.accent;
+  ctx.fillRect(0, 0, SLIDE_WIDTH, 24);
+  ctx.textBaseline = 'top';
+
+  let y = isCover ? 360 : 200;
+
+  if (!isCover) {
+    ctx.fillStyle = theme.accent;
+    ctx.font = `700 40px ${FONT_FAMILY}`;
+    ctx.fillText(String(index + 1).padStart(2, '0'), MARGIN, 120);
+  }
+
+  const title = fitText(ctx, slide.title, 800, isCover ? 104 : 72, isCover ? 64 : 48, contentWidth, isCover ? 5 : 4);
+  ctx.fillStyle = theme.text;
+  title.lines.forEach((line) => {
+    ctx.fillText(line, MARGIN, y);
+    y += title.size * 1.15;
+  });
+
+  y += isCover ? 48 : 64;
+  ctx.font = `400 ${isCover ? 44 : 40}px ${FONT_FAMILY}`;
+  const bulletIndent = isCover ? 0 : 44;
+  // Bullets being typed in the editor can be blank
+  slide.bullets.map((bullet) => bullet.trim()).filter(Boolean).forEach((bullet) => {
+    if (!isCover) {
+      ctx.fillStyle = theme.accent;
+      ctx.fillRect(MARGIN, y + 18, 16, 16);
+    }
+    ctx.fillStyle = theme.text;
+    wrapText(ctx, bullet, contentWidth - bulletIndent).forEach((line) => {
+      ctx.fillText(line, MARGIN + bulletIndent, y);
+      y += 56;
+    });
+    y += 28;
+  });
+
+  // Footer: logo and account name, page counter and a swipe hint
+  const footerY = SLIDE_HEIGHT - MARGIN - 64;
+  let footerX = MARGIN;
+  if (logo) {
+    ctx.drawImage(logo, footerX, footerY, 64, 64);
+    footerX += 84;
+  }
+  ctx.textBaseline = 'middle';
+  if (theme.name) {
+    ctx.fillStyle = theme.text;
+    ctx.font = `600 32px ${FONT_FAMILY}`;
+    ctx.fillText(theme.name, footerX, footerY + 32, SLIDE_WIDTH / 2 - footerX);
+  }
+  ctx.fillStyle = theme.accent;
+  ctx.font = `700 32px ${FONT_FAMILY}`;
+  ctx.textAlign = 'right';
+  ctx.fillText(index < total - 1 ? `${index + 1} / ${total}  →` : `${index + 1} / ${total}`, SLIDE_WIDTH - MARGIN, footerY + 32);
+  ctx.textAlign = 'left';
+}
+
+function canvasToJpeg(canvas: HTMLCanvasElement): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Could not render the slide'));
+          return;
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+      },
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+}
+
+/**
+ * PDF text string; UTF-16 hex so titles outside Latin-1 survive
+ */
+function pdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * A PDF with one full-page JPEG per page
+ */
+function buildImagePdf(pages: Uint8Array[], title: string): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // Objects: 1 catalog, 2 page tree, 3 info, then page, content and image per slide
+  const pageIds = pages.map((_, index) => 4 + index * 3);
+  const objectCount = 3 + pages.length * 3;
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, `<< /Title ${pdfTextString(title)} /Producer (Alphaz) >>`);
+
+  pages.forEach((jpeg, index) => {
+    const pageId = pageIds[index];
+    const content = encoder.encode(`q ${PAGE_WIDTH} 0 0 ${PAGE_HEIGHT} 0 0 cm /Slide Do Q`);
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /XObject << /Slide ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${SLIDE_WIDTH} /Height ${SLIDE_HEIGHT} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`,
+      jpeg
+    );
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+}
+
+/**
+ * Render a deck to a PDF document, one page per slide
+ */
+export async function renderCarouselPdf(deck: CarouselDeck, theme: CarouselTheme): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = SLIDE_WIDTH;
+  canvas.height = SLIDE_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+  const logo = await loadLogo(theme.logoUrl);
+  const pages: Uint8Array[] = [];
+  for (let index = 0; index < deck.slides.length; index++) {
+    drawSlide(ctx, deck.slides[index], index, deck.slides.length, theme, logo);
+    pages.push(await canvasToJpeg(canvas));
+  }
+
+  return buildImagePdf(pages, deck.title);
+}
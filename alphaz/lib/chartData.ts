@@ -0,0 +1,254 @@
+/**
+ * Chart Data Helpers
+ *
+ * Scales, tick generation and formatters shared by the chart components,
+ * plus adapters that turn analytics API shapes (followers, post totals,
+ * demographics) into chart-ready data.
+ */
+
+export interface TimeSeriesPoint {
+  date: string | number | Date;
+  value: number;
+}
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color?: string;
+  data: TimeSeriesPoint[];
+}
+
+/** Event drawn as a vertical line on a time-series chart (e.g. a post going out) */
+export interface ChartMarker {
+  date: string | number | Date;
+  label: string;
+}
+
+/** One x-axis category (bar chart) or one date (stacked area) with a value per series key */
+export interface CategoryDatum {
+  label: string;
+  values: Record<string, number>;
+}
+
+export interface StackedDatum {
+  date: string | number | Date;
+  values: Record<string, number>;
+}
+
+export interface SeriesKey {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+export interface DonutSlice {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+/** Brand orange first, then the palette the old demo charts used */
+export const CHART_COLORS = ['#ff6b35', '#8b5cf6', '#3b82f6', '#10b981', '#f59e0b', '#ec4899', '#64748b'];
+
+export function seriesColor(index: number, color?: string): string {
+  return color || CHART_COLORS[index % CHART_COLORS.length];
+}
+
+export function toTime(date: string | number | Date): number {
+  return date instanceof Date ? date.getTime() : new Date(date).getTime();
+}
+
+/**
+ * Linear scale mapping [d0, d1] onto [r0, r1]
+ */
+export function linearScale(d0: number, d1: number, r0: number, r1: number) {
+  const span = d1 - d0 || 1;
+  return (value: number) => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+/**
+ * Round tick values (1, 2, 2.5, 5 × 10^n) covering [min, max]
+ * The axis always includes 0 so bars and areas aren't visually exaggerated
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  const lo = Math.min(0, min);
+  const hi = Math.max(0, max);
+  if (hi === lo) return [0, 1];
+
+  const rawStep = (hi - lo) / Math.max(1, count - 1);
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) || rawStep;
+
+  const ticks: number[] = [];
+  for (let tick = Math.floor(lo / step) * step; tick < hi + step; tick += step) {
+    ticks.push(Number(tick.toFixed(10)));
+    if (tick >= hi) break;
+  }
+  return ticks;
+}
+
+/**
+ * Compact number formatting for axes and tooltips (1.2K, 3.4M)
+ */
+export function formatCompact(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000) return `${(value / 1_000_000).toFixed(abs >= 10_000_000 ? 0 : 1)}M`;
+  if (abs >= 1000) return `${(value / 1000).toFixed(abs >= 10_000 ? 0 : 1)}K`;
+  return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+}
+
+const SHORT_SPAN_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Date label for an axis spanning spanMs; includes the year for long ranges
+ * and the hour for spans of a few days (e.g. hourly post metrics)
+ */
+export function formatDateTick(time: number, spanMs: number): string {
+  const date = new Date(time);
+  if (spanMs > 365 * 24 * 60 * 60 * 1000) {
+    return date.toLocaleDateString([], { month: 'short', year: '2-digit' });
+  }
+  if (spanMs < SHORT_SPAN_MS) {
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric' });
+  }
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Tooltip heading for a point on an axis spanning spanMs
+ */
+export function formatTooltipDate(time: number, spanMs: number): string {
+  const date = new Date(time);
+  return spanMs < SHORT_SPAN_MS
+    ? date.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })
+    : date.toLocaleDateString([], { dateStyle: 'medium' });
+}
+
+/**
+ * True when two timestamps fall on the same local calendar day
+ */
+export function isSameDay(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+/**
+ * Evenly spaced date ticks between two timestamps
+ */
+export function dateTicks(start: number, end: number, count = 5): number[] {
+  if (end <= start) return [start];
+  const n = Math.max(2, count);
+  return Array.from({ length: n }, (_, i) => start + ((end - start) * i) / (n - 1));
+}
+
+const PERIOD_DAYS: Record<string, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 };
+
+/**
+ * Number of days in an analytics period string ("7d", "30d", "90d", "1y")
+ */
+export function periodToDays(period: string): number {
+  return PERIOD_DAYS[period] || parseInt(period) || 30;
+}
+
+interface FollowerTotals {
+  lifetime?: number;
+  total?: number;
+  currentPeriod: number;
+  previousPeriod: number;
+}
+
+/**
+ * Follower count at the start of the previous period, the start of the
+ * current period and now, derived from the dashboard followers totals
+ */
+export function followerGrowthSeries(followers: FollowerTotals, period: string, now = Date.now()): TimeSeriesPoint[] {
+  const total = followers.lifetime ?? followers.total;
+  if (total === undefined) return [];
+
+  const periodMs = periodToDays(period) * 24 * 60 * 60 * 1000;
+  const currentStart = total - followers.currentPeriod;
+  return [
+    { date: now - 2 * periodMs, value: Math.max(0, currentStart - followers.previousPeriod) },
+    { date: now - periodMs, value: Math.max(0, currentStart) },
+    { date: now, value: total },
+  ];
+}
+
+/**
+ * Previous-vs-current period bars for a followers block
+ */
+export function periodComparison(followers: FollowerTotals): CategoryDatum[] {
+  return [
+    { label: 'Previous period', values: { followers: followers.previousPeriod } },
+    { label: 'Current period', values: { followers: followers.currentPeriod } },
+  ];
+}
+
+interface PostTotals {
+  totalImpressions: number;
+  totalReactions: number;
+  totalComments: number;
+  totalReshares: number;
+  reactionChange?: string | null;
+  commentChange?: string | null;
+  reshareChange?: string | null;
+}
+
+/** Previous-period value implied by a current total and its percent change */
+function previousFromChange(current: number, change: string | null | undefined): number | null {
+  if (!change) return null;
+  const ratio = 1 + Number(change) / 100;
+  return ratio > 0 ? Math.round(current / ratio) : null;
+}
+
+/**
+ * Reactions/comments/reshares bars for the post totals block, with the
+ * previous period alongside when the API reported a change percent
+ */
+export function engagementBreakdown(posts: PostTotals): { data: CategoryDatum[]; keys: SeriesKey[] } {
+  const rows: Array<[string, number, string | null | undefined]> = [
+    ['Reactions', posts.totalReactions, posts.reactionChange],
+    ['Comments', posts.totalComments, posts.commentChange],
+    ['Reshares', posts.totalReshares, posts.reshareChange],
+  ];
+  const withPrevious = rows.some(([, current, change]) => previousFromChange(current, change) !== null);
+
+  const data: CategoryDatum[] = rows.map(([label, current, change]) => {
+    const values: Record<string, number> = { current };
+    if (withPrevious) values.previous = previousFromChange(current, change) ?? 0;
+    return { label, values };
+  });
+  const keys: SeriesKey[] = withPrevious
+    ? [{ key: 'previous', label: 'Previous period', color: '#cbd5e1' }, { key: 'current', label: 'Current period' }]
+    : [{ key: 'current', label: 'Current period' }];
+  return { data, keys };
+}
+
+interface DemographicItem {
+  followerCounts?: { organicFollowerCount?: number; paidFollowerCount?: number };
+  views?: number;
+  [facet: string]: unknown;
+}
+
+/**
+ * Donut slices from a demographics facet (follower counts or page views)
+ * The top `limit` entries are kept and the rest grouped into "Other"
+ */
+export function demographicsToSlices(
+  items: DemographicItem[] | undefined,
+  getLabel: (item: DemographicItem) => string,
+  limit = 5
+): DonutSlice[] {
+  const valued = (items || [])
+    .map(item => ({
+      label: getLabel(item),
+      value: item.followerCounts
+        ? (item.followerCounts.organicFollowerCount || 0) + (item.followerCounts.paidFollowerCount || 0)
+        : item.views || 0,
+    }))
+    .filter(slice => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  const top = valued.slice(0, limit);
+  const rest = valued.slice(limit).reduce((sum, slice) => sum + slice.value, 0);
+  return rest > 0 ? [...top, { label: 'Other', value: rest, color: '#94a3b8' }] : top;
+}
@@ -0,0 +1,68 @@
+/**
+ * Chat Modes
+ *
+ * Explicit modes the user can pick in the composer, either from the mode
+ * picker or by starting a message with a slash command ("/edit make it
+ * shorter"). An explicit mode skips intent classification in /api/chat.
+ */
+
+import type { ChatIntent } from '@/lib/modelRouter';
+
+export type ChatMode = 'draft' | 'edit' | 'ideate' | 'feedback' | 'analytics' | 'carousel' | 'ask';
+
+export interface ChatModeOption {
+  mode: ChatMode;
+  command: `/${ChatMode}`;
+  label: string;
+  description: string;
+  /** Intent the chat API runs for this mode */
+  intent: ChatIntent;
+}
+
+export const CHAT_MODES: ChatModeOption[] = [
+  { mode: 'draft', command: '/draft', label: 'Draft', description: 'Write a new post', intent: 'draft' },
+  { mode: 'edit', command: '/edit', label: 'Edit', description: 'Rewrite the current draft', intent: 'edit' },
+  { mode: 'ideate', command: '/ideate', label: 'Ideate', description: 'Brainstorm post ideas', intent: 'ideate' },
+  { mode: 'feedback', command: '/feedback', label: 'Feedback', description: 'Critique a post', intent: 'feedback' },
+  { mode: 'analytics', command: '/analytics', label: 'Analytics', description: 'Ask about your numbers, answered with exact figures', intent: 'analytics' },
+  { mode: 'carousel', command: '/carousel', label: 'Carousel', description: 'Turn the current draft into slides', intent: 'carousel' },
+  { mode: 'ask', command: '/ask', label: 'Ask', description: 'Ask a question, no post writing', intent: 'general' },
+];
+
+export function isChatMode(value: unknown): value is ChatMode {
+  return CHAT_MODES.some((option) => option.mode === value);
+}
+
+export function getChatMode(mode: ChatMode): ChatModeOption {
+  return CHAT_MODES.find((option) => option.mode === mode)!;
+}
+
+/**
+ * Split a leading slash command off a message
+ * "/edit make it shorter" -> { mode: 'edit', text: 'make it shorter' }
+ * Unknown commands are left in the text
+ */
+export function parseSlashCommand(input: string): { mode: ChatMode | null; text: string } {
+  const match = input.match(/^\s*\/([a-z]+)(?=\s|$)\s*/i);
+  const mode = match?.[1].toLowerCase();
+  if (!match || !isChatMode(mode)) return { mode: null, text: input };
+  return { mode, text: input.slice(match[0].length) };
+}
+
+/**
+ * Message text with its mode as a slash command, as stored in the thread
+ */
+export function formatSlashCommand(mode: ChatMode | null | undefined, text: string): string {
+  return mode ? `${getChatMode(mode).command} ${text}` : text;
+}
+
+/**
+ * Commands matching a partially typed command ("/ed" -> /edit)
+ * Empty once the input isn't a bare command being typed
+ */
+export function matchSlashCommands(input: string): ChatModeOption[] {
+  const match = input.match(/^\/([a-z]*)$/i);
+  if (!match) return [];
+  const typed = match[1].toLowerCase();
+  return CHAT_MODES.filter((option) => option.mode.startsWith(typed));
+}
@@ -0,0 +1,334 @@
+/**
+ * Chat Tools
+ *
+ * Typed tools the assistant can call from text answers: schedule the current
+ * draft, save an idea, look up metrics and open a draft version. The chat
+ * route only streams the proposed calls; each one is confirmed in the UI and
+ * run by the client. Calls whose result the assistant needs (metrics) are sent
+ * back so it can answer with the numbers.
+ */
+
+import { z } from 'zod';
+import { markdownToLinkedIn } from '@/lib/linkedinFormatting';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+/** Response header value marking a newline-delimited stream of text and tool-call events */
+export const CHAT_EVENTS_FORMAT = 'chat-events';
+
+export const ScheduleDraftInputSchema = z.object({
+  scheduledAt: z.string().describe('When to publish, as an ISO 8601 date-time with the user\'s UTC offset, e.g. 2025-03-04T09:00:00-05:00'),
+  title: z.string().optional().describe('Short title for the plan entry'),
+});
+
+export const SaveIdeaInputSchema = z.object({
+  title: z.string().describe('Short title for the idea'),
+  idea: z.string().describe('The idea, with enough detail to write the post later'),
+});
+
+export const QueryMetricsInputSchema = z.object({
+  scope: z.enum(['posts', 'audience']).describe(
+    'posts: performance of individual published posts. ' +
+    'audience: totals over the period (followers, impressions, reactions, page views); null means the metric isn\'t tracked for this profile.'
+  ),
+  days: z.number().int().min(1).max(365).describe('How many days back to look, e.g. 30 for "last month"'),
+  sortBy: z.enum(['impressions', 'reactions', 'comments', 'reshares', 'engagement']).optional()
+    .describe('Ranking for posts (default: engagement)'),
+  limit: z.number().int().min(1).max(10).optional().describe('Number of posts to return (default: 5)'),
+});
+
+export const OpenDraftVersionInputSchema = z.object({
+  version: z.number().int().min(1).describe('Version number to open'),
+  draftTitle: z.string().optional().describe('Title of the draft, if not the one currently open'),
+});
+
+export const CHAT_TOOLS = {
+  schedule_draft: {
+    description: 'Schedule the draft currently open in the draft panel to be published on LinkedIn at a date and time.',
+    inputSchema: ScheduleDraftInputSchema,
+    answersWithResult: false,
+  },
+  save_idea: {
+    description: 'Save a post idea to the user\'s plan so they can write it later.',
+    inputSchema: SaveIdeaInputSchema,
+    answersWithResult: false,
+  },
+  query_metrics: {
+    description: 'Look up the user\'s LinkedIn analytics: published post performance or audience totals over a period.',
+    inputSchema: QueryMetricsInputSchema,
+    answersWithResult: true,
+  },
+  open_draft_version: {
+    description: 'Open a version of a draft from this conversation in the draft panel.',
+    inputSchema: OpenDraftVersionInputSchema,
+    answersWithResult: false,
+  },
+} as const;
+
+export type ChatToolName = keyof typeof CHAT_TOOLS;
+
+export type ChatToolInput = {
+  [NAME in ChatToolName]: z.infer<(typeof CHAT_TOOLS)[NAME]['inputSchema']>;
+};
+
+export type ToolCallStatus = 'pending' | 'running' | 'done' | 'declined' | 'failed';
+
+/** A tool call proposed by the assistant, as tracked on its message */
+export type ChatToolCall = {
+  [NAME in ChatToolName]: {
+    id: string;
+    name: NAME;
+    input: ChatToolInput[NAME];
+    status: ToolCallStatus;
+    /** What happened, shown on the card and kept in the conversation */
+    summary?: string;
+    /** Data returned to the assistant (answersWithResult tools) */
+    result?: unknown;
+    error?: string;
+  };
+}[ChatToolName];
+
+/** A settled call sent back to /api/chat so the assistant can continue */
+export interface ToolCallResult {
+  toolCallId: string;
+  toolName: ChatToolName;
+  input: unknown;
+  status: 'done' | 'declined' | 'failed';
+  result?: unknown;
+  error?: string;
+}
+
+export type ChatEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool-call'; toolCallId: string; toolName: string; input: unknown };
+
+export function isChatToolName(value: unknown): value is ChatToolName {
+  return typeof value === 'string' && value in CHAT_TOOLS;
+}
+
+/**
+ * Validate a streamed tool call; unknown tools and malformed input yield null
+ */
+export function toChatToolCall(event: Extract<ChatEvent, { type: 'tool-call' }>): ChatToolCall | null {
+  if (!isChatToolName(event.toolName)) return null;
+  const parsed = CHAT_TOOLS[event.toolName].inputSchema.safeParse(event.input);
+  if (!parsed.success) return null;
+  return { id: event.toolCallId, name: event.toolName, input: parsed.data, status: 'pending' } as ChatToolCall;
+}
+
+export function isSettled(call: ChatToolCall): boolean {
+  return call.status === 'done' || call.status === 'declined' || call.status === 'failed';
+}
+
+/**
+ * True when the assistant should continue with the results of these calls
+ */
+export function needsFollowUp(calls: ChatToolCall[]): boolean {
+  return calls.some((call) => call.status === 'done' && CHAT_TOOLS[call.name].answersWithResult);
+}
+
+export function toToolCallResult(call: ChatToolCall): ToolCallResult {
+  return {
+    toolCallId: call.id,
+    toolName: call.name,
+    input: call.input,
+    status: call.status === 'done' || call.status === 'declined' ? call.status : 'failed',
+    result: call.result,
+    error: call.error,
+  };
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * What the call will do, for the confirmation card
+ */
+export function describeToolCall(call: ChatToolCall): string {
+  switch (call.name) {
+    case 'schedule_draft':
+      return `Schedule the current draft for ${formatDateTime(call.input.scheduledAt)}`;
+    case 'save_idea':
+      return `Save the idea "${call.input.title}" to your plan`;
+    case 'query_metrics': {
+      const period = `the last ${call.input.days} day${call.input.days === 1 ? '' : 's'}`;
+      return call.input.scope === 'posts'
+        ? `Look up your top posts by ${call.input.sortBy || 'engagement'} over ${period}`
+        : `Look up your audience totals over ${period}`;
+    }
+    case 'open_draft_version':
+      return `Open version ${call.input.version}${call.input.draftTitle ? ` of "${call.input.draftTitle}"` : ' of the current draft'}`;
+  }
+}
+
+/**
+ * One line per settled call, appended to the message so later turns know what happened
+ */
+export function formatToolOutcomes(calls: ChatToolCall[]): string {
+  return calls
+    .filter(isSettled)
+    .map((call) => {
+      if (call.status === 'done') return `✓ ${call.summary || describeToolCall(call)}`;
+      if (call.status === 'declined') return `✗ Declined: ${describeToolCall(call)}`;
+      return `✗ Failed: ${describeToolCall(call)}${call.error ? ` (${call.error})` : ''}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Incrementally parses the newline-delimited chat event stream
+ * Returns the events completed by each chunk
+ */
+export function createChatEventParser() {
+  let buffer = '';
+
+  return {
+    push(chunk: string): ChatEvent[] {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      return lines.flatMap((line) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line) as ChatEvent];
+        } catch {
+          console.warn('Skipping malformed chat event line');
+          return [];
+        }
+      });
+    },
+    flush(): ChatEvent[] {
+      return this.push('\n');
+    },
+  };
+}
+
+/**
+ * Save an idea as an unscheduled plan entry
+ */
+export async function saveIdea(
+  clerkUserId: string,
+  organizationId: string | undefined,
+  threadId: string | undefined,
+  input: ChatToolInput['save_idea']
+): Promise<void> {
+  const response = await fetch(`${API_URL}/api/scheduled-drafts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'include',
+    body: JSON.stringify({
+      clerkUserId,
+      organizationId,
+      threadId,
+      // Plan entries are published as saved, so they get LinkedIn formatting now
+      content: markdownToLinkedIn(input.idea),
+      title: input.title,
+      notes: 'Idea saved from chat',
+    }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to save idea');
+  }
+}
+
+interface PerformancePost {
+  content: string;
+  publishedAt: string;
+  metrics: { impressions: number | null; reactions: number | null; comments: number | null; reshares: number | null };
+}
+
+interface TimeSeriesSnapshot {
+  date: string;
+  followers: number | null;
+  newFollowers: number | null;
+  impressions: number | null;
+  reactions: number | null;
+  comments: number | null;
+  reshares: number | null;
+  pageViews: number | null;
+}
+
+const sum = (values: Array<number | null>) => values.reduce<number>((total, value) => total + (value || 0), 0);
+/** Sum of the days that recorded a metric; null when none did, so it isn't reported as 0 */
+const sumTracked = (values: Array<number | null>) =>
+  values.some((value) => value !== null) ? sum(values) : null;
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, { credentials: 'include' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Backend error: ${response.status}`);
+  return data as T;
+}
+
+/**
+ * Fetch the numbers asked for, reduced to what the assistant needs to answer
+ */
+export async function queryMetrics(
+  clerkUserId: string,
+  organizationId: string | undefined,
+  input: ChatToolInput['query_metrics']
+): Promise<Record<string, unknown>> {
+  const since = Date.now() - input.days * 24 * 60 * 60 * 1000;
+
+  if (input.scope === 'posts') {
+    const params = new URLSearchParams(organizationId ? { organizationId } : {});
+    const { posts } = await fetchJson<{ posts: PerformancePost[] }>(
+      `${API_URL}/api/post-performance/${encodeURIComponent(clerkUserId)}?${params}`
+    );
+    const sortBy = input.sortBy || 'engagement';
+    const ranked = posts
+      .filter((post) => new Date(post.publishedAt).getTime() >= since)
+      .map((post) => {
+        const { impressions, reactions, comments, reshares } = post.metrics;
+        const engagement = sum([reactions, comments, reshares]);
+        return {
+          publishedAt: post.publishedAt,
+          excerpt: post.content.length > 120 ? `${post.content.substring(0, 120).trim()}...` : post.content,
+          impressions: impressions || 0,
+          reactions: reactions || 0,
+          comments: comments || 0,
+          reshares: reshares || 0,
+          engagement,
+          engagementRate: impressions ? Math.round((engagement / impressions) * 1000) / 10 : null,
+        };
+      })
+      .sort((a, b) => b[sortBy] - a[sortBy]);
+
+    return {
+      scope: 'posts',
+      days: input.days,
+      sortedBy: sortBy,
+      publishedPosts: ranked.length,
+      totals: {
+        impressions: sum(ranked.map((post) => post.impressions)),
+        engagement: sum(ranked.map((post) => post.engagement)),
+      },
+      posts: ranked.slice(0, input.limit || 5),
+    };
+  }
+
+  const params = new URLSearchParams({ days: String(input.days), ...(organizationId ? { organizationId } : {}) });
+  const { snapshots, posts } = await fetchJson<{ snapshots: TimeSeriesSnapshot[]; posts: unknown[] }>(
+    `${API_URL}/api/analytics/timeseries/${encodeURIComponent(clerkUserId)}?${params}`
+  );
+  const followers = snapshots.filter((snapshot) => snapshot.followers !== null);
+
+  return {
+    scope: 'audience',
+    days: input.days,
+    daysWithData: snapshots.length,
+    followersAtStart: followers[0]?.followers ?? null,
+    followersNow: followers[followers.length - 1]?.followers ?? null,
+    newFollowers: sumTracked(snapshots.map((snapshot) => snapshot.newFollowers)),
+    impressions: sumTracked(snapshots.map((snapshot) => snapshot.impressions)),
+    reactions: sumTracked(snapshots.map((snapshot) => snapshot.reactions)),
+    comments: sumTracked(snapshots.map((snapshot) => snapshot.comments)),
+    reshares: sumTracked(snapshots.map((snapshot) => snapshot.reshares)),
+    pageViews: sumTracked(snapshots.map((snapshot) => snapshot.pageViews)),
+    postsPublished: posts.length,
+  };
+}
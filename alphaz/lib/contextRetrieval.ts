@@ -0,0 +1,148 @@
+/**
+ * Organization Context Retrieval
+ *
+ * Pulls only the organization chunks (posts, analytics facts, patterns) most
+ * relevant to the latest user message from the backend's vector search, turns
+ * them into prompt context, and describes them as sources the chat UI can show.
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || process.env.API_URL || 'http://localhost:5000';
+
+/** Response header carrying the sources used for an answer */
+export const CONTEXT_SOURCES_HEADER = 'X-Context-Sources';
+
+export interface RetrievedChunk {
+  id: string;
+  contentType: string;
+  content: string;
+  similarity: number | null;
+  metadata: Record<string, unknown>;
+  dataStartDate: string | null;
+  dataEndDate: string | null;
+}
+
+/** A chunk the model was given, as shown under the answer */
+export interface ContextSource {
+  id: string;
+  kind: 'post' | 'fact' | 'pattern' | 'period';
+  label: string;
+  preview: string;
+  similarity: number | null;
+}
+
+export interface OrganizationContextData {
+  summary?: string;
+  demographicData?: string;
+  recentPosts?: string;
+  engagementPatterns?: string;
+}
+
+const PREVIEW_LENGTH = 160;
+
+function chunkKind(contentType: string): ContextSource['kind'] {
+  if (contentType === 'post_performance') return 'post';
+  if (contentType === 'summary') return 'pattern';
+  return 'fact';
+}
+
+function chunkLabel(chunk: RetrievedChunk): string {
+  const kind = chunkKind(chunk.contentType);
+  if (kind === 'post') {
+    const date = chunk.dataStartDate ? new Date(chunk.dataStartDate).toLocaleDateString() : null;
+    return date ? `Post from ${date}` : 'Past post';
+  }
+  if (kind === 'pattern') return 'Performance summary';
+  return typeof chunk.metadata.section === 'string' ? chunk.metadata.section : 'Analytics';
+}
+
+/**
+ * Describe retrieved chunks as sources for the UI
+ */
+export function chunksToSources(chunks: RetrievedChunk[]): ContextSource[] {
+  return chunks.map((chunk) => ({
+    id: chunk.id,
+    kind: chunkKind(chunk.contentType),
+    label: chunkLabel(chunk),
+    preview: chunk.content.length > PREVIEW_LENGTH
+      ? `${chunk.content.substring(0, PREVIEW_LENGTH).trim()}...`
+      : chunk.content,
+    similarity: chunk.similarity,
+  }));
+}
+
+/**
+ * Group retrieved chunks into the prompt's context sections
+ * "What Resonates" ranks the retrieved posts by engagement rate
+ */
+export function chunksToContextData(chunks: RetrievedChunk[]): OrganizationContextData {
+  const join = (kind: ContextSource['kind']) =>
+    chunks
+      .filter((chunk) => chunkKind(chunk.contentType) === kind)
+      .map((chunk) => chunk.content)
+      .join('\n\n---\n\n') || undefined;
+
+  const rankedPosts = chunks
+    .filter((chunk) => chunkKind(chunk.contentType) === 'post' && typeof chunk.metadata.engagement_rate === 'number')
+    .sort((a, b) => (b.metadata.engagement_rate as number) - (a.metadata.engagement_rate as number))
+    .map((chunk) => `Post: "${chunk.content.substring(0, 100)}..." (Engagement: ${(chunk.metadata.engagement_rate as number).toFixed(1)}%)`);
+
+  return {
+    summary: join('pattern'),
+    demographicData: join('fact'),
+    recentPosts: join('post'),
+    engagementPatterns: rankedPosts.length > 0 ? `Top Performing Posts:\n${rankedPosts.join('\n')}` : undefined,
+  };
+}
+
+/**
+ * Retrieve the organization context relevant to a query
+ * Returns empty context (and no sources) if the backend can't be reached,
+ * so chat still works without organization data
+ */
+export async function retrieveOrganizationContext(
+  clerkUserId: string,
+  organizationId: string,
+  query: string
+): Promise<{ contextData: OrganizationContextData; sources: ContextSource[] }> {
+  try {
+    const response = await fetch(
+      `${API_URL}/api/embeddings/organization/${encodeURIComponent(clerkUserId)}/${encodeURIComponent(organizationId)}/retrieve`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query }),
+        cache: 'no-store',
+      }
+    );
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data.error || `Backend error: ${response.status}`);
+
+    const chunks: RetrievedChunk[] = data.chunks || [];
+    console.log(`   🔎 Retrieved ${chunks.length} context chunks (${data.retrieval})`);
+    return { contextData: chunksToContextData(chunks), sources: chunksToSources(chunks) };
+  } catch (error) {
+    console.error('   ⚠️  Context retrieval failed:', error);
+    return { contextData: {}, sources: [] };
+  }
+}
+
+/**
+ * Encode sources for the response header (header values must be ASCII)
+ */
+export function encodeContextSources(sources: ContextSource[]): string {
+  return encodeURIComponent(JSON.stringify(sources));
+}
+
+/**
+ * Read sources from the response header; malformed values yield no sources
+ */
+export function parseContextSources(header: string | null): ContextSource[] {
+  if (!header) return [];
+  try {
+    const parsed = JSON.parse(decodeURIComponent(header));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Conversation Memory
+ *
+ * Long threads are compacted before they reach the model: once the history
+ * exceeds the token budget, older turns are folded into a rolling summary that
+ * is stored with the thread and sent in their place. Recent turns, the current
+ * draft and any attached file text always stay verbatim.
+ */
+
+import { z } from 'zod';
+import { formatModelSpec, generateObjectWithFallback, resolveSummarizerChain } from '@/lib/modelRouter';
+import { getThreadMemory, updateThreadMemory } from '@/lib/threadsApi';
+
+/** Approximate history size (in tokens) above which older turns are summarized */
+export const MEMORY_TOKEN_BUDGET = 12000;
+
+/** Most recent messages that are never summarized */
+export const RECENT_MESSAGES = 6;
+
+/** Longest excerpt of a single message fed to the summarizer */
+const SUMMARY_INPUT_MESSAGE_LENGTH = 2000;
+
+const ATTACHED_FILE_MARKER = '[Attached File:';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  intent?: string;
+}
+
+export interface CompactedConversation {
+  /** Turns to send to the model */
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** Summary of the turns that were left out (add to the system prompt) */
+  summary: string | null;
+  /** Leading messages covered by the summary */
+  summarizedCount: number;
+}
+
+const SummarySchema = z.object({
+  summary: z.string().describe('Updated running summary of the conversation'),
+});
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Index of the latest draft/edit answer, i.e. the current draft
+function latestDraftIndex(messages: ConversationTurn[]): number {
+  return messages.findLastIndex(
+    (msg) => msg.role === 'assistant' && (msg.intent === 'draft' || msg.intent === 'edit')
+  );
+}
+
+function isPinned(messages: ConversationTurn[], index: number, draftIndex: number): boolean {
+  const msg = messages[index];
+  return index === draftIndex || (msg.role === 'user' && msg.content.includes(ATTACHED_FILE_MARKER));
+}
+
+/**
+ * Turns sent to the model when the first `cutoff` messages are summarized:
+ * pinned messages from before the cutoff, then everything after it
+ */
+function buildView(messages: ConversationTurn[], cutoff: number, summary: string | null): CompactedConversation {
+  const draftIndex = latestDraftIndex(messages);
+  const kept = messages
+    .filter((_, index) => index >= cutoff || isPinned(messages, index, draftIndex))
+    .map(({ role, content }) => ({ role, content }));
+
+  // Conversations must open with a user turn
+  if (cutoff > 0 && kept[0]?.role === 'assistant') {
+    kept.unshift({ role: 'user', content: '(Earlier conversation summarized in the system prompt.)' });
+  }
+
+  return { messages: kept, summary: cutoff > 0 ? summary : null, summarizedCount: cutoff };
+}
+
+function viewTokens(view: CompactedConversation): number {
+  return view.messages.reduce((total, msg) => total + estimateTokens(msg.content), estimateTokens(view.summary || ''));
+}
+
+// New cutoff that keeps the most recent messages, starting at a user turn
+function recentCutoff(messages: ConversationTurn[], currentCutoff: number): number {
+  let cutoff = Math.max(currentCutoff, messages.length - RECENT_MESSAGES);
+  while (cutoff < messages.length - 1 && messages[cutoff].role !== 'user') cutoff++;
+  return cutoff;
+}
+
+async function summarizeTurns(previousSummary: string | null, turns: ConversationTurn[]): Promise<string> {
+  const transcript = turns
+    .map((msg) => {
+      const content = msg.content.length > SUMMARY_INPUT_MESSAGE_LENGTH
+        ? `${msg.content.substring(0, SUMMARY_INPUT_MESSAGE_LENGTH)}...`
+        : msg.content;
+      return `${msg.role === 'user' ? 'User' : 'AI'}: ${content}`;
+    })
+    .join('\n\n');
+
+  const { object, answeredBy } = await generateObjectWithFallback(resolveSummarizerChain(), {
+    schema: SummarySchema,
+    prompt: `You maintain the running summary of a conversation between a user and an AI assistant that helps write LinkedIn posts.
+Update the summary with the new turns below. Keep the user's goals, audience, tone and style preferences, decisions made, feedback given, and facts they shared. Drop small talk and full post texts (mention what each post was about instead). Write at most 300 words.
+
+Current summary:
+${previousSummary || '(none yet)'}
+
+New turns:
+${transcript}`,
+    temperature: 0.2,
+  });
+
+  console.log(`   Summarizer: ${formatModelSpec(answeredBy)}`);
+  return object.summary.trim();
+}
+
+/**
+ * Compact a thread's history to fit the token budget
+ * Loads the thread's stored summary, folds in newly aged-out turns when the
+ * budget is exceeded and saves the result. Without a thread (or if memory
+ * can't be loaded) the full history is used.
+ */
+export async function compactConversation({
+  messages,
+  threadId,
+  clerkUserId,
+  organizationId,
+}: {
+  messages: ConversationTurn[];
+  threadId?: string;
+  clerkUserId: string;
+  organizationId?: string;
+}): Promise<CompactedConversation> {
+  if (!threadId) return buildView(messages, 0, null);
+
+  let summary: string | null = null;
+  let summarizedCount = 0;
+  try {
+    const memory = await getThreadMemory(threadId, clerkUserId, organizationId || undefined);
+    // A summary covering more messages than the client sent is stale (history was cleared or trimmed)
+    if (memory.summary && memory.messageCount < messages.length) {
+      summary = memory.summary;
+      summarizedCount = memory.messageCount;
+    }
+  } catch (error) {
+    console.warn('   ⚠️  Could not load thread memory:', error);
+    return buildView(messages, 0, null);
+  }
+
+  const view = buildView(messages, summarizedCount, summary);
+  const tokens = viewTokens(view);
+  if (tokens <= MEMORY_TOKEN_BUDGET) return view;
+
+  const cutoff = recentCutoff(messages, summarizedCount);
+  if (cutoff <= summarizedCount) return view;
+
+  const draftIndex = latestDraftIndex(messages);
+  const agedOut = messages
+    .slice(summarizedCount, cutoff)
+    .filter((_, offset) => !isPinned(messages, summarizedCount + offset, draftIndex));
+
+  console.log(`\n🧠 [CONVERSATION MEMORY] ~${tokens} tokens over budget, summarizing messages ${summarizedCount}-${cutoff - 1}`);
+  try {
+    const nextSummary = agedOut.length > 0 ? await summarizeTurns(summary, agedOut) : summary || '';
+    await updateThreadMemory(threadId, clerkUserId, organizationId || undefined, nextSummary, cutoff).catch((error) => {
+      console.warn('   ⚠️  Could not save thread memory:', error);
+    });
+    const compacted = buildView(messages, cutoff, nextSummary);
+    console.log(`   Compacted to ~${viewTokens(compacted)} tokens (${compacted.messages.length} messages)`);
+    return compacted;
+  } catch (error) {
+    console.warn('   ⚠️  Summarization failed, sending the stored memory view:', error);
+    return view;
+  }
+}
+
+/**
+ * Add the conversation summary to a system prompt
+ */
+export function withConversationSummary(systemPrompt: string, summary: string | null): string {
+  if (!summary) return systemPrompt;
+  return `${systemPrompt}
+
+## Conversation So Far
+Earlier turns of this conversation were condensed into this summary. Treat it as shared context:
+${summary}`;
+}
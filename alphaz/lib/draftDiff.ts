@@ -0,0 +1,208 @@
+/**
+ * Draft Version Diffing
+ *
+ * Word-level diff between two draft versions, grouped into hunks that can be
+ * accepted or rejected one at a time to build a new version.
+ */
+
+import { getVersionPath, type DraftVersion } from './draftVersioning';
+
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+  /** Hunk this op belongs to (changes only) */
+  hunkId?: number;
+}
+
+export interface DiffHunk {
+  id: number;
+  /** Text removed from the older version */
+  removed: string;
+  /** Text added in the newer version */
+  added: string;
+  /** Version whose edit introduced this change, when it can be traced */
+  sourceVersion?: number;
+  /** Edit prompt of sourceVersion */
+  editPrompt?: string;
+}
+
+export interface DraftDiff {
+  fromVersion: number;
+  toVersion: number;
+  ops: DiffOp[];
+  hunks: DiffHunk[];
+}
+
+export type HunkDecision = 'accept' | 'reject';
+
+/**
+ * Split text into word and whitespace tokens, keeping newlines as their own tokens
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(/\n|[^\S\n]+|[^\s]+/g) || [];
+}
+
+/**
+ * Word-level diff using a longest-common-subsequence table
+ * Common prefix and suffix are stripped first so typical edits stay cheap
+ */
+export function diffWords(from: string, to: string): DiffOp[] {
+  const a = tokenizeWords(from);
+  const b = tokenizeWords(to);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+  const lcs: Uint16Array[] = Array.from({ length: n + 1 }, () => new Uint16Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  const push = (type: DiffOpType, text: string) => {
+    const last = ops[ops.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      ops.push({ type, text });
+    }
+  };
+
+  if (start > 0) push('equal', a.slice(0, start).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      push('equal', midA[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', midA[i++]);
+    } else {
+      push('insert', midB[j++]);
+    }
+  }
+  while (i < n) push('delete', midA[i++]);
+  while (j < m) push('insert', midB[j++]);
+
+  if (endA < a.length) push('equal', a.slice(endA).join(''));
+
+  return ops;
+}
+
+/**
+ * Group changes into hunks
+ * Changes separated only by a single space are merged so a rewritten phrase
+ * is one hunk rather than one per word
+ */
+function groupHunks(ops: DiffOp[]): { ops: DiffOp[]; hunks: DiffHunk[] } {
+  const grouped: DiffOp[] = [];
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') {
+      const prev = ops[index - 1];
+      const next = ops[index + 1];
+      const isBridge = current && prev && next && next.type !== 'equal' && /^[^\S\n]$/.test(op.text);
+      if (isBridge && current) {
+        // Keep the space on both sides of the hunk so accept/reject stays lossless
+        current.removed += op.text;
+        current.added += op.text;
+        grouped.push({ type: 'delete', text: op.text, hunkId: current.id });
+        grouped.push({ type: 'insert', text: op.text, hunkId: current.id });
+        return;
+      }
+      current = null;
+      grouped.push(op);
+      return;
+    }
+
+    if (!current) {
+      current = { id: hunks.length, removed: '', added: '' };
+      hunks.push(current);
+    }
+    if (op.type === 'delete') current.removed += op.text;
+    else current.added += op.text;
+    grouped.push({ ...op, hunkId: current.id });
+  });
+
+  return { ops: grouped, hunks };
+}
+
+/**
+ * Find the version along an edit path whose edit introduced a hunk
+ * Uses the first version containing the added text, or for pure deletions
+ * the first version where the removed text is gone
+ */
+function traceHunkSource(hunk: DiffHunk, intermediate: DraftVersion[]): DraftVersion | undefined {
+  const added = hunk.added.trim();
+  const removed = hunk.removed.trim();
+  if (added) return intermediate.find(v => v.content.includes(added));
+  if (removed) return intermediate.find(v => !v.content.includes(removed));
+  return undefined;
+}
+
+/**
+ * Diff two versions of a draft and annotate each hunk with the edit prompt that caused it
+ * Versions may sit on different branches; edits are traced from their common ancestor
+ */
+export function computeDraftDiff(versions: DraftVersion[], fromVersion: number, toVersion: number): DraftDiff {
+  const from = versions.find(v => v.version === fromVersion);
+  const to = versions.find(v => v.version === toVersion);
+  const { ops, hunks } = groupHunks(diffWords(from?.content || '', to?.content || ''));
+
+  // Edits since the common ancestor on each side
+  const fromPath = getVersionPath({ versions }, fromVersion);
+  const toPath = getVersionPath({ versions }, toVersion);
+  let shared = 0;
+  while (shared < fromPath.length && shared < toPath.length && fromPath[shared].version === toPath[shared].version) shared++;
+  const toEdits = toPath.slice(shared);
+  const fromEdits = fromPath.slice(shared);
+
+  for (const hunk of hunks) {
+    // Prefer edits on the target side; when going back to an ancestor, the
+    // hunk undoes an edit on the source side
+    const source = traceHunkSource(hunk, toEdits)
+      || traceHunkSource({ ...hunk, added: hunk.removed, removed: hunk.added }, fromEdits);
+    const annotated = source || (toEdits.length ? to : from);
+    hunk.sourceVersion = annotated?.version;
+    hunk.editPrompt = annotated?.editPrompt;
+  }
+
+  return { fromVersion, toVersion, ops, hunks };
+}
+
+/**
+ * Build content from a diff: accepted hunks take the newer text, rejected hunks
+ * keep the older text. Hunks without a decision are treated as accepted.
+ */
+export function applyHunkDecisions(diff: DraftDiff, decisions: Record<number, HunkDecision>): string {
+  return diff.ops
+    .map(op => {
+      if (op.type === 'equal') return op.text;
+      const accepted = decisions[op.hunkId ?? -1] !== 'reject';
+      if (op.type === 'insert') return accepted ? op.text : '';
+      return accepted ? '' : op.text;
+    })
+    .join('');
+}
@@ -0,0 +1,87 @@
+/**
+ * Draft Media
+ *
+ * A copy of every image, video and document attached to a draft is stored by
+ * the backend, so attachments survive a reload and travel with the draft into
+ * the plan. The stored items are listed on the draft version and on scheduled
+ * drafts; LinkedIn uploads made from a copy are re-done at publish time when
+ * LinkedIn no longer has them.
+ */
+
+import type { MediaKind } from '@/lib/linkedinMedia';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+export interface StoredDraftMedia {
+  kind: MediaKind;
+  /** Storage path, under the uploader's Clerk id */
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  /** Last LinkedIn upload made from the copy, and the account it was made for */
+  assetUrn?: string | null;
+  ownerUrn?: string | null;
+  uploadedAt?: string | null;
+}
+
+/**
+ * Store a copy of a file attached to a draft
+ */
+export async function storeDraftMedia(file: File, clerkUserId: string): Promise<StoredDraftMedia> {
+  const formData = new FormData();
+  formData.append('media', file);
+  formData.append('clerkUserId', clerkUserId);
+
+  const res = await fetch(`${API_URL}/api/draft-media`, {
+    method: 'POST',
+    body: formData,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to store file');
+  return data.media;
+}
+
+/**
+ * Read a stored copy back as a File
+ */
+export async function fetchStoredMedia(clerkUserId: string, item: StoredDraftMedia): Promise<File> {
+  const params = new URLSearchParams({ path: item.path });
+  const res = await fetch(`${API_URL}/api/draft-media/${clerkUserId}/file?${params}`);
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to load ${item.fileName}`);
+  }
+  const blob = await res.blob();
+  return new File([blob], item.fileName, { type: item.mimeType || blob.type });
+}
+
+/**
+ * Read back all of a draft's stored copies; ones that can no longer be read are skipped
+ */
+export async function restoreDraftMedia(
+  clerkUserId: string,
+  items: StoredDraftMedia[]
+): Promise<{ kind: MediaKind; file: File; stored: StoredDraftMedia }[]> {
+  const restored = await Promise.all(
+    items.map(async (stored) => {
+      try {
+        return { kind: stored.kind, file: await fetchStoredMedia(clerkUserId, stored), stored };
+      } catch (err) {
+        console.warn('Could not restore draft media:', err);
+        return null;
+      }
+    })
+  );
+  return restored.filter((item): item is NonNullable<typeof item> => item !== null);
+}
+
+/**
+ * Short description of a draft's attachments, e.g. "3 images" or "1 video"
+ */
+export function describeDraftMedia(media: StoredDraftMedia[]): string | null {
+  if (media.length === 0) return null;
+  const kind = media[0].kind;
+  if (kind !== 'image') return `1 ${kind}`;
+  return media.length === 1 ? '1 image' : `${media.length} images`;
+}
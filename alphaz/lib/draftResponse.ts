@@ -0,0 +1,110 @@
+/**
+ * Structured Draft Responses
+ *
+ * Edit and draft intents stream a structured object instead of free text, so
+ * the draft panel and createDraftVersion get the post body and change list as
+ * exact fields. The chat route sends each partial object as one JSON line.
+ * A draft request asking for variants ("give me 3 variants") streams a list of
+ * posts instead, each of which becomes its own draft.
+ */
+
+import { z } from 'zod';
+
+/** Response header value marking a newline-delimited stream of partial DraftResponse objects */
+export const DRAFT_OBJECT_FORMAT = 'draft-object';
+
+export const EditResponseSchema = z.object({
+  type: z.enum(['draft', 'question']).describe(
+    'draft: A new or revised LinkedIn post. ' +
+    'question: A clarifying question before writing or editing.'
+  ),
+  content: z.string().describe('The complete post content (draft) or the clarifying question (question)'),
+  changes: z.array(z.string()).optional().describe('List of changes made (only for an edited draft)'),
+  questionContext: z.string().optional().describe('Why clarification is needed (only for question type)'),
+});
+
+export type DraftResponse = z.infer<typeof EditResponseSchema>;
+
+/** Response header value marking a newline-delimited stream of partial DraftVariantsResponse objects */
+export const DRAFT_VARIANTS_FORMAT = 'draft-variants';
+
+export const MIN_DRAFT_VARIANTS = 2;
+export const MAX_DRAFT_VARIANTS = 5;
+const DEFAULT_DRAFT_VARIANTS = 3;
+
+export const DraftVariantsResponseSchema = z.object({
+  type: z.enum(['variants', 'question']).describe(
+    'variants: Several complete LinkedIn posts for the same request. ' +
+    'question: A clarifying question before writing.'
+  ),
+  variants: z.array(z.object({
+    angle: z.string().describe('Short label for the angle or hook this variant takes, e.g. "Contrarian opener"'),
+    content: z.string().describe('The complete post content'),
+  })).optional().describe('The variants (only for variants type)'),
+  question: z.string().optional().describe('The clarifying question (only for question type)'),
+});
+
+export type DraftVariantsResponse = z.infer<typeof DraftVariantsResponseSchema>;
+export type DraftVariant = NonNullable<DraftVariantsResponse['variants']>[number];
+
+const NUMBER_WORDS: Record<string, number> = { two: 2, three: 3, four: 4, five: 5 };
+
+/**
+ * Number of variants a draft request asks for, or null for a single post
+ * Matches "3 variants", "three versions", "two different takes", "a few variations"...
+ */
+export function parseVariantCount(message: string): number | null {
+  const counted = message.match(/\b(\d+|two|three|four|five)\s+(?:different\s+|alternative\s+)?(?:variants?|variations?|versions|options|takes|angles|drafts)\b/i);
+  if (counted) {
+    const raw = counted[1].toLowerCase();
+    const count = NUMBER_WORDS[raw] ?? parseInt(raw, 10);
+    if (count < MIN_DRAFT_VARIANTS) return null;
+    return Math.min(count, MAX_DRAFT_VARIANTS);
+  }
+  return /\b(?:some|a few|several|multiple|different)\s+(?:variants|variations)\b/i.test(message) ? DEFAULT_DRAFT_VARIANTS : null;
+}
+
+/**
+ * Variants with content, in order (partial objects may hold empty trailing entries)
+ */
+export function completeVariants(response: Partial<DraftVariantsResponse>): DraftVariant[] {
+  return (response.variants || []).filter((variant): variant is DraftVariant => !!variant?.content?.trim());
+}
+
+/**
+ * Variants as one chat message, so follow-ups ("combine 1 and 3") can refer to them
+ */
+export function formatVariantsMessage(variants: DraftVariant[]): string {
+  return variants
+    .map((variant, index) => `Variant ${index + 1}${variant.angle ? ` (${variant.angle})` : ''}:\n${variant.content}`)
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Incrementally parses a newline-delimited JSON stream of partial objects
+ * Returns the latest partial object seen after each chunk
+ */
+export function createDraftObjectParser<T extends object = DraftResponse>() {
+  let buffer = '';
+  let latest: Partial<T> = {};
+
+  return {
+    push(chunk: string): Partial<T> {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          latest = JSON.parse(line);
+        } catch {
+          console.warn('Skipping malformed draft object line');
+        }
+      }
+      return latest;
+    },
+    flush(): Partial<T> {
+      return this.push('\n');
+    },
+  };
+}
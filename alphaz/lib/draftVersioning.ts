@@ -1,8 +1,10 @@
 /**
  * Draft Versioning System
  * 
- * Manages versioned drafts with parent-child relationships
- * When a draft is edited, creates v2, v3, etc. under the original draft
+ * Manages versioned drafts as a tree of versions
+ * When a draft is edited, creates v2, v3, etc. under the original draft. Each
+ * version records the version it was edited from, so editing an older version
+ * starts a new branch instead of stacking on the latest one.
  */
 
 export interface DraftVersion {
@@ -11,6 +13,7 @@ export interface DraftVersion {
   timestamp: Date;
   changes?: string[]; // List of changes made in this version
   editPrompt?: string; // The user's edit request that created this version
+  parentVersion?: number; // Version this one was edited from (undefined for v1)
 }
 
 export interface Draft {
@@ -19,7 +22,7 @@ export interface Draft {
   timestamp: Date;
   title?: string;
   versions: DraftVersion[]; // Version history
-  currentVersion: number; // Current version number (1, 2, 3, etc.)
+  currentVersion: number; // Version the draft currently points at (edits branch from here)
   parentMessageId?: string; // Reference to the original assistant message
 }
 
@@ -47,8 +50,17 @@ export function createDraft(
   };
 }
 
+/**
+ * Next free version number (versions are numbered in creation order across all branches)
+ */
+export function getNextVersionNumber(draft: Draft): number {
+  return draft.versions.reduce((max, v) => Math.max(max, v.version), 0) + 1;
+}
+
 /**
  * Create a new version of an existing draft
+ * The new version is a child of the draft's current version; if that isn't the
+ * latest version (e.g. after revertToVersion) this starts a new branch
  */
 export function createDraftVersion(
   existingDraft: Draft,
@@ -57,7 +69,7 @@ export function createDraftVersion(
   changes?: string[],
   timestamp: Date = new Date()
 ): Draft {
-  const newVersion = existingDraft.currentVersion + 1;
+  const newVersion = getNextVersionNumber(existingDraft);
   
   return {
     ...existingDraft,
@@ -71,6 +83,7 @@ export function createDraftVersion(
         timestamp,
         changes,
         editPrompt,
+        parentVersion: existingDraft.currentVersion,
       }
     ],
   };
@@ -79,12 +92,13 @@ export function createDraftVersion(
 /**
  * Get a specific version of a draft
  */
-export function getDraftVersion(draft: Draft, version: number): DraftVersion | null {
+export function getDraftVersion(draft: Pick<Draft, 'versions'>, version: number): DraftVersion | null {
   return draft.versions.find(v => v.version === version) || null;
 }
 
 /**
  * Revert draft to a specific version
+ * Only moves the pointer; the next createDraftVersion branches from this version
  */
 export function revertToVersion(draft: Draft, version: number): Draft {
   const targetVersion = getDraftVersion(draft, version);
@@ -100,148 +114,97 @@ export function revertToVersion(draft: Draft, version: number): Draft {
 }
 
 /**
- * Check if a draft has multiple versions
+ * Parent of a version
+ * Versions saved before branching existed have no parentVersion and are treated
+ * as a linear chain (v3's parent is v2)
  */
-export function hasMultipleVersions(draft: Draft): boolean {
-  return draft.versions.length > 1;
+export function getParentVersion(draft: Pick<Draft, 'versions'>, version: number): number | undefined {
+  const data = getDraftVersion(draft, version);
+  if (!data) return undefined;
+  if (data.parentVersion !== undefined) return data.parentVersion;
+  const earlier = draft.versions.filter(v => v.version < version);
+  return earlier.length ? Math.max(...earlier.map(v => v.version)) : undefined;
 }
 
 /**
- * Get version summary for display
+ * Versions edited directly from the given version, oldest first
  */
-export function getVersionSummary(draft: Draft): string {
-  if (draft.versions.length === 1) {
-    return 'Original';
-  }
-  return `v${draft.currentVersion} of ${draft.versions.length}`;
+export function getChildVersions(draft: Pick<Draft, 'versions'>, version: number): DraftVersion[] {
+  return draft.versions
+    .filter(v => getParentVersion(draft, v.version) === version)
+    .sort((a, b) => a.version - b.version);
 }
 
 /**
- * Extract draft content from edit response
- * Handles both structured and unstructured responses
+ * Versions from the root down to the given version
  */
-export function extractDraftFromEditResponse(response: string): {
-  content: string;
-  changes?: string[];
-} {
-  // Try to parse structured response first
-  // Look for patterns like:
-  // 1. Revised post / Here's the updated post
-  // 2. Changes made / Key changes / Improvements
-  
-  const lines = response.split('\n');
-  let content = '';
-  let changes: string[] = [];
-  let currentSection: 'content' | 'changes' | null = null;
-  
-  // Headers that indicate the start of content section (more comprehensive matching)
-  // Matches: "1. Revised post", "## Revised post", "Revised post:", "Here's the updated version", etc.
-  const contentHeaders = /^(?:1\.?\s*|##?\s*)?(?:Revised|Updated|Edited|Here'?s?\s+(?:the\s+)?(?:revised|updated|edited|new)|New|Modified)\s*(?:post|version|draft|content|LinkedIn\s*post)?:?\s*$/i;
-  
-  // Headers that indicate the start of changes section
-  // Matches: "2. Changes made", "## Changes", "Changes made:", "Key changes:", etc.
-  const changesHeaders = /^(?:2\.?\s*|##?\s*)?(?:Changes\s*(?:made)?|Improvements|Key\s+changes|What\s+(?:I\s+)?(?:changed|improved|updated)|Modifications|Updates\s+made):?\s*$/i;
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmedLine = line.trim();
-    
-    // Skip empty lines at the start
-    if (!trimmedLine && !content && !currentSection) continue;
-    
-    // Detect section headers
-    if (trimmedLine.match(contentHeaders)) {
-      currentSection = 'content';
-      continue;
-    } else if (trimmedLine.match(changesHeaders)) {
-      currentSection = 'changes';
-      continue;
-    }
-    
-    // Collect content based on current section
-    if (currentSection === 'content') {
-      // Stop collecting content if we hit a changes section marker
-      if (trimmedLine.match(changesHeaders)) {
-        currentSection = 'changes';
-        continue;
-      }
-      // Preserve original line (don't trim) to maintain spacing
-      content += line + '\n';
-    } else if (currentSection === 'changes' && trimmedLine) {
-      // Extract bullet points or numbered items
-      const cleaned = trimmedLine.replace(/^[-*•]\s*/, '').replace(/^\d+\.\s*/, '');
-      if (cleaned && !cleaned.match(contentHeaders)) {
-        changes.push(cleaned);
-      }
-    } else if (!currentSection) {
-      // No section detected yet - might be unstructured
-      // But check if we're hitting a changes section marker
-      if (trimmedLine.match(changesHeaders)) {
-        currentSection = 'changes';
-        continue;
-      }
-      // Collect as content
-      content += line + '\n';
-    }
+export function getVersionPath(draft: Pick<Draft, 'versions'>, version: number): DraftVersion[] {
+  const path: DraftVersion[] = [];
+  const seen = new Set<number>();
+  let current: number | undefined = version;
+  while (current !== undefined && !seen.has(current)) {
+    seen.add(current);
+    const data = getDraftVersion(draft, current);
+    if (!data) break;
+    path.unshift(data);
+    current = getParentVersion(draft, current);
   }
-  
-  // If no structured format detected (no headers found), try to split on common patterns
-  if (!changes.length && content.trim()) {
-    // Look for changes section at the end (common pattern: content followed by "Changes:" or similar)
-    const changesMatch = content.match(/\n\n(?:2\.\s*)?(?:Changes(?:\s+made)?|Key changes|Improvements|What (?:I )?changed|Updates made):?\s*\n([\s\S]+)$/i);
-    if (changesMatch) {
-      // Extract the changes part
-      const changesText = changesMatch[1];
-      content = content.replace(changesMatch[0], '').trim();
-      
-      // Parse bullet points from changes
-      const bulletLines = changesText.split('\n').filter(l => l.trim());
-      bulletLines.forEach(line => {
-        const cleaned = line.trim().replace(/^[-*•]\s*/, '').replace(/^\d+\.\s*/, '');
-        if (cleaned) {
-          changes.push(cleaned);
-        }
-      });
-    }
-  }
-  
-  // Clean up content - remove trailing whitespace
-  content = content.trim();
-  
-  // If still no content, use the entire response
-  if (!content) {
-    content = response.trim();
-  }
-  
-  // Final cleanup: Remove any remaining header patterns at the start of content
-  // This catches cases where the header wasn't properly detected as a separate line
-  content = content
-    .replace(/^(?:1\.?\s*)?(?:Revised|Updated|Edited)\s*(?:post|version|draft|content|LinkedIn\s*post)?:?\s*\n+/i, '')
-    .replace(/^(?:Here'?s?\s+(?:the\s+)?(?:revised|updated|edited|new)\s*(?:post|version|draft|content)?:?\s*\n+)/i, '')
-    .trim();
-  
-  return {
-    content,
-    changes: changes.length > 0 ? changes : undefined,
+  return path;
+}
+
+export interface VersionTreeNode {
+  version: DraftVersion;
+  /** Nesting level; a new level starts at each branch off the main line */
+  depth: number;
+  /** True when this version starts a branch (it has an older sibling) */
+  isBranchStart: boolean;
+  /** True when more than one version was edited from this one */
+  isBranchPoint: boolean;
+}
+
+/**
+ * Flatten the version tree for display
+ * The first child continues its parent's line; later children (branches) are
+ * listed right under their branch point, one level deeper
+ */
+export function buildVersionTree(draft: Draft): VersionTreeNode[] {
+  const nodes: VersionTreeNode[] = [];
+  const visited = new Set<number>();
+
+  const visit = (version: DraftVersion, depth: number, isBranchStart: boolean) => {
+    if (visited.has(version.version)) return;
+    visited.add(version.version);
+    const children = getChildVersions(draft, version.version);
+    nodes.push({ version, depth, isBranchStart, isBranchPoint: children.length > 1 });
+    children.slice(1).forEach(child => visit(child, depth + 1, true));
+    if (children[0]) visit(children[0], depth, false);
   };
+
+  draft.versions
+    .filter(v => getParentVersion(draft, v.version) === undefined)
+    .sort((a, b) => a.version - b.version)
+    .forEach(root => visit(root, 0, false));
+
+  return nodes;
 }
 
 /**
- * Check if a message is an edit response
- * Based on presence of numbered sections or change descriptions
+ * Check if a draft has multiple versions
  */
-export function isEditResponse(content: string): boolean {
-  const patterns = [
-    /^1\./m,
-    /Revised post/i,
-    /Updated post/i,
-    /^2\./m,
-    /Changes made/i,
-    /Improvements/i,
-    /What.*improved/i,
-  ];
-  
-  return patterns.some(pattern => pattern.test(content));
+export function hasMultipleVersions(draft: Draft): boolean {
+  return draft.versions.length > 1;
+}
+
+/**
+ * Get version summary for display
+ */
+export function getVersionSummary(draft: Draft): string {
+  if (draft.versions.length === 1) {
+    return 'Original';
+  }
+  const branches = draft.versions.filter(v => getChildVersions(draft, v.version).length === 0).length;
+  const branchLabel = branches > 1 ? ` (${branches} branches)` : '';
+  return `v${draft.currentVersion} of ${draft.versions.length}${branchLabel}`;
 }
 
 /**
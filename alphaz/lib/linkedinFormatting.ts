@@ -0,0 +1,155 @@
+/**
+ * LinkedIn Formatting
+ *
+ * LinkedIn posts are plain text, so bold, italic and monospace are written
+ * with Unicode's mathematical alphanumeric letters (𝗯𝗼𝗹𝗱, 𝘪𝘵𝘢𝘭𝘪𝘤, 𝚖𝚘𝚗𝚘) and
+ * bullets as "•". Markdown from the models is converted to these before a post
+ * is published or copied, and converted back (linkedInToMarkdown) before text
+ * is sent to the models, so they keep working with plain text.
+ */
+
+import { formatMention, mentionsToText, splitMentions } from './mentions';
+
+export type TextStyle = 'bold' | 'italic' | 'monospace';
+
+const BULLET = '•';
+
+/** First code point of each style's A-Z, a-z and 0-9 runs (italic has no digits) */
+const STYLE_RANGES: Record<TextStyle, { upper: number; lower: number; digit?: number }> = {
+  bold: { upper: 0x1d5d4, lower: 0x1d5ee, digit: 0x1d7ec },
+  italic: { upper: 0x1d608, lower: 0x1d622 },
+  monospace: { upper: 0x1d670, lower: 0x1d68a, digit: 0x1d7f6 },
+};
+
+const MARKDOWN_MARKERS: Record<TextStyle, string> = {
+  bold: '**',
+  italic: '*',
+  monospace: '`',
+};
+
+/** Styled code point -> plain character and its style */
+const PLAIN_CHARACTERS = new Map<number, { char: string; style: TextStyle }>(
+  (Object.keys(STYLE_RANGES) as TextStyle[]).flatMap((style) => {
+    const { upper, lower, digit } = STYLE_RANGES[style];
+    const letters = Array.from({ length: 26 }, (_, i) => [
+      [upper + i, { char: String.fromCharCode(65 + i), style }] as const,
+      [lower + i, { char: String.fromCharCode(97 + i), style }] as const,
+    ]).flat();
+    const digits = digit === undefined
+      ? []
+      : Array.from({ length: 10 }, (_, i) => [digit + i, { char: String.fromCharCode(48 + i), style }] as const);
+    return [...letters, ...digits];
+  })
+);
+
+function styleCharacter(char: string, style: TextStyle): string {
+  const { upper, lower, digit } = STYLE_RANGES[style];
+  const code = char.charCodeAt(0);
+  if (char >= 'A' && char <= 'Z') return String.fromCodePoint(upper + code - 65);
+  if (char >= 'a' && char <= 'z') return String.fromCodePoint(lower + code - 97);
+  if (char >= '0' && char <= '9' && digit !== undefined) return String.fromCodePoint(digit + code - 48);
+  return char;
+}
+
+/**
+ * Style the letters and digits of a text; other characters are kept as they are,
+ * and so are mention tokens, whose URNs must reach LinkedIn unchanged
+ */
+export function applyStyle(text: string, style: TextStyle): string {
+  return splitMentions(text)
+    .map((segment) => segment.type === 'mention'
+      ? formatMention(segment)
+      : [...stripStyles(segment.text)].map((char) => styleCharacter(char, style)).join(''))
+    .join('');
+}
+
+/**
+ * Replace styled letters with plain ones
+ */
+export function stripStyles(text: string): string {
+  return [...text].map((char) => PLAIN_CHARACTERS.get(char.codePointAt(0)!)?.char ?? char).join('');
+}
+
+function styleOf(char: string): TextStyle | null {
+  return PLAIN_CHARACTERS.get(char.codePointAt(0)!)?.style ?? null;
+}
+
+/**
+ * Style a selection, or remove the style if all of its letters already have it
+ */
+export function toggleStyle(text: string, style: TextStyle): string {
+  const styled = [...text].filter((char) => /[A-Za-z0-9]/.test(stripStyles(char)));
+  const isStyled = styled.length > 0 && styled.every((char) => styleOf(char) === style || (style === 'italic' && /[0-9]/.test(char)));
+  return isStyled ? stripStyles(text) : applyStyle(text, style);
+}
+
+/**
+ * Bullet each non-empty line, or remove the bullets if every line has one
+ */
+export function toggleBullets(text: string): string {
+  const lines = text.split('\n');
+  const content = lines.filter((line) => line.trim());
+  const isBulleted = content.length > 0 && content.every((line) => line.trimStart().startsWith(`${BULLET} `));
+  return lines
+    .map((line) => {
+      if (!line.trim()) return line;
+      return isBulleted ? line.replace(`${BULLET} `, '') : `${BULLET} ${line}`;
+    })
+    .join('\n');
+}
+
+/**
+ * True when the text has markdown that LinkedIn would show literally
+ */
+export function hasMarkdownFormatting(text: string): boolean {
+  return /\*\*[^*\n]+\*\*|__[^_\n]+__|`[^`\n]+`|^#{1,6}\s|^\s*[-*]\s|\[[^\]\n]+\]\([^)\s]+\)/m.test(mentionsToText(text));
+}
+
+/**
+ * Convert markdown to LinkedIn formatting
+ * **bold** / __bold__ and # headings become bold, *italic* / _italic_
+ * italic, `code` monospace, "- " list items bullets, and [text](url) "text (url)"
+ */
+export function markdownToLinkedIn(text: string): string {
+  return text
+    .replace(/^(\s*)[-*]\s+/gm, `$1${BULLET} `)
+    .replace(/^#{1,6}\s+(.+)$/gm, (_, heading: string) => applyStyle(heading, 'bold'))
+    // Mention tokens, @[Name](urn:li:...), look like links but are kept
+    .replace(/(@?)\[([^\]\n]+)\]\(([^)\s]+)\)/g, (link, at: string, label: string, url: string) => (at ? link : `${label} (${url})`))
+    .replace(/`([^`\n]+)`/g, (_, code: string) => applyStyle(code, 'monospace'))
+    .replace(/\*\*([^*\n]+?)\*\*|__([^_\n]+?)__/g, (_, stars: string, underscores: string) => applyStyle(stars ?? underscores, 'bold'))
+    .replace(/(^|[^*\w])\*([^*\s][^*\n]*?)\*(?![*\w])/gm, (_, before: string, italic: string) => before + applyStyle(italic, 'italic'))
+    .replace(/(^|[^_\w])_([^_\s][^_\n]*?)_(?![_\w])/gm, (_, before: string, italic: string) => before + applyStyle(italic, 'italic'));
+}
+
+/**
+ * Convert LinkedIn formatting back to markdown (plain letters with markers)
+ * Spaces and punctuation between letters of one style stay inside its markers,
+ * so "𝗛𝗲𝗹𝗹𝗼, 𝘄𝗼𝗿𝗹𝗱" becomes "**Hello, world**"
+ */
+export function linkedInToMarkdown(text: string): string {
+  const chars = [...text];
+  const styles = chars.map(styleOf);
+  const isNeutral = (index: number) => styles[index] === null && !/[\p{L}\p{N}\n]/u.test(chars[index]);
+
+  let output = '';
+  let index = 0;
+  while (index < chars.length) {
+    const style = styles[index];
+    if (!style) {
+      output += chars[index];
+      index += 1;
+      continue;
+    }
+    // Extend the run over neutral characters while the same style continues after them
+    let end = index;
+    for (let next = index + 1; next < chars.length && (styles[next] === style || isNeutral(next)); next++) {
+      if (styles[next] === style) end = next;
+    }
+    const marker = MARKDOWN_MARKERS[style];
+    output += `${marker}${stripStyles(chars.slice(index, end + 1).join(''))}${marker}`;
+    index = end + 1;
+  }
+
+  return output.replace(new RegExp(`^(\\s*)${BULLET} `, 'gm'), '$1- ');
+}
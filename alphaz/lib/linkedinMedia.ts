@@ -0,0 +1,180 @@
+/**
+ * LinkedIn Media
+ *
+ * A post carries up to 9 images, one video or one PDF document (shown on
+ * LinkedIn as a swipeable carousel). Images are uploaded as ugcPost assets.
+ * Videos and documents go to LinkedIn's Videos and Documents APIs (the backend
+ * uploads videos in the chunks LinkedIn asks for) and have to finish processing
+ * on LinkedIn's side before a post can use them.
+ */
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+export type MediaKind = 'image' | 'video' | 'document';
+
+/** LinkedIn allows up to 9 images per post */
+export const MAX_IMAGES = 9;
+
+/** Largest file accepted for each kind (LinkedIn's limits, and the backend's for video) */
+export const MEDIA_SIZE_LIMITS: Record<MediaKind, number> = {
+  image: 8 * 1024 * 1024,
+  video: 200 * 1024 * 1024,
+  document: 100 * 1024 * 1024,
+};
+
+/** How often and how long to wait for LinkedIn to process a video or document */
+const STATUS_POLL_INTERVAL_MS = 3000;
+const STATUS_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface MediaOwner {
+  clerkUserId: string;
+  /** Organization the post is published as; omit for the personal profile */
+  organizationId?: string;
+  isPersonal: boolean;
+}
+
+export type MediaStatus = 'processing' | 'ready' | 'failed';
+
+/**
+ * The kind of a file, or null when LinkedIn can't post it
+ */
+export function mediaKindOf(file: File): MediaKind | null {
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('video/')) return 'video';
+  if (file.type === 'application/pdf') return 'document';
+  return null;
+}
+
+/**
+ * Document title shown above the carousel: the file name without its extension
+ */
+export function documentTitle(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Document';
+}
+
+/**
+ * Count a PDF's pages from its page objects
+ * Returns null when they're hidden in compressed object streams
+ */
+export async function countPdfPages(file: Blob): Promise<number | null> {
+  const text = await file.text();
+  const count = (text.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  return count > 0 ? count : null;
+}
+
+function ownerFormData(file: File, field: string, owner: MediaOwner): FormData {
+  const formData = new FormData();
+  formData.append(field, file);
+  formData.append('clerkUserId', owner.clerkUserId);
+  if (!owner.isPersonal && owner.organizationId) {
+    formData.append('organizationId', owner.organizationId);
+  }
+  formData.append('isPersonal', String(owner.isPersonal));
+  return formData;
+}
+
+/**
+ * Upload a file to LinkedIn; resolves to the image asset, video or document URN
+ */
+export async function uploadLinkedInMedia(file: File, kind: MediaKind, owner: MediaOwner): Promise<string> {
+  const endpoint = kind === 'image' ? 'upload-image' : 'upload-media';
+  const response = await fetch(`${API_URL}/api/linkedin/${endpoint}`, {
+    method: 'POST',
+    body: ownerFormData(file, kind === 'image' ? 'image' : 'media', owner),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data?.error || `Failed to upload ${kind}`);
+  }
+
+  const urn = kind === 'image' ? data.asset : data.urn;
+  if (!urn) throw new Error(`LinkedIn didn't return an id for the ${kind}`);
+  return urn;
+}
+
+/**
+ * Poll LinkedIn until an uploaded video or document is processed
+ * Rejects when processing fails or takes longer than ten minutes
+ */
+export async function waitForLinkedInMedia(
+  clerkUserId: string,
+  urn: string,
+  onStatus?: (status: MediaStatus) => void
+): Promise<void> {
+  const deadline = Date.now() + STATUS_POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const params = new URLSearchParams({ urn });
+    const response = await fetch(`${API_URL}/api/linkedin/media-status/${clerkUserId}?${params}`);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data?.error || 'Failed to check upload status');
+    }
+
+    const status = data.status as MediaStatus;
+    onStatus?.(status);
+    if (status === 'ready') return;
+    if (status === 'failed') throw new Error('LinkedIn could not process the file');
+
+    await new Promise(resolve => setTimeout(resolve, STATUS_POLL_INTERVAL_MS));
+  }
+
+  throw new Error('LinkedIn is still processing the file; try publishing again in a few minutes');
+}
+
+export interface PostAttachment {
+  kind: MediaKind;
+  file: File;
+}
+
+/** A post's media as the publish endpoints take it */
+export interface PostMediaPayload {
+  imageAssets?: string[];
+  media?: { kind: 'video' | 'document'; urn: string; title?: string };
+}
+
+/**
+ * Upload a post's images, or its video or document, and wait for LinkedIn to process them
+ * Images that fail to upload are skipped as long as one goes through
+ */
+export async function uploadPostMedia(
+  attachments: PostAttachment[],
+  owner: MediaOwner,
+  onProgress?: (message: string) => void
+): Promise<PostMediaPayload> {
+  const images = attachments.filter(item => item.kind === 'image');
+  const attachment = attachments.find(item => item.kind !== 'image');
+  const payload: PostMediaPayload = {};
+
+  if (images.length > 0) {
+    onProgress?.(`Uploading ${images.length} image(s)...`);
+    const uploadedAssets: string[] = [];
+    for (const image of images) {
+      try {
+        uploadedAssets.push(await uploadLinkedInMedia(image.file, 'image', owner));
+      } catch (uploadErr) {
+        console.error('Image upload error:', uploadErr);
+        // Continue with other images but note the error
+      }
+    }
+    if (uploadedAssets.length === 0) {
+      throw new Error('Failed to upload any images. Please try again.');
+    }
+    payload.imageAssets = uploadedAssets;
+  }
+
+  // Videos and documents are processed by LinkedIn before they can be posted
+  if (attachment) {
+    const label = attachment.kind === 'video' ? 'video' : 'document';
+    onProgress?.(`Uploading ${label}...`);
+    const urn = await uploadLinkedInMedia(attachment.file, attachment.kind, owner);
+    onProgress?.(`LinkedIn is processing the ${label}...`);
+    await waitForLinkedInMedia(owner.clerkUserId, urn);
+    payload.media = attachment.kind === 'video'
+      ? { kind: 'video', urn }
+      : { kind: 'document', urn, title: documentTitle(attachment.file.name) };
+  }
+
+  return payload;
+}
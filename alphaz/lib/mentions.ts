@@ -0,0 +1,93 @@
+/**
+ * LinkedIn Mentions
+ *
+ * Drafts keep @-mentions inline as tokens: @[Display Name](urn:li:person:ID) or
+ * @[Page Name](urn:li:organization:ID). The token travels with the content
+ * through draft versions, edits and scheduling, and the backend turns it into
+ * a mention attribute on the published post (only the name is shown).
+ */
+
+export type MentionKind = 'person' | 'organization';
+
+export interface MentionTarget {
+  name: string;
+  urn: string;
+  kind: MentionKind;
+  /** Where the target came from: a page the user administers or a saved contact */
+  source: 'company-page' | 'contact';
+  /** Saved contact id, for removing it */
+  contactId?: string;
+}
+
+export type MentionSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; name: string; urn: string; kind: MentionKind };
+
+/** A mention token; group 1 is the name, 2 the URN and 3 its kind */
+export const MENTION_PATTERN = /@\[([^\]\n]+)\]\((urn:li:(person|organization):[\w-]+)\)/g;
+
+/** A LinkedIn URN that can be mentioned */
+export const MENTION_URN_PATTERN = /^urn:li:(person|organization):[\w-]+$/;
+
+/**
+ * The token for a mention, as it is stored in draft content
+ */
+export function formatMention(target: Pick<MentionTarget, 'name' | 'urn'>): string {
+  return `@[${target.name.replace(/[\[\]\n]/g, '')}](${target.urn})`;
+}
+
+/**
+ * Post text as it reads on LinkedIn, with mentions reduced to their names
+ */
+export function mentionsToText(content: string): string {
+  return content.replace(MENTION_PATTERN, '$1');
+}
+
+/**
+ * Split content into text and mentions, for rendering
+ */
+export function splitMentions(content: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ type: 'text', text: content.slice(lastIndex, index) });
+    segments.push({ type: 'mention', name: match[1], urn: match[2], kind: match[3] as MentionKind });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) segments.push({ type: 'text', text: content.slice(lastIndex) });
+  return segments;
+}
+
+/**
+ * The "@query" being typed at the caret, if any
+ * The @ must start a word, and the query can't contain a line break or "[" (already a token)
+ */
+export function findMentionQuery(value: string, caret: number): { start: number; query: string } | null {
+  const before = value.slice(0, caret);
+  const match = before.match(/(^|\s)@([^\s@\[\]()][^@\[\]()\n]{0,40})?$/);
+  if (!match) return null;
+  const query = match[2] ?? '';
+  // Stop suggesting once the query is clearly a sentence, not a name
+  if (query.split(' ').length > 3) return null;
+  return { start: caret - query.length - 1, query };
+}
+
+/**
+ * Targets whose name matches the query, word prefixes first
+ */
+export function searchMentionTargets(targets: MentionTarget[], query: string, limit = 6): MentionTarget[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return targets.slice(0, limit);
+
+  return targets
+    .map((target) => {
+      const name = target.name.toLowerCase();
+      const rank = name.startsWith(needle) ? 0 : name.split(/\s+/).some((word) => word.startsWith(needle)) ? 1 : name.includes(needle) ? 2 : -1;
+      return { target, rank };
+    })
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.target.name.localeCompare(b.target.name))
+    .slice(0, limit)
+    .map(({ target }) => target);
+}
@@ -0,0 +1,147 @@
+/**
+ * Local mock model provider
+ *
+ * Lets the chat routes run without OpenAI/Anthropic keys (tests, local dev).
+ * Select it per route with { provider: 'mock', modelId } or globally with
+ * AI_MODEL_PROVIDER=mock.
+ *
+ * Built-in model IDs:
+ * - echo:       streams back the last user message; structured calls get an
+ *               object shaped from the schema (first enum value, echoed strings)
+ * - classify:   returns { intent: 'general' } for intent classification
+ * - fail:       throws a provider error (exercises fallback chains)
+ * - rate-limit: throws a 429 provider error
+ */
+
+import { APICallError, simulateReadableStream } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+
+export interface MockModelBehaviour {
+  /** Text to stream/generate; defaults to echoing the last user message */
+  text?: string;
+  /** Object returned (as JSON text) from structured generateObject/streamObject calls */
+  object?: unknown;
+  /** Fail every call with a provider error */
+  failWith?: 'error' | 'rate-limit';
+}
+
+const mockModels: Record<string, MockModelBehaviour> = {
+  echo: {},
+  classify: { object: { intent: 'general' } },
+  fail: { failWith: 'error' },
+  'rate-limit': { failWith: 'rate-limit' },
+};
+
+/**
+ * Register (or replace) the behaviour for a mock model ID
+ */
+export function registerMockModel(modelId: string, behaviour: MockModelBehaviour): void {
+  mockModels[modelId] = behaviour;
+}
+
+const usage = {
+  inputTokens: { total: 0, noCache: 0, cacheRead: 0, cacheWrite: 0 },
+  outputTokens: { total: 0, text: 0, reasoning: 0 },
+};
+
+function providerError(modelId: string, failWith: 'error' | 'rate-limit'): APICallError {
+  const isRateLimit = failWith === 'rate-limit';
+  return new APICallError({
+    message: isRateLimit ? `Mock model ${modelId}: rate limit exceeded` : `Mock model ${modelId}: provider error`,
+    url: `mock://${modelId}`,
+    requestBodyValues: {},
+    statusCode: isRateLimit ? 429 : 500,
+    isRetryable: isRateLimit,
+  });
+}
+
+/**
+ * Pull the text of the most recent user message out of a provider prompt
+ */
+function lastUserText(prompt: Array<{ role: string; content: unknown }>): string {
+  const lastUser = [...prompt].reverse().find((m) => m.role === 'user');
+  if (!lastUser || !Array.isArray(lastUser.content)) return '';
+  return lastUser.content
+    .map((part: { type: string; text?: string }) => (part.type === 'text' ? part.text || '' : ''))
+    .join('');
+}
+
+interface JsonSchemaLike {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchemaLike>;
+  required?: string[];
+}
+
+/**
+ * Build a minimal object satisfying a JSON schema, echoing text into string fields
+ */
+function objectFromSchema(schema: JsonSchemaLike | undefined, text: string): unknown {
+  if (!schema) return text;
+  if (schema.enum?.length) return schema.enum[0];
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case 'object':
+      return Object.fromEntries(
+        (schema.required || []).map((key) => [key, objectFromSchema(schema.properties?.[key], text)])
+      );
+    case 'array':
+      return [];
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Resolve the text a mock call should produce
+ * JSON-mode calls (generateObject/streamObject) get serialized objects
+ */
+function responseText(
+  behaviour: MockModelBehaviour,
+  options: { prompt: Array<{ role: string; content: unknown }>; responseFormat?: { type: string; schema?: unknown } }
+): string {
+  const text = behaviour.text ?? lastUserText(options.prompt);
+  if (options.responseFormat?.type !== 'json') return text;
+  return JSON.stringify(behaviour.object ?? objectFromSchema(options.responseFormat.schema as JsonSchemaLike, text));
+}
+
+/**
+ * Create a mock language model for the given ID
+ */
+export function createMockModel(modelId: string): MockLanguageModelV3 {
+  const behaviour = mockModels[modelId] || mockModels.echo;
+
+  return new MockLanguageModelV3({
+    provider: 'mock',
+    modelId,
+    doGenerate: async (options) => {
+      if (behaviour.failWith) throw providerError(modelId, behaviour.failWith);
+      return {
+        content: [{ type: 'text', text: responseText(behaviour, options) }],
+        finishReason: { unified: 'stop', raw: 'stop' },
+        usage,
+        warnings: [],
+      };
+    },
+    doStream: async (options) => {
+      if (behaviour.failWith) throw providerError(modelId, behaviour.failWith);
+      const words = responseText(behaviour, options).split(/(?<=\s)/);
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            { type: 'stream-start' as const, warnings: [] },
+            { type: 'text-start' as const, id: 'mock-text' },
+            ...words.map((delta) => ({ type: 'text-delta' as const, id: 'mock-text', delta })),
+            { type: 'text-end' as const, id: 'mock-text' },
+            { type: 'finish' as const, finishReason: { unified: 'stop' as const, raw: 'stop' }, usage },
+          ],
+        }),
+      };
+    },
+  });
+}
@@ -0,0 +1,363 @@
+/**
+ * Model Routing
+ *
+ * Typed config deciding which model answers each chat intent, per account
+ * type, with ordered fallback chains. If a model errors or is rate-limited
+ * before it produces any output, the next model in the chain is tried.
+ *
+ * Set AI_MODEL_PROVIDER=mock to route every call to the local mock provider.
+ */
+
+import { openai } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import {
+  APICallError,
+  generateObject,
+  streamObject,
+  streamText,
+  type LanguageModel,
+  type ModelMessage,
+  type ObjectStreamPart,
+  type TextStreamPart,
+  type ToolSet,
+} from 'ai';
+import type { z } from 'zod';
+import { createMockModel } from '@/lib/mockModelProvider';
+
+export type ChatIntent = 'edit' | 'ideate' | 'draft' | 'feedback' | 'analytics' | 'carousel' | 'general';
+export type AccountType = 'personal' | 'organization';
+export type ModelProvider = 'openai' | 'anthropic' | 'mock';
+
+export interface ModelSpec {
+  provider: ModelProvider;
+  modelId: string;
+}
+
+/** Fallback chain per account type; `default` is used when no override exists */
+export interface IntentRoute {
+  default: ModelSpec[];
+  personal?: ModelSpec[];
+  organization?: ModelSpec[];
+}
+
+export interface ModelRoutingConfig {
+  /** Models used by detectIntent */
+  classifier: ModelSpec[];
+  /** Models used to fold older turns into a thread's conversation summary */
+  summarizer: ModelSpec[];
+  intents: Record<ChatIntent, IntentRoute>;
+}
+
+const CLAUDE_OPUS: ModelSpec = { provider: 'anthropic', modelId: 'claude-opus-4-5-20251101' };
+const GPT_5_1: ModelSpec = { provider: 'openai', modelId: 'gpt-5.1' };
+const GPT_4O_MINI: ModelSpec = { provider: 'openai', modelId: 'gpt-4o-mini' };
+
+/**
+ * Default routing: Claude Opus for writing (edit/draft/carousel), GPT for everything else,
+ * each falling back to the other provider.
+ */
+export const DEFAULT_MODEL_ROUTING: ModelRoutingConfig = {
+  classifier: [GPT_4O_MINI, GPT_5_1],
+  summarizer: [GPT_4O_MINI, GPT_5_1],
+  intents: {
+    edit: { default: [CLAUDE_OPUS, GPT_5_1] },
+    draft: { default: [CLAUDE_OPUS, GPT_5_1] },
+    carousel: { default: [CLAUDE_OPUS, GPT_5_1] },
+    ideate: { default: [GPT_5_1, CLAUDE_OPUS] },
+    feedback: { default: [GPT_5_1, CLAUDE_OPUS] },
+    analytics: { default: [GPT_5_1, CLAUDE_OPUS] },
+    general: { default: [GPT_5_1, CLAUDE_OPUS] },
+  },
+};
+
+const MOCK_CHAIN: ModelSpec[] = [{ provider: 'mock', modelId: 'echo' }];
+const MOCK_CLASSIFIER_CHAIN: ModelSpec[] = [{ provider: 'mock', modelId: 'classify' }];
+
+function isMockProviderEnabled(): boolean {
+  return process.env.AI_MODEL_PROVIDER === 'mock';
+}
+
+/**
+ * Format a model spec for logs and the X-Intent header (e.g. "openai:gpt-5.1")
+ */
+export function formatModelSpec(spec: ModelSpec): string {
+  return `${spec.provider}:${spec.modelId}`;
+}
+
+/**
+ * Resolve the fallback chain for an intent and account type
+ */
+export function resolveModelChain(
+  intent: ChatIntent,
+  accountType: AccountType,
+  config: ModelRoutingConfig = DEFAULT_MODEL_ROUTING
+): ModelSpec[] {
+  if (isMockProviderEnabled()) return MOCK_CHAIN;
+  const route = config.intents[intent] || config.intents.general;
+  return route[accountType] || route.default;
+}
+
+/**
+ * Resolve the fallback chain for intent classification
+ */
+export function resolveClassifierChain(config: ModelRoutingConfig = DEFAULT_MODEL_ROUTING): ModelSpec[] {
+  return isMockProviderEnabled() ? MOCK_CLASSIFIER_CHAIN : config.classifier;
+}
+
+/**
+ * Resolve the fallback chain for conversation summaries
+ */
+export function resolveSummarizerChain(config: ModelRoutingConfig = DEFAULT_MODEL_ROUTING): ModelSpec[] {
+  return isMockProviderEnabled() ? MOCK_CHAIN : config.summarizer;
+}
+
+/**
+ * Instantiate the SDK model for a spec
+ */
+export function getLanguageModel(spec: ModelSpec): LanguageModel {
+  switch (spec.provider) {
+    case 'anthropic':
+      return anthropic(spec.modelId) as unknown as LanguageModel; // Type cast needed due to SDK version mismatch
+    case 'openai':
+      return openai(spec.modelId) as unknown as LanguageModel;
+    case 'mock':
+      return createMockModel(spec.modelId);
+  }
+}
+
+/**
+ * True when a provider error is a rate limit (HTTP 429)
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return APICallError.isInstance(error) && error.statusCode === 429;
+}
+
+function describeFailure(spec: ModelSpec, error: unknown): string {
+  const reason = isRateLimitError(error) ? 'rate limited' : (error as Error)?.message || 'unknown error';
+  return `${formatModelSpec(spec)} failed (${reason})`;
+}
+
+type StreamOptions = Omit<Parameters<typeof streamText>[0], 'model' | 'prompt'>;
+
+/** Turns a model's stream parts into output chunks; `flush` emits whatever was held back */
+interface PartEncoder<PART> {
+  encode: (part: PART) => string | null;
+  flush?: () => string | null;
+}
+
+/**
+ * Shared fallback loop: each model in turn is started and committed to once it
+ * produces its first output chunk. A fresh encoder is made per model, so
+ * encoders may keep state (e.g. to throttle).
+ */
+async function streamWithFallback<PART extends { type: string; error?: unknown }>(
+  chain: ModelSpec[],
+  startModel: (spec: ModelSpec, isLast: boolean) => AsyncIterable<PART>,
+  createEncoder: () => PartEncoder<PART>
+): Promise<{ stream: ReadableStream<Uint8Array>; answeredBy: ModelSpec }> {
+  let lastError: unknown;
+
+  for (let i = 0; i < chain.length; i++) {
+    const spec = chain[i];
+    const isLast = i === chain.length - 1;
+    const parts = startModel(spec, isLast)[Symbol.asyncIterator]();
+    const encoder = createEncoder();
+
+    try {
+      // Wait for the first output (or the end) before committing to this model
+      let firstChunk: string | null = null;
+      let finished = false;
+      while (true) {
+        const { done, value } = await parts.next();
+        if (done) { finished = true; break; }
+        if (value.type === 'error') throw value.error;
+        firstChunk = encoder.encode(value);
+        if (firstChunk) break;
+      }
+
+      const textEncoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          if (firstChunk) controller.enqueue(textEncoder.encode(firstChunk));
+          if (finished) controller.close();
+        },
+        async pull(controller) {
+          try {
+            while (true) {
+              const { done, value } = await parts.next();
+              if (done) {
+                const rest = encoder.flush?.();
+                if (rest) controller.enqueue(textEncoder.encode(rest));
+                controller.close();
+                return;
+              }
+              if (value.type === 'error') { controller.error(value.error); return; }
+              const chunk = encoder.encode(value);
+              if (chunk) { controller.enqueue(textEncoder.encode(chunk)); return; }
+            }
+          } catch (error) {
+            controller.error(error);
+          }
+        },
+        async cancel() {
+          await parts.return?.();
+        },
+      });
+
+      return { stream, answeredBy: spec };
+    } catch (error) {
+      lastError = error;
+      console.warn(`⚠️ [MODEL ROUTER] ${describeFailure(spec, error)}${isLast ? '' : ', trying next model'}`);
+    }
+  }
+
+  throw lastError ?? new Error('No models configured for this route');
+}
+
+/**
+ * Fallback loop for text streams; `encodePart` turns the parts worth
+ * forwarding into output chunks and returns null for the rest
+ */
+function streamPartsWithFallback(
+  chain: ModelSpec[],
+  options: StreamOptions,
+  encodePart: (part: TextStreamPart<ToolSet>) => string | null
+): Promise<{ stream: ReadableStream<Uint8Array>; answeredBy: ModelSpec }> {
+  return streamWithFallback(
+    chain,
+    (spec, isLast) =>
+      streamText({
+        ...options,
+        model: getLanguageModel(spec),
+        maxRetries: isLast ? options.maxRetries : 0,
+        // Failures are logged by the router instead of the SDK default
+        onError: options.onError ?? (() => {}),
+      } as Parameters<typeof streamText>[0]).fullStream,
+    () => ({ encode: encodePart })
+  );
+}
+
+/**
+ * Stream text from the first model in the chain that starts answering
+ *
+ * Falls back only before the first token; once text is flowing, later errors
+ * surface on the returned stream. Only the last model keeps SDK retries so a
+ * failing provider hands over quickly.
+ *
+ * @returns UTF-8 text stream plus the model that actually answered
+ */
+export async function streamTextWithFallback(
+  chain: ModelSpec[],
+  options: StreamOptions
+): Promise<{ stream: ReadableStream<Uint8Array>; answeredBy: ModelSpec }> {
+  return streamPartsWithFallback(chain, options, (part) =>
+    part.type === 'text-delta' && part.text ? part.text : null
+  );
+}
+
+/**
+ * Stream text plus tool calls from the first model in the chain that starts answering
+ *
+ * Tools are passed without `execute`, so calls are only proposed: each one is
+ * written as a line for the client to confirm and run. Fallback rules match
+ * streamTextWithFallback.
+ *
+ * @returns UTF-8 NDJSON stream of { type: 'text', text } and
+ *   { type: 'tool-call', toolCallId, toolName, input } events plus the model that answered
+ */
+export async function streamTextWithToolsFallback(
+  chain: ModelSpec[],
+  options: StreamOptions
+): Promise<{ stream: ReadableStream<Uint8Array>; answeredBy: ModelSpec }> {
+  return streamPartsWithFallback(chain, options, (part) => {
+    if (part.type === 'text-delta' && part.text) {
+      return `${JSON.stringify({ type: 'text', text: part.text })}\n`;
+    }
+    // Calls whose input failed the tool's schema are dropped rather than confirmed
+    if (part.type === 'tool-call' && !part.invalid) {
+      return `${JSON.stringify({ type: 'tool-call', toolCallId: part.toolCallId, toolName: part.toolName, input: part.input })}\n`;
+    }
+    return null;
+  });
+}
+
+// Every partial object repeats the fields so far, so they're sent at most this often
+const PARTIAL_OBJECT_INTERVAL_MS = 150;
+
+/**
+ * Stream a structured object from the first model in the chain that starts answering
+ *
+ * Partial objects are written as JSON lines, so clients can render fields as
+ * they fill in. The first one goes out at once, later ones at most every
+ * PARTIAL_OBJECT_INTERVAL_MS, and the final object always closes the stream.
+ * Fallback rules match streamTextWithFallback.
+ *
+ * @returns UTF-8 NDJSON stream of partial objects plus the model that actually answered
+ */
+export async function streamObjectWithFallback<SCHEMA extends z.ZodType>(
+  chain: ModelSpec[],
+  options: { schema: SCHEMA; system?: string; messages: ModelMessage[]; temperature?: number }
+): Promise<{ stream: ReadableStream<Uint8Array>; answeredBy: ModelSpec }> {
+  return streamWithFallback<ObjectStreamPart<unknown>>(
+    chain,
+    (spec, isLast) =>
+      streamObject({
+        model: getLanguageModel(spec),
+        schema: options.schema,
+        system: options.system,
+        messages: options.messages,
+        temperature: options.temperature,
+        maxRetries: isLast ? undefined : 0,
+        onError: () => {},
+      }).fullStream as AsyncIterable<ObjectStreamPart<unknown>>,
+    () => {
+      let latest: unknown;
+      let held = false;
+      let lastSentAt = 0;
+      return {
+        encode: (part) => {
+          if (part.type !== 'object') return null;
+          latest = part.object;
+          if (Date.now() - lastSentAt < PARTIAL_OBJECT_INTERVAL_MS) {
+            held = true;
+            return null;
+          }
+          held = false;
+          lastSentAt = Date.now();
+          return `${JSON.stringify(latest)}\n`;
+        },
+        flush: () => (held ? `${JSON.stringify(latest)}\n` : null),
+      };
+    }
+  );
+}
+
+/**
+ * Generate a structured object from the first model in the chain that succeeds
+ */
+export async function generateObjectWithFallback<SCHEMA extends z.ZodType>(
+  chain: ModelSpec[],
+  options: { schema: SCHEMA; prompt: string; temperature?: number }
+): Promise<{ object: z.infer<SCHEMA>; answeredBy: ModelSpec }> {
+  let lastError: unknown;
+
+  for (let i = 0; i < chain.length; i++) {
+    const spec = chain[i];
+    const isLast = i === chain.length - 1;
+    try {
+      const result = await generateObject({
+        model: getLanguageModel(spec),
+        schema: options.schema,
+        prompt: options.prompt,
+        temperature: options.temperature,
+        maxRetries: isLast ? undefined : 0,
+      });
+      return { object: result.object as z.infer<SCHEMA>, answeredBy: spec };
+    } catch (error) {
+      lastError = error;
+      console.warn(`⚠️ [MODEL ROUTER] ${describeFailure(spec, error)}${isLast ? '' : ', trying next model'}`);
+    }
+  }
+
+  throw lastError ?? new Error('No models configured for this route');
+}
@@ -0,0 +1,95 @@
+/**
+ * Server-side access checks for AI routes
+ *
+ * Resolves the caller from the Clerk session (never from the request body)
+ * and confirms they administer the requested LinkedIn organization, using the
+ * same company-page ACL data the backend returns from getCompanyPages.
+ */
+
+import { auth } from '@clerk/nextjs/server';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || process.env.API_URL || 'http://localhost:5000';
+
+export type AccessErrorCode = 'UNAUTHENTICATED' | 'USER_MISMATCH' | 'ORGANIZATION_ACCESS_DENIED';
+
+export class AccessError extends Error {
+  readonly code: AccessErrorCode;
+  readonly status: 401 | 403;
+
+  constructor(code: AccessErrorCode, message: string) {
+    super(message);
+    this.name = 'AccessError';
+    this.code = code;
+    this.status = code === 'UNAUTHENTICATED' ? 401 : 403;
+  }
+}
+
+interface CompanyPage {
+  id: string;
+  name: string;
+}
+
+/**
+ * Normalize an organization identifier to the bare LinkedIn company ID
+ * Accepts either "12345" or "urn:li:organization:12345"
+ */
+function normalizeOrganizationId(organizationId: string): string {
+  return organizationId.replace(/^urn:li:organization:/, '');
+}
+
+/**
+ * Fetch the company pages the user administers from the backend
+ */
+async function fetchAdminCompanyPages(clerkUserId: string): Promise<CompanyPage[]> {
+  const res = await fetch(`${API_URL}/api/linkedin/company-pages/${encodeURIComponent(clerkUserId)}`, {
+    cache: 'no-store',
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to verify organization access');
+  return data.companyPages || [];
+}
+
+/**
+ * Resolve the signed-in user and verify they may act for the organization
+ *
+ * @param claimedUserId - clerkUserId sent by the client, if any; must match the session
+ * @param organizationId - LinkedIn organization the request targets; omit for personal accounts
+ * @returns The Clerk user ID from the session
+ * @throws AccessError when the session is missing or the user is not an admin of the organization
+ */
+export async function requireOrganizationAccess(
+  claimedUserId?: string | null,
+  organizationId?: string | null
+): Promise<{ clerkUserId: string }> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    throw new AccessError('UNAUTHENTICATED', 'You must be signed in');
+  }
+
+  if (claimedUserId && claimedUserId !== userId) {
+    throw new AccessError('USER_MISMATCH', 'Request user does not match the signed-in user');
+  }
+
+  if (organizationId) {
+    const targetId = normalizeOrganizationId(organizationId);
+    const companyPages = await fetchAdminCompanyPages(userId);
+    const isAdmin = companyPages.some((page) => String(page.id) === targetId);
+
+    if (!isAdmin) {
+      throw new AccessError('ORGANIZATION_ACCESS_DENIED', 'You are not an admin of this organization');
+    }
+  }
+
+  return { clerkUserId: userId };
+}
+
+/**
+ * Build the JSON error response for a failed access check
+ */
+export function accessErrorResponse(error: AccessError): Response {
+  return new Response(
+    JSON.stringify({ error: error.code, message: error.message }),
+    { status: error.status, headers: { 'Content-Type': 'application/json' } }
+  );
+}
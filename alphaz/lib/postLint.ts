@@ -0,0 +1,270 @@
+/**
+ * LinkedIn Post Linter
+ *
+ * Checks post text against LinkedIn's rules and the house style before it is
+ * published: length, the hook above the "…see more" fold, hashtags, line
+ * breaks, banned or overused phrases, links and mention syntax. Error-level
+ * issues block publishing; warnings are advice shown in the draft panel.
+ */
+
+import { MENTION_PATTERN, mentionsToText } from './mentions';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule = 'length' | 'hook' | 'hashtags' | 'line-breaks' | 'phrases' | 'links' | 'mentions';
+
+export interface LintIssue {
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+  /** The offending text, when the issue points at part of the post */
+  excerpt?: string;
+}
+
+/** LinkedIn's limit for post text */
+export const LINKEDIN_MAX_LENGTH = 3000;
+/** LinkedIn's limit for comment text, e.g. a post's first comment */
+export const LINKEDIN_MAX_COMMENT_LENGTH = 1250;
+/** Characters shown before LinkedIn folds a post behind "…see more" (desktop feed) */
+export const SEE_MORE_FOLD_LENGTH = 210;
+/** More hashtags than this reads as spam and no longer helps reach */
+export const MAX_HASHTAGS = 5;
+
+/** Engagement bait LinkedIn demotes */
+const BANNED_PHRASES: RegExp[] = [
+  /\bcomment ["']?(yes|me|below)["']?\b/i,
+  /\blike (this post )?if you\b/i,
+  /\bshare (this )?if you agree\b/i,
+  /\btag (someone|a friend|3 people)\b/i,
+  /\bfollow me for more\b/i,
+];
+
+/** Phrases that make a post read as generated, per the prompts' anti-AI rules */
+const OVERUSED_PHRASES: RegExp[] = [
+  /\bhere'?s the thing\b/i,
+  /\blet'?s talk about\b/i,
+  /\blet that sink in\b/i,
+  /\bin today'?s fast[- ]paced world\b/i,
+  /\bgame[- ]changer\b/i,
+  /\bunlock(ing)? the power of\b/i,
+  /\bdelve\b/i,
+  /\bwithout further ado\b/i,
+  /\bi'?m (thrilled|excited) to (announce|share)\b/i,
+  /\bat the end of the day\b/i,
+];
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s)\\]+/gi;
+const MARKDOWN_LINK_PATTERN = /\[[^\]\n]+\]\((?:https?:\/\/|www\.)[^)\s]+\)/g;
+const HASHTAG_PATTERN = /(^|[^\p{L}\p{N}_&])#([\p{L}\p{N}_]+)([-.'’][\p{L}\p{N}]+)?/gu;
+const PLAIN_MENTION_PATTERN = /(^|\s)@([\p{L}][\p{L}\p{N}_.-]*)/gu;
+
+/**
+ * Post length as LinkedIn counts it (characters, not UTF-16 units)
+ * Mentions count as their names, which is all LinkedIn shows
+ */
+export function countPostCharacters(content: string): number {
+  return [...mentionsToText(content)].length;
+}
+
+function lintLength(content: string): LintIssue[] {
+  const length = countPostCharacters(content);
+  if (length <= LINKEDIN_MAX_LENGTH) return [];
+  return [{
+    rule: 'length',
+    severity: 'error',
+    message: `${length.toLocaleString()} characters, ${(length - LINKEDIN_MAX_LENGTH).toLocaleString()} over LinkedIn's ${LINKEDIN_MAX_LENGTH.toLocaleString()} limit`,
+  }];
+}
+
+function lintHook(content: string): LintIssue[] {
+  const hook = mentionsToText(content).trim().split('\n')[0];
+  if (countPostCharacters(hook) <= SEE_MORE_FOLD_LENGTH) return [];
+  return [{
+    rule: 'hook',
+    severity: 'warning',
+    message: `The first line runs past the "…see more" fold (${countPostCharacters(hook)} of ${SEE_MORE_FOLD_LENGTH} characters). Break it up so the hook is seen whole.`,
+    excerpt: [...hook].slice(SEE_MORE_FOLD_LENGTH - 20, SEE_MORE_FOLD_LENGTH + 20).join(''),
+  }];
+}
+
+function lintHashtags(content: string): LintIssue[] {
+  const matches = [...content.matchAll(HASHTAG_PATTERN)];
+  const issues: LintIssue[] = matches
+    .filter((match) => match[3])
+    .map((match) => ({
+      rule: 'hashtags',
+      severity: 'warning',
+      message: `Only #${match[2]} becomes a hashtag; "${match[3]}" is left as plain text`,
+      excerpt: `#${match[2]}${match[3]}`,
+    }));
+
+  if (matches.length > MAX_HASHTAGS) {
+    issues.push({
+      rule: 'hashtags',
+      severity: 'warning',
+      message: `${matches.length} hashtags; keep it to ${MAX_HASHTAGS} or fewer`,
+    });
+  }
+  return issues;
+}
+
+function lintLineBreaks(content: string): LintIssue[] {
+  const issues: LintIssue[] = [];
+  // Escapes are fine in code, regexes or paths (C:\new); a blank line's worth, or one
+  // right between sentences, is escaped model output that never became a line break
+  const leftover = content.match(/(?:\\r)?\\n(?:\\r)?\\n|[.!?]["'”)]?\\n\p{Lu}/u);
+  const escaped = leftover || content.match(/\\[nr]/);
+  if (escaped) {
+    issues.push({
+      rule: 'line-breaks',
+      severity: leftover ? 'error' : 'warning',
+      message: leftover
+        ? 'Escaped line break ("\\n") would be published as text'
+        : 'Escaped line break ("\\n") is published as text; fine if it is meant literally',
+      excerpt: escaped[0],
+    });
+  }
+  if (/\n[ \t]*\n[ \t]*\n/.test(content)) {
+    issues.push({
+      rule: 'line-breaks',
+      severity: 'warning',
+      message: 'Several blank lines in a row; LinkedIn collapses them to one',
+    });
+  }
+  if (/^[ \t]*\n/.test(content)) {
+    issues.push({
+      rule: 'line-breaks',
+      severity: 'warning',
+      message: 'The post starts with a blank line, which pushes the hook down',
+    });
+  }
+  return issues;
+}
+
+function lintPhrases(content: string): LintIssue[] {
+  const find = (patterns: RegExp[]) =>
+    patterns.flatMap((pattern) => {
+      const match = content.match(pattern);
+      return match ? [match[0]] : [];
+    });
+
+  const issues: LintIssue[] = [
+    ...find(BANNED_PHRASES).map((phrase): LintIssue => ({
+      rule: 'phrases',
+      severity: 'warning',
+      message: 'Engagement bait; LinkedIn shows these posts to fewer people',
+      excerpt: phrase,
+    })),
+    ...find(OVERUSED_PHRASES).map((phrase): LintIssue => ({
+      rule: 'phrases',
+      severity: 'warning',
+      message: 'Overused phrase that makes the post sound generic',
+      excerpt: phrase,
+    })),
+  ];
+
+  const emDashes = content.match(/—/g);
+  if (emDashes) {
+    issues.push({
+      rule: 'phrases',
+      severity: 'warning',
+      message: `${emDashes.length} em dash${emDashes.length === 1 ? '' : 'es'}; they read as AI-written`,
+      excerpt: '—',
+    });
+  }
+  return issues;
+}
+
+function lintLinks(content: string): LintIssue[] {
+  const issues: LintIssue[] = (content.match(MARKDOWN_LINK_PATTERN) || []).map((link) => ({
+    rule: 'links',
+    severity: 'error',
+    message: 'Markdown link would be published as raw text; paste the URL on its own',
+    excerpt: link,
+  }));
+
+  const urls = [...content.matchAll(URL_PATTERN)];
+  const fold = [...content].slice(0, SEE_MORE_FOLD_LENGTH).join('').length;
+  const aboveFold = urls.find((match) => (match.index ?? 0) < fold);
+  if (aboveFold) {
+    issues.push({
+      rule: 'links',
+      severity: 'warning',
+      message: 'Link above the "…see more" fold; move it to the end so the hook does the work',
+      excerpt: aboveFold[0],
+    });
+  }
+  if (urls.length > 1) {
+    issues.push({
+      rule: 'links',
+      severity: 'warning',
+      message: `${urls.length} links; posts with external links reach fewer people, so keep one`,
+    });
+  }
+  return issues;
+}
+
+function lintMentions(content: string): LintIssue[] {
+  // Tagged mentions are valid; anything else shaped like one is broken
+  const withoutMentions = content.replace(MENTION_PATTERN, '');
+  const issues: LintIssue[] = (withoutMentions.match(/@\[[^\]\n]*\](?:\([^)\n]*\))?/g) || []).map((mention) => ({
+    rule: 'mentions',
+    severity: 'error',
+    message: 'Broken mention; it needs a LinkedIn member or page, like @[Name](urn:li:person:ID)',
+    excerpt: mention,
+  }));
+
+  const plain = [...withoutMentions.matchAll(PLAIN_MENTION_PATTERN)];
+  if (plain.length > 0) {
+    issues.push({
+      rule: 'mentions',
+      severity: 'warning',
+      message: `${plain.map((match) => `@${match[2]}`).join(', ')} won't tag anyone; it's published as plain text`,
+      excerpt: `@${plain[0][2]}`,
+    });
+  }
+  return issues;
+}
+
+/**
+ * Lint a post, errors first
+ */
+export function lintPost(content: string): LintIssue[] {
+  if (!content.trim()) return [];
+  const issues = [
+    ...lintLength(content),
+    ...lintHook(content),
+    ...lintHashtags(content),
+    ...lintLineBreaks(content),
+    ...lintPhrases(content),
+    ...lintLinks(content),
+    ...lintMentions(content),
+  ];
+  return [...issues.filter((issue) => issue.severity === 'error'), ...issues.filter((issue) => issue.severity === 'warning')];
+}
+
+export function hasLintErrors(issues: LintIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+/**
+ * Why a post can't be published, for status messages; null when nothing blocks it
+ */
+export function describePublishBlockers(content: string): string | null {
+  const errors = lintPost(content).filter((issue) => issue.severity === 'error');
+  if (errors.length === 0) return null;
+  return `Fix before publishing: ${errors.map((issue) => issue.message).join('; ')}`;
+}
+
+/**
+ * Why a post can't be scheduled, or null when it can. Scheduled posts go out
+ * unattended, so the first comment's length is checked up front as well.
+ */
+export function describeScheduleBlockers(content: string, firstComment?: string): string | null {
+  const blocker = describePublishBlockers(content);
+  if (blocker) return blocker;
+  if (firstComment && countPostCharacters(firstComment) > LINKEDIN_MAX_COMMENT_LENGTH) {
+    return `Fix before scheduling: the first comment is over LinkedIn's ${LINKEDIN_MAX_COMMENT_LENGTH.toLocaleString()} character limit`;
+  }
+  return null;
+}
@@ -0,0 +1,34 @@
+/**
+ * Carousel instructions
+ * Appended to the edit prompt (personal or organization) for the carousel
+ * intent, which turns the current draft into slides for a PDF document post
+ */
+
+import { MAX_CAROUSEL_SLIDES, MAX_SLIDE_BULLETS, MIN_CAROUSEL_SLIDES } from '@/lib/carousel';
+
+/**
+ * Build the carousel section of the system prompt
+ * Overrides the rewrite rules and output fields of the edit prompt
+ */
+export function buildCarouselInstructions(): string {
+  return `
+
+CAROUSEL MODE (overrides the rewrite rules and the OUTPUT fields above):
+The user wants the current draft turned into a LinkedIn carousel: a PDF whose pages are swiped one by one.
+- Use the latest draft in the conversation (or the text the user pasted). Keep its message, facts, and voice; do not invent new claims or numbers.
+- Split it into ${MIN_CAROUSEL_SLIDES} to ${MAX_CAROUSEL_SLIDES} slides. One idea per slide.
+- Slide 1 is the hook: a bold title that makes people swipe, with at most one supporting bullet.
+- The last slide is the takeaway or call to action (follow, comment, save).
+- Slide titles: at most 8 words. Bullets: 0 to ${MAX_SLIDE_BULLETS} per slide, at most 12 words each, no trailing full stops.
+- Plain text only: no markdown, emojis, hashtags, mention tokens, or slide numbers in the text.
+- If there is no draft or topic to work from, ask the ONE clarifying question instead.
+
+OUTPUT (structured response fields):
+- type: "carousel" when you write the slides, "question" when you ask the ONE clarifying question
+- title: the deck title (shown above the document on LinkedIn), at most 8 words
+- slides: the slides in order, each with a title and bullets
+- question: the clarifying question (question type only)
+Do not explain your reasoning.
+Do not mention AI.
+`;
+}
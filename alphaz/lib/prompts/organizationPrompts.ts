@@ -3,12 +3,7 @@
  * Used when chatting in the context of an organization account
  */
 
-interface OrganizationContextData {
-  summary?: string;
-  demographicData?: string;
-  recentPosts?: string;
-  engagementPatterns?: string;
-}
+import type { OrganizationContextData } from '@/lib/contextRetrieval';
 
 /**
  * Build system prompt for organization context
@@ -133,8 +128,9 @@ Before responding, verify:
 If any answer is "no", revise internally before responding.
 
 
-OUTPUT:
-Return only the final LinkedIn post.
+OUTPUT (structured response fields):
+- type: "draft" when you write the post, "question" when you ask the ONE clarifying question
+- content: only the final LinkedIn post, or the clarifying question
 Do not explain your reasoning.
 Do not mention AI.
 
@@ -177,6 +173,7 @@ EDITING RULES:
 - Do NOT introduce new ideas unless required for clarity
 - Keep length roughly similar unless instructed otherwise
 - When a user selects specific text and provides a prompt to edit that selected text, keep the rest of the post content unchanged.
+- Keep mention tokens like @[Jane Doe](urn:li:person:abc123) exactly as written, brackets and URN included; they become tags when the post is published. You may move a mention or drop it if asked, but never reword the name or turn it into plain text.
 
 
 ---
@@ -188,18 +185,12 @@ SELF-CHECK BEFORE OUTPUT (internal):
 - Is it still within the organization's expertise?
 
 
-OUTPUT FORMAT (for edits):
-
-
-Return EXACTLY in this format:
-
-
-1. Revised post
-[THE COMPLETE REVISED POST HERE]
+OUTPUT FORMAT (structured response fields, for edits):
 
 
-2. Changes made
-- Summary of changes made
+- type: "draft"
+- content: THE COMPLETE REVISED POST, nothing else
+- changes: one short summary per change made
 
 
 DO NOT:
@@ -208,17 +199,19 @@ DO NOT:
 - Ask if they like it
 
 
-The output must be copy-paste ready.
+The content must be copy-paste ready.
 
 
 ---
 
 
-OUTPUT FORMAT (for clarifying questions):
+OUTPUT FORMAT (structured response fields, for clarifying questions):
 
 
-Just ask the question naturally. Example:
+- type: "question"
+- content: the question, asked naturally. Example:
 "Which part should I focus on - the opening hook, the story flow, or the call-to-action?"
+- questionContext: why you need the answer
 
 
 Do not number it or format it specially
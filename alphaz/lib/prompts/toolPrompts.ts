@@ -0,0 +1,50 @@
+/**
+ * Tool instructions
+ * Appended to the text intents (general, ideate, feedback) of either account
+ * type, which can call the chat tools in lib/chatTools.ts
+ */
+
+/**
+ * Current date and UTC offset in the user's time zone, so relative times
+ * ("Tuesday 9am") resolve to the right instant
+ */
+function describeNow(timeZone: string | undefined): string {
+  const now = new Date();
+  try {
+    const local = now.toLocaleString('en-US', {
+      timeZone,
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+    const offset = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+      .formatToParts(now)
+      .find((part) => part.type === 'timeZoneName')?.value;
+    return `${local} (${timeZone || 'UTC'}, ${offset || 'GMT'})`;
+  } catch {
+    // Unknown time zone from the client
+    return `${now.toISOString()} (UTC)`;
+  }
+}
+
+/**
+ * Build the tools section of the system prompt
+ */
+export function buildToolInstructions(timeZone?: string): string {
+  return `
+
+TOOLS:
+You can act for the user with these tools. The user confirms every call before it runs.
+- schedule_draft: schedule the draft open in the draft panel ("schedule this for Tuesday 9am"). If there is no draft in this conversation yet, ask for one instead.
+- save_idea: save a post idea to their plan ("save that idea", "keep #3 for later").
+- query_metrics: look up their LinkedIn numbers ("what was my best post last month?"). Never guess numbers; call this tool and answer from its result.
+- open_draft_version: show an earlier version of a draft ("go back to version 2").
+Only call a tool when the user asks for that action. Say in one short sentence what you are about to do, then call it.
+Current date and time for the user: ${describeNow(timeZone)}. Resolve relative dates from it and give scheduledAt with this UTC offset.
+When tool results come back, answer from them: cite the exact numbers, keep it short.
+If the user declined a call, acknowledge it and do not call it again unless asked.
+`;
+}
@@ -0,0 +1,31 @@
+/**
+ * Draft variant instructions
+ * Appended to the draft prompt (personal or organization) when the user asks
+ * for several versions of a post, e.g. "give me 3 variants"
+ */
+
+/**
+ * Build the variants section of the system prompt
+ * Overrides the single-post rule and output fields of the draft prompt
+ */
+export function buildVariantsInstructions(count: number): string {
+  return `
+
+VARIANTS MODE (overrides "write one post" and the OUTPUT fields above):
+The user wants ${count} variants of the post to choose from.
+- Write exactly ${count} complete, LinkedIn-ready posts for the same request.
+- Each variant must take a clearly different angle or hook: e.g. a personal story, a contrarian take, a practical breakdown, a bold claim backed by a number.
+- Do not reuse the same opening line, structure, or closing question across variants.
+- Every variant follows all voice, formatting, and anti-AI rules above. None is a throwaway.
+- If the request has no usable topic, ask the ONE clarifying question instead of writing variants.
+
+OUTPUT (structured response fields):
+- type: "variants" when you write the posts, "question" when you ask the ONE clarifying question
+- variants: ${count} items, each with
+  - angle: 2 to 5 words naming the angle or hook (e.g. "Founder story", "Contrarian take")
+  - content: only the final LinkedIn post
+- question: the clarifying question (question type only)
+Do not explain your reasoning.
+Do not mention AI.
+`;
+}
@@ -0,0 +1,44 @@
+/**
+ * Published Posts
+ *
+ * Edit or delete posts already published through Alphaz. Edits replace the
+ * post's text on LinkedIn and are recorded as a new version of the draft the
+ * post came from; deleted posts stay listed, marked deleted, for their history.
+ */
+
+import type { DraftVersion } from '@/lib/threadsApi';
+import type { PublishedPost } from '@/hooks/usePostPerformance';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
+
+export interface PublishedPostEdit {
+  post: Pick<PublishedPost, 'content' | 'commentary' | 'editedAt' | 'draftVersionId' | 'draftVersion'>;
+  /** Draft version recording the edit; null when the post has no draft */
+  version: DraftVersion | null;
+}
+
+/**
+ * Replace a published post's text on LinkedIn
+ * @param content - New text, already in LinkedIn formatting, with mention tokens
+ */
+export async function editPublishedPost(postId: string, clerkUserId: string, content: string): Promise<PublishedPostEdit> {
+  const res = await fetch(`${API_URL}/api/linkedin/posts/${postId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clerkUserId, content }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to update the post');
+  return { post: data.post, version: data.version };
+}
+
+/**
+ * Delete a published post from LinkedIn; resolves to when it was recorded deleted
+ */
+export async function deletePublishedPost(postId: string, clerkUserId: string): Promise<string> {
+  const params = new URLSearchParams({ clerkUserId });
+  const res = await fetch(`${API_URL}/api/linkedin/posts/${postId}?${params}`, { method: 'DELETE' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to delete the post');
+  return data.deletedAt;
+}
@@ -2,6 +2,8 @@
  * Thread API service for chat persistence
  */
 
+import type { StoredDraftMedia } from '@/lib/draftMedia';
+
 const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000';
 
 export interface ThreadMessage {
@@ -21,7 +23,9 @@ export interface DraftVersion {
   content: string;
   edit_prompt?: string;
   changes?: string[];
+  parent_version?: number | null; // Version this one was edited from (null for v1)
   parent_message_id?: string;
+  media?: StoredDraftMedia[]; // Stored copies of the images, video or document attached
   created_at: string;
 }
 
@@ -30,11 +34,23 @@ export interface ThreadDraft {
   thread_id: string;
   title?: string;
   current_version: number;
+  variant_group_id?: string | null; // Set for drafts generated as variants of one request
+  variant_angle?: string | null;
+  first_comment?: string | null; // Commented on the post right after publishing
   created_at: string;
   updated_at: string;
   versions?: DraftVersion[];
 }
 
+/** Shared parent of the drafts generated as variants of one request */
+export interface ThreadDraftGroup {
+  id: string;
+  thread_id: string;
+  parent_message_id?: string | null;
+  prompt?: string | null;
+  created_at: string;
+}
+
 export interface Thread {
   id: string;
   user_clerk_id: string;
@@ -44,9 +60,17 @@ export interface Thread {
   updated_at: string;
 }
 
+/** Rolling summary of a thread's older turns */
+export interface ThreadMemory {
+  summary: string | null;
+  messageCount: number; // Leading messages the summary covers
+  updatedAt: string | null;
+}
+
 export interface ThreadWithContent extends Thread {
   messages: ThreadMessage[];
   drafts: ThreadDraft[];
+  draftGroups: ThreadDraftGroup[];
 }
 
 // =====================================================
@@ -92,7 +116,7 @@ export async function getThread(
   const res = await fetch(`${API_URL}/api/threads/${threadId}?${params}`);
   const data = await res.json();
   if (!res.ok) throw new Error(data.error || 'Failed to get thread');
-  return { ...data.thread, messages: data.messages, drafts: data.drafts };
+  return { ...data.thread, messages: data.messages, drafts: data.drafts, draftGroups: data.draftGroups || [] };
 }
 
 export async function updateThread(
@@ -124,6 +148,41 @@ export async function deleteThread(
   }
 }
 
+// =====================================================
+// Conversation memory
+// =====================================================
+
+export async function getThreadMemory(
+  threadId: string,
+  userId: string,
+  organizationId?: string
+): Promise<ThreadMemory> {
+  const params = new URLSearchParams({ userId });
+  if (organizationId) params.append('organizationId', organizationId);
+
+  const res = await fetch(`${API_URL}/api/threads/${threadId}/memory?${params}`, { cache: 'no-store' });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to get thread memory');
+  return data.memory;
+}
+
+export async function updateThreadMemory(
+  threadId: string,
+  userId: string,
+  organizationId: string | undefined,
+  summary: string,
+  messageCount: number
+): Promise<ThreadMemory> {
+  const res = await fetch(`${API_URL}/api/threads/${threadId}/memory`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ userId, organizationId, summary, messageCount }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to update thread memory');
+  return data.memory;
+}
+
 // =====================================================
 // Messages
 // =====================================================
@@ -157,6 +216,8 @@ export async function saveDraft(
     editPrompt?: string;
     changes?: string[];
     parentMessageId?: string;
+    /** Version the new version was edited from; defaults to the draft's current version */
+    parentVersion?: number;
   }
 ): Promise<ThreadDraft> {
   const res = await fetch(`${API_URL}/api/threads/${threadId}/drafts`, {
@@ -169,6 +230,7 @@ export async function saveDraft(
       editPrompt: options?.editPrompt,
       changes: options?.changes,
       parentMessageId: options?.parentMessageId,
+      parentVersion: options?.parentVersion,
     }),
   });
   const data = await res.json();
@@ -176,6 +238,28 @@ export async function saveDraft(
   return data.draft;
 }
 
+/**
+ * Save draft variants: one draft per variant, grouped under a shared parent
+ */
+export async function saveDraftVariants(
+  threadId: string,
+  variants: Array<{ angle: string; content: string }>,
+  options?: { prompt?: string; parentMessageId?: string }
+): Promise<{ group: ThreadDraftGroup; drafts: ThreadDraft[] }> {
+  const res = await fetch(`${API_URL}/api/threads/${threadId}/draft-variants`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      variants,
+      prompt: options?.prompt,
+      parentMessageId: options?.parentMessageId,
+    }),
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || 'Failed to save draft variants');
+  return data;
+}
+
 export async function getDraft(draftId: string): Promise<ThreadDraft> {
   const res = await fetch(`${API_URL}/api/drafts/${draftId}`);
   const data = await res.json();
@@ -230,3 +314,40 @@ export async function updateDraftVersionParentMessage(
     throw new Error(data.error || 'Failed to update draft version parent message');
   }
 }
+
+/**
+ * Replace the media attached to a draft version (defaults to the current version)
+ */
+export async function updateDraftVersionMedia(
+  draftId: string,
+  clerkUserId: string,
+  media: StoredDraftMedia[],
+  version?: number
+): Promise<StoredDraftMedia[]> {
+  const res = await fetch(`${API_URL}/api/drafts/${draftId}/media`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clerkUserId, media, version }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || 'Failed to update draft version media');
+  return data.media;
+}
+
+/**
+ * Set the comment posted on the draft's post right after publishing
+ */
+export async function updateDraftFirstComment(
+  draftId: string,
+  firstComment: string | null
+): Promise<void> {
+  const res = await fetch(`${API_URL}/api/drafts/${draftId}/first-comment`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ firstComment }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to update first comment');
+  }
+}
@@ -0,0 +1,44 @@
+-- =====================================================
+-- Daily analytics snapshots
+-- One row per day for each personal profile and each organization, so the
+-- Monitor page can chart trends beyond LinkedIn's current/previous period pair
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.analytics_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- User whose LinkedIn token collected the snapshot
+  user_clerk_id VARCHAR(255) NOT NULL REFERENCES public.users(clerk_user_id) ON DELETE CASCADE,
+
+  -- Organization (null = personal profile)
+  organization_id VARCHAR(255),
+
+  -- Day the snapshot was collected
+  snapshot_date DATE NOT NULL,
+
+  -- Follower total as of the snapshot
+  followers INTEGER,
+
+  -- Activity during the last day LinkedIn reports (org data lags ~2 days)
+  new_followers INTEGER,
+  impressions INTEGER,
+  reactions INTEGER,
+  comments INTEGER,
+  reshares INTEGER,
+  page_views INTEGER,
+  unique_page_views INTEGER,
+
+  -- Follower and page view demographics (organizations)
+  demographics JSONB,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One snapshot per day per profile / organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analytics_snapshots_personal_day
+ON public.analytics_snapshots (user_clerk_id, snapshot_date)
+WHERE organization_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analytics_snapshots_org_day
+ON public.analytics_snapshots (organization_id, snapshot_date)
+WHERE organization_id IS NOT NULL;
@@ -0,0 +1,20 @@
+-- =====================================================
+-- Draft media
+-- Images, videos and documents attached to a draft are kept as a copy in the
+-- draft-media storage bucket, listed on the draft version and carried into
+-- scheduled drafts. Each item is
+--   { kind, path, fileName, mimeType, size, assetUrn?, ownerUrn?, uploadedAt? }
+-- where assetUrn is the LinkedIn upload last made from the copy (re-uploaded
+-- at publish time when LinkedIn no longer has it)
+-- =====================================================
+
+ALTER TABLE public.chat_thread_draft_versions
+ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.scheduled_drafts
+ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Private bucket; the backend reads and writes it with the service key
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('draft-media', 'draft-media', false)
+ON CONFLICT (id) DO NOTHING;
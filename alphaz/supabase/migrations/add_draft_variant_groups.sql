@@ -0,0 +1,36 @@
+-- =====================================================
+-- Draft Variant Groups
+-- A "give me 3 variants" request produces several drafts with different
+-- angles or hooks. Each variant is its own draft; the group is their shared
+-- parent and links back to the assistant message that produced them.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.chat_thread_draft_groups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.chat_threads(id) ON DELETE CASCADE,
+
+  -- Assistant message that produced the variants
+  parent_message_id UUID REFERENCES public.chat_thread_messages(id) ON DELETE SET NULL,
+
+  -- The user's request the variants answer
+  prompt TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_thread_draft_groups_thread ON public.chat_thread_draft_groups(thread_id);
+
+-- Variants point at their group; discarding a variant deletes its draft,
+-- deleting the group leaves the drafts as regular drafts
+ALTER TABLE public.chat_thread_drafts
+ADD COLUMN IF NOT EXISTS variant_group_id UUID REFERENCES public.chat_thread_draft_groups(id) ON DELETE SET NULL;
+
+-- Short label for the variant's angle or hook
+ALTER TABLE public.chat_thread_drafts
+ADD COLUMN IF NOT EXISTS variant_angle TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_thread_drafts_variant_group ON public.chat_thread_drafts(variant_group_id);
+
+ALTER TABLE public.chat_thread_draft_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on draft groups" ON public.chat_thread_draft_groups USING (auth.jwt()->>'role' = 'service_role');
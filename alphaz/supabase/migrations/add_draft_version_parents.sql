@@ -0,0 +1,12 @@
+-- Branching draft history: each version records the version it was edited from
+ALTER TABLE public.chat_thread_draft_versions
+ADD COLUMN IF NOT EXISTS parent_version INTEGER;
+
+-- Existing history is linear: v(n) was edited from v(n-1)
+UPDATE public.chat_thread_draft_versions
+SET parent_version = version - 1
+WHERE parent_version IS NULL AND version > 1;
+
+-- current_version now points at the branch tip the user is working on,
+-- which is not necessarily the highest version number
+COMMENT ON COLUMN public.chat_thread_drafts.current_version IS 'Version the draft currently points at (edits branch from here)';
@@ -0,0 +1,19 @@
+-- First comment: text posted as a comment on a post right after it is published
+-- (links and hashtags often go there instead of the post body)
+ALTER TABLE public.chat_thread_drafts
+ADD COLUMN IF NOT EXISTS first_comment TEXT;
+
+-- Outcome for scheduled drafts; failed comments are retried by the publisher
+ALTER TABLE public.scheduled_drafts
+ADD COLUMN IF NOT EXISTS first_comment TEXT,
+ADD COLUMN IF NOT EXISTS first_comment_status TEXT
+  CHECK (first_comment_status IN ('pending', 'posted', 'failed')),
+ADD COLUMN IF NOT EXISTS first_comment_urn TEXT,
+ADD COLUMN IF NOT EXISTS first_comment_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS first_comment_next_attempt_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS first_comment_error TEXT;
+
+-- Index for the publisher's comment retry query
+CREATE INDEX IF NOT EXISTS idx_scheduled_drafts_first_comment_retry
+ON public.scheduled_drafts (first_comment_next_attempt_at)
+WHERE first_comment_status = 'pending';
@@ -0,0 +1,23 @@
+-- =====================================================
+-- Mention contacts
+-- People and pages a user saves so drafts can @-mention them. Company pages
+-- the user administers come from linkedin_company_pages and aren't stored here
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.mention_contacts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  user_clerk_id VARCHAR(255) NOT NULL REFERENCES public.users(clerk_user_id) ON DELETE CASCADE,
+
+  -- Name shown in the post, e.g. "Jane Doe"
+  display_name VARCHAR(255) NOT NULL,
+
+  -- urn:li:person:... or urn:li:organization:...
+  linkedin_urn VARCHAR(255) NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  UNIQUE (user_clerk_id, linkedin_urn)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mention_contacts_user ON public.mention_contacts(user_clerk_id, display_name);
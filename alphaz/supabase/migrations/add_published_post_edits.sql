@@ -0,0 +1,12 @@
+-- =====================================================
+-- Editing and deleting published posts
+-- commentary is the post text as sent to LinkedIn, with mention tokens, so an
+-- edit starts from it rather than the plain-text content. Edits also add a
+-- version to the source draft; deleted posts are kept for their history but
+-- no longer polled for metrics.
+-- =====================================================
+
+ALTER TABLE public.published_posts
+ADD COLUMN IF NOT EXISTS commentary TEXT,
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,54 @@
+-- =====================================================
+-- Published post performance
+-- Links each LinkedIn post published through Alphaz to the thread, draft and
+-- draft version that produced it, with a metrics timeline polled by a worker
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.published_posts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- Publisher
+  user_clerk_id VARCHAR(255) NOT NULL REFERENCES public.users(clerk_user_id) ON DELETE CASCADE,
+
+  -- Organization (null = personal profile)
+  organization_id VARCHAR(255),
+
+  -- LinkedIn post (urn:li:share:... or urn:li:ugcPost:...)
+  linkedin_post_urn VARCHAR(255) NOT NULL UNIQUE,
+
+  -- Where the post came from (kept when the source is deleted)
+  thread_id UUID REFERENCES public.chat_threads(id) ON DELETE SET NULL,
+  draft_id UUID REFERENCES public.chat_thread_drafts(id) ON DELETE SET NULL,
+  draft_version_id UUID REFERENCES public.chat_thread_draft_versions(id) ON DELETE SET NULL,
+  draft_version INTEGER,
+  scheduled_draft_id UUID REFERENCES public.scheduled_drafts(id) ON DELETE SET NULL,
+
+  content TEXT NOT NULL,
+  published_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+  -- Latest polled metrics
+  impressions INTEGER,
+  reactions INTEGER,
+  comments INTEGER,
+  reshares INTEGER,
+  last_polled_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_published_posts_user ON public.published_posts(user_clerk_id, published_at DESC);
+CREATE INDEX IF NOT EXISTS idx_published_posts_draft ON public.published_posts(draft_id);
+CREATE INDEX IF NOT EXISTS idx_published_posts_thread ON public.published_posts(thread_id);
+
+-- One row per poll, so performance can be charted over time
+CREATE TABLE IF NOT EXISTS public.published_post_metrics (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  published_post_id UUID NOT NULL REFERENCES public.published_posts(id) ON DELETE CASCADE,
+  captured_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  impressions INTEGER,
+  reactions INTEGER,
+  comments INTEGER,
+  reshares INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_published_post_metrics_post ON public.published_post_metrics(published_post_id, captured_at);
@@ -0,0 +1,20 @@
+-- Track automatic publishing of scheduled drafts
+ALTER TABLE public.scheduled_drafts
+ADD COLUMN IF NOT EXISTS linkedin_post_urn TEXT,
+ADD COLUMN IF NOT EXISTS publish_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS publishing_started_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+
+-- Allow the publisher's in-flight and failure states
+ALTER TABLE public.scheduled_drafts
+DROP CONSTRAINT IF EXISTS scheduled_drafts_status_check;
+
+ALTER TABLE public.scheduled_drafts
+ADD CONSTRAINT scheduled_drafts_status_check
+CHECK (status IN ('saved', 'scheduled', 'publishing', 'posted', 'failed'));
+
+-- Index for the publisher's due-drafts query
+CREATE INDEX IF NOT EXISTS idx_scheduled_drafts_due
+ON public.scheduled_drafts (scheduled_at)
+WHERE status = 'scheduled';
@@ -0,0 +1,12 @@
+-- Rolling conversation memory per thread
+-- Once a thread exceeds the chat token budget, older turns are folded into a
+-- summary that is sent in their place
+ALTER TABLE public.chat_threads
+ADD COLUMN IF NOT EXISTS memory_summary TEXT;
+
+-- Number of leading messages the summary covers
+ALTER TABLE public.chat_threads
+ADD COLUMN IF NOT EXISTS memory_message_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.chat_threads
+ADD COLUMN IF NOT EXISTS memory_updated_at TIMESTAMP WITH TIME ZONE;